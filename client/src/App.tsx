@@ -6,6 +6,7 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { useAuth } from "@/hooks/use-auth";
 import { useMyProfile } from "@/hooks/use-profiles";
+import { useRealtimeConnection } from "@/hooks/use-realtime";
 import { useEffect } from "react";
 import NotFound from "@/pages/not-found";
 
@@ -14,6 +15,7 @@ import Home from "@/pages/Home";
 import ProfilePage from "@/pages/Profile";
 import Onboarding from "@/pages/Onboarding";
 import MessagesPage from "@/pages/Messages";
+import BookingsPage from "@/pages/Bookings";
 import SettingsPage from "@/pages/Settings";
 import EditProfilePage from "@/pages/EditProfile";
 import PrivacyPolicyPage from "@/pages/PrivacyPolicy";
@@ -35,6 +37,7 @@ function Router() {
   const { user, isAuthenticated, isLoading } = useAuth();
   const { data: profile, isLoading: isProfileLoading } = useMyProfile();
   const [location, setLocation] = useLocation();
+  useRealtimeConnection();
   const showLoadingScreen = isLoading || (isAuthenticated && isProfileLoading);
 
   // Auth Guard: If logged in but no profile, force onboarding
@@ -76,6 +79,9 @@ function Router() {
           <Route path="/messages">
             {() => <ProtectedRoute component={MessagesPage} />}
           </Route>
+          <Route path="/bookings">
+            {() => <ProtectedRoute component={BookingsPage} />}
+          </Route>
           <Route path="/settings">
             {() => <ProtectedRoute component={SettingsPage} />}
           </Route>
@@ -0,0 +1,255 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { useAvailability, useUpdateAvailabilityRules, useCreateAvailabilityException, useDeleteAvailabilityException } from "@/hooks/use-availability";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { CalendarClock, Loader2, Plus, Trash2 } from "lucide-react";
+import type { InsertAvailabilityRule } from "@shared/schema";
+
+// Monday first, matching how most people read a working week; values are Date#getDay()
+const WEEKDAYS = [
+  { value: 1, label: "Monday" },
+  { value: 2, label: "Tuesday" },
+  { value: 3, label: "Wednesday" },
+  { value: 4, label: "Thursday" },
+  { value: 5, label: "Friday" },
+  { value: 6, label: "Saturday" },
+  { value: 0, label: "Sunday" },
+];
+
+type TimeWindow = { startTime: string; endTime: string };
+type WeeklyHours = Record<number, TimeWindow[]>;
+
+const DEFAULT_WINDOW: TimeWindow = { startTime: "09:00", endTime: "17:00" };
+
+function toWeeklyHours(rules: InsertAvailabilityRule[]): WeeklyHours {
+  const hours: WeeklyHours = {};
+  for (const day of WEEKDAYS) hours[day.value] = [];
+  for (const rule of rules) {
+    hours[rule.dayOfWeek]?.push({ startTime: rule.startTime, endTime: rule.endTime });
+  }
+  for (const day of WEEKDAYS) hours[day.value].sort((a, b) => a.startTime.localeCompare(b.startTime));
+  return hours;
+}
+
+export function AvailabilityEditor({ providerId }: { providerId: number }) {
+  const { data, isLoading } = useAvailability(providerId);
+  const updateRules = useUpdateAvailabilityRules();
+  const createException = useCreateAvailabilityException();
+  const deleteException = useDeleteAvailabilityException();
+  const { toast } = useToast();
+
+  const [hours, setHours] = useState<WeeklyHours>(() => toWeeklyHours([]));
+  const [exceptionDate, setExceptionDate] = useState("");
+  const [exceptionClosed, setExceptionClosed] = useState(true);
+  const [exceptionStart, setExceptionStart] = useState(DEFAULT_WINDOW.startTime);
+  const [exceptionEnd, setExceptionEnd] = useState(DEFAULT_WINDOW.endTime);
+  const [exceptionReason, setExceptionReason] = useState("");
+
+  useEffect(() => {
+    if (data) setHours(toWeeklyHours(data.rules));
+  }, [data]);
+
+  const updateWindow = (day: number, index: number, field: keyof TimeWindow, value: string) => {
+    setHours(prev => ({
+      ...prev,
+      [day]: prev[day].map((w, i) => (i === index ? { ...w, [field]: value } : w)),
+    }));
+  };
+
+  const handleSaveHours = () => {
+    const rules = WEEKDAYS.flatMap(day => hours[day.value].map(w => ({ dayOfWeek: day.value, ...w })));
+    const invalid = rules.find(r => r.startTime >= r.endTime);
+    if (invalid) {
+      toast({ title: "Check your hours", description: "Each start time must be before its end time.", variant: "destructive" });
+      return;
+    }
+    updateRules.mutate(rules, {
+      onSuccess: () => toast({ title: "Working hours saved" }),
+      onError: (error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  const handleAddException = () => {
+    if (!exceptionDate) return;
+    createException.mutate(
+      {
+        date: exceptionDate,
+        startTime: exceptionClosed ? null : exceptionStart,
+        endTime: exceptionClosed ? null : exceptionEnd,
+        reason: exceptionReason || null,
+      },
+      {
+        onSuccess: () => {
+          toast({ title: "Exception added" });
+          setExceptionDate("");
+          setExceptionReason("");
+        },
+        onError: (error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+      }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Availability
+        </CardTitle>
+        <CardDescription>Set your working hours so clients can book open time slots</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="py-6 flex justify-center"><Loader2 className="animate-spin text-primary" /></div>
+        ) : (
+          <>
+            <div className="space-y-3">
+              {WEEKDAYS.map(day => {
+                const windows = hours[day.value];
+                const isOpen = windows.length > 0;
+                return (
+                  <div key={day.value} className="flex flex-col sm:flex-row sm:items-start gap-2 sm:gap-4">
+                    <div className="flex items-center gap-3 sm:w-40 sm:pt-2">
+                      <Switch
+                        checked={isOpen}
+                        onCheckedChange={(checked) => setHours(prev => ({ ...prev, [day.value]: checked ? [{ ...DEFAULT_WINDOW }] : [] }))}
+                        data-testid={`switch-day-${day.value}`}
+                      />
+                      <span className="text-sm font-medium">{day.label}</span>
+                    </div>
+                    {isOpen ? (
+                      <div className="flex-1 space-y-2">
+                        {windows.map((window, index) => (
+                          <div key={index} className="flex items-center gap-2">
+                            <Input
+                              type="time"
+                              value={window.startTime}
+                              onChange={(e) => updateWindow(day.value, index, "startTime", e.target.value)}
+                              className="w-28"
+                              data-testid={`input-day-${day.value}-start-${index}`}
+                            />
+                            <span className="text-muted-foreground text-sm">to</span>
+                            <Input
+                              type="time"
+                              value={window.endTime}
+                              onChange={(e) => updateWindow(day.value, index, "endTime", e.target.value)}
+                              className="w-28"
+                              data-testid={`input-day-${day.value}-end-${index}`}
+                            />
+                            {index === 0 ? (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => setHours(prev => ({ ...prev, [day.value]: [...prev[day.value], { startTime: "", endTime: "" }] }))}
+                                data-testid={`button-add-window-${day.value}`}
+                              >
+                                <Plus className="h-4 w-4" />
+                              </Button>
+                            ) : (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => setHours(prev => ({ ...prev, [day.value]: prev[day.value].filter((_, i) => i !== index) }))}
+                              >
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <span className="text-sm text-muted-foreground sm:pt-2">Unavailable</span>
+                    )}
+                  </div>
+                );
+              })}
+              <Button onClick={handleSaveHours} disabled={updateRules.isPending} className="w-full" data-testid="button-save-hours">
+                {updateRules.isPending ? "Saving..." : "Save Working Hours"}
+              </Button>
+            </div>
+
+            <div className="space-y-3 border-t border-border pt-6">
+              <div>
+                <h4 className="font-medium">Days off and special hours</h4>
+                <p className="text-sm text-muted-foreground">These replace your weekly hours on the chosen date.</p>
+              </div>
+
+              {data && data.exceptions.length > 0 && (
+                <div className="space-y-2">
+                  {data.exceptions.map(exception => (
+                    <div key={exception.id} className="flex items-center justify-between p-3 bg-secondary/30 rounded-lg">
+                      <div>
+                        <p className="font-medium text-sm">{format(new Date(`${exception.date}T00:00:00`), "EEE d MMM yyyy")}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {exception.startTime && exception.endTime ? `${exception.startTime} – ${exception.endTime}` : "Closed"}
+                          {exception.reason ? ` • ${exception.reason}` : ""}
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteException.mutate(exception.id)}
+                        disabled={deleteException.isPending}
+                        data-testid={`button-delete-exception-${exception.id}`}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="exception-date">Date</Label>
+                  <Input
+                    id="exception-date"
+                    type="date"
+                    value={exceptionDate}
+                    min={format(new Date(), "yyyy-MM-dd")}
+                    onChange={(e) => setExceptionDate(e.target.value)}
+                    className="mt-1"
+                    data-testid="input-exception-date"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="exception-reason">Reason <span className="text-muted-foreground">(Optional)</span></Label>
+                  <Input
+                    id="exception-reason"
+                    value={exceptionReason}
+                    onChange={(e) => setExceptionReason(e.target.value)}
+                    placeholder="e.g., Public holiday"
+                    className="mt-1"
+                    data-testid="input-exception-reason"
+                  />
+                </div>
+              </div>
+              <div className="flex flex-wrap items-center gap-3">
+                <div className="flex items-center gap-2">
+                  <Switch id="exception-closed" checked={exceptionClosed} onCheckedChange={setExceptionClosed} data-testid="switch-exception-closed" />
+                  <Label htmlFor="exception-closed">Closed all day</Label>
+                </div>
+                {!exceptionClosed && (
+                  <div className="flex items-center gap-2">
+                    <Input type="time" value={exceptionStart} onChange={(e) => setExceptionStart(e.target.value)} className="w-28" data-testid="input-exception-start" />
+                    <span className="text-muted-foreground text-sm">to</span>
+                    <Input type="time" value={exceptionEnd} onChange={(e) => setExceptionEnd(e.target.value)} className="w-28" data-testid="input-exception-end" />
+                  </div>
+                )}
+              </div>
+              <Button variant="outline" className="w-full" onClick={handleAddException} disabled={!exceptionDate || createException.isPending} data-testid="button-add-exception">
+                <Plus className="mr-2 h-4 w-4" />
+                {createException.isPending ? "Adding..." : "Add Exception"}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
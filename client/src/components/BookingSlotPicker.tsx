@@ -0,0 +1,106 @@
+import { useMemo, useState } from "react";
+import { addDays, format } from "date-fns";
+import { useServiceSlots } from "@/hooks/use-availability";
+import { Calendar } from "@/components/ui/calendar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+
+// How far ahead clients can pick a slot
+const BOOKING_WINDOW_DAYS = 30;
+
+function parseLocalDate(date: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+interface BookingSlotPickerProps {
+  serviceId: number;
+  variantId?: number;
+  addonIds?: number[];
+  value: string;
+  onChange: (startsAt: string) => void;
+}
+
+// Shows the provider's open slots on a calendar, or a free date/time input
+// when the provider hasn't set up working hours
+export function BookingSlotPicker({ serviceId, variantId, addonIds, value, onChange }: BookingSlotPickerProps) {
+  const today = useMemo(() => new Date(), []);
+  const from = format(today, "yyyy-MM-dd");
+  const to = format(addDays(today, BOOKING_WINDOW_DAYS), "yyyy-MM-dd");
+  const { data, isLoading } = useServiceSlots(serviceId, from, to, { variantId, addonIds });
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+
+  const openDates = useMemo(
+    () => new Set((data?.days || []).filter(d => d.slots.length > 0).map(d => d.date)),
+    [data]
+  );
+
+  if (isLoading) {
+    return <div className="py-8 flex justify-center"><Loader2 className="animate-spin text-primary" /></div>;
+  }
+
+  if (!data?.hasSchedule) {
+    return (
+      <div>
+        <Label htmlFor="booking-starts-at">Date and time</Label>
+        <Input
+          id="booking-starts-at"
+          type="datetime-local"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="mt-1"
+          data-testid="input-booking-starts-at"
+        />
+      </div>
+    );
+  }
+
+  if (openDates.size === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-6">
+        No available times in the next {BOOKING_WINDOW_DAYS} days.
+      </p>
+    );
+  }
+
+  const daySlots = data.days.find(d => d.date === selectedDate)?.slots || [];
+
+  return (
+    <div className="space-y-3">
+      <Calendar
+        mode="single"
+        selected={selectedDate ? parseLocalDate(selectedDate) : undefined}
+        onSelect={(day) => {
+          setSelectedDate(day ? format(day, "yyyy-MM-dd") : null);
+          onChange("");
+        }}
+        fromDate={parseLocalDate(from)}
+        toDate={parseLocalDate(to)}
+        disabled={(day) => !openDates.has(format(day, "yyyy-MM-dd"))}
+        className="rounded-md border border-border mx-auto w-fit"
+        data-testid="calendar-booking-date"
+      />
+      {selectedDate && (
+        <div className="grid grid-cols-3 sm:grid-cols-4 gap-2 max-h-40 overflow-y-auto">
+          {daySlots.map(slot => {
+            const startsAt = slot.startsAt.toISOString();
+            return (
+              <Button
+                key={startsAt}
+                type="button"
+                size="sm"
+                variant={value === startsAt ? "default" : "outline"}
+                onClick={() => onChange(startsAt)}
+                data-testid={`button-slot-${startsAt}`}
+              >
+                {format(slot.startsAt, "h:mm a")}
+              </Button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 import { useEffect, useState } from "react";
-import { MapContainer, TileLayer, Marker, Popup, useMap } from "react-leaflet";
+import { MapContainer, TileLayer, Marker, Circle, Popup, useMap, useMapEvents } from "react-leaflet";
 import { Link } from "wouter";
-import { Profile, Service } from "@shared/schema";
+import { Profile, Service, PublicProviderLocation } from "@shared/schema";
+import { APPROXIMATE_LOCATION_RADIUS_M } from "@shared/locations";
 import L from "leaflet";
 import { Star, MapPin } from "lucide-react";
 import { Button } from "./ui/button";
@@ -34,6 +35,10 @@ const HighlightedPinkIcon = L.divIcon({
   popupAnchor: [0, -56],
 });
 
+// Area drawn around home-based providers, who aren't pinned to their address
+const approximateAreaStyle = { color: "#e07a9e", weight: 2, fillColor: "#e07a9e", fillOpacity: 0.15 };
+const highlightedApproximateAreaStyle = { ...approximateAreaStyle, weight: 3, fillOpacity: 0.35 };
+
 // Helper to update map center when props change
 function MapController({ center, zoom, isVisible }: { center: [number, number]; zoom: number; isVisible?: boolean }) {
   const map = useMap();
@@ -90,16 +95,40 @@ function MapController({ center, zoom, isVisible }: { center: [number, number];
   return null;
 }
 
+export interface MapBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+// Reports the visible viewport whenever the user finishes panning or zooming
+function BoundsReporter({ onBoundsChange }: { onBoundsChange: (bounds: MapBounds) => void }) {
+  const map = useMapEvents({
+    moveend: () => {
+      const bounds = map.getBounds();
+      onBoundsChange({
+        north: bounds.getNorth(),
+        south: bounds.getSouth(),
+        east: bounds.getEast(),
+        west: bounds.getWest(),
+      });
+    },
+  });
+  return null;
+}
+
 interface MapProps {
-  profiles: (Profile & { services: Service[] })[];
+  profiles: (Profile & { services: Service[]; locationApproximate?: boolean; locations?: PublicProviderLocation[] })[];
   selectedId?: number;
   hoveredProfileId?: number | null;
   center?: [number, number];
   zoom?: number;
   isVisible?: boolean;
+  onBoundsChange?: (bounds: MapBounds) => void;
 }
 
-export default function Map({ profiles, selectedId, hoveredProfileId, center = [-33.8688, 151.2093], zoom = 12, isVisible = true }: MapProps) {
+export default function Map({ profiles, selectedId, hoveredProfileId, center = [-33.8688, 151.2093], zoom = 12, isVisible = true, onBoundsChange }: MapProps) {
   // Filter out mobile providers and profiles with invalid coordinates
   // Only show providers who have a fixed location on the map
   const validProfiles = profiles.filter((p) => {
@@ -112,6 +141,28 @@ export default function Map({ profiles, selectedId, hoveredProfileId, center = [
     const hasLocationText = typeof p.location === "string" && p.location.trim().length > 0;
     return Number.isFinite(lat) && Number.isFinite(lng) && hasSelectableLocation && hasLocationText;
   });
+
+  // One marker per place a provider works from: their profile's location, then each of their other locations
+  const points = [
+    ...validProfiles.map((profile) => ({
+      key: `${profile.id}`,
+      profile,
+      lat: typeof profile.latitude === "number" ? profile.latitude : Number(profile.latitude),
+      lng: typeof profile.longitude === "number" ? profile.longitude : Number(profile.longitude),
+      locationType: profile.locationType,
+      label: null as string | null,
+      approximate: !!profile.locationApproximate,
+    })),
+    ...profiles.flatMap((profile) => (profile.locations ?? []).map((location) => ({
+      key: `${profile.id}-${location.id}`,
+      profile,
+      lat: location.latitude,
+      lng: location.longitude,
+      locationType: location.locationType,
+      label: location.label,
+      approximate: location.locationApproximate,
+    }))),
+  ];
   
   const validCenter: [number, number] =
     center &&
@@ -138,17 +189,10 @@ export default function Map({ profiles, selectedId, hoveredProfileId, center = [
           url="https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png"
         />
         <MapController center={validCenter} zoom={zoom} isVisible={isVisible} />
+        {onBoundsChange && <BoundsReporter onBoundsChange={onBoundsChange} />}
         
-        {validProfiles.map((profile) => {
-          const lat = typeof profile.latitude === "number" ? profile.latitude : Number(profile.latitude);
-          const lng = typeof profile.longitude === "number" ? profile.longitude : Number(profile.longitude);
-          return (
-          <Marker 
-            key={profile.id} 
-            position={[lat, lng]}
-            icon={hoveredProfileId === profile.id ? HighlightedPinkIcon : PinkIcon}
-            zIndexOffset={hoveredProfileId === profile.id ? 1000 : 0}
-          >
+        {points.map(({ key, profile, lat, lng, locationType, label, approximate }) => {
+          const popup = (
             <Popup className="custom-popup" closeButton={false}>
               <div className="flex flex-col">
                 <div className="h-10 bg-card relative" />
@@ -165,7 +209,7 @@ export default function Map({ profiles, selectedId, hoveredProfileId, center = [
                     <div>
                       <h3 className="font-display font-bold text-lg">{profile.username}</h3>
                       <p className="text-xs text-muted-foreground capitalize flex items-center gap-1">
-                        <MapPin size={10} /> {profile.locationType?.replace('_', ' ')}
+                        <MapPin size={10} /> {label ? `${label} • ` : ''}{locationType?.replace('_', ' ')}
                       </p>
                     </div>
                     <div className="flex items-center gap-1 bg-amber-100 text-amber-700 px-2 py-0.5 rounded-full text-xs font-bold">
@@ -207,6 +251,28 @@ export default function Map({ profiles, selectedId, hoveredProfileId, center = [
                 </div>
               </div>
             </Popup>
+          );
+          const highlighted = hoveredProfileId === profile.id;
+          if (approximate) {
+            return (
+              <Circle
+                key={key}
+                center={[lat, lng]}
+                radius={APPROXIMATE_LOCATION_RADIUS_M}
+                pathOptions={highlighted ? highlightedApproximateAreaStyle : approximateAreaStyle}
+              >
+                {popup}
+              </Circle>
+            );
+          }
+          return (
+          <Marker 
+            key={key} 
+            position={[lat, lng]}
+            icon={highlighted ? HighlightedPinkIcon : PinkIcon}
+            zIndexOffset={highlighted ? 1000 : 0}
+          >
+            {popup}
           </Marker>
         );
         })}
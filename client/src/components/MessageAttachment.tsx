@@ -0,0 +1,81 @@
+import { useEffect, useState } from "react";
+import { buildUrl, api } from "@shared/routes";
+import type { MessageAttachment as Attachment } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { FileText, ImageOff, Loader2 } from "lucide-react";
+
+// Attachments need the auth header, so they are fetched as blobs rather than linked directly
+function useAttachmentUrl(id: number) {
+  const { getToken } = useAuth();
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    (async () => {
+      try {
+        const token = await getToken();
+        const res = await fetch(buildUrl(api.messages.attachment.path, { id }), {
+          headers: {
+            "Authorization": `Bearer ${token}`,
+          },
+        });
+        if (!res.ok) throw new Error("Failed to load attachment");
+        const blob = await res.blob();
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      } catch {
+        if (!cancelled) setFailed(true);
+      }
+    })();
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [id]);
+
+  return { url, failed };
+}
+
+export function MessageAttachment({ attachment }: { attachment: Attachment }) {
+  const { url, failed } = useAttachmentUrl(attachment.id);
+  const isImage = attachment.contentType.startsWith("image/");
+
+  if (failed) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-muted-foreground rounded-lg border border-border px-3 py-2">
+        <ImageOff size={14} /> Attachment unavailable
+      </div>
+    );
+  }
+
+  if (!url) {
+    return (
+      <div className={`flex items-center justify-center rounded-lg bg-muted ${isImage ? "w-48 h-36" : "px-3 py-2"}`}>
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (isImage) {
+    return (
+      <a href={url} target="_blank" rel="noopener noreferrer" data-testid={`attachment-${attachment.id}`}>
+        <img src={url} alt={attachment.name} className="max-w-[240px] max-h-60 rounded-lg object-cover border border-border" />
+      </a>
+    );
+  }
+
+  return (
+    <a
+      href={url}
+      download={attachment.name}
+      className="flex items-center gap-2 text-sm rounded-lg border border-border bg-background px-3 py-2 hover:bg-muted transition-colors max-w-[240px]"
+      data-testid={`attachment-${attachment.id}`}
+    >
+      <FileText size={16} className="shrink-0 text-primary" />
+      <span className="truncate">{attachment.name}</span>
+    </a>
+  );
+}
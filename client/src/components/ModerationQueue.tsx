@@ -0,0 +1,217 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { reportReasonLabels } from "@/components/ReportDialog";
+import { Check, EyeOff, Flag, Loader2, Star, Trash2 } from "lucide-react";
+import type { InsertModerationDecision, ModerationDecision, Report, ReportWithDetails } from "@shared/schema";
+
+const statusLabels: Record<Report["status"], string> = {
+  pending: "Pending",
+  resolved: "Resolved",
+  dismissed: "Dismissed",
+};
+
+const actionLabels: Record<ModerationDecision["action"], string> = {
+  approve: "Approved",
+  hide: "Hidden",
+  delete: "Deleted",
+};
+
+export function ModerationQueue() {
+  const { getToken } = useAuth();
+  const [status, setStatus] = useState<Report["status"]>("pending");
+
+  const { data: reports, isLoading } = useQuery<ReportWithDetails[]>({
+    queryKey: ["/api/admin/reports", status],
+    queryFn: async () => {
+      const token = await getToken();
+      const res = await fetch(`/api/admin/reports?status=${status}`, {
+        headers: { "Authorization": `Bearer ${token}` }
+      });
+      if (!res.ok) throw new Error("Failed to fetch reports");
+      return res.json();
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-semibold">Moderation Queue</h2>
+        <Select value={status} onValueChange={(value) => setStatus(value as Report["status"])}>
+          <SelectTrigger className="w-40" data-testid="select-report-status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(statusLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : !reports || reports.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            <Flag className="h-8 w-8 mx-auto mb-2 opacity-30" />
+            No {statusLabels[status].toLowerCase()} reports
+          </CardContent>
+        </Card>
+      ) : (
+        reports.map((report) => <ReportCard key={report.id} report={report} />)
+      )}
+    </div>
+  );
+}
+
+function ReportCard({ report }: { report: ReportWithDetails }) {
+  const { getToken } = useAuth();
+  const { toast } = useToast();
+  const [reason, setReason] = useState("");
+
+  const decide = useMutation({
+    mutationFn: async (action: InsertModerationDecision["action"]) => {
+      const token = await getToken();
+      const res = await fetch(`/api/admin/reports/${report.id}/decision`, {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ action, reason: reason.trim() }),
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to apply decision");
+      }
+    },
+    onSuccess: (_, action) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/reports"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/profiles"] });
+      toast({ title: `Content ${actionLabels[action].toLowerCase()}`, description: "The owner has been notified." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const canDecide = reason.trim().length > 0 && !decide.isPending;
+
+  return (
+    <Card data-testid={`report-${report.id}`}>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant="outline" className="capitalize">{report.targetType}</Badge>
+          <Badge variant="secondary">{reportReasonLabels[report.reason]}</Badge>
+          <span className="text-xs text-muted-foreground ml-auto">
+            {report.createdAt && formatDistanceToNow(new Date(report.createdAt), { addSuffix: true })}
+            {" "}by {report.reporter?.username || "deleted account"}
+          </span>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <Avatar className="w-10 h-10">
+            {report.subject?.profileImageUrl && <AvatarImage src={report.subject.profileImageUrl} alt={report.subject.username} />}
+            <AvatarFallback>{report.subject?.username?.[0]?.toUpperCase() || "?"}</AvatarFallback>
+          </Avatar>
+          <div className="min-w-0">
+            {report.subject ? (
+              <Link href={`/profile/${report.subject.username}`} className="font-medium hover:underline">
+                {report.subject.username}
+              </Link>
+            ) : (
+              <span className="font-medium text-muted-foreground">Content no longer exists</span>
+            )}
+            {report.targetType === "message" && report.message && (
+              <p className="text-sm text-muted-foreground break-words">"{report.message.content || "(attachment)"}"</p>
+            )}
+            {report.targetType === "review" && report.review && (
+              <div className="text-sm text-muted-foreground">
+                <span className="inline-flex items-center gap-1 mr-2">
+                  <Star size={12} className="fill-amber-400 text-amber-400" /> {report.review.rating}
+                </span>
+                <span className="break-words">{report.review.comment ? `"${report.review.comment}"` : "(no comment)"}</span>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {report.targetType === "image" && report.imageUrl && (
+          <img
+            src={report.imageUrl}
+            alt="Reported profile photo"
+            className="w-40 h-40 rounded-lg object-cover border border-border"
+          />
+        )}
+
+        {report.details && (
+          <p className="text-sm bg-muted/50 rounded-lg p-3">{report.details}</p>
+        )}
+
+        {report.decision && (
+          <p className="text-sm text-muted-foreground">
+            <span className="font-medium text-foreground">{actionLabels[report.decision.action]}</span>
+            {" "}— {report.decision.reason}
+          </p>
+        )}
+
+        {report.status === "pending" && (
+          <div className="space-y-2">
+            <Textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={1000}
+              placeholder="Reason for your decision (sent to the owner)"
+              className="min-h-[60px]"
+              data-testid={`input-decision-reason-${report.id}`}
+            />
+            <div className="flex gap-2 justify-end">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => decide.mutate("approve")}
+                disabled={!canDecide}
+                data-testid={`button-approve-report-${report.id}`}
+              >
+                <Check className="h-4 w-4 mr-1" /> Approve
+              </Button>
+              {report.targetType !== "message" && (
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => decide.mutate("hide")}
+                  disabled={!canDecide}
+                  data-testid={`button-hide-report-${report.id}`}
+                >
+                  <EyeOff className="h-4 w-4 mr-1" /> Hide
+                </Button>
+              )}
+              <Button
+                variant="destructive"
+                size="sm"
+                onClick={() => decide.mutate("delete")}
+                disabled={!canDecide}
+                data-testid={`button-delete-report-${report.id}`}
+              >
+                <Trash2 className="h-4 w-4 mr-1" /> Delete
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
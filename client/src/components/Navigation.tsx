@@ -1,7 +1,9 @@
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import { useMyProfile } from "@/hooks/use-profiles";
-import { MapPin, MessageSquare, User, LogOut, Settings, Pencil, Bell, X, ShieldCheck } from "lucide-react";
+import { useRealtimeStatus } from "@/hooks/use-realtime";
+import { useUnreadMessageCount } from "@/hooks/use-messages";
+import { MapPin, MessageSquare, User, LogOut, Settings, Pencil, Bell, X, ShieldCheck, CalendarDays } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
@@ -24,6 +26,7 @@ export function Navigation() {
   const { user, logout, isAuthenticated, getToken, isLoading } = useAuth();
   const { data: profile, isLoading: profileLoading } = useMyProfile();
   const queryClient = useQueryClient();
+  const isLive = useRealtimeStatus();
   const [authTimeout, setAuthTimeout] = useState(false);
 
   useEffect(() => {
@@ -48,7 +51,8 @@ export function Navigation() {
       if (!res.ok) throw new Error("Failed to fetch notifications");
       return api.notifications.list.responses[200].parse(await res.json());
     },
-    refetchInterval: 30000,
+    // Pushed over the socket when connected
+    refetchInterval: isLive ? false : 30000,
   });
 
   const deleteNotification = useMutation({
@@ -95,6 +99,7 @@ export function Navigation() {
     onSuccess: () => queryClient.invalidateQueries({ queryKey: [api.notifications.list.path] }),
   });
 
+  const { data: unreadMessageCount = 0 } = useUnreadMessageCount();
   const unreadCount = notifications.filter((n: Notification) => !n.read).length;
   const showProfileItems = profileLoading || !!profile;
 
@@ -148,6 +153,11 @@ export function Navigation() {
               <Link href="/messages">
                 <Button variant="ghost" size="icon" className="relative h-11 w-11" data-testid="button-messages">
                   <MessageSquare size={22} />
+                  {unreadMessageCount > 0 && (
+                    <span className="absolute -top-1 -right-1 h-5 w-5 flex items-center justify-center bg-pink-500 text-white text-xs font-bold rounded-full" data-testid="badge-unread-messages">
+                      {unreadMessageCount > 9 ? '9+' : unreadMessageCount}
+                    </span>
+                  )}
                 </Button>
               </Link>
               
@@ -259,6 +269,19 @@ export function Navigation() {
                           <span>Edit Profile</span>
                         </DropdownMenuItem>
                       )}
+                      {profile ? (
+                        <DropdownMenuItem asChild>
+                          <Link href="/bookings" className="cursor-pointer" data-testid="link-bookings">
+                            <CalendarDays className="mr-2 h-4 w-4" />
+                            <span>Bookings</span>
+                          </Link>
+                        </DropdownMenuItem>
+                      ) : (
+                        <DropdownMenuItem disabled>
+                          <CalendarDays className="mr-2 h-4 w-4" />
+                          <span>Bookings</span>
+                        </DropdownMenuItem>
+                      )}
                       {profile ? (
                         <DropdownMenuItem asChild>
                           <Link href="/settings" className="cursor-pointer">
@@ -0,0 +1,43 @@
+import { Badge } from "@/components/ui/badge";
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from "@/components/ui/carousel";
+import type { PortfolioImage, Service } from "@shared/schema";
+
+interface PortfolioCarouselProps {
+  images: PortfolioImage[];
+  // Used to label images tagged with one of the provider's services
+  services: Service[];
+}
+
+export function PortfolioCarousel({ images, services }: PortfolioCarouselProps) {
+  if (images.length === 0) return null;
+
+  return (
+    <div className="mb-8" data-testid="portfolio-carousel">
+      <h3 className="font-bold text-lg mb-3">Portfolio</h3>
+      <Carousel opts={{ align: "start" }} className="mx-10">
+        <CarouselContent>
+          {images.map((image) => {
+            const service = services.find((s) => s.id === image.serviceId);
+            return (
+              <CarouselItem key={image.id} className="basis-full sm:basis-1/2">
+                <figure className="space-y-2">
+                  <div className="relative aspect-square rounded-2xl overflow-hidden bg-muted">
+                    <img src={image.url} alt={image.caption || "Portfolio image"} loading="lazy" className="w-full h-full object-cover" />
+                    {service && (
+                      <Badge variant="secondary" className="absolute bottom-2 left-2">{service.name}</Badge>
+                    )}
+                  </div>
+                  {image.caption && (
+                    <figcaption className="text-sm text-muted-foreground">{image.caption}</figcaption>
+                  )}
+                </figure>
+              </CarouselItem>
+            );
+          })}
+        </CarouselContent>
+        <CarouselPrevious />
+        <CarouselNext />
+      </Carousel>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+import { useEffect, useRef, useState } from "react";
+import { useAddPortfolioImage, useDeletePortfolioImage, useReorderPortfolio, useUpdatePortfolioImage } from "@/hooks/use-portfolio";
+import { useUpload } from "@/hooks/use-upload";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GripVertical, ImagePlus, Images, Loader2, Trash2 } from "lucide-react";
+import { MAX_PORTFOLIO_IMAGES, type PortfolioImage, type Service } from "@shared/schema";
+
+const NO_SERVICE = "none";
+
+interface PortfolioEditorProps {
+  portfolio: PortfolioImage[];
+  services: Service[];
+}
+
+function PortfolioTile({ image, services }: { image: PortfolioImage; services: Service[] }) {
+  const updateImage = useUpdatePortfolioImage();
+  const deleteImage = useDeletePortfolioImage();
+  const { toast } = useToast();
+  const [caption, setCaption] = useState(image.caption ?? "");
+
+  useEffect(() => setCaption(image.caption ?? ""), [image.caption]);
+
+  const save = (updates: Parameters<typeof updateImage.mutate>[0]) => {
+    updateImage.mutate(updates, {
+      onError: (error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  return (
+    <>
+      <div className="relative aspect-square rounded-lg overflow-hidden bg-muted">
+        <img src={image.url} alt={image.caption || "Portfolio image"} className="w-full h-full object-cover pointer-events-none" />
+        <div className="absolute top-1 left-1 rounded bg-background/80 p-0.5 cursor-grab">
+          <GripVertical className="h-4 w-4 text-muted-foreground" />
+        </div>
+        <Button
+          variant="secondary"
+          size="icon"
+          className="absolute top-1 right-1 h-7 w-7"
+          onClick={() => deleteImage.mutate(image.id)}
+          disabled={deleteImage.isPending}
+          data-testid={`button-delete-portfolio-${image.id}`}
+        >
+          <Trash2 className="h-3.5 w-3.5 text-destructive" />
+        </Button>
+      </div>
+      <Input
+        value={caption}
+        onChange={(e) => setCaption(e.target.value)}
+        onBlur={() => caption.trim() !== (image.caption ?? "") && save({ id: image.id, caption: caption.trim() || null })}
+        maxLength={300}
+        placeholder="Caption"
+        className="h-8 text-sm"
+        data-testid={`input-portfolio-caption-${image.id}`}
+      />
+      <Select
+        value={image.serviceId ? String(image.serviceId) : NO_SERVICE}
+        onValueChange={(value) => save({ id: image.id, serviceId: value === NO_SERVICE ? null : Number(value) })}
+      >
+        <SelectTrigger className="h-8 text-sm" data-testid={`select-portfolio-service-${image.id}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_SERVICE}>No service</SelectItem>
+          {services.map((service) => (
+            <SelectItem key={service.id} value={String(service.id)}>{service.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </>
+  );
+}
+
+export function PortfolioEditor({ portfolio, services }: PortfolioEditorProps) {
+  const addImage = useAddPortfolioImage();
+  const reorder = useReorderPortfolio();
+  const { uploadFile, isUploading } = useUpload();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Local order so a drop shows immediately while the new order is saved
+  const [order, setOrder] = useState(portfolio);
+  const [draggingId, setDraggingId] = useState<number | null>(null);
+  useEffect(() => setOrder(portfolio), [portfolio]);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files) return;
+    for (const file of Array.from(files).slice(0, MAX_PORTFOLIO_IMAGES - order.length)) {
+      if (!file.type.startsWith("image/")) {
+        toast({ title: "Invalid file type", description: `${file.name} is not an image`, variant: "destructive" });
+        continue;
+      }
+      const uploaded = await uploadFile(file);
+      if (!uploaded) {
+        toast({ title: "Upload failed", description: `Could not upload ${file.name}`, variant: "destructive" });
+        continue;
+      }
+      try {
+        await addImage.mutateAsync({ url: uploaded.objectPath });
+      } catch (error) {
+        toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+      }
+    }
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleDragOver = (e: React.DragEvent, overId: number) => {
+    e.preventDefault();
+    if (draggingId === null || draggingId === overId) return;
+    setOrder((current) => {
+      const from = current.findIndex((image) => image.id === draggingId);
+      const to = current.findIndex((image) => image.id === overId);
+      const next = [...current];
+      next.splice(to, 0, next.splice(from, 1)[0]);
+      return next;
+    });
+  };
+
+  const handleDrop = () => {
+    setDraggingId(null);
+    const ids = order.map((image) => image.id);
+    if (ids.join() === portfolio.map((image) => image.id).join()) return;
+    reorder.mutate(ids, {
+      onError: (error) => {
+        setOrder(portfolio);
+        toast({ title: "Error", description: error.message, variant: "destructive" });
+      },
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Images className="h-5 w-5" />
+          Portfolio
+        </CardTitle>
+        <CardDescription>Show off your work. Drag photos to change their order.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {order.length > 0 ? (
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+            {order.map((image) => (
+              <div
+                key={image.id}
+                draggable
+                onDragStart={() => setDraggingId(image.id)}
+                onDragOver={(e) => handleDragOver(e, image.id)}
+                onDrop={handleDrop}
+                onDragEnd={() => draggingId !== null && handleDrop()}
+                className={`space-y-2 ${draggingId === image.id ? "opacity-50" : ""}`}
+                data-testid={`portfolio-image-${image.id}`}
+              >
+                <PortfolioTile image={image} services={services} />
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-muted-foreground text-center py-4">No portfolio photos yet</p>
+        )}
+
+        {order.length < MAX_PORTFOLIO_IMAGES && (
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isUploading || addImage.isPending}
+            data-testid="button-add-portfolio-image"
+          >
+            {isUploading || addImage.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ImagePlus className="mr-2 h-4 w-4" />}
+            Add Photos
+          </Button>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/jpeg,image/png,image/gif,image/webp"
+          multiple
+          className="hidden"
+          onChange={(e) => handleFiles(e.target.files)}
+        />
+      </CardContent>
+    </Card>
+  );
+}
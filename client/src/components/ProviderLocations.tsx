@@ -0,0 +1,260 @@
+import { useState } from "react";
+import { useCreateProviderLocation, useUpdateProviderLocation, useDeleteProviderLocation } from "@/hooks/use-provider-locations";
+import { useLocationSearch, useGeocodeSearch } from "@/hooks/use-locations";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Building2, Clock, Loader2, MapPin, Pencil, Plus, Trash2 } from "lucide-react";
+import { shortenLocation } from "@/lib/utils";
+import { formatLocality } from "@shared/locations";
+import { MAX_PROVIDER_LOCATIONS, type ProviderLocation, type PublicProviderLocation } from "@shared/schema";
+
+const locationTypeLabels: Record<ProviderLocation["locationType"], string> = {
+  studio: "Studio",
+  house: "Home-based",
+  apartment: "Apartment",
+  rented_space: "Rented Space",
+};
+
+type Place = { location: string; latitude: number; longitude: number };
+
+// A provider's places of work besides the one on their profile, each with its own type and hours
+export function ProviderLocationsEditor({ locations }: { locations: ProviderLocation[] }) {
+  const createLocation = useCreateProviderLocation();
+  const updateLocation = useUpdateProviderLocation();
+  const deleteLocation = useDeleteProviderLocation();
+  const { toast } = useToast();
+
+  // The dialog adds a new location, or edits editing when it's set
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<ProviderLocation | null>(null);
+  const [label, setLabel] = useState("");
+  const [locationType, setLocationType] = useState<ProviderLocation["locationType"]>("studio");
+  const [hours, setHours] = useState("");
+  const [place, setPlace] = useState<Place | null>(null);
+  const [search, setSearch] = useState("");
+
+  const searchTerm = place ? "" : search;
+  const { data: suburbResults = [] } = useLocationSearch(searchTerm, { limit: 5 });
+  const { data: addressResults = [], isFetching: isSearching } = useGeocodeSearch(searchTerm);
+  const locationResults = addressResults.filter((result) => !suburbResults.some((locality) => formatLocality(locality) === result.label));
+
+  const openDialog = (location: ProviderLocation | null) => {
+    setEditing(location);
+    setLabel(location?.label ?? "");
+    setLocationType(location?.locationType ?? "studio");
+    setHours(location?.hours ?? "");
+    setPlace(location ? { location: location.location, latitude: location.latitude, longitude: location.longitude } : null);
+    setSearch(location?.location ?? "");
+    setDialogOpen(true);
+  };
+
+  const selectPlace = (selected: Place) => {
+    setPlace(selected);
+    setSearch(selected.location);
+  };
+
+  const handleSave = () => {
+    if (!place) {
+      toast({ title: "Choose an address", description: "Pick the location from the suggestions so it can be shown on the map.", variant: "destructive" });
+      return;
+    }
+    const data = { ...place, label: label.trim() || null, locationType, hours: hours.trim() || null };
+    const options = {
+      onSuccess: () => {
+        toast({ title: editing ? "Location updated" : "Location added" });
+        setDialogOpen(false);
+      },
+      onError: (error: Error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+    };
+    if (editing) {
+      updateLocation.mutate({ id: editing.id, ...data }, options);
+    } else {
+      createLocation.mutate(data, options);
+    }
+  };
+
+  const isSaving = createLocation.isPending || updateLocation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Building2 className="h-5 w-5" />
+          Other Locations
+        </CardTitle>
+        <CardDescription>Other places you work from, like a chair you rent on weekends</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {locations.length > 0 ? (
+          <div className="space-y-3">
+            {locations.map((location) => (
+              <div key={location.id} className="flex items-center justify-between p-3 bg-secondary/30 rounded-lg">
+                <div className="min-w-0">
+                  <h4 className="font-medium">{location.label || locationTypeLabels[location.locationType]}</h4>
+                  <p className="text-sm text-muted-foreground truncate">
+                    {location.label ? `${locationTypeLabels[location.locationType]} • ` : ""}{location.location}
+                  </p>
+                  {location.hours && <p className="text-sm text-muted-foreground">{location.hours}</p>}
+                </div>
+                <div className="flex shrink-0">
+                  <Button variant="ghost" size="icon" onClick={() => openDialog(location)} data-testid={`button-edit-location-${location.id}`}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteLocation.mutate(location.id, {
+                      onError: (error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+                    })}
+                    disabled={deleteLocation.isPending}
+                    data-testid={`button-delete-location-${location.id}`}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-muted-foreground text-center py-4">No other locations added</p>
+        )}
+
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => openDialog(null)}
+          disabled={locations.length >= MAX_PROVIDER_LOCATIONS}
+          data-testid="button-add-location"
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Location
+        </Button>
+
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{editing ? "Edit Location" : "Add Location"}</DialogTitle>
+              <DialogDescription>Clients can find you near any of your locations.</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 py-4">
+              <div>
+                <Label htmlFor="provider-location-label">Name <span className="text-muted-foreground">(Optional)</span></Label>
+                <Input
+                  id="provider-location-label"
+                  value={label}
+                  onChange={(e) => setLabel(e.target.value)}
+                  placeholder="e.g., Weekend chair"
+                  className="mt-1"
+                  data-testid="input-provider-location-label"
+                />
+              </div>
+              <div>
+                <Label htmlFor="provider-location-type">Location Type</Label>
+                <Select value={locationType} onValueChange={(val: ProviderLocation["locationType"]) => setLocationType(val)}>
+                  <SelectTrigger id="provider-location-type" className="mt-1" data-testid="select-provider-location-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(locationTypeLabels).map(([value, text]) => (
+                      <SelectItem key={value} value={value}>{text}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="relative">
+                <Label htmlFor="provider-location-search">Address</Label>
+                <div className="relative mt-1">
+                  <Input
+                    id="provider-location-search"
+                    value={search}
+                    onChange={(e) => {
+                      setSearch(e.target.value);
+                      setPlace(null);
+                    }}
+                    placeholder="Search for the suburb or address..."
+                    data-testid="input-provider-location-search"
+                  />
+                  {isSearching && (
+                    <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 animate-spin text-muted-foreground" />
+                  )}
+                </div>
+                {!place && (suburbResults.length > 0 || locationResults.length > 0) && (
+                  <div className="absolute z-50 w-full mt-1 bg-card border border-border rounded-lg shadow-lg max-h-60 overflow-y-auto">
+                    {suburbResults.map((locality, index) => (
+                      <button
+                        key={locality.id}
+                        type="button"
+                        onClick={() => selectPlace({ location: formatLocality(locality), latitude: locality.latitude, longitude: locality.longitude })}
+                        className="w-full px-4 py-3 text-left text-sm hover:bg-muted transition-colors border-b border-border/50 last:border-b-0"
+                        data-testid={`provider-location-suburb-${index}`}
+                      >
+                        {formatLocality(locality)}
+                      </button>
+                    ))}
+                    {locationResults.map((result, index) => (
+                      <button
+                        key={index}
+                        type="button"
+                        onClick={() => selectPlace({ location: result.label, latitude: result.latitude, longitude: result.longitude })}
+                        className="w-full px-4 py-3 text-left text-sm hover:bg-muted transition-colors border-b border-border/50 last:border-b-0"
+                        data-testid={`provider-location-result-${index}`}
+                      >
+                        {result.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div>
+                <Label htmlFor="provider-location-hours">Hours <span className="text-muted-foreground">(Optional)</span></Label>
+                <Input
+                  id="provider-location-hours"
+                  value={hours}
+                  onChange={(e) => setHours(e.target.value)}
+                  placeholder="e.g., Sat–Sun 10am–4pm"
+                  className="mt-1"
+                  data-testid="input-provider-location-hours"
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button onClick={handleSave} disabled={isSaving} data-testid="button-save-location">
+                {isSaving ? "Saving..." : editing ? "Save Location" : "Add Location"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
+
+// The provider's other locations on their profile page
+export function ProviderLocationsList({ locations }: { locations: PublicProviderLocation[] }) {
+  if (locations.length === 0) return null;
+
+  return (
+    <div className="mt-2 space-y-1" data-testid="list-provider-locations">
+      <p className="text-xs font-medium text-muted-foreground">Also works from</p>
+      {locations.map((location) => (
+        <div key={location.id} className="text-xs text-muted-foreground" data-testid={`provider-location-${location.id}`}>
+          <p className="flex items-center justify-center md:justify-start gap-1">
+            <MapPin size={12} />
+            {location.label ? `${location.label} • ` : ""}{locationTypeLabels[location.locationType]} • {shortenLocation(location.location)}
+            {location.locationApproximate && " (approximate area)"}
+          </p>
+          {location.hours && (
+            <p className="flex items-center justify-center md:justify-start gap-1">
+              <Clock size={12} /> {location.hours}
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
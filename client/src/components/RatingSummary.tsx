@@ -0,0 +1,70 @@
+import { Star } from "lucide-react";
+import { subRatingKeys, subRatingLabels } from "@shared/ratings";
+import type { Review } from "@shared/schema";
+
+interface RatingSummaryProps {
+  reviews: Review[];
+  rating: number;
+}
+
+// Average rating, a per-star histogram and the averages of any sub-ratings reviewers gave
+export function RatingSummary({ reviews, rating }: RatingSummaryProps) {
+  if (reviews.length === 0) return null;
+
+  const counts = [5, 4, 3, 2, 1].map((stars) => ({
+    stars,
+    count: reviews.filter((review) => review.rating === stars).length,
+  }));
+  const maxCount = Math.max(...counts.map((c) => c.count));
+
+  const aspects = subRatingKeys
+    .map((key) => {
+      const scores = reviews.map((review) => review[key]).filter((score): score is number => score !== null);
+      return {
+        key,
+        count: scores.length,
+        average: scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : 0,
+      };
+    })
+    .filter((aspect) => aspect.count > 0);
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-6 mb-8 p-4 rounded-2xl bg-secondary/30" data-testid="rating-summary">
+      <div className="flex flex-col items-center justify-center sm:w-28 shrink-0">
+        <span className="text-4xl font-bold font-display">{rating.toFixed(1)}</span>
+        <div className="flex text-amber-400 my-1">
+          {Array.from({ length: 5 }).map((_, i) => (
+            <Star key={i} size={14} className={i < Math.round(rating) ? "fill-current" : "text-muted fill-muted"} />
+          ))}
+        </div>
+        <span className="text-xs text-muted-foreground">{reviews.length} review{reviews.length === 1 ? "" : "s"}</span>
+      </div>
+
+      <div className="flex-1 space-y-1.5">
+        {counts.map(({ stars, count }) => (
+          <div key={stars} className="flex items-center gap-2 text-sm" data-testid={`rating-bar-${stars}`}>
+            <span className="w-3 text-right text-muted-foreground">{stars}</span>
+            <Star size={12} className="fill-amber-400 text-amber-400 shrink-0" />
+            <div className="flex-1 h-2 rounded-full bg-muted overflow-hidden">
+              <div className="h-full bg-amber-400 rounded-full" style={{ width: maxCount > 0 ? `${(count / maxCount) * 100}%` : 0 }} />
+            </div>
+            <span className="w-6 text-xs text-muted-foreground">{count}</span>
+          </div>
+        ))}
+      </div>
+
+      {aspects.length > 0 && (
+        <div className="sm:w-44 shrink-0 space-y-1.5">
+          {aspects.map((aspect) => (
+            <div key={aspect.key} className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">{subRatingLabels[aspect.key]}</span>
+              <span className="font-medium flex items-center gap-1">
+                <Star size={12} className="fill-amber-400 text-amber-400" /> {aspect.average.toFixed(1)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
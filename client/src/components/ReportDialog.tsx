@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { useCreateReport } from "@/hooks/use-moderation";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import type { InsertReport } from "@shared/schema";
+
+export const reportReasonLabels: Record<InsertReport["reason"], string> = {
+  spam: "Spam or scam",
+  harassment: "Harassment or abuse",
+  inappropriate: "Inappropriate content",
+  fake: "Fake profile",
+  other: "Something else",
+};
+
+const targetNouns: Record<InsertReport["targetType"], string> = {
+  message: "message",
+  profile: "profile",
+  review: "review",
+  image: "photo",
+};
+
+interface ReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  targetType: InsertReport["targetType"];
+  targetId: number;
+  // The owner of the content, e.g. the username being reported
+  targetLabel: string;
+}
+
+export function ReportDialog({ open, onOpenChange, targetType, targetId, targetLabel }: ReportDialogProps) {
+  const createReport = useCreateReport();
+  const { toast } = useToast();
+  const [reason, setReason] = useState<InsertReport["reason"] | "">("");
+  const [details, setDetails] = useState("");
+
+  const handleSubmit = () => {
+    if (!reason) return;
+    createReport.mutate(
+      { targetType, targetId, reason, details: details.trim() || null },
+      {
+        onSuccess: () => {
+          toast({ title: "Report sent", description: "Thanks for letting us know. Our team will review it." });
+          setReason("");
+          setDetails("");
+          onOpenChange(false);
+        },
+        onError: (error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Report {targetType === "profile" ? targetLabel : targetNouns[targetType]}</DialogTitle>
+          <DialogDescription>
+            Reports are private. {targetLabel} won't be told who reported them.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div>
+            <Label>Reason</Label>
+            <Select value={reason} onValueChange={(value) => setReason(value as InsertReport["reason"])}>
+              <SelectTrigger className="mt-1" data-testid="select-report-reason">
+                <SelectValue placeholder="Choose a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(reportReasonLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="report-details">Details <span className="text-muted-foreground text-sm">(optional)</span></Label>
+            <Textarea
+              id="report-details"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              maxLength={1000}
+              placeholder="Tell us what happened..."
+              className="mt-1"
+              data-testid="input-report-details"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={!reason || createReport.isPending} data-testid="button-submit-report">
+            {createReport.isPending ? "Sending..." : "Send Report"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,50 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { useReviewHistory } from "@/hooks/use-profiles";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Loader2, Star } from "lucide-react";
+import type { Review } from "@shared/schema";
+
+// "Edited" marker on a review that opens its earlier versions
+export function ReviewHistory({ review }: { review: Review }) {
+  const [open, setOpen] = useState(false);
+  const { data: edits, isLoading } = useReviewHistory(review.id, open);
+
+  if (!review.updatedAt) return null;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button type="button" className="text-xs text-muted-foreground underline-offset-2 hover:underline" data-testid={`button-review-history-${review.id}`}>
+          edited {format(new Date(review.updatedAt), "d MMM yyyy")}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80">
+        <h4 className="text-sm font-semibold mb-3">Earlier versions</h4>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-3 max-h-64 overflow-y-auto">
+            {edits?.map((edit) => (
+              <div key={edit.id} className="border-b border-border/50 pb-3 last:border-0 last:pb-0">
+                <div className="flex items-center justify-between mb-1">
+                  <div className="flex text-amber-400">
+                    {Array.from({ length: 5 }).map((_, i) => (
+                      <Star key={i} size={12} className={i < edit.rating ? "fill-current" : "text-muted fill-muted"} />
+                    ))}
+                  </div>
+                  {edit.editedAt && (
+                    <span className="text-xs text-muted-foreground">{format(new Date(edit.editedAt), "d MMM yyyy")}</span>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground">{edit.comment || "(no comment)"}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,167 @@
+import { useRef, useState } from "react";
+import { useSetReviewPhotoHidden } from "@/hooks/use-profiles";
+import { useUpload } from "@/hooks/use-upload";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Eye, EyeOff, ImagePlus, Loader2, X } from "lucide-react";
+import { MAX_REVIEW_PHOTOS, type ReviewPhoto, type ReviewWithPhotos } from "@shared/schema";
+
+interface ReviewPhotoProps {
+  // The provider and admins can hide photos, and see the ones already hidden
+  canModerate: boolean;
+}
+
+function PhotoLightbox({ photo, canModerate, onClose }: ReviewPhotoProps & { photo: ReviewPhoto | null; onClose: () => void }) {
+  const setHidden = useSetReviewPhotoHidden();
+  const { toast } = useToast();
+
+  const handleToggle = () => {
+    if (!photo) return;
+    setHidden.mutate(
+      { photoId: photo.id, hidden: !photo.hidden },
+      {
+        onSuccess: () => {
+          toast({ title: photo.hidden ? "Photo restored" : "Photo hidden" });
+          onClose();
+        },
+        onError: (error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+      }
+    );
+  };
+
+  return (
+    <Dialog open={!!photo} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Client photo</DialogTitle>
+          <DialogDescription>{photo?.hidden ? "Hidden from visitors" : "Shared with a review"}</DialogDescription>
+        </DialogHeader>
+        {photo && (
+          <img src={photo.url} alt="Review photo" className="w-full max-h-[70vh] object-contain rounded-lg bg-muted" />
+        )}
+        {canModerate && photo && (
+          <div className="flex justify-end">
+            <Button variant="outline" size="sm" onClick={handleToggle} disabled={setHidden.isPending} data-testid={`button-toggle-review-photo-${photo.id}`}>
+              {photo.hidden ? <><Eye className="h-4 w-4 mr-1" /> Show photo</> : <><EyeOff className="h-4 w-4 mr-1" /> Hide photo</>}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function PhotoThumb({ photo, size, onOpen }: { photo: ReviewPhoto; size: string; onOpen: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onOpen}
+      className={`relative ${size} shrink-0 rounded-lg overflow-hidden border border-border hover:opacity-90 transition-opacity`}
+      data-testid={`review-photo-${photo.id}`}
+    >
+      <img src={photo.url} alt="Review photo" loading="lazy" className={`w-full h-full object-cover ${photo.hidden ? "opacity-40" : ""}`} />
+      {photo.hidden && (
+        <span className="absolute inset-0 flex items-center justify-center">
+          <EyeOff className="h-4 w-4 text-foreground" />
+        </span>
+      )}
+    </button>
+  );
+}
+
+// Every client photo on the provider's reviews, newest review first
+export function ReviewPhotoGallery({ reviews, canModerate }: ReviewPhotoProps & { reviews: ReviewWithPhotos[] }) {
+  const [selected, setSelected] = useState<ReviewPhoto | null>(null);
+  const photos = reviews.flatMap((review) => review.photos);
+  if (photos.length === 0) return null;
+
+  return (
+    <div className="mb-8">
+      <h4 className="text-sm font-semibold mb-3">Photos from clients</h4>
+      <div className="grid grid-cols-4 sm:grid-cols-6 gap-2">
+        {photos.map((photo) => (
+          <PhotoThumb key={photo.id} photo={photo} size="aspect-square w-full" onOpen={() => setSelected(photo)} />
+        ))}
+      </div>
+      <PhotoLightbox photo={selected} canModerate={canModerate} onClose={() => setSelected(null)} />
+    </div>
+  );
+}
+
+export function ReviewPhotoStrip({ photos, canModerate }: ReviewPhotoProps & { photos: ReviewPhoto[] }) {
+  const [selected, setSelected] = useState<ReviewPhoto | null>(null);
+  if (photos.length === 0) return null;
+
+  return (
+    <div className="flex gap-2 mt-3">
+      {photos.map((photo) => (
+        <PhotoThumb key={photo.id} photo={photo} size="w-16 h-16" onOpen={() => setSelected(photo)} />
+      ))}
+      <PhotoLightbox photo={selected} canModerate={canModerate} onClose={() => setSelected(null)} />
+    </div>
+  );
+}
+
+// Upload field for the review form; value is the list of uploaded image URLs
+export function ReviewPhotoPicker({ value, onChange }: { value: string[]; onChange: (urls: string[]) => void }) {
+  const { uploadFile, isUploading } = useUpload();
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files) return;
+    let urls = value;
+    for (const file of Array.from(files).slice(0, MAX_REVIEW_PHOTOS - value.length)) {
+      if (!file.type.startsWith("image/")) {
+        toast({ title: "Unsupported file", description: "Only images can be added to a review.", variant: "destructive" });
+        continue;
+      }
+      const uploaded = await uploadFile(file);
+      if (!uploaded) {
+        toast({ title: "Upload failed", description: `Could not upload ${file.name}`, variant: "destructive" });
+        continue;
+      }
+      urls = [...urls, uploaded.objectPath];
+      onChange(urls);
+    }
+    if (inputRef.current) inputRef.current.value = "";
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {value.map((url) => (
+        <div key={url} className="relative w-16 h-16 rounded-lg overflow-hidden border border-border">
+          <img src={url} alt="Review photo" className="w-full h-full object-cover" />
+          <button
+            type="button"
+            onClick={() => onChange(value.filter((u) => u !== url))}
+            className="absolute top-0.5 right-0.5 rounded-full bg-background/80 p-0.5"
+            aria-label="Remove photo"
+          >
+            <X size={12} />
+          </button>
+        </div>
+      ))}
+      {value.length < MAX_REVIEW_PHOTOS && (
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={isUploading}
+          className="w-16 h-16 rounded-lg border-2 border-dashed border-border flex items-center justify-center text-muted-foreground hover:border-primary hover:text-primary transition-colors"
+          data-testid="button-add-review-photo"
+        >
+          {isUploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <ImagePlus className="h-5 w-5" />}
+        </button>
+      )}
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/jpeg,image/png,image/gif,image/webp"
+        multiple
+        className="hidden"
+        onChange={(e) => handleFiles(e.target.files)}
+      />
+    </div>
+  );
+}
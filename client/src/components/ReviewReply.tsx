@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { useReplyToReview, useDeleteReviewReply } from "@/hooks/use-profiles";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { CornerDownRight, Pencil, Trash2 } from "lucide-react";
+import type { Review } from "@shared/schema";
+
+interface ReviewReplyProps {
+  review: Review;
+  providerName: string;
+  // The provider viewing their own profile can write, edit and delete the reply
+  canManage: boolean;
+}
+
+export function ReviewReply({ review, providerName, canManage }: ReviewReplyProps) {
+  const replyToReview = useReplyToReview();
+  const deleteReply = useDeleteReviewReply();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+
+  const startEditing = () => {
+    setDraft(review.reply ?? "");
+    setEditing(true);
+  };
+
+  const handleSave = () => {
+    replyToReview.mutate(
+      { reviewId: review.id, reply: draft.trim() },
+      {
+        onSuccess: () => setEditing(false),
+        onError: (error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+      }
+    );
+  };
+
+  const handleDelete = () => {
+    deleteReply.mutate(review.id, {
+      onError: (error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+    });
+  };
+
+  if (editing) {
+    return (
+      <div className="mt-3 ml-4 space-y-2">
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          maxLength={1000}
+          placeholder="Write a public reply..."
+          className="min-h-[80px]"
+          data-testid={`input-review-reply-${review.id}`}
+        />
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={() => setEditing(false)}>Cancel</Button>
+          <Button
+            size="sm"
+            onClick={handleSave}
+            disabled={!draft.trim() || replyToReview.isPending}
+            data-testid={`button-save-review-reply-${review.id}`}
+          >
+            {replyToReview.isPending ? "Saving..." : "Post Reply"}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!review.reply) {
+    if (!canManage) return null;
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        className="mt-2 h-7 px-2 text-xs text-muted-foreground"
+        onClick={startEditing}
+        data-testid={`button-reply-review-${review.id}`}
+      >
+        <CornerDownRight size={12} className="mr-1" /> Reply
+      </Button>
+    );
+  }
+
+  return (
+    <div className="mt-3 ml-4 rounded-xl bg-secondary/50 p-3" data-testid={`review-reply-${review.id}`}>
+      <div className="flex items-center justify-between gap-2 mb-1">
+        <span className="text-xs font-semibold">
+          Response from {providerName}
+          {review.repliedAt && (
+            <span className="font-normal text-muted-foreground">
+              {" "}· {formatDistanceToNow(new Date(review.repliedAt), { addSuffix: true })}
+              {review.replyUpdatedAt && new Date(review.replyUpdatedAt).getTime() !== new Date(review.repliedAt).getTime() && " (edited)"}
+            </span>
+          )}
+        </span>
+        {canManage && (
+          <div className="flex gap-1">
+            <Button variant="ghost" size="icon" className="h-6 w-6 text-muted-foreground" onClick={startEditing} data-testid={`button-edit-review-reply-${review.id}`}>
+              <Pencil size={12} />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 text-muted-foreground hover:text-destructive"
+              onClick={handleDelete}
+              disabled={deleteReply.isPending}
+              data-testid={`button-delete-review-reply-${review.id}`}
+            >
+              <Trash2 size={12} />
+            </Button>
+          </div>
+        )}
+      </div>
+      <p className="text-sm text-muted-foreground whitespace-pre-wrap">{review.reply}</p>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+import { useEffect, useState } from "react";
+import { useServiceArea, useUpdateServiceArea } from "@/hooks/use-service-area";
+import { useLocationSearch } from "@/hooks/use-locations";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Car, Loader2, Plus, Trash2, X } from "lucide-react";
+import { formatServiceAreaPlace, formatLocality } from "@shared/locations";
+import { centsToDollars, dollarsToCents, formatCents } from "@shared/services";
+import { MAX_SERVICE_AREA_PLACES, MAX_TRAVEL_FEE_TIERS, MAX_TRAVEL_RADIUS_KM, type InsertServiceAreaPlace } from "@shared/schema";
+
+type FeeFields = { upToKm: string; fee: string };
+
+function placeKey(place: InsertServiceAreaPlace) {
+  return `${place.name ?? ""}|${place.state}|${place.postcode}`;
+}
+
+// Where a mobile provider travels: a radius around their base, suburbs and postcodes, and fees by distance
+export function ServiceAreaEditor({ providerId }: { providerId: number }) {
+  const { data, isLoading } = useServiceArea(providerId);
+  const updateServiceArea = useUpdateServiceArea();
+  const { toast } = useToast();
+
+  const [radius, setRadius] = useState("");
+  const [places, setPlaces] = useState<InsertServiceAreaPlace[]>([]);
+  const [fees, setFees] = useState<FeeFields[]>([]);
+  const [placeSearch, setPlaceSearch] = useState("");
+  const { data: suggestions = [] } = useLocationSearch(placeSearch, { limit: 6 });
+
+  useEffect(() => {
+    if (!data) return;
+    setRadius(data.travelRadiusKm ? String(data.travelRadiusKm) : "");
+    setPlaces(data.places);
+    setFees(data.travelFees.map(fee => ({ upToKm: String(fee.upToKm), fee: centsToDollars(fee.feeCents) })));
+  }, [data]);
+
+  // Typing a full postcode also offers every suburb in it at once
+  const postcode = /^\d{4}$/.test(placeSearch.trim()) ? suggestions.find(s => s.postcode === placeSearch.trim()) : undefined;
+
+  const addPlace = (place: InsertServiceAreaPlace) => {
+    if (!places.some(p => placeKey(p) === placeKey(place))) setPlaces(prev => [...prev, place]);
+    setPlaceSearch("");
+  };
+
+  const handleSave = () => {
+    const travelRadiusKm = radius.trim() ? Number(radius) : null;
+    if (travelRadiusKm !== null && !(Number.isInteger(travelRadiusKm) && travelRadiusKm >= 1 && travelRadiusKm <= MAX_TRAVEL_RADIUS_KM)) {
+      toast({ title: "Check your travel radius", description: `Use whole kilometres from 1 to ${MAX_TRAVEL_RADIUS_KM}.`, variant: "destructive" });
+      return;
+    }
+    const travelFees = fees.map(f => ({ upToKm: Number(f.upToKm), feeCents: dollarsToCents(f.fee) }));
+    if (travelFees.some(f => !Number.isInteger(f.upToKm) || f.upToKm < 1 || f.upToKm > MAX_TRAVEL_RADIUS_KM || f.feeCents === null)) {
+      toast({ title: "Check your travel fees", description: "Each fee needs a distance in whole kilometres and an amount.", variant: "destructive" });
+      return;
+    }
+    updateServiceArea.mutate(
+      { travelRadiusKm, places, travelFees: travelFees.map(f => ({ upToKm: f.upToKm, feeCents: f.feeCents! })) },
+      {
+        onSuccess: () => toast({ title: "Service area saved" }),
+        onError: (error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+      }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Car className="h-5 w-5" />
+          Service Area
+        </CardTitle>
+        <CardDescription>Where you travel to, so clients there find you in the directory</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="py-6 flex justify-center"><Loader2 className="animate-spin text-primary" /></div>
+        ) : (
+          <>
+            <div>
+              <Label htmlFor="travel-radius">Travel radius (km) <span className="text-muted-foreground">(Optional)</span></Label>
+              <Input
+                id="travel-radius"
+                type="number"
+                min={1}
+                max={MAX_TRAVEL_RADIUS_KM}
+                value={radius}
+                onChange={(e) => setRadius(e.target.value)}
+                placeholder="e.g., 15"
+                className="mt-1"
+                data-testid="input-travel-radius"
+              />
+              <p className="text-xs text-muted-foreground mt-1">Measured from the location on your profile.</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="service-area-search">Suburbs and postcodes</Label>
+              {places.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {places.map(place => (
+                    <Badge key={placeKey(place)} variant="secondary" className="gap-1" data-testid={`badge-service-area-${place.postcode}`}>
+                      {formatServiceAreaPlace(place)}
+                      <button
+                        type="button"
+                        onClick={() => setPlaces(prev => prev.filter(p => placeKey(p) !== placeKey(place)))}
+                        aria-label="Remove"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              <div className="relative">
+                <Input
+                  id="service-area-search"
+                  value={placeSearch}
+                  onChange={(e) => setPlaceSearch(e.target.value)}
+                  placeholder="Add a suburb or postcode"
+                  disabled={places.length >= MAX_SERVICE_AREA_PLACES}
+                  data-testid="input-service-area-search"
+                />
+                {placeSearch.trim() && (suggestions.length > 0 || postcode) && (
+                  <div className="absolute z-50 w-full mt-1 bg-card border border-border rounded-lg shadow-lg max-h-60 overflow-y-auto">
+                    {postcode && (
+                      <button
+                        type="button"
+                        className="w-full px-3 py-2 text-left text-sm hover:bg-secondary/50 border-b border-border"
+                        onClick={() => addPlace({ name: null, state: postcode.state, postcode: postcode.postcode })}
+                        data-testid="service-area-postcode"
+                      >
+                        All of {postcode.state} {postcode.postcode}
+                      </button>
+                    )}
+                    {suggestions.map((locality, i) => (
+                      <button
+                        key={locality.id}
+                        type="button"
+                        className="w-full px-3 py-2 text-left text-sm hover:bg-secondary/50"
+                        onClick={() => addPlace({ name: locality.name, state: locality.state, postcode: locality.postcode })}
+                        data-testid={`service-area-suburb-${i}`}
+                      >
+                        {formatLocality(locality)}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div>
+                <h4 className="font-medium">Travel fees <span className="text-sm font-normal text-muted-foreground">(Optional)</span></h4>
+                <p className="text-sm text-muted-foreground">Charged on top of your prices, by distance from your location.</p>
+              </div>
+              {fees.map((fee, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground">Up to</span>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={fee.upToKm}
+                    onChange={(e) => setFees(prev => prev.map((f, i) => (i === index ? { ...f, upToKm: e.target.value } : f)))}
+                    className="w-20"
+                    data-testid={`input-travel-fee-km-${index}`}
+                  />
+                  <span className="text-sm text-muted-foreground">km: $</span>
+                  <Input
+                    value={fee.fee}
+                    onChange={(e) => setFees(prev => prev.map((f, i) => (i === index ? { ...f, fee: e.target.value } : f)))}
+                    placeholder="0"
+                    className="w-24"
+                    data-testid={`input-travel-fee-amount-${index}`}
+                  />
+                  <Button variant="ghost" size="icon" onClick={() => setFees(prev => prev.filter((_, i) => i !== index))}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setFees(prev => [...prev, { upToKm: "", fee: "" }])}
+                disabled={fees.length >= MAX_TRAVEL_FEE_TIERS}
+                data-testid="button-add-travel-fee"
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Fee
+              </Button>
+            </div>
+
+            <Button onClick={handleSave} disabled={updateServiceArea.isPending} className="w-full" data-testid="button-save-service-area">
+              {updateServiceArea.isPending ? "Saving..." : "Save Service Area"}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Where a mobile provider travels and what it costs, for their profile page
+export function ServiceAreaSummary({ providerId }: { providerId: number }) {
+  const { data } = useServiceArea(providerId);
+  if (!data || (data.travelRadiusKm === null && data.places.length === 0)) return null;
+
+  const fees = [...data.travelFees].sort((a, b) => a.upToKm - b.upToKm);
+  return (
+    <div className="text-xs text-muted-foreground mt-1 space-y-0.5" data-testid="text-service-area">
+      <p>
+        Travels to clients
+        {data.travelRadiusKm !== null && ` up to ${data.travelRadiusKm} km away`}
+        {data.places.length > 0 && `${data.travelRadiusKm !== null ? " and" : ""} in ${data.places.map(formatServiceAreaPlace).join(", ")}`}
+      </p>
+      {fees.length > 0 && (
+        <p>Travel fee: {fees.map(fee => `${fee.feeCents === 0 ? "free" : formatCents(fee.feeCents)} up to ${fee.upToKm} km`).join(", ")}</p>
+      )}
+    </div>
+  );
+}
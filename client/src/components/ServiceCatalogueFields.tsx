@@ -0,0 +1,155 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  serviceCategories, serviceTaxonomy, subcategoriesOf, priceTypes, priceTypeLabels, dollarsToCents, centsToDollars,
+  type ServiceCategory, type PriceType,
+} from "@shared/services";
+import type { InsertService, Service } from "@shared/schema";
+
+const NONE = "none";
+
+// Form state for a service's category and price; amounts are dollar strings as typed
+export interface CatalogueFields {
+  category: ServiceCategory | "";
+  subcategory: string;
+  priceType: PriceType | "";
+  price: string;
+  priceMax: string;
+}
+
+export const emptyCatalogueFields: CatalogueFields = { category: "", subcategory: "", priceType: "", price: "", priceMax: "" };
+
+export function serviceToCatalogueFields(service: Service): CatalogueFields {
+  return {
+    category: service.category ?? "",
+    subcategory: service.subcategory ?? "",
+    priceType: service.priceType ?? "",
+    price: centsToDollars(service.priceCents),
+    priceMax: centsToDollars(service.priceMaxCents),
+  };
+}
+
+// A message describing what's wrong with the price, or null when the fields can be saved
+export function catalogueFieldsError(fields: CatalogueFields): string | null {
+  if (!fields.priceType) return null;
+  const price = dollarsToCents(fields.price);
+  if (price === null) return "Enter a price in dollars, e.g. 80 or 49.50";
+  if (fields.priceType === "range") {
+    const max = dollarsToCents(fields.priceMax);
+    if (max === null || max <= price) return "The maximum price must be higher than the minimum";
+  }
+  return null;
+}
+
+export function catalogueFieldsToService(fields: CatalogueFields): Pick<InsertService, "category" | "subcategory" | "priceType" | "priceCents" | "priceMaxCents"> {
+  return {
+    category: fields.category || null,
+    subcategory: fields.category && fields.subcategory ? fields.subcategory : null,
+    priceType: fields.priceType || null,
+    priceCents: fields.priceType ? dollarsToCents(fields.price) : null,
+    priceMaxCents: fields.priceType === "range" ? dollarsToCents(fields.priceMax) : null,
+  };
+}
+
+interface CatalogueFieldsProps {
+  value: CatalogueFields;
+  onChange: (value: CatalogueFields) => void;
+  idPrefix: string;
+}
+
+export function ServiceCatalogueFields({ value, onChange, idPrefix }: CatalogueFieldsProps) {
+  const update = (changes: Partial<CatalogueFields>) => onChange({ ...value, ...changes });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor={`${idPrefix}-category`}>Category</Label>
+          <Select
+            value={value.category || NONE}
+            onValueChange={(category) => update({ category: category === NONE ? "" : category as ServiceCategory, subcategory: "" })}
+          >
+            <SelectTrigger id={`${idPrefix}-category`} className="mt-1" data-testid={`select-${idPrefix}-category`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>Choose a category</SelectItem>
+              {serviceCategories.map((category) => (
+                <SelectItem key={category} value={category}>{serviceTaxonomy[category].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor={`${idPrefix}-subcategory`}>Type</Label>
+          <Select
+            value={value.subcategory || NONE}
+            onValueChange={(subcategory) => update({ subcategory: subcategory === NONE ? "" : subcategory })}
+            disabled={!value.category}
+          >
+            <SelectTrigger id={`${idPrefix}-subcategory`} className="mt-1" data-testid={`select-${idPrefix}-subcategory`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>Any</SelectItem>
+              {value.category && subcategoriesOf(value.category).map((sub) => (
+                <SelectItem key={sub.value} value={sub.value}>{sub.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor={`${idPrefix}-price-type`}>Pricing</Label>
+          <Select
+            value={value.priceType || NONE}
+            onValueChange={(priceType) => update({ priceType: priceType === NONE ? "" : priceType as PriceType })}
+          >
+            <SelectTrigger id={`${idPrefix}-price-type`} className="mt-1" data-testid={`select-${idPrefix}-price-type`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>Price on request</SelectItem>
+              {priceTypes.map((priceType) => (
+                <SelectItem key={priceType} value={priceType}>{priceTypeLabels[priceType]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {value.priceType && (
+          <div className="flex gap-2">
+            <div className="flex-1">
+              <Label htmlFor={`${idPrefix}-price`}>{value.priceType === "range" ? "Min ($)" : value.priceType === "hourly" ? "Per hour ($)" : "Price ($)"}</Label>
+              <Input
+                id={`${idPrefix}-price`}
+                inputMode="decimal"
+                value={value.price}
+                onChange={(e) => update({ price: e.target.value })}
+                placeholder="80"
+                className="mt-1"
+                data-testid={`input-${idPrefix}-price`}
+              />
+            </div>
+            {value.priceType === "range" && (
+              <div className="flex-1">
+                <Label htmlFor={`${idPrefix}-price-max`}>Max ($)</Label>
+                <Input
+                  id={`${idPrefix}-price-max`}
+                  inputMode="decimal"
+                  value={value.priceMax}
+                  onChange={(e) => update({ priceMax: e.target.value })}
+                  placeholder="120"
+                  className="mt-1"
+                  data-testid={`input-${idPrefix}-price-max`}
+                />
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  formatOptionPrice, formatServicePrice, quoteServicePrice, quoteServiceDuration, dollarsToCents, centsToDollars,
+} from "@shared/services";
+import { MAX_SERVICE_OPTIONS, type InsertServiceOption, type ServiceOption, type ServiceWithOptions } from "@shared/schema";
+
+type OptionKind = ServiceOption["kind"];
+
+// What a client has picked for a service: one of its variants, if it has any, and any add-ons
+export interface ServiceSelection {
+  variantId: number | null;
+  addonIds: number[];
+}
+
+export const emptyServiceSelection: ServiceSelection = { variantId: null, addonIds: [] };
+
+export function selectedOptions(service: ServiceWithOptions, selection: ServiceSelection) {
+  return {
+    variant: service.options.find((o) => o.kind === "variant" && o.id === selection.variantId) ?? null,
+    addons: service.options.filter((o) => o.kind === "addon" && selection.addonIds.includes(o.id)),
+  };
+}
+
+// True when the service has variants and none has been picked yet
+export function needsVariant(service: ServiceWithOptions, selection: ServiceSelection) {
+  return service.options.some((o) => o.kind === "variant") && selection.variantId === null;
+}
+
+function optionDetails(option: ServiceOption) {
+  const price = formatOptionPrice(option.kind, option.priceCents);
+  const duration = option.duration ? `${option.kind === "addon" ? "+" : ""}${option.duration} mins` : null;
+  return [price, duration].filter(Boolean).join(" • ");
+}
+
+// Variants, add-ons and package contents listed under a service on the provider's profile
+export function ServiceOptionsSummary({ service, services }: { service: ServiceWithOptions; services: ServiceWithOptions[] }) {
+  const variants = service.options.filter((o) => o.kind === "variant");
+  const addons = service.options.filter((o) => o.kind === "addon");
+  const included = service.includedServiceIds
+    .map((id) => services.find((s) => s.id === id))
+    .filter((s): s is ServiceWithOptions => !!s);
+
+  if (variants.length === 0 && addons.length === 0 && included.length === 0) return null;
+
+  return (
+    <div className="mt-2 space-y-1 text-xs text-muted-foreground" data-testid={`service-options-${service.id}`}>
+      {included.length > 0 && (
+        <p><span className="font-semibold text-foreground">Includes:</span> {included.map((s) => s.name).join(", ")}</p>
+      )}
+      {variants.length > 0 && (
+        <p>
+          <span className="font-semibold text-foreground">Options:</span>{" "}
+          {variants.map((v) => [v.name, optionDetails(v)].filter(Boolean).join(" ")).join(" · ")}
+        </p>
+      )}
+      {addons.length > 0 && (
+        <p>
+          <span className="font-semibold text-foreground">Add-ons:</span>{" "}
+          {addons.map((a) => [a.name, optionDetails(a)].filter(Boolean).join(" ")).join(" · ")}
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface ServiceOptionPickerProps {
+  service: ServiceWithOptions;
+  value: ServiceSelection;
+  onChange: (value: ServiceSelection) => void;
+}
+
+// Lets a client choose a variant and add-ons when booking or enquiring, with the resulting price and length
+export function ServiceOptionPicker({ service, value, onChange }: ServiceOptionPickerProps) {
+  const variants = service.options.filter((o) => o.kind === "variant");
+  const addons = service.options.filter((o) => o.kind === "addon");
+  if (variants.length === 0 && addons.length === 0) return null;
+
+  const { variant, addons: chosenAddons } = selectedOptions(service, value);
+  const price = formatServicePrice(quoteServicePrice(service, variant, chosenAddons));
+  const duration = quoteServiceDuration(service.duration, variant, chosenAddons);
+
+  const toggleAddon = (id: number, checked: boolean) => {
+    onChange({ ...value, addonIds: checked ? [...value.addonIds, id] : value.addonIds.filter((a) => a !== id) });
+  };
+
+  return (
+    <div className="space-y-4">
+      {variants.length > 0 && (
+        <div>
+          <Label>Choose an option</Label>
+          <RadioGroup
+            value={value.variantId === null ? "" : String(value.variantId)}
+            onValueChange={(id) => onChange({ ...value, variantId: Number(id) })}
+            className="mt-2"
+          >
+            {variants.map((option) => (
+              <div key={option.id} className="flex items-center gap-2">
+                <RadioGroupItem value={String(option.id)} id={`variant-${option.id}`} data-testid={`radio-variant-${option.id}`} />
+                <Label htmlFor={`variant-${option.id}`} className="font-normal flex-1 flex justify-between gap-2">
+                  <span>{option.name}</span>
+                  <span className="text-muted-foreground">{optionDetails(option)}</span>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+      )}
+      {addons.length > 0 && (
+        <div>
+          <Label>Add-ons <span className="text-muted-foreground text-sm">(optional)</span></Label>
+          <div className="mt-2 space-y-2">
+            {addons.map((option) => (
+              <div key={option.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`addon-${option.id}`}
+                  checked={value.addonIds.includes(option.id)}
+                  onCheckedChange={(checked) => toggleAddon(option.id, checked === true)}
+                  data-testid={`checkbox-addon-${option.id}`}
+                />
+                <Label htmlFor={`addon-${option.id}`} className="font-normal flex-1 flex justify-between gap-2">
+                  <span>{option.name}</span>
+                  <span className="text-muted-foreground">{optionDetails(option)}</span>
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+      {(price || duration) && (
+        <p className="text-sm font-medium" data-testid="text-selection-quote">
+          {[price, duration ? `${duration} mins` : null].filter(Boolean).join(" • ")}
+        </p>
+      )}
+    </div>
+  );
+}
+
+// Form state for one variant or add-on; amounts are typed as dollar strings
+export interface OptionFields {
+  key: string;
+  kind: OptionKind;
+  name: string;
+  price: string;
+  duration: string;
+}
+
+export function serviceToOptionFields(service: ServiceWithOptions): OptionFields[] {
+  return service.options.map((option) => ({
+    key: String(option.id),
+    kind: option.kind,
+    name: option.name,
+    price: centsToDollars(option.priceCents),
+    duration: option.duration ? String(option.duration) : "",
+  }));
+}
+
+// A message describing what's wrong with the options, or null when they can be saved
+export function optionFieldsError(fields: OptionFields[]): string | null {
+  if (fields.some((f) => !f.name.trim())) return "Give every option a name";
+  if (fields.some((f) => f.price.trim() && dollarsToCents(f.price) === null)) return "Enter option prices in dollars, e.g. 15 or 9.50";
+  if (fields.filter((f) => f.kind === "variant").length === 1) return "Offer at least two variants, or none";
+  return null;
+}
+
+export function optionFieldsToOptions(fields: OptionFields[]): InsertServiceOption[] {
+  return fields.map((f) => ({
+    kind: f.kind,
+    name: f.name.trim(),
+    priceCents: f.price.trim() ? dollarsToCents(f.price) : null,
+    duration: f.duration ? parseInt(f.duration) : null,
+  }));
+}
+
+const optionCopy: Record<OptionKind, { title: string; hint: string; namePlaceholder: string; pricePlaceholder: string }> = {
+  variant: {
+    title: "Variants",
+    hint: "Different versions clients choose between, each with its own price and length.",
+    namePlaceholder: "e.g. Long hair",
+    pricePlaceholder: "Price ($)",
+  },
+  addon: {
+    title: "Add-ons",
+    hint: "Optional extras added to the price and length.",
+    namePlaceholder: "e.g. Removal",
+    pricePlaceholder: "+ Price ($)",
+  },
+};
+
+interface ServiceOptionsEditorProps {
+  value: OptionFields[];
+  onChange: (value: OptionFields[]) => void;
+}
+
+export function ServiceOptionsEditor({ value, onChange }: ServiceOptionsEditorProps) {
+  const update = (key: string, changes: Partial<OptionFields>) =>
+    onChange(value.map((f) => (f.key === key ? { ...f, ...changes } : f)));
+
+  const add = (kind: OptionKind) =>
+    onChange([...value, { key: `new_${Date.now()}_${value.length}`, kind, name: "", price: "", duration: "" }]);
+
+  return (
+    <div className="space-y-4">
+      {(["variant", "addon"] as const).map((kind) => {
+        const rows = value.filter((f) => f.kind === kind);
+        return (
+          <div key={kind}>
+            <div className="flex items-center justify-between">
+              <Label>{optionCopy[kind].title}</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => add(kind)}
+                disabled={value.length >= MAX_SERVICE_OPTIONS}
+                data-testid={`button-add-${kind}`}
+              >
+                <Plus className="h-4 w-4 mr-1" /> Add
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">{optionCopy[kind].hint}</p>
+            <div className="mt-2 space-y-2">
+              {rows.map((row) => (
+                <div key={row.key} className="flex gap-2">
+                  <Input
+                    value={row.name}
+                    onChange={(e) => update(row.key, { name: e.target.value })}
+                    placeholder={optionCopy[kind].namePlaceholder}
+                    className="flex-1"
+                    data-testid={`input-${kind}-name`}
+                  />
+                  <Input
+                    value={row.price}
+                    inputMode="decimal"
+                    onChange={(e) => update(row.key, { price: e.target.value })}
+                    placeholder={optionCopy[kind].pricePlaceholder}
+                    className="w-24"
+                    data-testid={`input-${kind}-price`}
+                  />
+                  <Input
+                    value={row.duration}
+                    type="number"
+                    min="0"
+                    onChange={(e) => update(row.key, { duration: e.target.value })}
+                    placeholder="Mins"
+                    className="w-20"
+                    data-testid={`input-${kind}-duration`}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onChange(value.filter((f) => f.key !== row.key))}
+                    data-testid={`button-remove-${kind}`}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,188 +0,0 @@
-export const SYDNEY_SUBURBS = [
-  { suburb: "Sydney CBD", postcode: "2000", lat: -33.8688, lng: 151.2093 },
-  { suburb: "The Rocks", postcode: "2000", lat: -33.8599, lng: 151.2090 },
-  { suburb: "Darling Harbour", postcode: "2000", lat: -33.8736, lng: 151.1986 },
-  { suburb: "Surry Hills", postcode: "2010", lat: -33.8838, lng: 151.2109 },
-  { suburb: "Darlinghurst", postcode: "2010", lat: -33.8782, lng: 151.2186 },
-  { suburb: "Paddington", postcode: "2021", lat: -33.8847, lng: 151.2268 },
-  { suburb: "Woollahra", postcode: "2025", lat: -33.8868, lng: 151.2399 },
-  { suburb: "Double Bay", postcode: "2028", lat: -33.8774, lng: 151.2430 },
-  { suburb: "Rose Bay", postcode: "2029", lat: -33.8706, lng: 151.2694 },
-  { suburb: "Vaucluse", postcode: "2030", lat: -33.8569, lng: 151.2781 },
-  { suburb: "Watsons Bay", postcode: "2030", lat: -33.8418, lng: 151.2832 },
-  { suburb: "Bondi", postcode: "2026", lat: -33.8915, lng: 151.2767 },
-  { suburb: "Bondi Beach", postcode: "2026", lat: -33.8915, lng: 151.2767 },
-  { suburb: "Bondi Junction", postcode: "2022", lat: -33.8913, lng: 151.2474 },
-  { suburb: "Bronte", postcode: "2024", lat: -33.9034, lng: 151.2631 },
-  { suburb: "Coogee", postcode: "2034", lat: -33.9201, lng: 151.2554 },
-  { suburb: "Maroubra", postcode: "2035", lat: -33.9500, lng: 151.2422 },
-  { suburb: "Randwick", postcode: "2031", lat: -33.9139, lng: 151.2414 },
-  { suburb: "Kensington", postcode: "2033", lat: -33.9071, lng: 151.2227 },
-  { suburb: "Newtown", postcode: "2042", lat: -33.8975, lng: 151.1787 },
-  { suburb: "Enmore", postcode: "2042", lat: -33.8992, lng: 151.1722 },
-  { suburb: "Marrickville", postcode: "2204", lat: -33.9108, lng: 151.1553 },
-  { suburb: "Dulwich Hill", postcode: "2203", lat: -33.9054, lng: 151.1389 },
-  { suburb: "Petersham", postcode: "2049", lat: -33.8940, lng: 151.1544 },
-  { suburb: "Leichhardt", postcode: "2040", lat: -33.8834, lng: 151.1569 },
-  { suburb: "Annandale", postcode: "2038", lat: -33.8815, lng: 151.1701 },
-  { suburb: "Glebe", postcode: "2037", lat: -33.8792, lng: 151.1868 },
-  { suburb: "Ultimo", postcode: "2007", lat: -33.8798, lng: 151.1967 },
-  { suburb: "Pyrmont", postcode: "2009", lat: -33.8697, lng: 151.1951 },
-  { suburb: "Balmain", postcode: "2041", lat: -33.8573, lng: 151.1794 },
-  { suburb: "Rozelle", postcode: "2039", lat: -33.8618, lng: 151.1715 },
-  { suburb: "Drummoyne", postcode: "2047", lat: -33.8527, lng: 151.1545 },
-  { suburb: "Five Dock", postcode: "2046", lat: -33.8666, lng: 151.1295 },
-  { suburb: "Burwood", postcode: "2134", lat: -33.8773, lng: 151.1037 },
-  { suburb: "Strathfield", postcode: "2135", lat: -33.8726, lng: 151.0848 },
-  { suburb: "Homebush", postcode: "2140", lat: -33.8658, lng: 151.0839 },
-  { suburb: "Rhodes", postcode: "2138", lat: -33.8304, lng: 151.0879 },
-  { suburb: "Concord", postcode: "2137", lat: -33.8508, lng: 151.1047 },
-  { suburb: "Ashfield", postcode: "2131", lat: -33.8898, lng: 151.1252 },
-  { suburb: "Summer Hill", postcode: "2130", lat: -33.8912, lng: 151.1385 },
-  { suburb: "Croydon", postcode: "2132", lat: -33.8823, lng: 151.1152 },
-  { suburb: "Chatswood", postcode: "2067", lat: -33.7969, lng: 151.1811 },
-  { suburb: "North Sydney", postcode: "2060", lat: -33.8389, lng: 151.2069 },
-  { suburb: "Crows Nest", postcode: "2065", lat: -33.8268, lng: 151.2020 },
-  { suburb: "Neutral Bay", postcode: "2089", lat: -33.8333, lng: 151.2167 },
-  { suburb: "Cremorne", postcode: "2090", lat: -33.8296, lng: 151.2271 },
-  { suburb: "Mosman", postcode: "2088", lat: -33.8269, lng: 151.2441 },
-  { suburb: "Manly", postcode: "2095", lat: -33.7969, lng: 151.2880 },
-  { suburb: "Dee Why", postcode: "2099", lat: -33.7514, lng: 151.2886 },
-  { suburb: "Brookvale", postcode: "2100", lat: -33.7624, lng: 151.2686 },
-  { suburb: "Narrabeen", postcode: "2101", lat: -33.7166, lng: 151.2952 },
-  { suburb: "Mona Vale", postcode: "2103", lat: -33.6778, lng: 151.3017 },
-  { suburb: "Newport", postcode: "2106", lat: -33.6569, lng: 151.3195 },
-  { suburb: "Avalon", postcode: "2107", lat: -33.6296, lng: 151.3295 },
-  { suburb: "Palm Beach", postcode: "2108", lat: -33.5987, lng: 151.3231 },
-  { suburb: "Warriewood", postcode: "2102", lat: -33.6889, lng: 151.2969 },
-  { suburb: "Freshwater", postcode: "2096", lat: -33.7800, lng: 151.2850 },
-  { suburb: "Curl Curl", postcode: "2096", lat: -33.7694, lng: 151.2872 },
-  { suburb: "Willoughby", postcode: "2068", lat: -33.8000, lng: 151.1958 },
-  { suburb: "Lane Cove", postcode: "2066", lat: -33.8167, lng: 151.1667 },
-  { suburb: "Artarmon", postcode: "2064", lat: -33.8093, lng: 151.1844 },
-  { suburb: "St Leonards", postcode: "2065", lat: -33.8233, lng: 151.1950 },
-  { suburb: "Gordon", postcode: "2072", lat: -33.7569, lng: 151.1522 },
-  { suburb: "Killara", postcode: "2071", lat: -33.7667, lng: 151.1625 },
-  { suburb: "Lindfield", postcode: "2070", lat: -33.7750, lng: 151.1703 },
-  { suburb: "Roseville", postcode: "2069", lat: -33.7833, lng: 151.1792 },
-  { suburb: "Hornsby", postcode: "2077", lat: -33.7028, lng: 151.0993 },
-  { suburb: "Wahroonga", postcode: "2076", lat: -33.7167, lng: 151.1167 },
-  { suburb: "Turramurra", postcode: "2074", lat: -33.7333, lng: 151.1292 },
-  { suburb: "Pymble", postcode: "2073", lat: -33.7458, lng: 151.1417 },
-  { suburb: "St Ives", postcode: "2075", lat: -33.7292, lng: 151.1625 },
-  { suburb: "Thornleigh", postcode: "2120", lat: -33.7283, lng: 151.0786 },
-  { suburb: "Pennant Hills", postcode: "2120", lat: -33.7372, lng: 151.0717 },
-  { suburb: "Epping", postcode: "2121", lat: -33.7728, lng: 151.0819 },
-  { suburb: "Eastwood", postcode: "2122", lat: -33.7917, lng: 151.0800 },
-  { suburb: "Ryde", postcode: "2112", lat: -33.8125, lng: 151.1028 },
-  { suburb: "Meadowbank", postcode: "2114", lat: -33.8167, lng: 151.0917 },
-  { suburb: "Macquarie Park", postcode: "2113", lat: -33.7778, lng: 151.1250 },
-  { suburb: "North Ryde", postcode: "2113", lat: -33.7972, lng: 151.1286 },
-  { suburb: "Parramatta", postcode: "2150", lat: -33.8151, lng: 151.0011 },
-  { suburb: "Westmead", postcode: "2145", lat: -33.8036, lng: 150.9878 },
-  { suburb: "Granville", postcode: "2142", lat: -33.8333, lng: 151.0125 },
-  { suburb: "Auburn", postcode: "2144", lat: -33.8492, lng: 151.0333 },
-  { suburb: "Lidcombe", postcode: "2141", lat: -33.8625, lng: 151.0458 },
-  { suburb: "Olympic Park", postcode: "2127", lat: -33.8471, lng: 151.0693 },
-  { suburb: "Silverwater", postcode: "2128", lat: -33.8333, lng: 151.0500 },
-  { suburb: "Bankstown", postcode: "2200", lat: -33.9175, lng: 151.0339 },
-  { suburb: "Punchbowl", postcode: "2196", lat: -33.9292, lng: 151.0556 },
-  { suburb: "Lakemba", postcode: "2195", lat: -33.9208, lng: 151.0750 },
-  { suburb: "Campsie", postcode: "2194", lat: -33.9125, lng: 151.1042 },
-  { suburb: "Canterbury", postcode: "2193", lat: -33.9125, lng: 151.1208 },
-  { suburb: "Hurstville", postcode: "2220", lat: -33.9667, lng: 151.1000 },
-  { suburb: "Kogarah", postcode: "2217", lat: -33.9708, lng: 151.1333 },
-  { suburb: "Rockdale", postcode: "2216", lat: -33.9542, lng: 151.1375 },
-  { suburb: "Brighton-Le-Sands", postcode: "2216", lat: -33.9583, lng: 151.1500 },
-  { suburb: "Sans Souci", postcode: "2219", lat: -33.9917, lng: 151.1333 },
-  { suburb: "Cronulla", postcode: "2230", lat: -34.0569, lng: 151.1522 },
-  { suburb: "Sutherland", postcode: "2232", lat: -34.0333, lng: 151.0583 },
-  { suburb: "Miranda", postcode: "2228", lat: -34.0333, lng: 151.1000 },
-  { suburb: "Caringbah", postcode: "2229", lat: -34.0417, lng: 151.1208 },
-  { suburb: "Gymea", postcode: "2227", lat: -34.0333, lng: 151.0833 },
-  { suburb: "Menai", postcode: "2234", lat: -34.0167, lng: 151.0167 },
-  { suburb: "Engadine", postcode: "2233", lat: -34.0667, lng: 151.0167 },
-  { suburb: "Heathcote", postcode: "2233", lat: -34.0833, lng: 151.0083 },
-  { suburb: "Waterfall", postcode: "2233", lat: -34.1333, lng: 150.9917 },
-  { suburb: "Blacktown", postcode: "2148", lat: -33.7711, lng: 150.9063 },
-  { suburb: "Mount Druitt", postcode: "2770", lat: -33.7667, lng: 150.8167 },
-  { suburb: "Penrith", postcode: "2750", lat: -33.7511, lng: 150.6942 },
-  { suburb: "Liverpool", postcode: "2170", lat: -33.9200, lng: 150.9236 },
-  { suburb: "Campbelltown", postcode: "2560", lat: -34.0650, lng: 150.8142 },
-  { suburb: "Cabramatta", postcode: "2166", lat: -33.8958, lng: 150.9333 },
-  { suburb: "Fairfield", postcode: "2165", lat: -33.8708, lng: 150.9583 },
-  { suburb: "Castle Hill", postcode: "2154", lat: -33.7333, lng: 151.0000 },
-  { suburb: "Baulkham Hills", postcode: "2153", lat: -33.7667, lng: 150.9917 },
-  { suburb: "Kellyville", postcode: "2155", lat: -33.7000, lng: 150.9583 },
-  { suburb: "Rouse Hill", postcode: "2155", lat: -33.6833, lng: 150.9167 },
-  { suburb: "Bella Vista", postcode: "2153", lat: -33.7417, lng: 150.9583 },
-  { suburb: "Norwest", postcode: "2153", lat: -33.7333, lng: 150.9667 },
-  { suburb: "Seven Hills", postcode: "2147", lat: -33.7750, lng: 150.9333 },
-  { suburb: "Toongabbie", postcode: "2146", lat: -33.7917, lng: 150.9500 },
-  { suburb: "Winston Hills", postcode: "2153", lat: -33.7833, lng: 150.9750 },
-  { suburb: "Cherrybrook", postcode: "2126", lat: -33.7167, lng: 151.0500 },
-  { suburb: "West Pennant Hills", postcode: "2125", lat: -33.7500, lng: 151.0417 },
-  { suburb: "Carlingford", postcode: "2118", lat: -33.7833, lng: 151.0500 },
-  { suburb: "Beecroft", postcode: "2119", lat: -33.7500, lng: 151.0667 },
-  { suburb: "Dural", postcode: "2158", lat: -33.6833, lng: 151.0333 },
-  { suburb: "Galston", postcode: "2159", lat: -33.6500, lng: 151.0500 },
-  { suburb: "Arcadia", postcode: "2159", lat: -33.6167, lng: 151.0500 },
-  { suburb: "Berowra", postcode: "2081", lat: -33.6250, lng: 151.1500 },
-  { suburb: "Brooklyn", postcode: "2083", lat: -33.5500, lng: 151.2250 },
-  { suburb: "Asquith", postcode: "2077", lat: -33.6875, lng: 151.1083 },
-  { suburb: "Waitara", postcode: "2077", lat: -33.7083, lng: 151.1042 },
-  { suburb: "Normanhurst", postcode: "2076", lat: -33.7167, lng: 151.0917 },
-  { suburb: "Mascot", postcode: "2020", lat: -33.9250, lng: 151.1875 },
-  { suburb: "Botany", postcode: "2019", lat: -33.9458, lng: 151.1958 },
-  { suburb: "Alexandria", postcode: "2015", lat: -33.9000, lng: 151.1958 },
-  { suburb: "Waterloo", postcode: "2017", lat: -33.9000, lng: 151.2083 },
-  { suburb: "Redfern", postcode: "2016", lat: -33.8917, lng: 151.2042 },
-  { suburb: "Zetland", postcode: "2017", lat: -33.9083, lng: 151.2083 },
-  { suburb: "Green Square", postcode: "2017", lat: -33.9083, lng: 151.2042 },
-  { suburb: "Rosebery", postcode: "2018", lat: -33.9167, lng: 151.2042 },
-  { suburb: "Eastgardens", postcode: "2036", lat: -33.9458, lng: 151.2250 },
-  { suburb: "Pagewood", postcode: "2035", lat: -33.9375, lng: 151.2292 },
-  { suburb: "Kingsford", postcode: "2032", lat: -33.9208, lng: 151.2292 },
-  { suburb: "Daceyville", postcode: "2032", lat: -33.9250, lng: 151.2250 },
-  { suburb: "Moore Park", postcode: "2021", lat: -33.8958, lng: 151.2208 },
-  { suburb: "Centennial Park", postcode: "2021", lat: -33.8958, lng: 151.2375 },
-  { suburb: "Queens Park", postcode: "2022", lat: -33.9000, lng: 151.2500 },
-  { suburb: "Waverley", postcode: "2024", lat: -33.8958, lng: 151.2583 },
-  { suburb: "Dover Heights", postcode: "2030", lat: -33.8708, lng: 151.2792 },
-  { suburb: "North Bondi", postcode: "2026", lat: -33.8833, lng: 151.2792 },
-  { suburb: "Tamarama", postcode: "2026", lat: -33.8958, lng: 151.2708 },
-  { suburb: "Clovelly", postcode: "2031", lat: -33.9083, lng: 151.2625 },
-  { suburb: "South Coogee", postcode: "2034", lat: -33.9292, lng: 151.2542 },
-  { suburb: "Malabar", postcode: "2036", lat: -33.9625, lng: 151.2458 },
-  { suburb: "La Perouse", postcode: "2036", lat: -33.9875, lng: 151.2333 },
-  { suburb: "Little Bay", postcode: "2036", lat: -33.9833, lng: 151.2417 },
-  { suburb: "Chifley", postcode: "2036", lat: -33.9708, lng: 151.2375 },
-];
-
-export function searchLocations(term: string, limit: number = 10): { suburb: string; postcode: string; display: string; lat: number; lng: number }[] {
-  if (term.length < 2) return [];
-  
-  const lowerTerm = term.toLowerCase();
-  const results: { suburb: string; postcode: string; display: string; lat: number; lng: number }[] = [];
-  const seen = new Set<string>();
-  
-  for (const loc of SYDNEY_SUBURBS) {
-    const key = `${loc.suburb}-${loc.postcode}`;
-    if (seen.has(key)) continue;
-    
-    if (loc.suburb.toLowerCase().includes(lowerTerm) || loc.postcode.includes(term)) {
-      seen.add(key);
-      results.push({
-        suburb: loc.suburb,
-        postcode: loc.postcode,
-        display: `${loc.suburb}, ${loc.postcode}`,
-        lat: loc.lat,
-        lng: loc.lng
-      });
-    }
-    
-    if (results.length >= limit) break;
-  }
-  
-  return results;
-}
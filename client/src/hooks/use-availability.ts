@@ -0,0 +1,112 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import type { InsertAvailabilityRule, InsertAvailabilityException } from "@shared/schema";
+import { useAuth } from "./use-auth";
+
+export function useAvailability(providerId?: number) {
+  return useQuery({
+    queryKey: [api.availability.get.path, providerId],
+    queryFn: async () => {
+      const url = buildUrl(api.availability.get.path, { id: providerId as number });
+      const res = await fetch(url, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch availability");
+      return api.availability.get.responses[200].parse(await res.json());
+    },
+    enabled: !!providerId,
+  });
+}
+
+// from and to are local dates, "YYYY-MM-DD". The chosen variant and add-ons set how long each slot must be.
+export function useServiceSlots(serviceId: number | undefined, from: string, to: string, options: { variantId?: number; addonIds?: number[] } = {}) {
+  const { variantId, addonIds = [] } = options;
+  return useQuery({
+    queryKey: [api.availability.slots.path, serviceId, from, to, variantId, addonIds],
+    queryFn: async () => {
+      const url = new URL(buildUrl(api.availability.slots.path, { id: serviceId as number }), window.location.origin);
+      url.searchParams.append("from", from);
+      url.searchParams.append("to", to);
+      if (variantId !== undefined) url.searchParams.append("variantId", String(variantId));
+      addonIds.forEach(id => url.searchParams.append("addonIds", String(id)));
+      const res = await fetch(url.toString(), { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch available times");
+      return api.availability.slots.responses[200].parse(await res.json());
+    },
+    enabled: !!serviceId,
+    staleTime: 30000,
+  });
+}
+
+export function useUpdateAvailabilityRules() {
+  const queryClient = useQueryClient();
+  const { getToken } = useAuth();
+  return useMutation({
+    mutationFn: async (rules: InsertAvailabilityRule[]) => {
+      const token = await getToken();
+      const res = await fetch(api.availability.updateRules.path, {
+        method: api.availability.updateRules.method,
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`,
+        },
+        body: JSON.stringify({ rules }),
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to save working hours");
+      }
+      return api.availability.updateRules.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.availability.get.path] });
+      queryClient.invalidateQueries({ queryKey: [api.availability.slots.path] });
+    },
+  });
+}
+
+export function useCreateAvailabilityException() {
+  const queryClient = useQueryClient();
+  const { getToken } = useAuth();
+  return useMutation({
+    mutationFn: async (data: InsertAvailabilityException) => {
+      const token = await getToken();
+      const res = await fetch(api.availability.createException.path, {
+        method: api.availability.createException.method,
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`,
+        },
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to add exception");
+      }
+      return api.availability.createException.responses[201].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.availability.get.path] });
+      queryClient.invalidateQueries({ queryKey: [api.availability.slots.path] });
+    },
+  });
+}
+
+export function useDeleteAvailabilityException() {
+  const queryClient = useQueryClient();
+  const { getToken } = useAuth();
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const token = await getToken();
+      const res = await fetch(buildUrl(api.availability.deleteException.path, { id }), {
+        method: api.availability.deleteException.method,
+        headers: {
+          "Authorization": `Bearer ${token}`,
+        },
+      });
+      if (!res.ok) throw new Error("Failed to remove exception");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.availability.get.path] });
+      queryClient.invalidateQueries({ queryKey: [api.availability.slots.path] });
+    },
+  });
+}
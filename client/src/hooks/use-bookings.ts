@@ -0,0 +1,80 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import { useAuth } from "./use-auth";
+
+export function useBookings(as?: "provider" | "client") {
+  const { getToken, isAuthenticated } = useAuth();
+  return useQuery({
+    queryKey: [api.bookings.list.path, as],
+    queryFn: async () => {
+      const token = await getToken();
+      const url = new URL(api.bookings.list.path, window.location.origin);
+      if (as) {
+        url.searchParams.append("as", as);
+      }
+      const res = await fetch(url.toString(), {
+        headers: {
+          "Authorization": `Bearer ${token}`,
+        },
+      });
+      if (!res.ok) throw new Error("Failed to fetch bookings");
+      return api.bookings.list.responses[200].parse(await res.json());
+    },
+    enabled: isAuthenticated,
+  });
+}
+
+export function useCreateBooking() {
+  const queryClient = useQueryClient();
+  const { getToken } = useAuth();
+  return useMutation({
+    mutationFn: async (data: { serviceId: number; variantId?: number; addonIds?: number[]; startsAt: Date; note?: string }) => {
+      const token = await getToken();
+      const res = await fetch(api.bookings.create.path, {
+        method: api.bookings.create.method,
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`,
+        },
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to request booking");
+      }
+      return api.bookings.create.responses[201].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.bookings.list.path] });
+    },
+  });
+}
+
+type BookingAction = "accept" | "decline" | "reschedule" | "cancel" | "complete";
+
+export function useUpdateBooking() {
+  const queryClient = useQueryClient();
+  const { getToken } = useAuth();
+  return useMutation({
+    mutationFn: async ({ id, action, startsAt, reason }: { id: number; action: BookingAction; startsAt?: Date; reason?: string }) => {
+      const token = await getToken();
+      const route = api.bookings[action];
+      const res = await fetch(buildUrl(route.path, { id }), {
+        method: route.method,
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`,
+        },
+        body: JSON.stringify({ startsAt, reason }),
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to update booking");
+      }
+      return route.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.bookings.list.path] });
+    },
+  });
+}
@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { api } from "@shared/routes";
+import type { AustralianState } from "@shared/locations";
+import { useAuth } from "./use-auth";
+
+// Typing pauses this long before the gazetteer is asked for suggestions
+const SEARCH_DEBOUNCE_MS = 250;
+// Address lookups go to an upstream geocoder, so they wait for a longer pause
+const GEOCODE_DEBOUNCE_MS = 500;
+const GEOCODE_MIN_LENGTH = 3;
+
+function useDebouncedValue(value: string, delayMs: number) {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timer);
+  }, [value, delayMs]);
+
+  return debounced;
+}
+
+// Suburb and postcode suggestions for a typeahead. Empty until something has been typed.
+export function useLocationSearch(term: string, options: { state?: AustralianState; limit?: number } = {}) {
+  const { state, limit } = options;
+  const debounced = useDebouncedValue(term.trim(), SEARCH_DEBOUNCE_MS);
+
+  return useQuery({
+    queryKey: [api.locations.search.path, debounced, state, limit],
+    queryFn: async () => {
+      const url = new URL(api.locations.search.path, window.location.origin);
+      url.searchParams.append("q", debounced);
+      if (state) url.searchParams.append("state", state);
+      if (limit) url.searchParams.append("limit", String(limit));
+      const res = await fetch(url.toString(), { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to search locations");
+      return api.locations.search.responses[200].parse(await res.json());
+    },
+    enabled: debounced.length > 0,
+    staleTime: Infinity,
+  });
+}
+
+// Resolves typed text like "Richmond VIC" to one suburb, or to the suburbs it could mean
+export async function lookupLocality(query: string) {
+  const url = new URL(api.locations.lookup.path, window.location.origin);
+  url.searchParams.append("q", query);
+  const res = await fetch(url.toString(), { credentials: "include" });
+  if (!res.ok) throw new Error("Failed to look up location");
+  return api.locations.lookup.responses[200].parse(await res.json());
+}
+
+// Street address suggestions from the server's geocoder, once at least three characters are typed
+export function useGeocodeSearch(term: string) {
+  const { getToken } = useAuth();
+  const debounced = useDebouncedValue(term.trim(), GEOCODE_DEBOUNCE_MS);
+
+  return useQuery({
+    queryKey: [api.geocode.search.path, debounced],
+    queryFn: async () => {
+      const token = await getToken();
+      const url = new URL(api.geocode.search.path, window.location.origin);
+      url.searchParams.append("q", debounced);
+      const res = await fetch(url.toString(), {
+        headers: { "Authorization": `Bearer ${token}` },
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error(res.status === 429 ? "Too many location searches, please wait a moment" : "Failed to search addresses");
+      return api.geocode.search.responses[200].parse(await res.json());
+    },
+    enabled: debounced.length >= GEOCODE_MIN_LENGTH,
+    staleTime: Infinity,
+    // Retrying a rate-limited search only makes it worse
+    retry: false,
+  });
+}
+
+// The place at a point, e.g. the browser's current position; null when there's nothing recognisable there
+export function useReverseGeocode() {
+  const { getToken } = useAuth();
+
+  return useCallback(async (lat: number, lng: number) => {
+    const token = await getToken();
+    const url = new URL(api.geocode.reverse.path, window.location.origin);
+    url.searchParams.append("lat", String(lat));
+    url.searchParams.append("lng", String(lng));
+    const res = await fetch(url.toString(), {
+      headers: { "Authorization": `Bearer ${token}` },
+      credentials: "include",
+    });
+    if (!res.ok) throw new Error(res.status === 429 ? "Too many location searches, please wait a moment" : "Failed to look up your location");
+    return api.geocode.reverse.responses[200].parse(await res.json());
+  }, [getToken]);
+}
@@ -1,17 +1,41 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { api, buildUrl } from "@shared/routes";
-import type { InsertMessage, Message } from "@shared/schema";
+import type { InsertMessageAttachment } from "@shared/schema";
 import { useAuth } from "./use-auth";
+import { useRealtimeStatus } from "./use-realtime";
 
-export function useMessages(otherUserId?: number) {
+export function useConversations() {
   const { getToken } = useAuth();
+  const isLive = useRealtimeStatus();
   return useQuery({
-    queryKey: [api.messages.list.path, otherUserId],
+    queryKey: [api.messages.conversations.path],
     queryFn: async () => {
+      const token = await getToken();
+      const res = await fetch(api.messages.conversations.path, {
+        headers: {
+          "Authorization": `Bearer ${token}`,
+        },
+      });
+      if (!res.ok) throw new Error("Failed to fetch conversations");
+      return api.messages.conversations.responses[200].parse(await res.json());
+    },
+    // New messages are pushed over the socket; poll only while it is down
+    refetchInterval: isLive ? false : 3000,
+  });
+}
+
+// Message history with one counterpart, loaded newest page first
+export function useMessages(otherUserId?: number | null) {
+  const { getToken } = useAuth();
+  const isLive = useRealtimeStatus();
+  return useInfiniteQuery({
+    queryKey: [api.messages.list.path, otherUserId],
+    queryFn: async ({ pageParam }) => {
       const token = await getToken();
       const url = new URL(api.messages.list.path, window.location.origin);
-      if (otherUserId) {
-        url.searchParams.append("otherUserId", String(otherUserId));
+      url.searchParams.append("otherUserId", String(otherUserId));
+      if (pageParam) {
+        url.searchParams.append("before", String(pageParam));
       }
       const res = await fetch(url.toString(), {
         headers: {
@@ -21,7 +45,54 @@ export function useMessages(otherUserId?: number) {
       if (!res.ok) throw new Error("Failed to fetch messages");
       return api.messages.list.responses[200].parse(await res.json());
     },
-    refetchInterval: 3000, // Poll every 3s for MVP
+    initialPageParam: null as number | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!otherUserId,
+    refetchInterval: isLive ? false : 3000,
+  });
+}
+
+export function useUnreadMessageCount() {
+  const { getToken, isAuthenticated } = useAuth();
+  const isLive = useRealtimeStatus();
+  return useQuery({
+    queryKey: [api.messages.unreadCount.path],
+    queryFn: async () => {
+      const token = await getToken();
+      const res = await fetch(api.messages.unreadCount.path, {
+        headers: {
+          "Authorization": `Bearer ${token}`,
+        },
+      });
+      if (!res.ok) throw new Error("Failed to fetch unread count");
+      return api.messages.unreadCount.responses[200].parse(await res.json()).count;
+    },
+    enabled: isAuthenticated,
+    refetchInterval: isLive ? false : 30000,
+  });
+}
+
+export function useMarkConversationRead() {
+  const queryClient = useQueryClient();
+  const { getToken } = useAuth();
+  return useMutation({
+    mutationFn: async ({ otherUserId, upToId }: { otherUserId: number; upToId: number }) => {
+      const token = await getToken();
+      const res = await fetch(buildUrl(api.messages.markRead.path, { otherUserId }), {
+        method: api.messages.markRead.method,
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`,
+        },
+        body: JSON.stringify({ upToId }),
+      });
+      if (!res.ok) throw new Error("Failed to mark messages read");
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: [api.messages.conversations.path] });
+      queryClient.invalidateQueries({ queryKey: [api.messages.unreadCount.path] });
+      queryClient.invalidateQueries({ queryKey: [api.messages.list.path, variables.otherUserId] });
+    },
   });
 }
 
@@ -29,7 +100,7 @@ export function useSendMessage() {
   const queryClient = useQueryClient();
   const { getToken } = useAuth();
   return useMutation({
-    mutationFn: async (data: { receiverId: number; content: string }) => {
+    mutationFn: async (data: { receiverId: number; content: string; attachments?: InsertMessageAttachment[] }) => {
       const token = await getToken();
       const res = await fetch(api.messages.send.path, {
         method: api.messages.send.method,
@@ -43,7 +114,7 @@ export function useSendMessage() {
       return api.messages.send.responses[201].parse(await res.json());
     },
     onSuccess: (_, variables) => {
-      queryClient.invalidateQueries({ queryKey: [api.messages.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.messages.conversations.path] });
       queryClient.invalidateQueries({ queryKey: [api.messages.list.path, variables.receiverId] });
     },
   });
@@ -64,6 +135,7 @@ export function useDeleteMessage() {
       if (!res.ok) throw new Error("Failed to delete message");
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.messages.conversations.path] });
       queryClient.invalidateQueries({ queryKey: [api.messages.list.path] });
     },
   });
@@ -84,7 +156,33 @@ export function useDeleteConversation() {
       if (!res.ok) throw new Error("Failed to delete conversation");
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.messages.conversations.path] });
       queryClient.invalidateQueries({ queryKey: [api.messages.list.path] });
     },
   });
 }
+
+// Providers accept a conversation to share their exact address with the client, or withdraw it again
+export function useAcceptConversation() {
+  const queryClient = useQueryClient();
+  const { getToken } = useAuth();
+  return useMutation({
+    mutationFn: async ({ otherUserId, accept }: { otherUserId: number; accept: boolean }) => {
+      const token = await getToken();
+      const route = accept ? api.messages.accept : api.messages.withdrawAcceptance;
+      const res = await fetch(buildUrl(route.path, { otherUserId }), {
+        method: route.method,
+        headers: {
+          "Authorization": `Bearer ${token}`,
+        },
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to update conversation");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.messages.conversations.path] });
+    },
+  });
+}
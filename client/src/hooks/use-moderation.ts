@@ -0,0 +1,94 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import type { InsertReport } from "@shared/schema";
+import { useAuth } from "./use-auth";
+
+export function useBlocks() {
+  const { getToken, isAuthenticated } = useAuth();
+  return useQuery({
+    queryKey: [api.blocks.list.path],
+    queryFn: async () => {
+      const token = await getToken();
+      const res = await fetch(api.blocks.list.path, {
+        headers: {
+          "Authorization": `Bearer ${token}`,
+        },
+      });
+      if (!res.ok) throw new Error("Failed to fetch blocked users");
+      return api.blocks.list.responses[200].parse(await res.json());
+    },
+    enabled: isAuthenticated,
+  });
+}
+
+// Blocking hides profiles and conversations, so those lists are refreshed too
+function invalidateBlockedContent(queryClient: ReturnType<typeof useQueryClient>) {
+  queryClient.invalidateQueries({ queryKey: [api.blocks.list.path] });
+  queryClient.invalidateQueries({ queryKey: [api.profiles.list.path] });
+  queryClient.invalidateQueries({ queryKey: [api.messages.conversations.path] });
+  queryClient.invalidateQueries({ queryKey: [api.messages.unreadCount.path] });
+  queryClient.invalidateQueries({ queryKey: [api.bookings.list.path] });
+}
+
+export function useBlockProfile() {
+  const queryClient = useQueryClient();
+  const { getToken } = useAuth();
+  return useMutation({
+    mutationFn: async (profileId: number) => {
+      const token = await getToken();
+      const res = await fetch(api.blocks.create.path, {
+        method: api.blocks.create.method,
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`,
+        },
+        body: JSON.stringify({ profileId }),
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to block user");
+      }
+    },
+    onSuccess: () => invalidateBlockedContent(queryClient),
+  });
+}
+
+export function useUnblockProfile() {
+  const queryClient = useQueryClient();
+  const { getToken } = useAuth();
+  return useMutation({
+    mutationFn: async (profileId: number) => {
+      const token = await getToken();
+      const res = await fetch(buildUrl(api.blocks.delete.path, { profileId }), {
+        method: api.blocks.delete.method,
+        headers: {
+          "Authorization": `Bearer ${token}`,
+        },
+      });
+      if (!res.ok) throw new Error("Failed to unblock user");
+    },
+    onSuccess: () => invalidateBlockedContent(queryClient),
+  });
+}
+
+export function useCreateReport() {
+  const { getToken } = useAuth();
+  return useMutation({
+    mutationFn: async (data: InsertReport) => {
+      const token = await getToken();
+      const res = await fetch(api.reports.create.path, {
+        method: api.reports.create.method,
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`,
+        },
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to send report");
+      }
+      return api.reports.create.responses[201].parse(await res.json());
+    },
+  });
+}
@@ -0,0 +1,101 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import type { InsertPortfolioImage } from "@shared/schema";
+import { useAuth } from "./use-auth";
+
+// The portfolio is served as part of the profile responses, so those are refreshed after changes
+function invalidatePortfolio(queryClient: ReturnType<typeof useQueryClient>) {
+  queryClient.invalidateQueries({ queryKey: [api.profiles.me.path] });
+  queryClient.invalidateQueries({ queryKey: [api.profiles.getByUsername.path] });
+  queryClient.invalidateQueries({ queryKey: [api.profiles.list.path] });
+}
+
+export function useAddPortfolioImage() {
+  const queryClient = useQueryClient();
+  const { getToken } = useAuth();
+  return useMutation({
+    mutationFn: async (data: InsertPortfolioImage) => {
+      const token = await getToken();
+      const res = await fetch(api.portfolio.create.path, {
+        method: api.portfolio.create.method,
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`,
+        },
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to add image");
+      }
+      return api.portfolio.create.responses[201].parse(await res.json());
+    },
+    onSuccess: () => invalidatePortfolio(queryClient),
+  });
+}
+
+export function useUpdatePortfolioImage() {
+  const queryClient = useQueryClient();
+  const { getToken } = useAuth();
+  return useMutation({
+    mutationFn: async ({ id, ...data }: { id: number } & Partial<Omit<InsertPortfolioImage, "url">>) => {
+      const token = await getToken();
+      const res = await fetch(buildUrl(api.portfolio.update.path, { id }), {
+        method: api.portfolio.update.method,
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`,
+        },
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to update image");
+      }
+      return api.portfolio.update.responses[200].parse(await res.json());
+    },
+    onSuccess: () => invalidatePortfolio(queryClient),
+  });
+}
+
+export function useReorderPortfolio() {
+  const queryClient = useQueryClient();
+  const { getToken } = useAuth();
+  return useMutation({
+    mutationFn: async (ids: number[]) => {
+      const token = await getToken();
+      const res = await fetch(api.portfolio.reorder.path, {
+        method: api.portfolio.reorder.method,
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`,
+        },
+        body: JSON.stringify({ ids }),
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to reorder portfolio");
+      }
+      return api.portfolio.reorder.responses[200].parse(await res.json());
+    },
+    onSuccess: () => invalidatePortfolio(queryClient),
+  });
+}
+
+export function useDeletePortfolioImage() {
+  const queryClient = useQueryClient();
+  const { getToken } = useAuth();
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const token = await getToken();
+      const res = await fetch(buildUrl(api.portfolio.delete.path, { id }), {
+        method: api.portfolio.delete.method,
+        headers: {
+          "Authorization": `Bearer ${token}`,
+        },
+      });
+      if (!res.ok) throw new Error("Failed to delete image");
+    },
+    onSuccess: () => invalidatePortfolio(queryClient),
+  });
+}
@@ -1,12 +1,31 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { api, buildUrl, type errorSchemas } from "@shared/routes";
-import type { InsertProfile, InsertService, InsertReview, Profile, Service, Review } from "@shared/schema";
+import type { InsertProfile, InsertServiceWithOptions, Profile, Service, Review } from "@shared/schema";
 import { z } from "zod";
+import type { ServiceCategory } from "@shared/services";
 import { useAuth } from "./use-auth";
 
 // --- Profiles ---
 
-export function useProfiles(filters?: { services?: string[]; locationTypes?: string[]; search?: string; lat?: number; lng?: number; radius?: number }) {
+export interface ProfileListFilters {
+  categories?: ServiceCategory[];
+  minPriceCents?: number;
+  maxPriceCents?: number;
+  maxDuration?: number;
+  locationTypes?: string[];
+  search?: string;
+  lat?: number;
+  lng?: number;
+  radius?: number;
+  north?: number;
+  south?: number;
+  east?: number;
+  west?: number;
+  limit?: number;
+}
+
+export function useProfiles(filters?: ProfileListFilters, options: { enabled?: boolean } = {}) {
+  const { getToken } = useAuth();
   return useQuery({
     queryKey: [api.profiles.list.path, filters],
     queryFn: async () => {
@@ -22,19 +41,52 @@ export function useProfiles(filters?: { services?: string[]; locationTypes?: str
           }
         });
       }
-      const res = await fetch(url.toString(), { credentials: "include" });
+      // Signed-in viewers send their token so profiles they've blocked, or been blocked by, are left out
+      const token = await getToken();
+      const res = await fetch(url.toString(), {
+        credentials: "include",
+        headers: token ? { "Authorization": `Bearer ${token}` } : undefined,
+      });
       if (!res.ok) throw new Error("Failed to fetch profiles");
       return api.profiles.list.responses[200].parse(await res.json());
     },
+    enabled: options.enabled ?? true,
+  });
+}
+
+// Provider usernames for the search box, once at least two characters are typed
+export function useUsernameSuggestions(term: string) {
+  const { getToken } = useAuth();
+  const q = term.trim();
+  return useQuery({
+    queryKey: [api.profiles.suggestions.path, q],
+    queryFn: async () => {
+      const url = new URL(api.profiles.suggestions.path, window.location.origin);
+      url.searchParams.append("q", q);
+      const token = await getToken();
+      const res = await fetch(url.toString(), {
+        credentials: "include",
+        headers: token ? { "Authorization": `Bearer ${token}` } : undefined,
+      });
+      if (!res.ok) throw new Error("Failed to fetch suggestions");
+      return api.profiles.suggestions.responses[200].parse(await res.json());
+    },
+    enabled: q.length >= 2,
   });
 }
 
 export function useProfile(username?: string) {
+  const { getToken } = useAuth();
   return useQuery({
     queryKey: [api.profiles.getByUsername.path, username],
     queryFn: async () => {
       const url = buildUrl(api.profiles.getByUsername.path, { username: username as string });
-      const res = await fetch(url, { credentials: "include" });
+      // Signed-in viewers send their token so blocks and moderation controls apply
+      const token = await getToken();
+      const res = await fetch(url, {
+        credentials: "include",
+        headers: token ? { "Authorization": `Bearer ${token}` } : undefined,
+      });
       if (res.status === 404) return null;
       if (!res.ok) throw new Error("Failed to fetch profile");
       return api.profiles.getByUsername.responses[200].parse(await res.json());
@@ -189,7 +241,7 @@ export function useCreateService() {
   const queryClient = useQueryClient();
   const { getToken } = useAuth();
   return useMutation({
-    mutationFn: async (data: InsertService) => {
+    mutationFn: async (data: InsertServiceWithOptions) => {
       const token = await getToken();
       // Schema defines inputs as coerced strings/numbers where appropriate
       // Just ensure we're sending what the server expects
@@ -216,6 +268,36 @@ export function useCreateService() {
   });
 }
 
+export function useUpdateService() {
+  const queryClient = useQueryClient();
+  const { getToken } = useAuth();
+  return useMutation({
+    mutationFn: async ({ id, ...data }: { id: number } & InsertServiceWithOptions) => {
+      const token = await getToken();
+      const res = await fetch(buildUrl(api.services.update.path, { id }), {
+        method: api.services.update.method,
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`,
+        },
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) {
+        if (res.status === 409) {
+          throw new Error("A service with this name already exists");
+        }
+        throw new Error("Failed to update service");
+      }
+      return api.services.update.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.profiles.me.path] });
+      queryClient.invalidateQueries({ queryKey: [api.profiles.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.profiles.getByUsername.path] });
+    },
+  });
+}
+
 export function useDeleteService() {
   const queryClient = useQueryClient();
   const { getToken } = useAuth();
@@ -244,7 +326,7 @@ export function useCreateReview() {
   const queryClient = useQueryClient();
   const { getToken } = useAuth();
   return useMutation({
-    mutationFn: async (data: Omit<InsertReview, "clientId">) => {
+    mutationFn: async (data: z.infer<typeof api.reviews.create.input>) => {
       const token = await getToken();
       const res = await fetch(api.reviews.create.path, {
         method: api.reviews.create.method,
@@ -263,6 +345,7 @@ export function useCreateReview() {
     },
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: [api.profiles.get.path, variables.providerId] });
+      queryClient.invalidateQueries({ queryKey: [api.profiles.getByUsername.path] });
       queryClient.invalidateQueries({ queryKey: [api.profiles.list.path] });
       queryClient.invalidateQueries({ queryKey: ["/api/reviews/check", variables.providerId] });
     },
@@ -305,8 +388,121 @@ export function useDeleteReview() {
     },
     onSuccess: (providerId) => {
       queryClient.invalidateQueries({ queryKey: [api.profiles.get.path, providerId] });
+      queryClient.invalidateQueries({ queryKey: [api.profiles.getByUsername.path] });
       queryClient.invalidateQueries({ queryKey: [api.profiles.list.path] });
       queryClient.invalidateQueries({ queryKey: ["/api/reviews/check", providerId] });
     },
   });
 }
+
+export function useUpdateReview() {
+  const queryClient = useQueryClient();
+  const { getToken } = useAuth();
+  return useMutation({
+    mutationFn: async ({ reviewId, ...data }: { reviewId: number } & z.infer<typeof api.reviews.update.input>) => {
+      const token = await getToken();
+      const res = await fetch(buildUrl(api.reviews.update.path, { id: reviewId }), {
+        method: api.reviews.update.method,
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`,
+        },
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to update review");
+      }
+      return api.reviews.update.responses[200].parse(await res.json());
+    },
+    onSuccess: (review) => {
+      queryClient.invalidateQueries({ queryKey: [api.profiles.getByUsername.path] });
+      queryClient.invalidateQueries({ queryKey: [api.profiles.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.reviews.history.path, review.id] });
+    },
+  });
+}
+
+export function useReviewHistory(reviewId: number, enabled: boolean) {
+  return useQuery({
+    queryKey: [api.reviews.history.path, reviewId],
+    queryFn: async () => {
+      const res = await fetch(buildUrl(api.reviews.history.path, { id: reviewId }));
+      if (!res.ok) throw new Error("Failed to fetch review history");
+      return api.reviews.history.responses[200].parse(await res.json());
+    },
+    enabled,
+  });
+}
+
+export function useReplyToReview() {
+  const queryClient = useQueryClient();
+  const { getToken } = useAuth();
+  return useMutation({
+    mutationFn: async ({ reviewId, reply }: { reviewId: number; reply: string }) => {
+      const token = await getToken();
+      const res = await fetch(buildUrl(api.reviews.reply.path, { id: reviewId }), {
+        method: api.reviews.reply.method,
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`,
+        },
+        body: JSON.stringify({ reply }),
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to save reply");
+      }
+      return api.reviews.reply.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.profiles.getByUsername.path] });
+    },
+  });
+}
+
+export function useDeleteReviewReply() {
+  const queryClient = useQueryClient();
+  const { getToken } = useAuth();
+  return useMutation({
+    mutationFn: async (reviewId: number) => {
+      const token = await getToken();
+      const res = await fetch(buildUrl(api.reviews.deleteReply.path, { id: reviewId }), {
+        method: api.reviews.deleteReply.method,
+        headers: {
+          "Authorization": `Bearer ${token}`,
+        },
+      });
+      if (!res.ok) throw new Error("Failed to delete reply");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.profiles.getByUsername.path] });
+    },
+  });
+}
+
+export function useSetReviewPhotoHidden() {
+  const queryClient = useQueryClient();
+  const { getToken } = useAuth();
+  return useMutation({
+    mutationFn: async ({ photoId, hidden }: { photoId: number; hidden: boolean }) => {
+      const token = await getToken();
+      const res = await fetch(buildUrl(api.reviews.photoVisibility.path, { id: photoId }), {
+        method: api.reviews.photoVisibility.method,
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`,
+        },
+        body: JSON.stringify({ hidden }),
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to update photo");
+      }
+      return api.reviews.photoVisibility.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.profiles.getByUsername.path] });
+    },
+  });
+}
@@ -0,0 +1,77 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import type { InsertProviderLocation } from "@shared/schema";
+import { useAuth } from "./use-auth";
+
+// Locations are served as part of the profile responses, so those are refreshed after changes
+function invalidateLocations(queryClient: ReturnType<typeof useQueryClient>) {
+  queryClient.invalidateQueries({ queryKey: [api.profiles.me.path] });
+  queryClient.invalidateQueries({ queryKey: [api.profiles.getByUsername.path] });
+  queryClient.invalidateQueries({ queryKey: [api.profiles.list.path] });
+}
+
+export function useCreateProviderLocation() {
+  const queryClient = useQueryClient();
+  const { getToken } = useAuth();
+  return useMutation({
+    mutationFn: async (data: InsertProviderLocation) => {
+      const token = await getToken();
+      const res = await fetch(api.providerLocations.create.path, {
+        method: api.providerLocations.create.method,
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`,
+        },
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to add location");
+      }
+      return api.providerLocations.create.responses[201].parse(await res.json());
+    },
+    onSuccess: () => invalidateLocations(queryClient),
+  });
+}
+
+export function useUpdateProviderLocation() {
+  const queryClient = useQueryClient();
+  const { getToken } = useAuth();
+  return useMutation({
+    mutationFn: async ({ id, ...data }: { id: number } & InsertProviderLocation) => {
+      const token = await getToken();
+      const res = await fetch(buildUrl(api.providerLocations.update.path, { id }), {
+        method: api.providerLocations.update.method,
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`,
+        },
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to update location");
+      }
+      return api.providerLocations.update.responses[200].parse(await res.json());
+    },
+    onSuccess: () => invalidateLocations(queryClient),
+  });
+}
+
+export function useDeleteProviderLocation() {
+  const queryClient = useQueryClient();
+  const { getToken } = useAuth();
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const token = await getToken();
+      const res = await fetch(buildUrl(api.providerLocations.delete.path, { id }), {
+        method: api.providerLocations.delete.method,
+        headers: {
+          "Authorization": `Bearer ${token}`,
+        },
+      });
+      if (!res.ok) throw new Error("Failed to delete location");
+    },
+    onSuccess: () => invalidateLocations(queryClient),
+  });
+}
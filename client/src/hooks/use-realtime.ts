@@ -0,0 +1,100 @@
+import { useEffect, useRef, useState, useSyncExternalStore, useCallback } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { api } from "@shared/routes";
+import {
+  connectRealtime,
+  disconnectRealtime,
+  isRealtimeConnected,
+  sendRealtime,
+  subscribeRealtime,
+  subscribeRealtimeStatus,
+} from "@/lib/realtime";
+import { useAuth } from "./use-auth";
+
+// How long a typing indicator stays up without a fresh event
+const TYPING_TIMEOUT_MS = 4000;
+// Minimum gap between typing events we send
+const TYPING_THROTTLE_MS = 2000;
+
+// Keeps the socket open while signed in and refreshes cached queries when events arrive.
+// Mount once near the root of the app.
+export function useRealtimeConnection() {
+  const { isAuthenticated, getToken } = useAuth();
+  const queryClient = useQueryClient();
+  const getTokenRef = useRef(getToken);
+  getTokenRef.current = getToken;
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    connectRealtime(() => getTokenRef.current());
+    return () => disconnectRealtime();
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    return subscribeRealtime((event) => {
+      if (event.type === "message" || event.type === "read") {
+        queryClient.invalidateQueries({ queryKey: [api.messages.conversations.path] });
+        queryClient.invalidateQueries({ queryKey: [api.messages.list.path] });
+        queryClient.invalidateQueries({ queryKey: [api.messages.unreadCount.path] });
+      } else if (event.type === "notification") {
+        queryClient.invalidateQueries({ queryKey: [api.notifications.list.path] });
+      }
+    });
+  }, [queryClient]);
+
+  // Catch up on anything missed while the socket was down
+  useEffect(() => {
+    return subscribeRealtimeStatus(() => {
+      if (isRealtimeConnected()) {
+        queryClient.invalidateQueries({ queryKey: [api.messages.conversations.path] });
+        queryClient.invalidateQueries({ queryKey: [api.messages.list.path] });
+        queryClient.invalidateQueries({ queryKey: [api.messages.unreadCount.path] });
+        queryClient.invalidateQueries({ queryKey: [api.notifications.list.path] });
+      }
+    });
+  }, [queryClient]);
+}
+
+// True while the live connection is up; hooks fall back to polling otherwise
+export function useRealtimeStatus() {
+  return useSyncExternalStore(subscribeRealtimeStatus, isRealtimeConnected);
+}
+
+// Whether the given profile is currently typing to us
+export function useTypingIndicator(otherUserId?: number | null) {
+  const [isTyping, setIsTyping] = useState(false);
+
+  useEffect(() => {
+    setIsTyping(false);
+    if (!otherUserId) return;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = subscribeRealtime((event) => {
+      if (event.type === "typing" && event.from === otherUserId) {
+        setIsTyping(true);
+        clearTimeout(timer);
+        timer = setTimeout(() => setIsTyping(false), TYPING_TIMEOUT_MS);
+      } else if (event.type === "message" && event.message.senderId === otherUserId) {
+        clearTimeout(timer);
+        setIsTyping(false);
+      }
+    });
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [otherUserId]);
+
+  return isTyping;
+}
+
+// Returns a callback to call on each keystroke; events are throttled
+export function useSendTyping(receiverId?: number | null) {
+  const lastSent = useRef(0);
+  return useCallback(() => {
+    if (!receiverId) return;
+    const now = Date.now();
+    if (now - lastSent.current < TYPING_THROTTLE_MS) return;
+    lastSent.current = now;
+    sendRealtime({ type: "typing", to: receiverId });
+  }, [receiverId]);
+}
@@ -0,0 +1,50 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, buildUrl } from "@shared/routes";
+import type { ServiceArea } from "@shared/schema";
+import { useAuth } from "./use-auth";
+
+export function useServiceArea(providerId?: number) {
+  const { getToken } = useAuth();
+  return useQuery({
+    queryKey: [api.serviceArea.get.path, providerId],
+    queryFn: async () => {
+      const url = buildUrl(api.serviceArea.get.path, { id: providerId as number });
+      // Signed-in viewers send their token so blocks apply
+      const token = await getToken();
+      const res = await fetch(url, {
+        credentials: "include",
+        headers: token ? { "Authorization": `Bearer ${token}` } : undefined,
+      });
+      if (!res.ok) throw new Error("Failed to fetch service area");
+      return api.serviceArea.get.responses[200].parse(await res.json());
+    },
+    enabled: !!providerId,
+  });
+}
+
+export function useUpdateServiceArea() {
+  const queryClient = useQueryClient();
+  const { getToken } = useAuth();
+  return useMutation({
+    mutationFn: async (area: ServiceArea) => {
+      const token = await getToken();
+      const res = await fetch(api.serviceArea.update.path, {
+        method: api.serviceArea.update.method,
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`,
+        },
+        body: JSON.stringify(area),
+      });
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to save service area");
+      }
+      return api.serviceArea.update.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.serviceArea.get.path] });
+      queryClient.invalidateQueries({ queryKey: [api.profiles.list.path] });
+    },
+  });
+}
@@ -11,10 +11,16 @@ interface UploadMetadata {
 interface UploadResponse {
   uploadURL: string;
   objectPath: string;
+  /** Single-use token the upload is completed with; it expires after a few minutes */
+  uploadToken: string;
   metadata: UploadMetadata;
+  /** Resized WebP copies of an uploaded image, keyed by variant name; not set for attachments */
+  variants?: { thumb: string; medium: string };
 }
 
 interface UseUploadOptions {
+  /** "attachment" stores the file privately for a message instead of as a public image */
+  purpose?: "attachment";
   onSuccess?: (response: UploadResponse) => void;
   onError?: (error: Error) => void;
 }
@@ -75,6 +81,7 @@ export function useUpload(options: UseUploadOptions = {}) {
           name: file.name,
           size: file.size,
           contentType: file.type || "application/octet-stream",
+          purpose: options.purpose,
         }),
       });
 
@@ -85,7 +92,7 @@ export function useUpload(options: UseUploadOptions = {}) {
 
       return response.json();
     },
-    [getToken]
+    [getToken, options.purpose]
   );
 
   /**
@@ -108,6 +115,33 @@ export function useUpload(options: UseUploadOptions = {}) {
     []
   );
 
+  /**
+   * Tell the backend the upload finished, spending its token.
+   * Images are validated and published here; the server strips their metadata
+   * and returns the URLs of the resized variants.
+   */
+  const completeUpload = useCallback(
+    async ({ objectPath, uploadToken }: UploadResponse): Promise<Pick<UploadResponse, "objectPath" | "variants">> => {
+      const token = await getToken();
+      const response = await fetch("/api/uploads/complete", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`,
+        },
+        body: JSON.stringify({ objectPath, uploadToken }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to process upload");
+      }
+
+      return response.json();
+    },
+    [getToken]
+  );
+
   /**
    * Upload a file using the presigned URL flow.
    *
@@ -129,9 +163,13 @@ export function useUpload(options: UseUploadOptions = {}) {
         setProgress(30);
         await uploadToPresignedUrl(file, uploadResponse.uploadURL);
 
+        // Step 3: Complete the upload; images are only published once the server has processed them
+        setProgress(70);
+        const result = { ...uploadResponse, ...(await completeUpload(uploadResponse)) };
+
         setProgress(100);
-        options.onSuccess?.(uploadResponse);
-        return uploadResponse;
+        options.onSuccess?.(result);
+        return result;
       } catch (err) {
         const error = err instanceof Error ? err : new Error("Upload failed");
         setError(error);
@@ -141,7 +179,7 @@ export function useUpload(options: UseUploadOptions = {}) {
         setIsUploading(false);
       }
     },
-    [requestUploadUrl, uploadToPresignedUrl, options]
+    [requestUploadUrl, uploadToPresignedUrl, completeUpload, options]
   );
 
   /**
@@ -0,0 +1,111 @@
+import { REALTIME_PATH, type ClientEvent, type ServerEvent } from "@shared/realtime";
+
+type EventListener = (event: ServerEvent) => void;
+type StatusListener = () => void;
+
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+let socket: WebSocket | null = null;
+let connected = false;
+let active = false;
+let reconnectAttempts = 0;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let tokenProvider: (() => Promise<string | null>) | null = null;
+
+const eventListeners = new Set<EventListener>();
+const statusListeners = new Set<StatusListener>();
+
+function setConnected(value: boolean) {
+  if (connected === value) return;
+  connected = value;
+  statusListeners.forEach(listener => listener());
+}
+
+function scheduleReconnect() {
+  if (!active || reconnectTimer) return;
+  // Exponential backoff: 1s, 2s, 4s ... capped
+  const delay = Math.min(1000 * 2 ** reconnectAttempts, MAX_RECONNECT_DELAY_MS);
+  reconnectAttempts++;
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    open();
+  }, delay);
+}
+
+async function open() {
+  if (!active || !tokenProvider) return;
+  const token = await tokenProvider().catch(() => null);
+  if (!active) return;
+  if (!token) {
+    scheduleReconnect();
+    return;
+  }
+
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  const ws = new WebSocket(`${protocol}//${window.location.host}${REALTIME_PATH}?token=${encodeURIComponent(token)}`);
+  socket = ws;
+
+  ws.onopen = () => {
+    reconnectAttempts = 0;
+    setConnected(true);
+  };
+  ws.onmessage = (e) => {
+    let event: ServerEvent;
+    try {
+      event = JSON.parse(e.data);
+    } catch {
+      return;
+    }
+    eventListeners.forEach(listener => listener(event));
+  };
+  ws.onclose = () => {
+    if (socket === ws) socket = null;
+    setConnected(false);
+    scheduleReconnect();
+  };
+}
+
+// Opens the socket and keeps it open (reconnecting on drops) until disconnectRealtime is called
+export function connectRealtime(getToken: () => Promise<string | null>) {
+  tokenProvider = getToken;
+  if (active) return;
+  active = true;
+  reconnectAttempts = 0;
+  open();
+}
+
+export function disconnectRealtime() {
+  active = false;
+  tokenProvider = null;
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  socket?.close();
+  socket = null;
+  setConnected(false);
+}
+
+export function sendRealtime(event: ClientEvent) {
+  if (socket?.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(event));
+  }
+}
+
+export function subscribeRealtime(listener: EventListener) {
+  eventListeners.add(listener);
+  return () => {
+    eventListeners.delete(listener);
+  };
+}
+
+export function subscribeRealtimeStatus(listener: StatusListener) {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
+
+export function isRealtimeConnected() {
+  return connected;
+}
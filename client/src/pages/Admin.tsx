@@ -1,5 +1,6 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Navigation } from "@/components/Navigation";
+import { ModerationQueue } from "@/components/ModerationQueue";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -15,11 +16,14 @@ import { useToast } from "@/hooks/use-toast";
 import { useMyProfile } from "@/hooks/use-profiles";
 import { useAuth } from "@/hooks/use-auth";
 import { useUpload } from "@/hooks/use-upload";
+import { useGeocodeSearch } from "@/hooks/use-locations";
 import { queryClient } from "@/lib/queryClient";
-import { Users, UserCheck, MessageSquare, MapPin, Trash2, ShieldCheck, Loader2, Eye, Plus, Edit, Camera, X } from "lucide-react";
+import { ServiceCatalogueFields, emptyCatalogueFields, serviceToCatalogueFields, catalogueFieldsError, catalogueFieldsToService, type CatalogueFields } from "@/components/ServiceCatalogueFields";
+import { Users, UserCheck, MessageSquare, MapPin, Trash2, ShieldCheck, Loader2, Eye, EyeOff, Plus, Edit, Camera, X } from "lucide-react";
 import { Redirect } from "wouter";
 import { useState, useRef } from "react";
 import type { Profile, Service } from "@shared/schema";
+import type { GeocodeResult } from "@shared/locations";
 
 interface AdminStats {
   totalUsers: number;
@@ -37,29 +41,12 @@ const locationTypeLabels: Record<string, string> = {
   mobile: "Mobile",
 };
 
-interface LocationResult {
-  display_name: string;
-  lat: string;
-  lon: string;
-  address?: {
-    suburb?: string;
-    city?: string;
-    town?: string;
-    village?: string;
-    city_district?: string;
-    municipality?: string;
-    county?: string;
-    state?: string;
-    postcode?: string;
-  };
-}
-
 interface ServiceFormState {
   id?: number;
   tempId?: string;
   name: string;
   description: string;
-  price: string;
+  catalogue: CatalogueFields;
   duration: string;
 }
 
@@ -83,11 +70,9 @@ export default function Admin() {
   });
 
   const [locationSearch, setLocationSearch] = useState("");
-  const [locationResults, setLocationResults] = useState<LocationResult[]>([]);
-  const [isSearching, setIsSearching] = useState(false);
   const [showResults, setShowResults] = useState(false);
   const [locationSelected, setLocationSelected] = useState(false);
-  const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const { data: locationResults = [], isFetching: isSearching } = useGeocodeSearch(locationSelected ? "" : locationSearch);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [services, setServices] = useState<ServiceFormState[]>([]);
   const [servicesLoading, setServicesLoading] = useState(false);
@@ -206,7 +191,7 @@ export default function Admin() {
   });
 
   const updateProfileMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: number; data: Partial<typeof formData> }) => {
+    mutationFn: async ({ id, data }: { id: number; data: Partial<typeof formData> & { hidden?: boolean } }) => {
       const token = await getToken();
       const res = await fetch(`/api/admin/profiles/${id}`, {
         method: "PUT",
@@ -234,64 +219,18 @@ export default function Admin() {
     },
   });
 
-  const searchLocation = async (query: string) => {
-    if (query.length < 3) {
-      setLocationResults([]);
-      setShowResults(false);
-      return;
-    }
-    setIsSearching(true);
-    try {
-      const response = await fetch(
-        `https://nominatim.openstreetmap.org/search?format=json&addressdetails=1&q=${encodeURIComponent(query)}&countrycodes=au&limit=5`,
-        { headers: { 'Accept': 'application/json' } }
-      );
-      const data = await response.json();
-      
-      // Deduplicate results based on formatted location
-      const seen = new Set<string>();
-      const uniqueResults = data.filter((result: LocationResult) => {
-        const formatted = formatLocation(result);
-        if (seen.has(formatted)) return false;
-        seen.add(formatted);
-        return true;
-      });
-      
-      setLocationResults(uniqueResults);
-      setShowResults(true);
-    } catch (error) {
-      console.error("Location search error:", error);
-      setLocationResults([]);
-    } finally {
-      setIsSearching(false);
-    }
-  };
-
   const handleLocationSearchChange = (value: string) => {
     setLocationSearch(value);
     setFormData({ ...formData, location: value });
     setLocationSelected(false);
-    if (searchTimeoutRef.current) clearTimeout(searchTimeoutRef.current);
-    searchTimeoutRef.current = setTimeout(() => searchLocation(value), 500);
+    setShowResults(true);
   };
 
-  const selectLocation = (result: LocationResult) => {
-    const formatted = formatLocation(result);
-    setFormData({ ...formData, location: formatted, latitude: parseFloat(result.lat), longitude: parseFloat(result.lon) });
-    setLocationSearch(formatted);
+  const selectLocation = (result: GeocodeResult) => {
+    setFormData({ ...formData, location: result.label, latitude: result.latitude, longitude: result.longitude });
+    setLocationSearch(result.label);
     setLocationSelected(true);
     setShowResults(false);
-    setLocationResults([]);
-  };
-
-  const formatLocation = (result: LocationResult) => {
-    const address = result.address;
-    if (!address) return result.display_name;
-    const suburb = address.suburb || address.town || address.village || address.city || "";
-    const state = address.state || "";
-    const postcode = address.postcode || "";
-    const parts = [suburb, state, postcode].filter(Boolean);
-    return parts.length > 0 ? parts.join(", ") : result.display_name;
   };
 
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -313,7 +252,7 @@ export default function Admin() {
     id: service.id,
     name: service.name || "",
     description: service.description || "",
-    price: service.price || "",
+    catalogue: serviceToCatalogueFields(service),
     duration: service.duration ? String(service.duration) : "",
   });
 
@@ -342,13 +281,13 @@ export default function Admin() {
         tempId: `temp_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`,
         name: "",
         description: "",
-        price: "",
+        catalogue: emptyCatalogueFields,
         duration: "",
       },
     ]);
   };
 
-  const updateServiceField = (key: number | string, field: keyof ServiceFormState, value: string) => {
+  const updateServiceField = <K extends keyof ServiceFormState>(key: number | string, field: K, value: ServiceFormState[K]) => {
     setServices((prev) =>
       prev.map((service) =>
         (service.id === key || service.tempId === key) ? { ...service, [field]: value } : service
@@ -362,15 +301,20 @@ export default function Admin() {
       toast({ title: "Service name required", variant: "destructive" });
       return;
     }
+    const priceError = catalogueFieldsError(service.catalogue);
+    if (priceError) {
+      toast({ title: "Invalid price", description: priceError, variant: "destructive" });
+      return;
+    }
     const saveKey = service.id ?? service.tempId ?? "new";
     setServiceSavingId(saveKey);
     try {
       const token = await getToken();
       const payload = {
         name: service.name.trim(),
-        description: service.description.trim(),
-        price: service.price.trim(),
-        duration: service.duration.trim(),
+        description: service.description.trim() || null,
+        ...catalogueFieldsToService(service.catalogue),
+        duration: service.duration.trim() ? parseInt(service.duration) : null,
       };
       const res = await fetch(
         service.id ? `/api/admin/services/${service.id}` : `/api/admin/profiles/${editingProfile.id}/services`,
@@ -480,6 +424,7 @@ export default function Admin() {
           <TabsList>
             <TabsTrigger value="stats" data-testid="tab-stats">Statistics</TabsTrigger>
             <TabsTrigger value="accounts" data-testid="tab-accounts">Manage Accounts</TabsTrigger>
+            <TabsTrigger value="moderation" data-testid="tab-moderation">Moderation</TabsTrigger>
           </TabsList>
 
           <TabsContent value="stats" className="space-y-6">
@@ -680,6 +625,12 @@ export default function Admin() {
                                 Admin
                               </Badge>
                             )}
+                            {profile.hidden && (
+                              <Badge variant="destructive" className="text-xs">
+                                <EyeOff className="h-3 w-3 mr-1" />
+                                Hidden
+                              </Badge>
+                            )}
                           </div>
                           <div className="flex items-center gap-2 text-sm text-muted-foreground">
                             <Badge variant="outline" className="text-xs">
@@ -694,6 +645,18 @@ export default function Admin() {
                       
                       {!profile.isAdmin && (
                         <div className="flex gap-2">
+                          {profile.hidden && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Unhide profile"
+                              onClick={() => updateProfileMutation.mutate({ id: profile.id, data: { hidden: false } })}
+                              disabled={updateProfileMutation.isPending}
+                              data-testid={`button-unhide-${profile.id}`}
+                            >
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                          )}
                           <Button variant="ghost" size="icon" onClick={() => handleEdit(profile)} data-testid={`button-edit-${profile.id}`}>
                             <Edit className="h-4 w-4" />
                           </Button>
@@ -819,7 +782,7 @@ export default function Admin() {
                                   >
                                     <MapPin className="h-4 w-4 mt-0.5 text-primary shrink-0" />
                                     <div className="flex-1 min-w-0">
-                                      <div className="font-medium text-sm truncate">{result.display_name}</div>
+                                      <div className="font-medium text-sm truncate">{result.label}</div>
                                     </div>
                                   </button>
                                 ))}
@@ -877,20 +840,18 @@ export default function Admin() {
                                         value={service.description}
                                         onChange={(e) => updateServiceField(key, "description", e.target.value)}
                                       />
-                                      <div className="grid grid-cols-2 gap-2">
-                                        <Input
-                                          placeholder="Price"
-                                          value={service.price}
-                                          onChange={(e) => updateServiceField(key, "price", e.target.value)}
-                                        />
-                                        <Input
-                                          placeholder="Duration (mins)"
-                                          type="number"
-                                          min="0"
-                                          value={service.duration}
-                                          onChange={(e) => updateServiceField(key, "duration", e.target.value)}
-                                        />
-                                      </div>
+                                      <ServiceCatalogueFields
+                                        value={service.catalogue}
+                                        onChange={(catalogue) => updateServiceField(key, "catalogue", catalogue)}
+                                        idPrefix={`admin-service-${key}`}
+                                      />
+                                      <Input
+                                        placeholder="Duration (mins)"
+                                        type="number"
+                                        min="0"
+                                        value={service.duration}
+                                        onChange={(e) => updateServiceField(key, "duration", e.target.value)}
+                                      />
                                       <div className="flex justify-end gap-2">
                                         <Button type="button" variant="ghost" size="sm" onClick={() => deleteService(service)} disabled={isDeleting || isSaving}>
                                           {isDeleting ? "Removing..." : "Remove"}
@@ -919,6 +880,10 @@ export default function Admin() {
               </div>
             )}
           </TabsContent>
+
+          <TabsContent value="moderation">
+            <ModerationQueue />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
@@ -0,0 +1,239 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { Navigation } from "@/components/Navigation";
+import { useBookings, useUpdateBooking } from "@/hooks/use-bookings";
+import { useMyProfile } from "@/hooks/use-profiles";
+import { useToast } from "@/hooks/use-toast";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { CalendarDays, Clock, Loader2 } from "lucide-react";
+import type { BookingWithDetails } from "@shared/schema";
+import { describeServiceSelection } from "@shared/services";
+
+const STATUS_LABELS: Record<BookingWithDetails["status"], string> = {
+  pending: "Pending",
+  accepted: "Confirmed",
+  declined: "Declined",
+  cancelled: "Cancelled",
+  completed: "Completed",
+};
+
+const STATUS_VARIANTS: Record<BookingWithDetails["status"], "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "outline",
+  accepted: "default",
+  declined: "destructive",
+  cancelled: "secondary",
+  completed: "secondary",
+};
+
+function BookingCard({ booking, myProfileId, onReschedule }: { booking: BookingWithDetails; myProfileId: number; onReschedule: (booking: BookingWithDetails) => void }) {
+  const updateBooking = useUpdateBooking();
+  const { toast } = useToast();
+
+  const isProvider = booking.providerId === myProfileId;
+  const counterpart = isProvider ? booking.client : booking.provider;
+  const awaitingMe = booking.status === "pending" && booking.requestedById !== myProfileId;
+  const isOpen = booking.status === "pending" || booking.status === "accepted";
+
+  const runAction = (action: "accept" | "decline" | "cancel" | "complete", successTitle: string) => {
+    updateBooking.mutate(
+      { id: booking.id, action },
+      {
+        onSuccess: () => toast({ title: successTitle }),
+        onError: (error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+      }
+    );
+  };
+
+  return (
+    <Card className="p-4 flex flex-col sm:flex-row sm:items-center gap-4" data-testid={`booking-${booking.id}`}>
+      <Link href={counterpart ? `/profile/${counterpart.username}` : "#"} className="flex items-center gap-3 min-w-0 flex-1">
+        <Avatar className="w-12 h-12 border border-border">
+          {counterpart?.profileImageUrl && <AvatarImage src={counterpart.profileImageUrl} alt={counterpart.username} />}
+          <AvatarFallback>{counterpart?.username?.[0]?.toUpperCase() || "?"}</AvatarFallback>
+        </Avatar>
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="font-bold truncate">{booking.service ? describeServiceSelection(booking.service.name, booking.variantName, booking.addonNames) : "Service removed"}</span>
+            <Badge variant={STATUS_VARIANTS[booking.status]}>{STATUS_LABELS[booking.status]}</Badge>
+          </div>
+          <p className="text-sm text-muted-foreground truncate">
+            {isProvider ? "Client" : "Provider"}: {counterpart?.username || "Deleted account"}
+          </p>
+          <p className="text-xs text-muted-foreground flex items-center gap-3 mt-1">
+            <span className="flex items-center gap-1"><CalendarDays size={12} /> {format(new Date(booking.startsAt), "EEE d MMM yyyy")}</span>
+            <span className="flex items-center gap-1"><Clock size={12} /> {format(new Date(booking.startsAt), "h:mm a")} – {format(new Date(booking.endsAt), "h:mm a")}</span>
+          </p>
+          {booking.note && <p className="text-xs text-muted-foreground mt-1 line-clamp-2">"{booking.note}"</p>}
+          {booking.status === "pending" && !awaitingMe && (
+            <p className="text-xs text-muted-foreground mt-1">Waiting for {counterpart?.username || "the other party"} to respond</p>
+          )}
+        </div>
+      </Link>
+
+      <div className="flex flex-wrap gap-2 sm:justify-end">
+        {awaitingMe && (
+          <>
+            <Button size="sm" onClick={() => runAction("accept", "Booking confirmed")} disabled={updateBooking.isPending} data-testid={`button-accept-booking-${booking.id}`}>
+              Accept
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => runAction("decline", "Booking declined")} disabled={updateBooking.isPending} data-testid={`button-decline-booking-${booking.id}`}>
+              Decline
+            </Button>
+          </>
+        )}
+        {isProvider && booking.status === "accepted" && new Date(booking.startsAt) <= new Date() && (
+          <Button size="sm" onClick={() => runAction("complete", "Booking completed")} disabled={updateBooking.isPending} data-testid={`button-complete-booking-${booking.id}`}>
+            Mark Complete
+          </Button>
+        )}
+        {isOpen && (
+          <>
+            <Button size="sm" variant="outline" onClick={() => onReschedule(booking)} disabled={updateBooking.isPending} data-testid={`button-reschedule-booking-${booking.id}`}>
+              Reschedule
+            </Button>
+            <Button size="sm" variant="ghost" className="text-destructive hover:text-destructive" onClick={() => runAction("cancel", "Booking cancelled")} disabled={updateBooking.isPending} data-testid={`button-cancel-booking-${booking.id}`}>
+              Cancel
+            </Button>
+          </>
+        )}
+      </div>
+    </Card>
+  );
+}
+
+function BookingList({ as, myProfileId, onReschedule }: { as: "provider" | "client"; myProfileId: number; onReschedule: (booking: BookingWithDetails) => void }) {
+  const { data: bookings, isLoading } = useBookings(as);
+
+  if (isLoading) {
+    return <div className="py-12 flex justify-center"><Loader2 className="animate-spin text-primary" /></div>;
+  }
+
+  const now = new Date();
+  const upcoming = (bookings || [])
+    .filter(b => (b.status === "pending" || b.status === "accepted") && new Date(b.endsAt) >= now)
+    .sort((a, b) => new Date(a.startsAt).getTime() - new Date(b.startsAt).getTime());
+  const past = (bookings || []).filter(b => !upcoming.includes(b));
+
+  if (upcoming.length === 0 && past.length === 0) {
+    return (
+      <div className="text-center py-12 text-muted-foreground border-2 border-dashed border-border rounded-xl">
+        {as === "provider" ? "No booking requests yet." : "You haven't booked anything yet."}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <section className="space-y-3">
+        <h2 className="font-bold text-lg">Upcoming</h2>
+        {upcoming.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing scheduled.</p>
+        ) : (
+          upcoming.map(b => <BookingCard key={b.id} booking={b} myProfileId={myProfileId} onReschedule={onReschedule} />)
+        )}
+      </section>
+      {past.length > 0 && (
+        <section className="space-y-3">
+          <h2 className="font-bold text-lg">History</h2>
+          {past.map(b => <BookingCard key={b.id} booking={b} myProfileId={myProfileId} onReschedule={onReschedule} />)}
+        </section>
+      )}
+    </div>
+  );
+}
+
+export default function BookingsPage() {
+  const { data: myProfile, isLoading } = useMyProfile();
+  const updateBooking = useUpdateBooking();
+  const { toast } = useToast();
+  const [rescheduling, setRescheduling] = useState<BookingWithDetails | null>(null);
+  const [newStartsAt, setNewStartsAt] = useState("");
+
+  const openReschedule = (booking: BookingWithDetails) => {
+    setRescheduling(booking);
+    setNewStartsAt(format(new Date(booking.startsAt), "yyyy-MM-dd'T'HH:mm"));
+  };
+
+  const handleReschedule = () => {
+    if (!rescheduling || !newStartsAt) return;
+    updateBooking.mutate(
+      { id: rescheduling.id, action: "reschedule", startsAt: new Date(newStartsAt) },
+      {
+        onSuccess: () => {
+          toast({ title: "New time proposed", description: "The other party will be asked to confirm." });
+          setRescheduling(null);
+        },
+        onError: (error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+      }
+    );
+  };
+
+  if (isLoading || !myProfile) {
+    return (
+      <div className="h-screen flex items-center justify-center bg-background">
+        <Loader2 className="w-10 h-10 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      <Navigation />
+
+      <div className="container mx-auto px-3 sm:px-4 py-6 sm:py-10 max-w-3xl">
+        <h1 className="font-display text-2xl sm:text-3xl font-bold mb-6 sm:mb-8">Bookings</h1>
+
+        {myProfile.role === "provider" ? (
+          <Tabs defaultValue="provider" className="space-y-6">
+            <TabsList>
+              <TabsTrigger value="provider" data-testid="tab-bookings-provider">My Clients</TabsTrigger>
+              <TabsTrigger value="client" data-testid="tab-bookings-client">My Appointments</TabsTrigger>
+            </TabsList>
+            <TabsContent value="provider">
+              <BookingList as="provider" myProfileId={myProfile.id} onReschedule={openReschedule} />
+            </TabsContent>
+            <TabsContent value="client">
+              <BookingList as="client" myProfileId={myProfile.id} onReschedule={openReschedule} />
+            </TabsContent>
+          </Tabs>
+        ) : (
+          <BookingList as="client" myProfileId={myProfile.id} onReschedule={openReschedule} />
+        )}
+      </div>
+
+      <Dialog open={!!rescheduling} onOpenChange={(open) => !open && setRescheduling(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reschedule Booking</DialogTitle>
+            <DialogDescription>Propose a new time. The booking goes back to pending until it is confirmed.</DialogDescription>
+          </DialogHeader>
+          <div className="py-4">
+            <Label htmlFor="reschedule-starts-at">New date and time</Label>
+            <Input
+              id="reschedule-starts-at"
+              type="datetime-local"
+              value={newStartsAt}
+              onChange={(e) => setNewStartsAt(e.target.value)}
+              className="mt-1"
+              data-testid="input-reschedule-starts-at"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRescheduling(null)}>Cancel</Button>
+            <Button onClick={handleReschedule} disabled={!newStartsAt || updateBooking.isPending} data-testid="button-confirm-reschedule">
+              {updateBooking.isPending ? "Sending..." : "Propose Time"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
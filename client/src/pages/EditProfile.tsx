@@ -1,41 +1,36 @@
 import { useState, useEffect, useRef } from "react";
 import { Navigation } from "@/components/Navigation";
-import { useMyProfile, useUpdateProfile, useUpdateUsername, useCreateService, useDeleteService } from "@/hooks/use-profiles";
+import { useMyProfile, useUpdateProfile, useUpdateUsername, useCreateService, useUpdateService, useDeleteService } from "@/hooks/use-profiles";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Plus, Trash2, Save, MapPin, Instagram, FileText, Briefcase, Search, Camera, User } from "lucide-react";
+import { Loader2, Plus, Trash2, Save, MapPin, Instagram, FileText, Briefcase, Search, Camera, User, Pencil, LocateFixed } from "lucide-react";
 import { useLocation } from "wouter";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useUpload } from "@/hooks/use-upload";
-
-interface LocationResult {
-  display_name: string;
-  lat: string;
-  lon: string;
-  address?: {
-    suburb?: string;
-    city?: string;
-    town?: string;
-    village?: string;
-    city_district?: string;
-    municipality?: string;
-    county?: string;
-    state?: string;
-    postcode?: string;
-  };
-}
+import { AvailabilityEditor } from "@/components/AvailabilityEditor";
+import { ServiceAreaEditor } from "@/components/ServiceArea";
+import { ProviderLocationsEditor } from "@/components/ProviderLocations";
+import { PortfolioEditor } from "@/components/PortfolioEditor";
+import { ServiceCatalogueFields, emptyCatalogueFields, serviceToCatalogueFields, catalogueFieldsError, catalogueFieldsToService } from "@/components/ServiceCatalogueFields";
+import { ServiceOptionsEditor, ServiceOptionsSummary, serviceToOptionFields, optionFieldsError, optionFieldsToOptions, type OptionFields } from "@/components/ServiceOptions";
+import { Checkbox } from "@/components/ui/checkbox";
+import { formatServicePrice, serviceCategoryLabel } from "@shared/services";
+import { MAX_PACKAGE_ITEMS, type ServiceWithOptions, type Locality } from "@shared/schema";
+import { formatLocality, isPrivateLocationType, type GeocodeResult } from "@shared/locations";
+import { useLocationSearch, useGeocodeSearch, useReverseGeocode, lookupLocality } from "@/hooks/use-locations";
 
 export default function EditProfilePage() {
   const { data: profile, isLoading } = useMyProfile();
   const updateProfile = useUpdateProfile();
   const updateUsername = useUpdateUsername();
   const createService = useCreateService();
+  const updateService = useUpdateService();
   const deleteService = useDeleteService();
   const { toast } = useToast();
   const [, setLocation] = useLocation();
@@ -44,22 +39,31 @@ export default function EditProfilePage() {
   const [bio, setBio] = useState("");
   const [location, setLocationValue] = useState("");
   const [locationType, setLocationType] = useState<"house" | "apartment" | "studio" | "rented_space" | "mobile" | "">("");
+  const [locationPrivacy, setLocationPrivacy] = useState<"approximate" | "exact">("approximate");
   const [instagram, setInstagram] = useState("");
   const [latitude, setLatitude] = useState<number>(-33.8688);
   const [longitude, setLongitude] = useState<number>(151.2093);
 
   const [locationSearch, setLocationSearch] = useState("");
-  const [locationResults, setLocationResults] = useState<LocationResult[]>([]);
-  const [isSearching, setIsSearching] = useState(false);
   const [showResults, setShowResults] = useState(false);
   const [locationSelected, setLocationSelected] = useState(false);
-  const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-
+  const [isLocating, setIsLocating] = useState(false);
+  // Suburbs from the gazetteer are listed above street addresses from the geocoder
+  const { data: suburbResults = [] } = useLocationSearch(locationSelected ? "" : locationSearch, { limit: 5 });
+  const { data: addressResults = [], isFetching: isSearching } = useGeocodeSearch(locationSelected ? "" : locationSearch);
+  const locationResults = addressResults.filter((result) => !suburbResults.some((locality) => formatLocality(locality) === result.label));
+  const reverseGeocode = useReverseGeocode();
+
+  // The service dialog adds a new service, or edits editingService when it's set
   const [newServiceOpen, setNewServiceOpen] = useState(false);
+  const [editingService, setEditingService] = useState<ServiceWithOptions | null>(null);
   const [newServiceName, setNewServiceName] = useState("");
   const [newServiceDescription, setNewServiceDescription] = useState("");
-  const [newServicePrice, setNewServicePrice] = useState("");
+  const [newServiceCatalogue, setNewServiceCatalogue] = useState(emptyCatalogueFields);
   const [newServiceDuration, setNewServiceDuration] = useState("");
+  const [newServiceOptions, setNewServiceOptions] = useState<OptionFields[]>([]);
+  const [newServiceIsPackage, setNewServiceIsPackage] = useState(false);
+  const [newServiceIncludedIds, setNewServiceIncludedIds] = useState<number[]>([]);
   
   const [profileImageUrl, setProfileImageUrl] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -80,6 +84,7 @@ export default function EditProfilePage() {
       setLocationValue(profile.location || "");
       setLocationSearch(profile.location || "");
       setLocationType((profile.locationType as "house" | "apartment" | "studio" | "rented_space" | "mobile" | "") || "");
+      setLocationPrivacy(profile.locationPrivacy);
       setInstagram(profile.instagram || "");
       setLatitude(profile.latitude || -33.8688);
       setLongitude(profile.longitude || 151.2093);
@@ -111,79 +116,60 @@ export default function EditProfilePage() {
     toast({ title: "Photo removed", description: "Click 'Save Changes' to update your profile." });
   };
 
-  const searchLocation = async (query: string) => {
-    if (query.length < 3) {
-      setLocationResults([]);
-      setShowResults(false);
-      return;
-    }
-
-    setIsSearching(true);
-    try {
-      const response = await fetch(
-        `https://nominatim.openstreetmap.org/search?format=json&addressdetails=1&q=${encodeURIComponent(query)}&countrycodes=au&limit=5`,
-        {
-          headers: {
-            'Accept': 'application/json',
-          }
-        }
-      );
-      const data = await response.json();
-      
-      // Deduplicate results based on formatted location
-      const seen = new Set<string>();
-      const uniqueResults = data.filter((result: LocationResult) => {
-        const formatted = formatLocation(result);
-        if (seen.has(formatted)) return false;
-        seen.add(formatted);
-        return true;
-      });
-      
-      setLocationResults(uniqueResults);
-      setShowResults(true);
-    } catch (error) {
-      console.error("Location search error:", error);
-      setLocationResults([]);
-    } finally {
-      setIsSearching(false);
-    }
-  };
-
   const handleLocationSearchChange = (value: string) => {
     setLocationSearch(value);
     setLocationValue(value);
     setLocationSelected(false);
-    
-    if (searchTimeoutRef.current) {
-      clearTimeout(searchTimeoutRef.current);
-    }
-    
-    searchTimeoutRef.current = setTimeout(() => {
-      searchLocation(value);
-    }, 500);
+    setShowResults(true);
   };
 
-  const selectLocation = (result: LocationResult) => {
-    const formatted = formatLocation(result);
+  const selectLocation = (result: GeocodeResult) => {
+    setLocationValue(result.label);
+    setLocationSearch(result.label);
+    setLatitude(result.latitude);
+    setLongitude(result.longitude);
+    setLocationSelected(true);
+    setShowResults(false);
+  };
+
+  const selectSuburb = (locality: Locality) => {
+    const formatted = formatLocality(locality);
     setLocationValue(formatted);
     setLocationSearch(formatted);
-    setLatitude(parseFloat(result.lat));
-    setLongitude(parseFloat(result.lon));
+    setLatitude(locality.latitude);
+    setLongitude(locality.longitude);
     setLocationSelected(true);
     setShowResults(false);
-    setLocationResults([]);
   };
 
-  const formatLocation = (result: LocationResult) => {
-    const address = result.address;
-    if (!address) return result.display_name;
-
-    const suburb = address.suburb || address.town || address.village || address.city || "";
-    const state = address.state || "";
-    const postcode = address.postcode || "";
-
-    const parts = [suburb, state, postcode].filter(Boolean);
-    return parts.length > 0 ? parts.join(", ") : result.display_name;
+  // Pins the browser's position and names it after the suburb it's in
+  const handleUseCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      toast({ title: "Location unavailable", description: "Your browser can't share its location.", variant: "destructive" });
+      return;
+    }
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      async ({ coords }) => {
+        try {
+          const place = await reverseGeocode(coords.latitude, coords.longitude);
+          if (!place) {
+            toast({ title: "Location not found", description: "Search for your suburb instead.", variant: "destructive" });
+            return;
+          }
+          selectLocation({ ...place, latitude: coords.latitude, longitude: coords.longitude });
+        } catch (error: any) {
+          toast({ title: "Error", description: error.message, variant: "destructive" });
+        } finally {
+          setIsLocating(false);
+        }
+      },
+      () => {
+        setIsLocating(false);
+        toast({ title: "Location unavailable", description: "Allow location access or search for your suburb instead.", variant: "destructive" });
+      },
+      { timeout: 10000 }
+    );
   };
 
   if (isLoading) {
@@ -204,16 +190,26 @@ export default function EditProfilePage() {
   }
 
   const handleSaveProfile = async () => {
+    let place = { location, latitude, longitude };
     if (locationType !== "mobile" && location && !locationSelected) {
-      toast({
-        title: "Select a suggested location",
-        description: "Choose a location from the dropdown so the map pin is accurate.",
-        variant: "destructive",
-      });
-      return;
+      // A typed suburb that names exactly one place, e.g. "Newtown NSW", doesn't need picking from the list
+      const { match, candidates } = await lookupLocality(location).catch(() => ({ match: null, candidates: [] as Locality[] }));
+      if (!match) {
+        toast({
+          title: "Select a suggested location",
+          description: candidates.length > 1
+            ? `Did you mean ${candidates.slice(0, 3).map(formatLocality).join(", ")}? Choose one from the dropdown.`
+            : "Choose a location from the dropdown so the map pin is accurate.",
+          variant: "destructive",
+        });
+        setShowResults(true);
+        return;
+      }
+      selectSuburb(match);
+      place = { location: formatLocality(match), latitude: match.latitude, longitude: match.longitude };
     }
     updateProfile.mutate(
-      { bio, location: location, locationType: locationType || null, instagram, latitude, longitude, profileImageUrl },
+      { bio, ...place, locationType: locationType || null, locationPrivacy, instagram, profileImageUrl },
       {
         onSuccess: () => {
           toast({ title: "Profile updated", description: "Your changes have been saved." });
@@ -241,42 +237,73 @@ export default function EditProfilePage() {
     );
   };
 
-  const handleAddService = async () => {
-    if (!newServiceName) {
+  const openServiceDialog = (service: ServiceWithOptions | null) => {
+    setEditingService(service);
+    setNewServiceName(service?.name ?? "");
+    setNewServiceDescription(service?.description ?? "");
+    setNewServiceCatalogue(service ? serviceToCatalogueFields(service) : emptyCatalogueFields);
+    setNewServiceDuration(service?.duration ? String(service.duration) : "");
+    setNewServiceOptions(service ? serviceToOptionFields(service) : []);
+    setNewServiceIsPackage(service?.isPackage ?? false);
+    setNewServiceIncludedIds(service?.includedServiceIds ?? []);
+    setNewServiceOpen(true);
+  };
+
+  const handleSaveService = async () => {
+    if (!newServiceName.trim()) {
       toast({ title: "Error", description: "Please enter a service name.", variant: "destructive" });
       return;
     }
+    const priceError = catalogueFieldsError(newServiceCatalogue);
+    if (priceError) {
+      toast({ title: "Error", description: priceError, variant: "destructive" });
+      return;
+    }
+    const optionsError = optionFieldsError(newServiceOptions);
+    if (optionsError) {
+      toast({ title: "Error", description: optionsError, variant: "destructive" });
+      return;
+    }
+    if (newServiceIsPackage && newServiceIncludedIds.length < 2) {
+      toast({ title: "Error", description: "Choose at least two services for the package.", variant: "destructive" });
+      return;
+    }
 
     // Check if service with same name already exists
-    const existingService = (profile as any)?.services?.find(
-      (service: any) => service.name.toLowerCase() === newServiceName.toLowerCase()
+    const existingService = profile?.services.find(
+      (service) => service.name.toLowerCase() === newServiceName.trim().toLowerCase() && service.id !== editingService?.id
     );
     if (existingService) {
       toast({ title: "Error", description: "A service with this name already exists.", variant: "destructive" });
       return;
     }
 
-    createService.mutate(
-      {
-        name: newServiceName,
-        description: newServiceDescription || undefined,
-        price: newServicePrice || undefined,
-        duration: newServiceDuration ? parseInt(newServiceDuration) : undefined
+    const data = {
+      name: newServiceName.trim(),
+      description: newServiceDescription || null,
+      ...catalogueFieldsToService(newServiceCatalogue),
+      duration: newServiceDuration ? parseInt(newServiceDuration) : null,
+      isPackage: newServiceIsPackage,
+      options: optionFieldsToOptions(newServiceOptions),
+      includedServiceIds: newServiceIsPackage ? newServiceIncludedIds : [],
+    };
+    const mutationOptions = {
+      onSuccess: () => {
+        toast(editingService
+          ? { title: "Service updated", description: "Your changes have been saved." }
+          : { title: "Service added", description: "Your new service has been added." });
+        setNewServiceOpen(false);
       },
-      {
-        onSuccess: () => {
-          toast({ title: "Service added", description: "Your new service has been added." });
-          setNewServiceOpen(false);
-          setNewServiceName("");
-          setNewServiceDescription("");
-          setNewServicePrice("");
-          setNewServiceDuration("");
-        },
-        onError: () => {
-          toast({ title: "Error", description: "Failed to add service.", variant: "destructive" });
-        }
+      onError: (error: Error) => {
+        toast({ title: "Error", description: error.message, variant: "destructive" });
       }
-    );
+    };
+
+    if (editingService) {
+      updateService.mutate({ id: editingService.id, ...data }, mutationOptions);
+    } else {
+      createService.mutate(data, mutationOptions);
+    }
   };
 
   const handleDeleteService = async (serviceId: number) => {
@@ -456,7 +483,7 @@ export default function EditProfilePage() {
                       id="location-search"
                       value={locationSearch}
                       onChange={(e) => handleLocationSearchChange(e.target.value)}
-                      onFocus={() => locationResults.length > 0 && setShowResults(true)}
+                      onFocus={() => (suburbResults.length > 0 || locationResults.length > 0) && setShowResults(true)}
                       onBlur={() => setTimeout(() => setShowResults(false), 150)}
                       placeholder="Search for your suburb in Australia..."
                       className="pl-10"
@@ -467,8 +494,23 @@ export default function EditProfilePage() {
                     )}
                   </div>
                   
-                  {showResults && locationResults.length > 0 && (
+                  {showResults && (suburbResults.length > 0 || locationResults.length > 0) && (
                     <div className="absolute z-50 w-full mt-1 bg-card border border-border rounded-lg shadow-lg max-h-60 overflow-y-auto">
+                      {suburbResults.map((locality, index) => (
+                        <button
+                          key={locality.id}
+                          type="button"
+                          onClick={() => selectSuburb(locality)}
+                          className="w-full px-4 py-3 text-left text-sm hover:bg-muted transition-colors border-b border-border/50 last:border-b-0"
+                          data-testid={`location-suburb-${index}`}
+                        >
+                          <div className="flex items-start gap-2">
+                            <MapPin className="h-4 w-4 mt-0.5 text-primary shrink-0" />
+                            <span className="line-clamp-2">{formatLocality(locality)}</span>
+                            <span className="ml-auto text-xs text-muted-foreground">Suburb</span>
+                          </div>
+                        </button>
+                      ))}
                       {locationResults.map((result, index) => (
                         <button
                           key={index}
@@ -479,12 +521,24 @@ export default function EditProfilePage() {
                         >
                           <div className="flex items-start gap-2">
                             <MapPin className="h-4 w-4 mt-0.5 text-primary shrink-0" />
-                            <span className="line-clamp-2">{formatLocation(result)}</span>
+                            <span className="line-clamp-2">{result.label}</span>
                           </div>
                         </button>
                       ))}
                     </div>
                   )}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="mt-1 px-0 h-auto text-primary hover:bg-transparent"
+                    onClick={handleUseCurrentLocation}
+                    disabled={isLocating}
+                    data-testid="button-use-current-location"
+                  >
+                    {isLocating ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <LocateFixed className="h-4 w-4 mr-1" />}
+                    Use my current location
+                  </Button>
                 </div>
 
                 {location && (
@@ -510,6 +564,25 @@ export default function EditProfilePage() {
                 </Select>
               </div>
 
+              {isPrivateLocationType(locationType) && (
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="location-exact"
+                      checked={locationPrivacy === "exact"}
+                      onCheckedChange={(checked) => setLocationPrivacy(checked === true ? "exact" : "approximate")}
+                      data-testid="checkbox-location-exact"
+                    />
+                    <Label htmlFor="location-exact" className="font-normal">Show my exact location to everyone</Label>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {locationPrivacy === "exact"
+                      ? "Your location is pinned exactly on the map."
+                      : "The map shows an area of about a kilometre around you. Clients see your address once you confirm their booking or accept their conversation."}
+                  </p>
+                </div>
+              )}
+
               <p className="text-xs text-muted-foreground">
                 Type your suburb or location. You can select from suggestions for exact coordinates, or just type your area name.
               </p>
@@ -527,25 +600,36 @@ export default function EditProfilePage() {
                 <CardDescription>Manage the services you offer</CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
-                {(profile as any).services && (profile as any).services.length > 0 ? (
+                {profile.services.length > 0 ? (
                   <div className="space-y-3">
-                    {(profile as any).services.map((service: any) => (
+                    {profile.services.map((service) => (
                       <div key={service.id} className="flex items-center justify-between p-3 bg-secondary/30 rounded-lg">
                         <div>
                           <h4 className="font-medium">{service.name}</h4>
                           <p className="text-sm text-muted-foreground">
-                            {service.price ? `$${service.price}` : 'Price TBD'} • {service.duration ? `${service.duration} mins` : 'Duration TBD'}
+                            {service.isPackage ? 'Package' : serviceCategoryLabel(service.category, service.subcategory) ?? 'No category'} • {formatServicePrice(service) ?? 'Price TBD'} • {service.duration ? `${service.duration} mins` : 'Duration TBD'}
                           </p>
+                          <ServiceOptionsSummary service={service} services={profile.services} />
+                        </div>
+                        <div className="flex shrink-0">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => openServiceDialog(service)}
+                            data-testid={`button-edit-service-${service.id}`}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleDeleteService(service.id)}
+                            disabled={deleteService.isPending}
+                            data-testid={`button-delete-service-${service.id}`}
+                          >
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
                         </div>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => handleDeleteService(service.id)}
-                          disabled={deleteService.isPending}
-                          data-testid={`button-delete-service-${service.id}`}
-                        >
-                          <Trash2 className="h-4 w-4 text-destructive" />
-                        </Button>
                       </div>
                     ))}
                   </div>
@@ -553,17 +637,17 @@ export default function EditProfilePage() {
                   <p className="text-muted-foreground text-center py-4">No services added yet</p>
                 )}
 
+                <Button variant="outline" className="w-full" onClick={() => openServiceDialog(null)} data-testid="button-add-service">
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Service
+                </Button>
                 <Dialog open={newServiceOpen} onOpenChange={setNewServiceOpen}>
-                  <DialogTrigger asChild>
-                    <Button variant="outline" className="w-full" data-testid="button-add-service">
-                      <Plus className="mr-2 h-4 w-4" />
-                      Add Service
-                    </Button>
-                  </DialogTrigger>
-                  <DialogContent>
+                  <DialogContent className="max-h-[90vh] overflow-y-auto">
                     <DialogHeader>
-                      <DialogTitle>Add New Service</DialogTitle>
-                      <DialogDescription>Add a new service to your profile that clients can book.</DialogDescription>
+                      <DialogTitle>{editingService ? "Edit Service" : "Add New Service"}</DialogTitle>
+                      <DialogDescription>
+                        {editingService ? "Update how this service appears on your profile." : "Add a new service to your profile that clients can book."}
+                      </DialogDescription>
                     </DialogHeader>
                     <div className="space-y-4 py-4">
                       <div>
@@ -588,19 +672,8 @@ export default function EditProfilePage() {
                           data-testid="input-service-description"
                         />
                       </div>
+                      <ServiceCatalogueFields value={newServiceCatalogue} onChange={setNewServiceCatalogue} idPrefix="service" />
                       <div className="grid grid-cols-2 gap-4">
-                        <div>
-                          <Label htmlFor="service-price">Price ($) <span className="text-muted-foreground">(Optional)</span></Label>
-                          <Input
-                            id="service-price"
-                            type="number"
-                            value={newServicePrice}
-                            onChange={(e) => setNewServicePrice(e.target.value)}
-                            placeholder="80"
-                            className="mt-1"
-                            data-testid="input-service-price"
-                          />
-                        </div>
                         <div>
                           <Label htmlFor="service-duration">Duration (mins) <span className="text-muted-foreground">(Optional)</span></Label>
                           <Input
@@ -608,19 +681,55 @@ export default function EditProfilePage() {
                             type="number"
                             value={newServiceDuration}
                             onChange={(e) => setNewServiceDuration(e.target.value)}
-                            placeholder="60"
+                            placeholder={newServiceIsPackage ? "Combined" : "60"}
                             className="mt-1"
                             data-testid="input-service-duration"
                           />
                         </div>
                       </div>
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          id="service-is-package"
+                          checked={newServiceIsPackage}
+                          onCheckedChange={(checked) => setNewServiceIsPackage(checked === true)}
+                          disabled={profile.services.some((s) => s.includedServiceIds.includes(editingService?.id ?? -1))}
+                          data-testid="checkbox-service-is-package"
+                        />
+                        <Label htmlFor="service-is-package" className="font-normal">This is a package of my other services</Label>
+                      </div>
+                      {newServiceIsPackage && (
+                        <div className="space-y-2 rounded-lg border border-border p-3">
+                          <p className="text-xs text-muted-foreground">
+                            Choose what's included. Leave the duration blank to use their combined length.
+                          </p>
+                          {profile.services.filter((s) => !s.isPackage && s.id !== editingService?.id).map((s) => (
+                            <div key={s.id} className="flex items-center gap-2">
+                              <Checkbox
+                                id={`package-item-${s.id}`}
+                                checked={newServiceIncludedIds.includes(s.id)}
+                                onCheckedChange={(checked) => setNewServiceIncludedIds((prev) =>
+                                  checked === true ? [...prev, s.id] : prev.filter((id) => id !== s.id)
+                                )}
+                                disabled={!newServiceIncludedIds.includes(s.id) && newServiceIncludedIds.length >= MAX_PACKAGE_ITEMS}
+                                data-testid={`checkbox-package-item-${s.id}`}
+                              />
+                              <Label htmlFor={`package-item-${s.id}`} className="font-normal">
+                                {s.name}{s.duration ? <span className="text-muted-foreground"> • {s.duration} mins</span> : null}
+                              </Label>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      <ServiceOptionsEditor value={newServiceOptions} onChange={setNewServiceOptions} />
                     </div>
                     <DialogFooter>
                       <Button variant="outline" onClick={() => setNewServiceOpen(false)}>
                         Cancel
                       </Button>
-                      <Button onClick={handleAddService} disabled={createService.isPending} data-testid="button-confirm-add-service">
-                        {createService.isPending ? "Adding..." : "Add Service"}
+                      <Button onClick={handleSaveService} disabled={createService.isPending || updateService.isPending} data-testid="button-confirm-add-service">
+                        {editingService
+                          ? (updateService.isPending ? "Saving..." : "Save Service")
+                          : (createService.isPending ? "Adding..." : "Add Service")}
                       </Button>
                     </DialogFooter>
                   </DialogContent>
@@ -629,6 +738,14 @@ export default function EditProfilePage() {
             </Card>
           )}
 
+          {profile.role === "provider" && <PortfolioEditor portfolio={profile.portfolio} services={profile.services} />}
+
+          {profile.role === "provider" && <ProviderLocationsEditor locations={profile.locations} />}
+
+          {profile.role === "provider" && profile.locationType === "mobile" && <ServiceAreaEditor providerId={profile.id} />}
+
+          {profile.role === "provider" && <AvailabilityEditor providerId={profile.id} />}
+
           <Button
             onClick={handleSaveProfile}
             disabled={updateProfile.isPending}
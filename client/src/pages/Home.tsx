@@ -1,12 +1,13 @@
 import { useState, useRef, useCallback, useMemo } from "react";
-import { useProfiles } from "@/hooks/use-profiles";
+import { useProfiles, useUsernameSuggestions } from "@/hooks/use-profiles";
 import { Navigation } from "@/components/Navigation";
-import Map from "@/components/Map";
+import Map, { type MapBounds } from "@/components/Map";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { Search, MapPin, Star, Loader2, GripVertical, User, SlidersHorizontal, Home, Building2, Palette, Store, Car, ArrowUpDown, TrendingUp, MessageSquareText, Hash } from "lucide-react";
-import { searchLocations } from "@/data/australian-locations";
+import { Slider } from "@/components/ui/slider";
+import { Search, MapPin, Star, Loader2, GripVertical, User, SlidersHorizontal, Home, Building2, Palette, Store, Car, ArrowUpDown, TrendingUp, MessageSquareText, Hash, X } from "lucide-react";
+import { useLocationSearch } from "@/hooks/use-locations";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -20,15 +21,15 @@ import {
 import { Link } from "wouter";
 import { motion, AnimatePresence } from "framer-motion";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { shortenLocation } from "@/lib/utils";
+import { bayesianRating } from "@shared/ratings";
+import { serviceCategories, serviceTaxonomy, formatServicePrice, formatCents, type ServiceCategory } from "@shared/services";
+import { formatLocality } from "@shared/locations";
+import type { Locality } from "@shared/schema";
 
-const CATEGORIES = [
-  "All",
-  "Makeup",
-  "Nails",
-  "Hair",
-  "Lashes",
-  "Brows",
-  "Skincare"
+const CATEGORIES: { value: ServiceCategory | "all"; label: string }[] = [
+  { value: "all", label: "All" },
+  ...serviceCategories.map((category) => ({ value: category, label: serviceTaxonomy[category].label })),
 ];
 
 const LOCATION_TYPES = [
@@ -39,8 +40,41 @@ const LOCATION_TYPES = [
   { value: "mobile", label: "Mobile", icon: Car },
 ];
 
+// Slider limits in dollars and minutes; the top of each slider means "no maximum"
+const PRICE_SLIDER_MAX = 300;
+const PRICE_SLIDER_STEP = 10;
+const DURATION_SLIDER_MAX = 240;
+const DURATION_SLIDER_STEP = 15;
+
+// Until the browser's location is used, searches start from Sydney
+const DEFAULT_LOCATION: [number, number] = [-33.8688, 151.2093];
+// Picking a suburb shows providers within this many km of it
+const NEAR_LOCALITY_RADIUS_KM = 10;
+// When nothing matches, this many of the nearest providers are shown instead
+const NEAREST_FALLBACK_COUNT = 20;
+
+interface Suggestion {
+  type: 'user' | 'location' | 'postcode';
+  value: string;
+  display: string;
+  locality?: Locality;
+}
+
+function formatPriceFilter([min, max]: number[]) {
+  if (min === 0 && max === PRICE_SLIDER_MAX) return "Any price";
+  const maxLabel = max === PRICE_SLIDER_MAX ? `$${PRICE_SLIDER_MAX}+` : `$${max}`;
+  return min === 0 ? `Up to ${maxLabel}` : `$${min} – ${maxLabel}`;
+}
+
+function formatDurationFilter(minutes: number) {
+  if (minutes === DURATION_SLIDER_MAX) return "Any length";
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return `Up to ${[hours && `${hours} hr`, mins && `${mins} min`].filter(Boolean).join(" ")}`;
+}
+
 const SORT_OPTIONS = [
-  { value: "default", label: "Default" },
+  { value: "default", label: "Nearest" },
   { value: "rating_high", label: "Highest Rated" },
   { value: "rating_low", label: "Lowest Rated" },
   { value: "reviews_high", label: "Most Reviews" },
@@ -50,18 +84,27 @@ const SORT_OPTIONS = [
 export default function HomePage() {
   const isMobile = useIsMobile();
   const [searchTerm, setSearchTerm] = useState("");
-  const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
+  const [nearLocality, setNearLocality] = useState<Locality | null>(null);
+  const [selectedCategories, setSelectedCategories] = useState<ServiceCategory[]>([]);
   const [selectedLocationTypes, setSelectedLocationTypes] = useState<string[]>([]);
+  // Sliders update the draft values while dragging; the search only refetches once they're released
+  const [priceDraft, setPriceDraft] = useState([0, PRICE_SLIDER_MAX]);
+  const [priceFilter, setPriceFilter] = useState([0, PRICE_SLIDER_MAX]);
+  const [durationDraft, setDurationDraft] = useState(DURATION_SLIDER_MAX);
+  const [durationFilter, setDurationFilter] = useState(DURATION_SLIDER_MAX);
   const [sortBy, setSortBy] = useState("default");
   const [directoryWidth, setDirectoryWidth] = useState(450);
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [mobileView, setMobileView] = useState<'list' | 'map'>('list');
   const [hoveredProfileId, setHoveredProfileId] = useState<number | null>(null);
+  const [mapBounds, setMapBounds] = useState<MapBounds | null>(null);
+  const [searchArea, setSearchArea] = useState<MapBounds | null>(null);
+  const initialMapBounds = useRef<MapBounds | null>(null);
   const isResizing = useRef(false);
   const searchInputRef = useRef<HTMLInputElement>(null);
   
-  const toggleCategory = (cat: string) => {
-    if (cat === "All") {
+  const toggleCategory = (cat: ServiceCategory | "all") => {
+    if (cat === "all") {
       setSelectedCategories([]);
     } else {
       setSelectedCategories(prev => 
@@ -80,23 +123,14 @@ export default function HomePage() {
     );
   };
   
-  // In a real app, we would get this from navigator.geolocation
-  const [userLocation] = useState<[number, number]>([-33.8688, 151.2093]); // Sydney, Australia
+  const activeFilterCount = selectedLocationTypes.length
+    + (priceFilter[0] > 0 || priceFilter[1] < PRICE_SLIDER_MAX ? 1 : 0)
+    + (durationFilter < DURATION_SLIDER_MAX ? 1 : 0);
 
-  const getDistanceKm = useCallback((from: [number, number], to: [number, number]) => {
-    const toRad = (v: number) => (v * Math.PI) / 180;
-    const [lat1, lon1] = from;
-    const [lat2, lon2] = to;
-    const R = 6371; // km
-    const dLat = toRad(lat2 - lat1);
-    const dLon = toRad(lon2 - lon1);
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) *
-      Math.sin(dLon / 2) * Math.sin(dLon / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-  }, []);
+  const userLocation = useMemo<[number, number]>(
+    () => nearLocality ? [nearLocality.latitude, nearLocality.longitude] : DEFAULT_LOCATION,
+    [nearLocality]
+  );
   
   // Handle mouse drag to resize directory
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
@@ -122,55 +156,58 @@ export default function HomePage() {
     document.addEventListener('mouseup', handleMouseUp);
   }, []);
 
+  // Results come back sorted by distance from the user's location
   const { data: profiles, isLoading } = useProfiles({ 
     search: searchTerm,
-    services: selectedCategories.length > 0 ? selectedCategories : undefined,
-    locationTypes: selectedLocationTypes.length > 0 ? selectedLocationTypes : undefined
+    categories: selectedCategories.length > 0 ? selectedCategories : undefined,
+    minPriceCents: priceFilter[0] > 0 ? priceFilter[0] * 100 : undefined,
+    maxPriceCents: priceFilter[1] < PRICE_SLIDER_MAX ? priceFilter[1] * 100 : undefined,
+    maxDuration: durationFilter < DURATION_SLIDER_MAX ? durationFilter : undefined,
+    locationTypes: selectedLocationTypes.length > 0 ? selectedLocationTypes : undefined,
+    lat: userLocation[0],
+    lng: userLocation[1],
+    // A map area the user searched replaces the radius around the chosen suburb
+    radius: nearLocality && !searchArea ? NEAR_LOCALITY_RADIUS_KM : undefined,
+    ...searchArea,
   });
   
-  // Get all profiles for suggestions
-  const { data: allProfiles } = useProfiles({});
-  
-  // Compute search suggestions from all profiles AND comprehensive location database
+  // Only fetched once the search comes back empty
+  const { data: nearestProfiles } = useProfiles(
+    { lat: userLocation[0], lng: userLocation[1], limit: NEAREST_FALLBACK_COUNT },
+    { enabled: profiles?.length === 0 },
+  );
+
+  const { data: usernameResults } = useUsernameSuggestions(searchTerm);
+  const { data: localityResults } = useLocationSearch(searchTerm.length < 2 ? "" : searchTerm, { limit: 6 });
+
+  // Compute search suggestions from provider usernames AND the suburb and postcode gazetteer
   const suggestions = useMemo(() => {
     if (searchTerm.length < 2) return [];
     
-    const term = searchTerm.toLowerCase();
-    const results: { type: 'user' | 'location' | 'postcode'; value: string; display: string }[] = [];
-    const seenValues = new Set<string>();
+    const results: Suggestion[] = [];
     
-    // First, add matching usernames from providers
-    allProfiles?.forEach(profile => {
-      if (profile.username?.toLowerCase().includes(term)) {
-        const key = `user-${profile.username.toLowerCase()}`;
-        if (!seenValues.has(key)) {
-          seenValues.add(key);
-          results.push({ 
-            type: 'user', 
-            value: profile.username, 
-            display: profile.username 
-          });
-        }
-      }
+    // First, matching usernames from providers
+    usernameResults?.forEach(username => {
+      results.push({ 
+        type: 'user', 
+        value: username, 
+        display: username 
+      });
     });
     
-    // Then add locations from comprehensive database (suburbs only)
-    const locationResults = searchLocations(searchTerm, 10);
-    locationResults.forEach(loc => {
-      // Add as location (suburb)
-      const locationKey = `location-${loc.suburb.toLowerCase()}`;
-      if (!seenValues.has(locationKey)) {
-        seenValues.add(locationKey);
-        results.push({ 
-          type: 'location', 
-          value: loc.suburb, 
-          display: loc.display
-        });
-      }
+    // Then suburbs, or postcodes when a number was typed
+    const byPostcode = /^\d/.test(searchTerm.trim());
+    localityResults?.forEach(locality => {
+      results.push({
+        type: byPostcode ? 'postcode' : 'location',
+        value: locality.name,
+        display: formatLocality(locality),
+        locality,
+      });
     });
     
     return results.slice(0, 8); // Limit to 8 suggestions
-  }, [allProfiles, searchTerm]);
+  }, [usernameResults, localityResults, searchTerm]);
   
   // Sort profiles based on selected sort option
   const sortedProfiles = useMemo(() => {
@@ -178,10 +215,11 @@ export default function HomePage() {
     
     const sorted = [...profiles];
     switch (sortBy) {
+      // Weighted so a handful of perfect reviews doesn't beat a long strong record
       case "rating_high":
-        return sorted.sort((a, b) => (b.rating || 0) - (a.rating || 0));
+        return sorted.sort((a, b) => bayesianRating(b.rating, b.reviewCount) - bayesianRating(a.rating, a.reviewCount));
       case "rating_low":
-        return sorted.sort((a, b) => (a.rating || 0) - (b.rating || 0));
+        return sorted.sort((a, b) => bayesianRating(a.rating, a.reviewCount) - bayesianRating(b.rating, b.reviewCount));
       case "reviews_high":
         return sorted.sort((a, b) => (b.reviewCount || 0) - (a.reviewCount || 0));
       case "reviews_low":
@@ -193,24 +231,33 @@ export default function HomePage() {
 
   const displayProfiles = useMemo(() => {
     if (sortedProfiles.length > 0) return sortedProfiles;
-    if (!allProfiles) return [];
-    return [...allProfiles]
-      .filter((p) => Number.isFinite(Number(p.latitude)) && Number.isFinite(Number(p.longitude)))
-      .sort((a, b) => {
-        const aLat = Number(a.latitude);
-        const aLng = Number(a.longitude);
-        const bLat = Number(b.latitude);
-        const bLng = Number(b.longitude);
-        const distA = getDistanceKm(userLocation, [aLat, aLng]);
-        const distB = getDistanceKm(userLocation, [bLat, bLng]);
-        return distA - distB;
-      });
-  }, [allProfiles, getDistanceKm, sortedProfiles, userLocation]);
+    if (!nearestProfiles) return [];
+    // Already ordered nearest-first by the server
+    return nearestProfiles.filter((p) => p.distance !== null);
+  }, [nearestProfiles, sortedProfiles]);
 
   const showNearestFallback = sortedProfiles.length === 0 && displayProfiles.length > 0;
+  const mapMoved = !!mapBounds && mapBounds !== initialMapBounds.current && (
+    !searchArea ||
+    searchArea.north !== mapBounds.north || searchArea.south !== mapBounds.south ||
+    searchArea.east !== mapBounds.east || searchArea.west !== mapBounds.west
+  );
   
-  const handleSelectSuggestion = (value: string) => {
-    setSearchTerm(value);
+  const handleMapBoundsChange = useCallback((bounds: MapBounds) => {
+    // The first report is the initial viewport, not the user moving the map
+    if (!initialMapBounds.current) initialMapBounds.current = bounds;
+    setMapBounds(bounds);
+  }, []);
+
+  const handleSelectSuggestion = (suggestion: Suggestion) => {
+    if (suggestion.locality) {
+      // Suburbs narrow the search by distance rather than by text
+      setNearLocality(suggestion.locality);
+      setSearchArea(null);
+      setSearchTerm("");
+    } else {
+      setSearchTerm(suggestion.value);
+    }
     setShowSuggestions(false);
   };
 
@@ -266,7 +313,7 @@ export default function HomePage() {
                           className="w-full flex items-center gap-3 px-4 py-3 text-left hover:bg-muted/50 transition-colors"
                           onMouseDown={(e) => {
                             e.preventDefault();
-                            handleSelectSuggestion(suggestion.value);
+                            handleSelectSuggestion(suggestion);
                           }}
                           data-testid={`suggestion-${suggestion.type}-${idx}`}
                         >
@@ -294,18 +341,18 @@ export default function HomePage() {
                   <Button 
                     variant="outline" 
                     size="icon" 
-                    className={`h-12 w-12 rounded-xl shrink-0 ${selectedLocationTypes.length > 0 ? 'border-primary bg-primary/10' : ''}`}
+                    className={`h-12 w-12 rounded-xl shrink-0 ${activeFilterCount > 0 ? 'border-primary bg-primary/10' : ''}`}
                     data-testid="button-filter"
                   >
                     <SlidersHorizontal size={18} />
-                    {selectedLocationTypes.length > 0 && (
+                    {activeFilterCount > 0 && (
                       <span className="absolute -top-1 -right-1 h-5 w-5 flex items-center justify-center bg-primary text-primary-foreground text-xs font-bold rounded-full">
-                        {selectedLocationTypes.length}
+                        {activeFilterCount}
                       </span>
                     )}
                   </Button>
                 </DropdownMenuTrigger>
-                <DropdownMenuContent align="end" className="w-56">
+                <DropdownMenuContent align="end" className="w-64">
                   <DropdownMenuLabel>Location Type</DropdownMenuLabel>
                   <DropdownMenuSeparator />
                   {LOCATION_TYPES.map(({ value, label, icon: Icon }) => (
@@ -319,6 +366,43 @@ export default function HomePage() {
                       {label}
                     </DropdownMenuCheckboxItem>
                   ))}
+                  <DropdownMenuSeparator />
+                  {/* Keep arrow keys on the sliders instead of moving through the menu */}
+                  <div className="px-2 py-1.5 space-y-4" onKeyDown={(e) => e.stopPropagation()}>
+                    <div className="space-y-3">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="font-semibold">Price</span>
+                        <span className="text-muted-foreground" data-testid="text-filter-price">{formatPriceFilter(priceDraft)}</span>
+                      </div>
+                      <Slider
+                        min={0}
+                        max={PRICE_SLIDER_MAX}
+                        step={PRICE_SLIDER_STEP}
+                        minStepsBetweenThumbs={1}
+                        value={priceDraft}
+                        onValueChange={setPriceDraft}
+                        onValueCommit={setPriceFilter}
+                        aria-label="Price range"
+                        data-testid="slider-filter-price"
+                      />
+                    </div>
+                    <div className="space-y-3">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="font-semibold">Duration</span>
+                        <span className="text-muted-foreground" data-testid="text-filter-duration">{formatDurationFilter(durationDraft)}</span>
+                      </div>
+                      <Slider
+                        min={DURATION_SLIDER_STEP}
+                        max={DURATION_SLIDER_MAX}
+                        step={DURATION_SLIDER_STEP}
+                        value={[durationDraft]}
+                        onValueChange={([value]) => setDurationDraft(value)}
+                        onValueCommit={([value]) => setDurationFilter(value)}
+                        aria-label="Maximum duration"
+                        data-testid="slider-filter-duration"
+                      />
+                    </div>
+                  </div>
                 </DropdownMenuContent>
               </DropdownMenu>
               
@@ -352,16 +436,34 @@ export default function HomePage() {
               </DropdownMenu>
             </div>
 
+            {nearLocality && (
+              <div className="flex items-center gap-2 text-sm" data-testid="chip-near-locality">
+                <span className="inline-flex items-center gap-1.5 rounded-full bg-primary/10 text-primary px-3 py-1 font-medium">
+                  <MapPin size={14} />
+                  {searchArea ? "Near" : `Within ${NEAR_LOCALITY_RADIUS_KM} km of`} {formatLocality(nearLocality)}
+                  <button
+                    type="button"
+                    onClick={() => setNearLocality(null)}
+                    className="ml-1 rounded-full hover:bg-primary/20 p-0.5"
+                    aria-label="Clear location"
+                    data-testid="button-clear-near-locality"
+                  >
+                    <X size={12} />
+                  </button>
+                </span>
+              </div>
+            )}
+
             <div className="flex gap-2 overflow-x-auto pb-2 scrollbar-hide -mx-4 sm:-mx-6 px-4 sm:px-6">
-              {CATEGORIES.map((cat) => {
-                const isSelected = cat === "All" 
+              {CATEGORIES.map(({ value, label }) => {
+                const isSelected = value === "all" 
                   ? selectedCategories.length === 0 
-                  : selectedCategories.includes(cat);
+                  : selectedCategories.includes(value);
                 return (
                   <button
-                    key={cat}
-                    onClick={() => toggleCategory(cat)}
-                    data-testid={`filter-${cat.toLowerCase()}`}
+                    key={value}
+                    onClick={() => toggleCategory(value)}
+                    data-testid={`filter-${value}`}
                     className={`
                       whitespace-nowrap px-4 py-2 rounded-full text-sm font-semibold transition-all
                       ${isSelected 
@@ -369,7 +471,7 @@ export default function HomePage() {
                         : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'}
                     `}
                   >
-                    {cat}
+                    {label}
                   </button>
                 );
               })}
@@ -386,7 +488,7 @@ export default function HomePage() {
             ) : displayProfiles.length === 0 ? (
               <div className="text-center py-20 text-muted-foreground">
                 <p>No providers found in this area.</p>
-                <Button variant="ghost" onClick={() => {setSearchTerm(""); setSelectedCategories([]); setSelectedLocationTypes([]); setSortBy("default");}}>
+                <Button variant="ghost" onClick={() => {setSearchTerm(""); setSelectedCategories([]); setSelectedLocationTypes([]); setSortBy("default"); setSearchArea(null);}}>
                   Clear filters
                 </Button>
               </div>
@@ -436,7 +538,19 @@ export default function HomePage() {
                                   <p className="text-sm text-muted-foreground flex items-center gap-1">
                                     <MapPin size={12} /> 
                                     {profile.locationType ? profile.locationType.replace('_', ' ') : 'Mobile'}
+                                    {nearLocality && profile.travelsToClient ? (
+                                      <span data-testid={`text-travels-${profile.id}`}>
+                                        • Travels to {nearLocality.name}{profile.travelFeeCents ? ` (${formatCents(profile.travelFeeCents)} travel fee)` : ''}
+                                      </span>
+                                    ) : profile.distance !== null && (
+                                      <span data-testid={`text-distance-${profile.id}`}>• {profile.distance < 1 ? '<1' : profile.distance.toFixed(1)} km</span>
+                                    )}
                                   </p>
+                                  {profile.locations.length > 0 && (
+                                    <p className="text-xs text-muted-foreground truncate" data-testid={`text-other-locations-${profile.id}`}>
+                                      Also at {profile.locations.map(l => l.label || shortenLocation(l.location)).join(', ')}
+                                    </p>
+                                  )}
                                 </div>
                                 <div className="flex items-center gap-1 bg-amber-50 text-amber-700 px-2 py-1 rounded-lg text-xs font-bold border border-amber-100">
                                   <Star size={10} className="fill-current" />
@@ -451,10 +565,24 @@ export default function HomePage() {
                               <div className="flex flex-wrap gap-2 mt-3">
                                 {profile.services.slice(0, 3).map(s => (
                                   <span key={s.id} className="text-xs bg-secondary/50 px-2 py-1 rounded-md text-secondary-foreground font-medium">
-                                    {s.name}{s.price ? ` • $${s.price}` : ''}
+                                    {s.name}{formatServicePrice(s) ? ` • ${formatServicePrice(s)}` : ''}
                                   </span>
                                 ))}
                               </div>
+
+                              {profile.portfolio.length > 0 && (
+                                <div className="flex gap-1.5 mt-3" data-testid={`portfolio-strip-${profile.id}`}>
+                                  {profile.portfolio.map(image => (
+                                    <img
+                                      key={image.id}
+                                      src={image.url}
+                                      alt={image.caption || `${profile.username} portfolio`}
+                                      loading="lazy"
+                                      className="w-12 h-12 rounded-md object-cover bg-muted"
+                                    />
+                                  ))}
+                                </div>
+                              )}
                             </div>
                           </div>
                         </div>
@@ -475,8 +603,32 @@ export default function HomePage() {
               center={userLocation}
               hoveredProfileId={hoveredProfileId}
               isVisible={!isMobile || mobileView === 'map'}
+              onBoundsChange={handleMapBoundsChange}
             />
           )}
+          {(!isMobile || mobileView === 'map') && (mapMoved || searchArea) && (
+            <div className="absolute top-4 left-1/2 -translate-x-1/2 z-[1000] flex gap-2">
+              {mapMoved && (
+                <Button
+                  onClick={() => setSearchArea(mapBounds)}
+                  className="rounded-full shadow-xl font-semibold"
+                  data-testid="button-search-this-area"
+                >
+                  <Search size={16} className="mr-2" /> Search this area
+                </Button>
+              )}
+              {searchArea && (
+                <Button
+                  variant="outline"
+                  onClick={() => setSearchArea(null)}
+                  className="rounded-full shadow-xl bg-background font-semibold"
+                  data-testid="button-clear-search-area"
+                >
+                  Show all areas
+                </Button>
+              )}
+            </div>
+          )}
         </div>
         
         {/* Mobile View Toggle */}
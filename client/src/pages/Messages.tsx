@@ -1,16 +1,22 @@
-import { useMessages, useSendMessage, useDeleteConversation } from "@/hooks/use-messages";
+import { useConversations, useMessages, useSendMessage, useDeleteConversation, useMarkConversationRead, useAcceptConversation } from "@/hooks/use-messages";
 import { useAuth } from "@/hooks/use-auth";
 import { useMyProfile } from "@/hooks/use-profiles";
+import { useTypingIndicator, useSendTyping } from "@/hooks/use-realtime";
+import { useUpload } from "@/hooks/use-upload";
+import { useToast } from "@/hooks/use-toast";
+import { useBlockProfile } from "@/hooks/use-moderation";
 import { Navigation } from "@/components/Navigation";
+import { MessageAttachment } from "@/components/MessageAttachment";
+import { ReportDialog } from "@/components/ReportDialog";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { Send, Loader2, MessageSquare, Trash2, ArrowLeft } from "lucide-react";
+import { Send, Loader2, MessageSquare, Trash2, ArrowLeft, Check, CheckCheck, Paperclip, X, FileText, MoreVertical, Flag, Ban, MapPin } from "lucide-react";
 import { useState, useRef, useEffect, useMemo } from "react";
-import { Message, Profile } from "@shared/schema";
 import { format } from "date-fns";
-import { useQuery } from "@tanstack/react-query";
+import { attachmentContentTypes, MAX_MESSAGE_ATTACHMENTS, type InsertMessageAttachment } from "@shared/schema";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -27,107 +33,111 @@ export default function MessagesPage() {
   const { user } = useAuth();
   const { data: myProfile } = useMyProfile();
   
-  // For MVP, we fetch all messages and group them client-side
-  const { data: messages, isLoading } = useMessages();
+  const { data: conversationList = [], isLoading } = useConversations();
   const sendMessage = useSendMessage();
   const deleteConversation = useDeleteConversation();
+  const markRead = useMarkConversationRead();
+  const acceptConversation = useAcceptConversation();
+  const blockProfile = useBlockProfile();
+  const [reportTarget, setReportTarget] = useState<{ type: "message" | "profile"; id: number } | null>(null);
+  const [showBlockDialog, setShowBlockDialog] = useState(false);
   
   const [selectedUserId, setSelectedUserId] = useState<number | null>(null);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [inputText, setInputText] = useState("");
+  const [pendingAttachments, setPendingAttachments] = useState<InsertMessageAttachment[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const { uploadFile, isUploading } = useUpload({ purpose: "attachment" });
   const scrollRef = useRef<HTMLDivElement>(null);
   
   const myProfileId = myProfile?.id;
+  const otherIsTyping = useTypingIndicator(selectedUserId);
+  const sendTyping = useSendTyping(selectedUserId);
 
-  // Get unique user IDs from messages
-  const otherUserIds = useMemo(() => {
-    if (!messages || !myProfileId) return [];
-    const ids = new Set<number>();
-    messages.forEach(msg => {
-      const otherId = msg.senderId === myProfileId ? msg.receiverId : msg.senderId;
-      if (otherId !== myProfileId) { // Exclude self
-        ids.add(otherId);
-      }
-    });
-    return Array.from(ids);
-  }, [messages, myProfileId]);
-
-  // Fetch profiles for all conversation partners
-  const { data: profiles, isLoading: profilesLoading } = useQuery({
-    queryKey: ['/api/profiles/batch', otherUserIds],
-    queryFn: async () => {
-      const results: Record<number, Profile> = {};
-      for (const id of otherUserIds) {
-        try {
-          const res = await fetch(`/api/profiles/${id}`, { credentials: 'include' });
-          if (res.ok) {
-            const profile = await res.json();
-            results[id] = profile;
-          }
-        } catch (e) {}
-      }
-      return results;
-    },
-    enabled: otherUserIds.length > 0,
-  });
-
-  // Group messages by conversation (excluding messages to self)
-  const conversations = messages?.reduce((acc, msg) => {
-    if (!myProfileId) return acc;
-    const otherId = msg.senderId === myProfileId ? msg.receiverId : msg.senderId;
-    // Skip messages to self
-    if (otherId === myProfileId) return acc;
-    
-    const profile = profiles?.[otherId];
-    if (!acc[otherId]) {
-      acc[otherId] = {
-        userId: otherId,
-        name: profile?.username || (profilesLoading ? "Loading..." : "Unknown"),
-        lastMessage: msg,
-        messages: []
-      };
-    }
-    acc[otherId].messages.push(msg);
-    // Keep last message updated
-    if (new Date(msg.createdAt!) > new Date(acc[otherId].lastMessage.createdAt!)) {
-      acc[otherId].lastMessage = msg;
-    }
-    return acc;
-  }, {} as Record<number, { userId: number; name: string; lastMessage: Message; messages: Message[] }>) || {};
+  const {
+    data: history,
+    isLoading: historyLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useMessages(selectedUserId);
 
-  const conversationList = Object.values(conversations).sort(
-    (a, b) => new Date(b.lastMessage.createdAt!).getTime() - new Date(a.lastMessage.createdAt!).getTime()
+  // Pages arrive newest first; each page is oldest first
+  const activeMessages = useMemo(
+    () => (history?.pages || []).slice().reverse().flatMap(page => page.messages),
+    [history]
   );
+  const newestMessageId = activeMessages[activeMessages.length - 1]?.id;
+
+  // Mark the open conversation read whenever it shows something unread from the other person
+  const lastMarkedRef = useRef<{ otherUserId: number; upToId: number } | null>(null);
+  useEffect(() => {
+    if (!selectedUserId) return;
+    const unread = activeMessages.filter(msg => msg.senderId === selectedUserId && !msg.read);
+    if (unread.length === 0) return;
+    const upToId = unread[unread.length - 1].id;
+    const last = lastMarkedRef.current;
+    if (last && last.otherUserId === selectedUserId && last.upToId >= upToId) return;
+    lastMarkedRef.current = { otherUserId: selectedUserId, upToId };
+    markRead.mutate({ otherUserId: selectedUserId, upToId });
+  }, [activeMessages, selectedUserId]);
 
   // Auto-select first conversation if none selected
   useEffect(() => {
     if (!selectedUserId && conversationList.length > 0) {
-      setSelectedUserId(conversationList[0].userId);
+      setSelectedUserId(conversationList[0].counterpartId);
     }
   }, [conversationList.length]);
 
-  // Scroll to bottom of chat
+  // Scroll to bottom of chat when a new message arrives, but not when older pages load
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [messages, selectedUserId]);
+  }, [newestMessageId, selectedUserId, otherIsTyping]);
 
   const handleSend = () => {
-    if (!inputText.trim() || !selectedUserId) return;
+    if ((!inputText.trim() && pendingAttachments.length === 0) || !selectedUserId) return;
     const messageToSend = inputText;
+    const attachmentsToSend = pendingAttachments;
     setInputText(""); // Reset immediately for better UX
+    setPendingAttachments([]);
     sendMessage.mutate(
-      { receiverId: selectedUserId, content: messageToSend },
+      { receiverId: selectedUserId, content: messageToSend, attachments: attachmentsToSend },
       { 
         onError: () => {
           setInputText(messageToSend); // Restore on error
+          setPendingAttachments(attachmentsToSend);
         }
       }
     );
   };
 
-  const activeConversation = selectedUserId ? conversations[selectedUserId] : null;
+  const handleAttachFiles = async (files: FileList | null) => {
+    if (!files) return;
+    for (const file of Array.from(files)) {
+      if (!(attachmentContentTypes as readonly string[]).includes(file.type)) {
+        toast({ title: "Unsupported file", description: "You can attach images and PDFs.", variant: "destructive" });
+        continue;
+      }
+      const uploaded = await uploadFile(file);
+      if (!uploaded) {
+        toast({ title: "Upload failed", description: `Could not upload ${file.name}`, variant: "destructive" });
+        continue;
+      }
+      setPendingAttachments(prev => [...prev, {
+        storageKey: uploaded.objectPath,
+        name: file.name,
+        contentType: file.type as InsertMessageAttachment["contentType"],
+        size: file.size,
+      }]);
+    }
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const activeConversation = selectedUserId ? conversationList.find(c => c.counterpartId === selectedUserId) : null;
+  const activeName = activeConversation?.counterpart?.username || "Unknown";
 
   return (
     <div className="h-screen flex flex-col bg-background">
@@ -148,28 +158,36 @@ export default function MessagesPage() {
                <div className="p-8 text-center text-muted-foreground text-sm">No conversations yet.</div>
             ) : (
               conversationList.map((conv) => {
-                const profileImg = profiles?.[conv.userId]?.profileImageUrl;
+                const name = conv.counterpart?.username || "Unknown";
+                const profileImg = conv.counterpart?.profileImageUrl;
                 return (
                 <div
-                  key={conv.userId}
-                  className={`w-full p-4 flex items-start gap-3 text-left transition-colors hover:bg-muted/50 ${selectedUserId === conv.userId ? 'bg-muted' : ''}`}
+                  key={conv.counterpartId}
+                  className={`w-full p-4 flex items-start gap-3 text-left transition-colors hover:bg-muted/50 ${selectedUserId === conv.counterpartId ? 'bg-muted' : ''}`}
                 >
                   <button
-                    onClick={() => setSelectedUserId(conv.userId)}
+                    onClick={() => setSelectedUserId(conv.counterpartId)}
                     className="flex items-start gap-3 flex-1 min-w-0"
                   >
                     <Avatar className="w-10 h-10 border border-border">
-                      {profileImg && <AvatarImage src={profileImg} alt={conv.name} />}
-                      <AvatarFallback>{conv.name[0]?.toUpperCase()}</AvatarFallback>
+                      {profileImg && <AvatarImage src={profileImg} alt={name} />}
+                      <AvatarFallback>{name[0]?.toUpperCase()}</AvatarFallback>
                     </Avatar>
                     <div className="flex-1 min-w-0">
                       <div className="flex justify-between items-baseline mb-1">
-                        <span className="font-bold text-sm truncate">{conv.name}</span>
+                        <span className="font-bold text-sm truncate">{name}</span>
                         <span className="text-[10px] text-muted-foreground">
                           {format(new Date(conv.lastMessage.createdAt!), 'MMM d')}
                         </span>
                       </div>
-                      <p className="text-xs text-muted-foreground truncate">{conv.lastMessage.content}</p>
+                      <div className="flex items-center gap-2">
+                        <p className={`text-xs truncate flex-1 ${conv.unreadCount > 0 ? 'font-semibold text-foreground' : 'text-muted-foreground'}`}>{conv.lastMessage.content || "Sent an attachment"}</p>
+                        {conv.unreadCount > 0 && (
+                          <span className="shrink-0 min-w-5 h-5 px-1.5 rounded-full bg-primary text-primary-foreground text-[10px] font-bold flex items-center justify-center" data-testid={`badge-unread-${conv.counterpartId}`}>
+                            {conv.unreadCount > 99 ? "99+" : conv.unreadCount}
+                          </span>
+                        )}
+                      </div>
                     </div>
                   </button>
                   <Button
@@ -177,11 +195,11 @@ export default function MessagesPage() {
                     size="icon"
                     onClick={(e) => {
                       e.stopPropagation();
-                      setSelectedUserId(conv.userId);
+                      setSelectedUserId(conv.counterpartId);
                       setShowDeleteDialog(true);
                     }}
                     className="shrink-0 h-8 w-8 text-muted-foreground hover:text-destructive hover:bg-destructive/10"
-                    data-testid={`button-delete-conversation-${conv.userId}`}
+                    data-testid={`button-delete-conversation-${conv.counterpartId}`}
                   >
                     <Trash2 size={16} />
                   </Button>
@@ -207,45 +225,160 @@ export default function MessagesPage() {
                  </Button>
                  <div className="flex items-center gap-3">
                    <Avatar className="w-8 h-8">
-                     {profiles?.[activeConversation.userId]?.profileImageUrl && (
-                       <AvatarImage src={profiles[activeConversation.userId].profileImageUrl!} alt={activeConversation.name} />
+                     {activeConversation.counterpart?.profileImageUrl && (
+                       <AvatarImage src={activeConversation.counterpart.profileImageUrl} alt={activeName} />
                      )}
-                     <AvatarFallback>{activeConversation.name[0]?.toUpperCase()}</AvatarFallback>
+                     <AvatarFallback>{activeName[0]?.toUpperCase()}</AvatarFallback>
                    </Avatar>
-                   <span className="font-bold text-sm sm:text-base">{activeConversation.name}</span>
+                   <span className="font-bold text-sm sm:text-base">{activeName}</span>
                  </div>
+                 <DropdownMenu>
+                   <DropdownMenuTrigger asChild>
+                     <Button variant="ghost" size="icon" className="ml-auto shrink-0" data-testid="button-conversation-more">
+                       <MoreVertical size={18} />
+                     </Button>
+                   </DropdownMenuTrigger>
+                   <DropdownMenuContent align="end">
+                     {myProfile?.role === "provider" && (
+                       <DropdownMenuItem
+                         onClick={() => acceptConversation.mutate(
+                           { otherUserId: activeConversation.counterpartId, accept: !activeConversation.accepted },
+                           {
+                             onSuccess: () => toast({
+                               title: activeConversation.accepted ? "Address no longer shared" : "Conversation accepted",
+                               description: activeConversation.accepted ? undefined : `${activeName} can now see your exact address.`,
+                             }),
+                             onError: (error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+                           }
+                         )}
+                         disabled={acceptConversation.isPending}
+                         data-testid="menu-accept-conversation"
+                       >
+                         <MapPin className="mr-2 h-4 w-4" /> {activeConversation.accepted ? "Stop sharing my address" : "Accept & share my address"}
+                       </DropdownMenuItem>
+                     )}
+                     <DropdownMenuItem onClick={() => setReportTarget({ type: "profile", id: activeConversation.counterpartId })} data-testid="menu-report-user">
+                       <Flag className="mr-2 h-4 w-4" /> Report {activeName}
+                     </DropdownMenuItem>
+                     <DropdownMenuItem onClick={() => setShowBlockDialog(true)} className="text-destructive focus:text-destructive" data-testid="menu-block-user">
+                       <Ban className="mr-2 h-4 w-4" /> Block {activeName}
+                     </DropdownMenuItem>
+                   </DropdownMenuContent>
+                 </DropdownMenu>
               </div>
               
               <div className="flex-1 overflow-y-auto p-4 space-y-4" ref={scrollRef}>
-                {activeConversation.messages
-                  .sort((a, b) => new Date(a.createdAt!).getTime() - new Date(b.createdAt!).getTime())
-                  .map((msg) => {
-                    const isMe = msg.senderId === myProfileId;
-                    return (
-                      <div key={msg.id} className={`flex flex-col ${isMe ? 'items-end' : 'items-start'}`}>
+                {hasNextPage && (
+                  <div className="flex justify-center">
+                    <Button variant="ghost" size="sm" onClick={() => fetchNextPage()} disabled={isFetchingNextPage} data-testid="button-load-earlier">
+                      {isFetchingNextPage ? <Loader2 className="h-4 w-4 animate-spin" /> : "Load earlier messages"}
+                    </Button>
+                  </div>
+                )}
+                {historyLoading && (
+                  <div className="flex justify-center"><Loader2 className="animate-spin" /></div>
+                )}
+                {activeMessages.map((msg) => {
+                  const isMe = msg.senderId === myProfileId;
+                  return (
+                    <div key={msg.id} className={`group flex flex-col ${isMe ? 'items-end' : 'items-start'}`}>
+                      {msg.attachments.length > 0 && (
+                        <div className={`flex flex-wrap gap-2 mb-1 max-w-[70%] ${isMe ? 'justify-end' : 'justify-start'}`}>
+                          {msg.attachments.map(attachment => (
+                            <MessageAttachment key={attachment.id} attachment={attachment} />
+                          ))}
+                        </div>
+                      )}
+                      {msg.content && (
                         <div className={`max-w-[70%] rounded-2xl px-4 py-2 text-sm shadow-sm ${isMe ? 'bg-primary text-primary-foreground rounded-br-none' : 'bg-muted text-foreground rounded-bl-none'}`}>
                           {msg.content}
                         </div>
-                        <span className={`text-[10px] text-muted-foreground mt-1 ${isMe ? 'mr-1' : 'ml-1'}`}>
-                          {msg.createdAt && format(new Date(msg.createdAt), 'h:mm a')}
-                        </span>
-                      </div>
-                    );
-                  })}
+                      )}
+                      <span className={`text-[10px] text-muted-foreground mt-1 flex items-center gap-1 ${isMe ? 'mr-1' : 'ml-1'}`}>
+                        {msg.createdAt && format(new Date(msg.createdAt), 'h:mm a')}
+                        {isMe && (msg.read ? (
+                          <CheckCheck size={12} className="text-primary" aria-label="Seen" data-testid={`status-seen-${msg.id}`} />
+                        ) : (
+                          <Check size={12} aria-label="Sent" />
+                        ))}
+                        {!isMe && (
+                          <button
+                            type="button"
+                            onClick={() => setReportTarget({ type: "message", id: msg.id })}
+                            className="opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity hover:text-destructive"
+                            aria-label="Report message"
+                            data-testid={`button-report-message-${msg.id}`}
+                          >
+                            <Flag size={10} />
+                          </button>
+                        )}
+                      </span>
+                    </div>
+                  );
+                })}
+                {otherIsTyping && (
+                  <div className="flex items-start" data-testid="text-typing-indicator">
+                    <div className="rounded-2xl rounded-bl-none bg-muted px-4 py-2 text-xs text-muted-foreground italic">
+                      {activeName} is typing...
+                    </div>
+                  </div>
+                )}
               </div>
               
               <div className="p-4 bg-background border-t border-border/50">
+                {pendingAttachments.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mb-3">
+                    {pendingAttachments.map(attachment => (
+                      <div key={attachment.storageKey} className="flex items-center gap-1.5 rounded-full bg-secondary/50 pl-3 pr-1 py-1 text-xs max-w-[200px]">
+                        <FileText size={12} className="shrink-0" />
+                        <span className="truncate">{attachment.name}</span>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-5 w-5 rounded-full shrink-0"
+                          onClick={() => setPendingAttachments(prev => prev.filter(a => a.storageKey !== attachment.storageKey))}
+                        >
+                          <X size={12} />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
                 <form 
                   onSubmit={(e) => { e.preventDefault(); handleSend(); }}
                   className="flex gap-2"
                 >
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={attachmentContentTypes.join(",")}
+                    multiple
+                    className="hidden"
+                    onChange={(e) => handleAttachFiles(e.target.files)}
+                    data-testid="input-message-attachment"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="rounded-full w-10 h-10 shrink-0"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isUploading || pendingAttachments.length >= MAX_MESSAGE_ATTACHMENTS}
+                    data-testid="button-attach-file"
+                  >
+                    {isUploading ? <Loader2 size={18} className="animate-spin" /> : <Paperclip size={18} />}
+                  </Button>
                   <Input 
                     placeholder="Type a message..." 
                     value={inputText}
-                    onChange={(e) => setInputText(e.target.value)}
+                    onChange={(e) => {
+                      setInputText(e.target.value);
+                      sendTyping();
+                    }}
                     className="flex-1 rounded-full bg-secondary/50 border-transparent focus:bg-background transition-all"
                   />
-                  <Button type="submit" size="icon" className="rounded-full w-10 h-10 shadow-lg" disabled={!inputText.trim() || sendMessage.isPending}>
+                  <Button type="submit" size="icon" className="rounded-full w-10 h-10 shadow-lg" disabled={(!inputText.trim() && pendingAttachments.length === 0) || isUploading || sendMessage.isPending}>
                     <Send size={18} />
                   </Button>
                 </form>
@@ -260,6 +393,46 @@ export default function MessagesPage() {
         </Card>
       </div>
 
+      {reportTarget && (
+        <ReportDialog
+          open={!!reportTarget}
+          onOpenChange={(open) => !open && setReportTarget(null)}
+          targetType={reportTarget.type}
+          targetId={reportTarget.id}
+          targetLabel={activeName}
+        />
+      )}
+
+      <AlertDialog open={showBlockDialog} onOpenChange={setShowBlockDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Block {activeName}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This conversation will be hidden and neither of you will be able to message, review or book each other. You can unblock them later in Settings.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (!selectedUserId) return;
+                blockProfile.mutate(selectedUserId, {
+                  onSuccess: () => {
+                    toast({ title: "User blocked" });
+                    setSelectedUserId(null);
+                  },
+                  onError: (error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+                });
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-confirm-block"
+            >
+              Block
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
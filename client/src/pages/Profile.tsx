@@ -1,9 +1,23 @@
-import { useProfile, useCreateReview, useMyProfile, useCheckExistingReview, useDeleteReview } from "@/hooks/use-profiles";
+import { useProfile, useCreateReview, useUpdateReview, useMyProfile, useCheckExistingReview, useDeleteReview } from "@/hooks/use-profiles";
 import { shortenLocation } from "@/lib/utils";
+import { isPrivateLocationType } from "@shared/locations";
 import { useSendMessage } from "@/hooks/use-messages";
+import { useCreateBooking } from "@/hooks/use-bookings";
+import { useBlockProfile } from "@/hooks/use-moderation";
 import { useAuth } from "@/hooks/use-auth";
-import { useRoute, Link } from "wouter";
+import { useRoute, Link, useLocation } from "wouter";
 import { Navigation } from "@/components/Navigation";
+import { BookingSlotPicker } from "@/components/BookingSlotPicker";
+import { ReportDialog } from "@/components/ReportDialog";
+import { ReviewReply } from "@/components/ReviewReply";
+import { ReviewHistory } from "@/components/ReviewHistory";
+import { RatingSummary } from "@/components/RatingSummary";
+import { PortfolioCarousel } from "@/components/PortfolioCarousel";
+import { ServiceOptionPicker, ServiceOptionsSummary, emptyServiceSelection, needsVariant, selectedOptions, type ServiceSelection } from "@/components/ServiceOptions";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ServiceAreaSummary } from "@/components/ServiceArea";
+import { ProviderLocationsList } from "@/components/ProviderLocations";
+import { ReviewPhotoGallery, ReviewPhotoPicker, ReviewPhotoStrip } from "@/components/ReviewPhotos";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
@@ -12,14 +26,18 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Star, MapPin, Clock, MessageCircle, Share2, ShieldCheck, Loader2, Instagram, Trash2 } from "lucide-react";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Star, MapPin, Clock, MessageCircle, Share2, ShieldCheck, Loader2, Instagram, Trash2, CalendarPlus, MoreHorizontal, Flag, Ban, ImageOff, Pencil, BadgeCheck } from "lucide-react";
 import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Form, FormControl, FormField, FormItem, FormMessage } from "@/components/ui/form";
-import { insertReviewSchema } from "@shared/schema";
+import { insertReviewSchema, type ServiceWithOptions, type ReviewWithPhotos, type InsertReport } from "@shared/schema";
+import { subRatingKeys, subRatingLabels } from "@shared/ratings";
+import { formatServicePrice, serviceCategoryLabel, describeServiceSelection } from "@shared/services";
 
 // Form Schema for Review
 const reviewFormSchema = insertReviewSchema.omit({ clientId: true, providerId: true });
@@ -35,10 +53,15 @@ export default function ProfilePage() {
   const { toast } = useToast();
   
   const isOwnProfile = myProfile?.id === profile?.id;
+  const canModeratePhotos = isOwnProfile || !!myProfile?.isAdmin;
   
   const sendMessage = useSendMessage();
   const createReview = useCreateReview();
+  const updateReview = useUpdateReview();
   const deleteReview = useDeleteReview();
+  const createBooking = useCreateBooking();
+  const blockProfile = useBlockProfile();
+  const [, setLocation] = useLocation();
   
   const { data: existingReviewCheck } = useCheckExistingReview(
     isAuthenticated && myProfile?.id !== profile?.id ? profile?.id : undefined
@@ -46,7 +69,19 @@ export default function ProfilePage() {
 
   const [messageOpen, setMessageOpen] = useState(false);
   const [reviewOpen, setReviewOpen] = useState(false);
+  const [editingReview, setEditingReview] = useState<ReviewWithPhotos | null>(null);
+  const [verifiedOnly, setVerifiedOnly] = useState(false);
+  const [reviewPhotoUrls, setReviewPhotoUrls] = useState<string[]>([]);
   const [messageText, setMessageText] = useState("");
+  // The service a message is enquiring about, if any
+  const [enquiryServiceId, setEnquiryServiceId] = useState<number | null>(null);
+  const [enquirySelection, setEnquirySelection] = useState<ServiceSelection>(emptyServiceSelection);
+  const [bookingService, setBookingService] = useState<ServiceWithOptions | null>(null);
+  const [bookingSelection, setBookingSelection] = useState<ServiceSelection>(emptyServiceSelection);
+  const [bookingStartsAt, setBookingStartsAt] = useState("");
+  const [bookingNote, setBookingNote] = useState("");
+  const [reportTarget, setReportTarget] = useState<{ type: InsertReport["targetType"]; id: number; label: string } | null>(null);
+  const [blockConfirmOpen, setBlockConfirmOpen] = useState(false);
 
   const form = useForm<ReviewFormValues>({
     resolver: zodResolver(reviewFormSchema),
@@ -74,15 +109,24 @@ export default function ProfilePage() {
     );
   }
 
+  const enquiryService = profile.services.find(s => s.id === enquiryServiceId) ?? null;
+
   const handleSendMessage = () => {
     if (!messageText.trim()) return;
+    let content = messageText;
+    if (enquiryService) {
+      const { variant, addons } = selectedOptions(enquiryService, enquirySelection);
+      content = `Enquiry about ${describeServiceSelection(enquiryService.name, variant?.name ?? null, addons.map(a => a.name))}\n\n${messageText}`;
+    }
     sendMessage.mutate(
-      { receiverId: profile.id, content: messageText },
+      { receiverId: profile.id, content },
       {
         onSuccess: () => {
           toast({ title: "Message sent!", description: "Check your inbox for replies." });
           setMessageOpen(false);
           setMessageText("");
+          setEnquiryServiceId(null);
+          setEnquirySelection(emptyServiceSelection);
         },
         onError: () => {
           toast({ title: "Error", description: "Failed to send message", variant: "destructive" });
@@ -91,14 +135,101 @@ export default function ProfilePage() {
     );
   };
 
+  const handleBlock = () => {
+    blockProfile.mutate(profile.id, {
+      onSuccess: () => {
+        toast({ title: "User blocked", description: `You and ${profile.username} can no longer see or contact each other.` });
+        setLocation("/");
+      },
+      onError: (error) => {
+        toast({ title: "Error", description: error.message || "Failed to block user", variant: "destructive" });
+      }
+    });
+  };
+
+  const openBooking = (service: ServiceWithOptions | null) => {
+    setBookingService(service);
+    setBookingSelection(emptyServiceSelection);
+    setBookingStartsAt("");
+  };
+
+  // A different variant or add-ons can change the appointment's length, so the picked time is cleared
+  const changeBookingSelection = (selection: ServiceSelection) => {
+    setBookingSelection(selection);
+    setBookingStartsAt("");
+  };
+
+  const handleRequestBooking = () => {
+    if (!bookingService || !bookingStartsAt) return;
+    createBooking.mutate(
+      {
+        serviceId: bookingService.id,
+        variantId: bookingSelection.variantId ?? undefined,
+        addonIds: bookingSelection.addonIds,
+        startsAt: new Date(bookingStartsAt),
+        note: bookingNote || undefined,
+      },
+      {
+        onSuccess: () => {
+          toast({ title: "Booking requested!", description: `${profile.username} will confirm your appointment.` });
+          openBooking(null);
+          setBookingNote("");
+        },
+        onError: (error) => {
+          toast({ title: "Error", description: error.message || "Failed to request booking", variant: "destructive" });
+        }
+      }
+    );
+  };
+
+  const handleReviewOpenChange = (open: boolean) => {
+    setReviewOpen(open);
+    if (!open && editingReview) {
+      setEditingReview(null);
+      form.reset({ rating: 5, comment: "", displayName: "" });
+      setReviewPhotoUrls([]);
+    }
+  };
+
+  const handleEditReview = (review: ReviewWithPhotos) => {
+    setEditingReview(review);
+    setReviewPhotoUrls(review.photos.filter((photo) => !photo.hidden).map((photo) => photo.url));
+    form.reset({
+      rating: review.rating,
+      comment: review.comment ?? "",
+      displayName: review.displayName ?? "",
+      qualityRating: review.qualityRating,
+      punctualityRating: review.punctualityRating,
+      hygieneRating: review.hygieneRating,
+      valueRating: review.valueRating,
+    });
+    setReviewOpen(true);
+  };
+
   const onReviewSubmit = (values: ReviewFormValues) => {
+    if (editingReview) {
+      updateReview.mutate(
+        { reviewId: editingReview.id, ...values, photos: reviewPhotoUrls },
+        {
+          onSuccess: () => {
+            toast({ title: "Review updated", description: "Your earlier version is kept in the review's history." });
+            handleReviewOpenChange(false);
+          },
+          onError: (error) => {
+            toast({ title: "Error", description: error.message || "Failed to update review", variant: "destructive" });
+          }
+        }
+      );
+      return;
+    }
     createReview.mutate(
-      { ...values, providerId: profile.id },
+      { ...values, providerId: profile.id, photos: reviewPhotoUrls },
       {
         onSuccess: () => {
           toast({ title: "Review submitted!", description: "Thank you for your feedback." });
           setReviewOpen(false);
           form.reset();
+          setReviewPhotoUrls([]);
         },
         onError: (error) => {
           toast({ title: "Error", description: error.message || "Failed to submit review", variant: "destructive" });
@@ -144,9 +275,22 @@ export default function ProfilePage() {
               {profile.role === 'provider' ? 'Service Provider' : 'Client'}
             </Badge>
             {profile.role === 'provider' && (
-              <p className="text-muted-foreground text-sm sm:text-base flex items-center justify-center md:justify-start gap-1 mb-4">
-                <MapPin size={14} /> {profile.locationType?.replace('_', ' ')} • {shortenLocation(profile.location)}
-              </p>
+              <div className="mb-4">
+                <p className="text-muted-foreground text-sm sm:text-base flex items-center justify-center md:justify-start gap-1">
+                  <MapPin size={14} /> {profile.locationType?.replace('_', ' ')} • {shortenLocation(profile.location)}
+                </p>
+                {profile.locationApproximate ? (
+                  <p className="text-xs text-muted-foreground mt-1" data-testid="text-location-approximate">
+                    Approximate area. The exact address is shared once a booking or conversation is accepted.
+                  </p>
+                ) : !isOwnProfile && isPrivateLocationType(profile.locationType) && profile.location && (
+                  <p className="text-xs text-muted-foreground mt-1" data-testid="text-location-exact">
+                    Address: {profile.location}
+                  </p>
+                )}
+                {profile.locationType === 'mobile' && <ServiceAreaSummary providerId={profile.id} />}
+                <ProviderLocationsList locations={profile.locations} />
+              </div>
             )}
 
             <div className="flex gap-2 w-full">
@@ -163,7 +307,32 @@ export default function ProfilePage() {
                         <DialogTitle>Message {profile.username}</DialogTitle>
                         <DialogDescription>Send a message to inquire about services or book an appointment.</DialogDescription>
                       </DialogHeader>
-                      <div className="py-4">
+                      <div className="py-4 space-y-4">
+                        {profile.services.length > 0 && (
+                          <div>
+                            <Label htmlFor="enquiry-service">About a service <span className="text-muted-foreground text-sm">(optional)</span></Label>
+                            <Select
+                              value={enquiryServiceId === null ? "none" : String(enquiryServiceId)}
+                              onValueChange={(id) => {
+                                setEnquiryServiceId(id === "none" ? null : Number(id));
+                                setEnquirySelection(emptyServiceSelection);
+                              }}
+                            >
+                              <SelectTrigger id="enquiry-service" className="mt-1" data-testid="select-enquiry-service">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="none">General enquiry</SelectItem>
+                                {profile.services.map(service => (
+                                  <SelectItem key={service.id} value={String(service.id)}>{service.name}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        )}
+                        {enquiryService && (
+                          <ServiceOptionPicker service={enquiryService} value={enquirySelection} onChange={setEnquirySelection} />
+                        )}
                         <Textarea 
                           placeholder="Hi! I'm interested in booking a service..."
                           value={messageText}
@@ -230,6 +399,28 @@ export default function ProfilePage() {
                   <Share2 className="h-4 w-4" />
                 </Button>
               )}
+              {!isOwnProfile && isAuthenticated && myProfile && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="icon" className="rounded-xl border-2" data-testid="button-profile-more">
+                      <MoreHorizontal className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => setReportTarget({ type: "profile", id: profile.id, label: profile.username })} data-testid="menu-report-profile">
+                      <Flag className="mr-2 h-4 w-4" /> Report profile
+                    </DropdownMenuItem>
+                    {profile.profileImageUrl && (
+                      <DropdownMenuItem onClick={() => setReportTarget({ type: "image", id: profile.id, label: profile.username })} data-testid="menu-report-image">
+                        <ImageOff className="mr-2 h-4 w-4" /> Report profile photo
+                      </DropdownMenuItem>
+                    )}
+                    <DropdownMenuItem onClick={() => setBlockConfirmOpen(true)} className="text-destructive focus:text-destructive" data-testid="menu-block-profile">
+                      <Ban className="mr-2 h-4 w-4" /> Block {profile.username}
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
             </div>
           </div>
 
@@ -258,6 +449,8 @@ export default function ProfilePage() {
                     {profile.bio || "This provider hasn't written a bio yet."}
                   </p>
                 </div>
+
+                <PortfolioCarousel images={profile.portfolio ?? []} services={profile.services} />
               </>
             )}
 
@@ -273,16 +466,30 @@ export default function ProfilePage() {
                    <div key={service.id} className="flex justify-between items-center p-4 rounded-xl bg-secondary/30 hover:bg-secondary/50 transition-colors border border-transparent hover:border-border">
                      <div>
                        <h4 className="font-bold">{service.name}</h4>
+                       {service.isPackage && (
+                         <Badge className="mt-1 mb-1 mr-1 font-normal" data-testid={`badge-service-package-${service.id}`}>Package</Badge>
+                       )}
+                       {service.category && (
+                         <Badge variant="secondary" className="mt-1 mb-1 font-normal" data-testid={`badge-service-category-${service.id}`}>
+                           {serviceCategoryLabel(service.category, service.subcategory)}
+                         </Badge>
+                       )}
                        <p className="text-sm text-muted-foreground">{service.description}</p>
                        {service.duration && (
                          <div className="flex items-center gap-2 mt-1 text-xs font-medium text-muted-foreground">
                            <Clock size={12} /> {service.duration} mins
                          </div>
                        )}
+                       <ServiceOptionsSummary service={service} services={profile.services} />
                      </div>
-                     <div className="text-right">
-                       {service.price && (
-                         <span className="block text-lg font-bold font-display text-primary">${service.price}</span>
+                     <div className="text-right flex flex-col items-end gap-2">
+                       {formatServicePrice(service) && (
+                         <span className="block text-lg font-bold font-display text-primary">{formatServicePrice(service)}</span>
+                       )}
+                       {!isOwnProfile && isAuthenticated && myProfile && (
+                         <Button size="sm" className="rounded-lg" onClick={() => openBooking(service)} data-testid={`button-book-service-${service.id}`}>
+                           <CalendarPlus className="mr-2 h-4 w-4" /> Book
+                         </Button>
                        )}
                      </div>
                    </div>
@@ -292,20 +499,75 @@ export default function ProfilePage() {
                       No services listed yet.
                     </div>
                  )}
+                 <Dialog open={!!bookingService} onOpenChange={(open) => { if (!open) openBooking(null); }}>
+                   <DialogContent className="max-h-[90vh] overflow-y-auto">
+                     <DialogHeader>
+                       <DialogTitle>Book {bookingService?.name}</DialogTitle>
+                       <DialogDescription>
+                         Request an appointment with {profile.username}.{bookingService?.duration ? ` This service takes about ${bookingService.duration} mins.` : ""}
+                       </DialogDescription>
+                     </DialogHeader>
+                     <div className="space-y-4 py-4">
+                       {bookingService && (
+                         <>
+                           <ServiceOptionPicker service={bookingService} value={bookingSelection} onChange={changeBookingSelection} />
+                           <BookingSlotPicker
+                             serviceId={bookingService.id}
+                             variantId={bookingSelection.variantId ?? undefined}
+                             addonIds={bookingSelection.addonIds}
+                             value={bookingStartsAt}
+                             onChange={setBookingStartsAt}
+                           />
+                         </>
+                       )}
+                       <div>
+                         <Label htmlFor="booking-note">Note <span className="text-muted-foreground text-sm">(optional)</span></Label>
+                         <Textarea
+                           id="booking-note"
+                           value={bookingNote}
+                           onChange={(e) => setBookingNote(e.target.value)}
+                           placeholder="Anything the provider should know..."
+                           className="mt-1"
+                           data-testid="input-booking-note"
+                         />
+                       </div>
+                     </div>
+                     <DialogFooter>
+                       <Button onClick={handleRequestBooking} disabled={!bookingStartsAt || createBooking.isPending || (!!bookingService && needsVariant(bookingService, bookingSelection))} data-testid="button-submit-booking">
+                         {createBooking.isPending ? "Requesting..." : "Request Booking"}
+                       </Button>
+                     </DialogFooter>
+                   </DialogContent>
+                 </Dialog>
                </TabsContent>
 
                <TabsContent value="reviews" className="mt-6">
                  <div className="flex justify-between items-center mb-6">
-                   <h3 className="font-bold text-lg">Client Reviews</h3>
-                   {isAuthenticated && user?.id !== profile.userId && !existingReviewCheck?.hasReviewed && (
-                     <Dialog open={reviewOpen} onOpenChange={setReviewOpen}>
-                        <DialogTrigger asChild>
-                          <Button variant="outline" size="sm" data-testid="button-write-review">Write a Review</Button>
-                        </DialogTrigger>
+                   <div className="flex items-center gap-3">
+                     <h3 className="font-bold text-lg">Client Reviews</h3>
+                     <Button
+                       variant={verifiedOnly ? "default" : "outline"}
+                       size="sm"
+                       className="h-7 rounded-full text-xs"
+                       onClick={() => setVerifiedOnly(!verifiedOnly)}
+                       data-testid="button-filter-verified-reviews"
+                     >
+                       <BadgeCheck size={12} className="mr-1" /> Verified only
+                     </Button>
+                   </div>
+                   {isAuthenticated && user?.id !== profile.userId && (
+                     <Dialog open={reviewOpen} onOpenChange={handleReviewOpenChange}>
+                        {!existingReviewCheck?.hasReviewed && (
+                          <DialogTrigger asChild>
+                            <Button variant="outline" size="sm" data-testid="button-write-review">Write a Review</Button>
+                          </DialogTrigger>
+                        )}
                         <DialogContent>
                           <DialogHeader>
-                            <DialogTitle>Review {profile.username}</DialogTitle>
-                            <DialogDescription>Share your experience with this provider.</DialogDescription>
+                            <DialogTitle>{editingReview ? "Edit your review" : `Review ${profile.username}`}</DialogTitle>
+                            <DialogDescription>
+                              {editingReview ? "Earlier versions stay visible in the review's history." : "Share your experience with this provider."}
+                            </DialogDescription>
                           </DialogHeader>
                           <Form {...form}>
                             <form onSubmit={form.handleSubmit(onReviewSubmit)} className="space-y-4">
@@ -348,6 +610,37 @@ export default function ProfilePage() {
                                   </FormItem>
                                 )}
                               />
+                              <div className="space-y-2">
+                                <Label>Details <span className="text-muted-foreground text-sm">(optional)</span></Label>
+                                {subRatingKeys.map((key) => (
+                                  <FormField
+                                    key={key}
+                                    control={form.control}
+                                    name={key}
+                                    render={({ field }) => (
+                                      <FormItem className="flex items-center justify-between space-y-0">
+                                        <span className="text-sm text-muted-foreground">{subRatingLabels[key]}</span>
+                                        <FormControl>
+                                          <div className="flex gap-1">
+                                            {[1, 2, 3, 4, 5].map((star) => (
+                                              <button
+                                                key={star}
+                                                type="button"
+                                                // Clicking the current score again clears it
+                                                onClick={() => field.onChange(field.value === star ? null : star)}
+                                                className={`${field.value && star <= field.value ? 'text-amber-400' : 'text-muted'} hover:scale-110 transition-transform`}
+                                                data-testid={`button-${key}-${star}`}
+                                              >
+                                                <Star className="fill-current w-5 h-5" />
+                                              </button>
+                                            ))}
+                                          </div>
+                                        </FormControl>
+                                      </FormItem>
+                                    )}
+                                  />
+                                ))}
+                              </div>
                               <FormField
                                 control={form.control}
                                 name="comment"
@@ -361,8 +654,12 @@ export default function ProfilePage() {
                                   </FormItem>
                                 )}
                               />
-                              <Button type="submit" className="w-full" disabled={createReview.isPending} data-testid="button-submit-review">
-                                {createReview.isPending ? "Submitting..." : "Submit Review"}
+                              <div className="space-y-2">
+                                <Label>Photos <span className="text-muted-foreground text-sm">(optional)</span></Label>
+                                <ReviewPhotoPicker value={reviewPhotoUrls} onChange={setReviewPhotoUrls} />
+                              </div>
+                              <Button type="submit" className="w-full" disabled={createReview.isPending || updateReview.isPending} data-testid="button-submit-review">
+                                {createReview.isPending || updateReview.isPending ? "Submitting..." : editingReview ? "Save Changes" : "Submit Review"}
                               </Button>
                             </form>
                           </Form>
@@ -374,13 +671,27 @@ export default function ProfilePage() {
                    )}
                  </div>
 
+                 <RatingSummary reviews={profile.reviews ?? []} rating={profile.rating} />
+                 <ReviewPhotoGallery reviews={profile.reviews ?? []} canModerate={canModeratePhotos} />
+
                  <div className="space-y-6">
-                   {profile.reviews?.map((review) => (
+                   {verifiedOnly && !profile.reviews?.some((review) => review.verifiedVia) && (
+                     <p className="text-sm text-muted-foreground">No verified reviews yet.</p>
+                   )}
+                   {profile.reviews?.filter((review) => !verifiedOnly || review.verifiedVia).map((review) => (
                      <div key={review.id} className="border-b border-border/50 pb-6 last:border-0" data-testid={`review-${review.id}`}>
                        <div className="flex justify-between mb-2">
                          <div className="font-bold flex items-center gap-2">
                             <span className="text-primary font-display">{review.displayName || "Anonymous"}</span>
-                            <span className="text-xs text-muted-foreground font-normal bg-secondary px-2 py-0.5 rounded-full">Verified</span>
+                            {review.verifiedVia && (
+                              <span
+                                className="text-xs text-muted-foreground font-normal bg-secondary px-2 py-0.5 rounded-full inline-flex items-center gap-1"
+                                title={review.verifiedVia === "booking" ? "Reviewed after a completed booking" : "Reviewed after talking with the provider"}
+                              >
+                                <BadgeCheck size={12} /> Verified
+                              </span>
+                            )}
+                            <ReviewHistory review={review} />
                          </div>
                          <div className="flex items-center gap-3">
                            <div className="flex text-amber-400">
@@ -388,6 +699,17 @@ export default function ProfilePage() {
                                <Star key={i} size={14} className={i < review.rating ? "fill-current" : "text-muted fill-muted"} />
                              ))}
                            </div>
+                           {myProfile?.id === review.clientId && (
+                             <Button
+                               variant="ghost"
+                               size="icon"
+                               className="h-7 w-7 text-muted-foreground"
+                               onClick={() => handleEditReview(review)}
+                               data-testid={`button-edit-review-${review.id}`}
+                             >
+                               <Pencil size={14} />
+                             </Button>
+                           )}
                            {myProfile?.id === review.clientId && (
                              <Button
                                variant="ghost"
@@ -400,9 +722,23 @@ export default function ProfilePage() {
                                <Trash2 size={14} />
                              </Button>
                            )}
+                           {myProfile && myProfile.id !== review.clientId && (
+                             <Button
+                               variant="ghost"
+                               size="icon"
+                               className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                               title="Report review"
+                               onClick={() => setReportTarget({ type: "review", id: review.id, label: review.displayName || "The reviewer" })}
+                               data-testid={`button-report-review-${review.id}`}
+                             >
+                               <Flag size={14} />
+                             </Button>
+                           )}
                          </div>
                        </div>
                        <p className="text-muted-foreground text-sm">{review.comment}</p>
+                       <ReviewPhotoStrip photos={review.photos} canModerate={canModeratePhotos} />
+                       <ReviewReply review={review} providerName={profile.username} canManage={isOwnProfile} />
                      </div>
                    ))}
                  </div>
@@ -417,6 +753,37 @@ export default function ProfilePage() {
           </div>
         </div>
       </div>
+
+      {myProfile && reportTarget && (
+        <ReportDialog
+          open
+          onOpenChange={(open) => !open && setReportTarget(null)}
+          targetType={reportTarget.type}
+          targetId={reportTarget.id}
+          targetLabel={reportTarget.label}
+        />
+      )}
+
+      {!isOwnProfile && myProfile && (
+        <>
+          <AlertDialog open={blockConfirmOpen} onOpenChange={setBlockConfirmOpen}>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Block {profile.username}?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  You won't see each other's profiles, and neither of you will be able to send messages, leave reviews or make bookings. You can unblock them later in Settings.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleBlock} className="bg-destructive text-destructive-foreground hover:bg-destructive/90" data-testid="button-confirm-block">
+                  Block
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </>
+      )}
     </div>
   );
 }
@@ -2,17 +2,21 @@ import { useState } from "react";
 import { Navigation } from "@/components/Navigation";
 import { useAuth } from "@/hooks/use-auth";
 import { useDeleteProfile } from "@/hooks/use-profiles";
+import { useBlocks, useUnblockProfile } from "@/hooks/use-moderation";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useToast } from "@/hooks/use-toast";
-import { AlertTriangle, Trash2 } from "lucide-react";
+import { AlertTriangle, Trash2, Ban } from "lucide-react";
 
 export default function SettingsPage() {
   const { logout } = useAuth();
   const deleteProfile = useDeleteProfile();
+  const { data: blocked = [] } = useBlocks();
+  const unblockProfile = useUnblockProfile();
   const { toast } = useToast();
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
   const [confirmText, setConfirmText] = useState("");
@@ -39,6 +43,49 @@ export default function SettingsPage() {
         <h1 className="font-display text-2xl sm:text-3xl font-bold mb-6 sm:mb-8">Settings</h1>
 
         <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Ban className="h-5 w-5" />
+                Blocked Users
+              </CardTitle>
+              <CardDescription>
+                Blocked users can't see your profile, message you, review you or book with you
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {blocked.length === 0 ? (
+                <p className="text-muted-foreground text-center py-4">You haven't blocked anyone</p>
+              ) : (
+                <div className="space-y-3">
+                  {blocked.map((block) => (
+                    <div key={block.id} className="flex items-center justify-between p-3 bg-secondary/30 rounded-lg">
+                      <div className="flex items-center gap-3">
+                        <Avatar className="w-9 h-9">
+                          {block.blocked?.profileImageUrl && <AvatarImage src={block.blocked.profileImageUrl} alt={block.blocked.username} />}
+                          <AvatarFallback>{block.blocked?.username?.[0]?.toUpperCase() || "?"}</AvatarFallback>
+                        </Avatar>
+                        <span className="font-medium">{block.blocked?.username || "Deleted account"}</span>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => unblockProfile.mutate(block.blockedId, {
+                          onSuccess: () => toast({ title: "User unblocked" }),
+                          onError: (error) => toast({ title: "Error", description: error.message, variant: "destructive" }),
+                        })}
+                        disabled={unblockProfile.isPending}
+                        data-testid={`button-unblock-${block.blockedId}`}
+                      >
+                        Unblock
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <CardTitle className="text-destructive flex items-center gap-2">
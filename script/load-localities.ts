@@ -0,0 +1,158 @@
+// Loads the suburb and postcode gazetteer into the localities table, replacing whatever is there.
+// Run with `npm run db:load-localities [file]` after `npm run db:push`; the default file is
+// server/data/au-localities.csv. Any CSV with a header row naming locality (or suburb/name), state,
+// postcode, latitude (or lat) and longitude (or long/lng) columns can be loaded the same way, so a full
+// Australia Post-derived postcode list drops straight in. A list can also be downloaded with
+// `npm run db:load-localities -- <URL> --sha256 <hash>`: the URL should be pinned to a release or commit,
+// and the file is refused unless its SHA-256 matches. Loading also refreshes the suburb stored for each
+// profile and provider location, which is what approximate locations are shown as, and providers' timezones.
+import { createHash } from "crypto";
+import { readFile } from "fs/promises";
+import path from "path";
+import { pool } from "../server/db";
+import { storage } from "../server/storage";
+import { resolveLocationSuburb } from "../server/privacy";
+import { resolveProfilePlace } from "../server/gazetteer";
+import { australianStates, type AustralianState } from "../shared/locations";
+import type { Locality } from "../shared/schema";
+
+const DEFAULT_FILE = path.resolve(import.meta.dirname, "..", "server", "data", "au-localities.csv");
+
+const columnAliases: Record<keyof Omit<Locality, "id">, string[]> = {
+  name: ["locality", "suburb", "name"],
+  state: ["state"],
+  postcode: ["postcode"],
+  latitude: ["latitude", "lat"],
+  longitude: ["longitude", "long", "lng", "lon"],
+};
+
+// Splits one CSV line, honouring double-quoted fields with "" escapes
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields.map((f) => f.trim());
+}
+
+// Postcode lists often shout: "ST KILDA EAST" -> "St Kilda East", "O'CONNOR" -> "O'Connor"
+function tidyName(name: string) {
+  if (name !== name.toUpperCase()) return name;
+  return name.toLowerCase().replace(/(^|[\s'-])([a-z])/g, (_, sep: string, letter: string) => sep + letter.toUpperCase());
+}
+
+function parseLocalities(csv: string): { rows: Omit<Locality, "id">[]; skipped: number } {
+  const [headerLine, ...lines] = csv.split(/\r?\n/).filter((line) => line.trim());
+  const header = parseCsvLine(headerLine ?? "").map((h) => h.toLowerCase());
+  const columns = Object.fromEntries(
+    Object.entries(columnAliases).map(([key, aliases]) => {
+      const index = header.findIndex((h) => aliases.includes(h));
+      if (index === -1) throw new Error(`No ${aliases.join("/")} column in the header`);
+      return [key, index];
+    })
+  ) as Record<keyof typeof columnAliases, number>;
+
+  const rows: Omit<Locality, "id">[] = [];
+  const seen = new Set<string>();
+  let skipped = 0;
+  for (const line of lines) {
+    const fields = parseCsvLine(line);
+    const name = tidyName(fields[columns.name] ?? "");
+    const state = (fields[columns.state] ?? "").toUpperCase();
+    const postcode = (fields[columns.postcode] ?? "").padStart(4, "0");
+    const latitude = parseFloat(fields[columns.latitude] ?? "");
+    const longitude = parseFloat(fields[columns.longitude] ?? "");
+
+    // Postcode lists include PO boxes and large-volume receivers without coordinates; they're no use for search
+    const valid = name && state in australianStates && /^\d{4}$/.test(postcode)
+      && Number.isFinite(latitude) && Number.isFinite(longitude) && (latitude !== 0 || longitude !== 0);
+    const key = `${name.toLowerCase()}|${state}|${postcode}`;
+    if (!valid || seen.has(key)) {
+      skipped++;
+      continue;
+    }
+    seen.add(key);
+    rows.push({ name, state: state as AustralianState, postcode, latitude, longitude });
+  }
+  return { rows, skipped };
+}
+
+// A downloaded file has to match the checksum it was pinned with, so a changed upstream file can't slip in
+async function download(url: string, sha256: string | undefined) {
+  if (!sha256) throw new Error("Downloads need the file's expected checksum: --sha256 <hash>");
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Couldn't download ${url}: ${res.status} ${res.statusText}`);
+  const body = Buffer.from(await res.arrayBuffer());
+  const actual = createHash("sha256").update(body).digest("hex");
+  if (actual !== sha256.toLowerCase()) throw new Error(`Checksum mismatch for ${url}: expected ${sha256}, got ${actual}`);
+  return body.toString("utf8");
+}
+
+async function load() {
+  const [source, ...options] = process.argv.slice(2);
+  const sha256Index = options.indexOf("--sha256");
+  const sha256 = sha256Index === -1 ? undefined : options[sha256Index + 1];
+
+  const isUrl = !!source && /^https?:\/\//.test(source);
+  const file = isUrl ? null : source ? path.resolve(source) : DEFAULT_FILE;
+  const csv = file ? await readFile(file, "utf8") : await download(source, sha256);
+  const from = file ? path.relative(process.cwd(), file) : source;
+
+  const { rows, skipped } = parseLocalities(csv);
+  if (rows.length === 0) throw new Error(`No localities found in ${from}`);
+
+  const count = await storage.replaceLocalities(rows);
+  console.log(`Loaded ${count} localities from ${from}; skipped ${skipped} unusable or duplicate row(s)`);
+
+  const relabelled = await refreshLocationSuburbs();
+  console.log(`Updated the suburb shown for ${relabelled} location(s)`);
+}
+
+// The suburbs shown for approximate locations, and providers' timezones, were resolved against the old
+// gazetteer, so they're worked out again for every saved location
+async function refreshLocationSuburbs() {
+  let updated = 0;
+  for (const profile of await storage.getAllProfiles()) {
+    const place = await resolveProfilePlace(profile);
+    if (place.locationSuburb !== profile.locationSuburb || place.timezone !== profile.timezone) {
+      await storage.updateProfile(profile.id, place);
+      updated++;
+    }
+    for (const place of await storage.getProviderLocations(profile.id)) {
+      const placeSuburb = await resolveLocationSuburb(place);
+      if (placeSuburb !== place.locationSuburb) {
+        const { id, providerId, ...fields } = place;
+        await storage.updateProviderLocation(id, { ...fields, locationSuburb: placeSuburb });
+        updated++;
+      }
+    }
+  }
+  return updated;
+}
+
+load()
+  .then(() => pool.end())
+  .catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
@@ -0,0 +1,141 @@
+// One-off migration from the free-text services.price column to the structured catalogue fields.
+// Run it once with `npm run db:migrate-services` BEFORE `npm run db:push`, otherwise drizzle-kit
+// will drop the old price column without converting it. Safe to re-run: it does nothing once price is gone.
+import { pool } from "../server/db";
+import { serviceTaxonomy, serviceCategories, type ServiceCategory, type PriceType } from "../shared/services";
+
+interface ParsedPrice {
+  priceType: PriceType;
+  priceCents: number;
+  priceMaxCents: number | null;
+}
+
+const AMOUNT = String.raw`\$?\s*(\d+(?:,\d{3})*(?:\.\d{1,2})?)`;
+
+function toCents(amount: string) {
+  return Math.round(parseFloat(amount.replace(/,/g, "")) * 100);
+}
+
+// "50" -> fixed, "50-100" -> range, "from 50" / "50+" -> from, "50/hr" -> hourly.
+// Anything else is left unpriced for the provider to fill in, with the original text kept in the description.
+function parseLegacyPrice(raw: string | null): ParsedPrice | null {
+  const text = raw?.trim().toLowerCase();
+  if (!text) return null;
+
+  let match = text.match(new RegExp(`^${AMOUNT}\\s*(?:-|–|to)\\s*${AMOUNT}$`));
+  if (match) {
+    const [min, max] = [toCents(match[1]), toCents(match[2])];
+    return max > min
+      ? { priceType: "range", priceCents: min, priceMaxCents: max }
+      : { priceType: "fixed", priceCents: min, priceMaxCents: null };
+  }
+  match = text.match(new RegExp(`^(?:from|starting (?:at|from))\\s*${AMOUNT}$`)) ?? text.match(new RegExp(`^${AMOUNT}\\s*\\+$`));
+  if (match) return { priceType: "from", priceCents: toCents(match[1]), priceMaxCents: null };
+  match = text.match(new RegExp(`^${AMOUNT}\\s*(?:/|per\\s*)\\s*(?:hr|hour|h)$`));
+  if (match) return { priceType: "hourly", priceCents: toCents(match[1]), priceMaxCents: null };
+  match = text.match(new RegExp(`^${AMOUNT}$`));
+  if (match) return { priceType: "fixed", priceCents: toCents(match[1]), priceMaxCents: null };
+  return null;
+}
+
+// Keywords that file a service under a category or subcategory, checked against its name and description
+const categoryKeywords: Record<ServiceCategory, string[]> = {
+  makeup: ["makeup", "make-up", "make up", "mua", "foundation", "contour"],
+  nails: ["nail", "manicure", "pedicure", "mani", "pedi", "shellac", "acrylic"],
+  hair: ["hair", "blowout", "blow-dry", "blow dry", "braid", "balayage", "haircut", "updo"],
+  lashes: ["lash"],
+  brows: ["brow"],
+  skincare: ["facial", "skin", "peel", "wax", "spray tan", "tanning"],
+};
+
+const subcategoryKeywords: Partial<Record<ServiceCategory, Record<string, string[]>>> = {
+  makeup: { bridal: ["bridal", "bride", "wedding"], event: ["event", "formal", "party", "prom"], editorial: ["editorial", "photoshoot", "shoot"], lesson: ["lesson", "class", "tutorial"] },
+  nails: { pedicure: ["pedicure", "pedi"], gel: ["gel", "shellac"], acrylic: ["acrylic", "extension", "sns"], nail_art: ["art", "design"], manicure: ["manicure", "mani"] },
+  hair: { colour: ["colour", "color", "balayage", "highlight", "foils"], braids: ["braid"], extensions: ["extension"], styling: ["styling", "blow", "updo", "curl"], cut: ["cut", "trim"] },
+  lashes: { volume: ["volume", "hybrid"], lift: ["lift"], tint: ["tint"], classic: ["extension", "classic"] },
+  brows: { lamination: ["lamination"], cosmetic_tattoo: ["tattoo", "microblading", "feathering"], tint: ["tint"], shaping: ["shape", "shaping", "wax"] },
+  skincare: { spray_tan: ["tan"], peel: ["peel"], waxing: ["wax"], facial: ["facial", "skin"] },
+};
+
+function guessCategory(name: string, description: string | null): { category: ServiceCategory | null; subcategory: string | null } {
+  const text = `${name} ${description ?? ""}`.toLowerCase();
+  // The name is the stronger signal, so it's checked on its own first
+  const category = serviceCategories.find((c) => categoryKeywords[c].some((k) => name.toLowerCase().includes(k)))
+    ?? serviceCategories.find((c) => categoryKeywords[c].some((k) => text.includes(k)))
+    ?? null;
+  if (!category) return { category: null, subcategory: null };
+
+  const subcategories = subcategoryKeywords[category] ?? {};
+  const subcategory = Object.keys(subcategories).find((sub) =>
+    sub in serviceTaxonomy[category].subcategories && subcategories[sub].some((k) => text.includes(k))
+  ) ?? null;
+  return { category, subcategory };
+}
+
+async function migrate() {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const { rows: columns } = await client.query(
+      "SELECT 1 FROM information_schema.columns WHERE table_name = 'services' AND column_name = 'price'"
+    );
+    if (columns.length === 0) {
+      console.log("services.price no longer exists; nothing to migrate");
+      await client.query("ROLLBACK");
+      return;
+    }
+
+    await client.query(`
+      ALTER TABLE services
+        ADD COLUMN IF NOT EXISTS category text,
+        ADD COLUMN IF NOT EXISTS subcategory text,
+        ADD COLUMN IF NOT EXISTS price_type text,
+        ADD COLUMN IF NOT EXISTS price_cents integer,
+        ADD COLUMN IF NOT EXISTS price_max_cents integer
+    `);
+
+    const { rows } = await client.query<{ id: number; name: string; description: string | null; price: string | null }>(
+      "SELECT id, name, description, price FROM services"
+    );
+
+    let unpriced = 0;
+    let uncategorised = 0;
+    for (const row of rows) {
+      const price = parseLegacyPrice(row.price);
+      const { category, subcategory } = guessCategory(row.name, row.description);
+      // Prices we can't read are kept in the description so the provider can re-enter them
+      let description = row.description;
+      if (!price && row.price?.trim()) {
+        unpriced++;
+        description = [row.description?.trim(), `Price: ${row.price.trim()}`].filter(Boolean).join("\n\n");
+        console.warn(`Service ${row.id} (${row.name}): couldn't parse price "${row.price}", moved it to the description`);
+      }
+      if (!category) uncategorised++;
+
+      await client.query(
+        `UPDATE services
+            SET category = COALESCE(category, $2), subcategory = COALESCE(subcategory, $3),
+                price_type = $4, price_cents = $5, price_max_cents = $6, description = $7
+          WHERE id = $1`,
+        [row.id, category, subcategory, price?.priceType ?? null, price?.priceCents ?? null, price?.priceMaxCents ?? null, description]
+      );
+    }
+
+    await client.query("ALTER TABLE services DROP COLUMN price");
+    await client.query("COMMIT");
+    console.log(`Migrated ${rows.length} service(s); ${unpriced} with unreadable prices, ${uncategorised} without a category`);
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+migrate()
+  .then(() => pool.end())
+  .catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
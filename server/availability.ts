@@ -0,0 +1,121 @@
+import type { AvailabilityRule, AvailabilityException, Booking, Profile } from "@shared/schema";
+
+// Working hours are wall-clock times, so slots are generated in each provider's own timezone. Providers
+// whose location couldn't be placed in a state fall back to this one.
+const DEFAULT_PROVIDER_TIMEZONE = process.env.PROVIDER_TIMEZONE || "Australia/Sydney";
+
+export function providerTimezone(provider: Pick<Profile, "timezone"> | undefined): string {
+  return provider?.timezone ?? DEFAULT_PROVIDER_TIMEZONE;
+}
+
+// Slots start on these boundaries, e.g. 9:00, 9:15, 9:30
+const SLOT_INTERVAL_MINUTES = 15;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export interface TimeSlot {
+  startsAt: Date;
+  endsAt: Date;
+}
+
+export interface DaySlots {
+  date: string; // YYYY-MM-DD
+  slots: TimeSlot[];
+}
+
+// Minutes the timezone is ahead of UTC at the given instant
+function timezoneOffsetMinutes(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant);
+  const get = (type: string) => Number(parts.find(p => p.type === type)!.value);
+  const asUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return Math.round((asUtc - instant.getTime()) / MINUTE_MS);
+}
+
+// Converts a local date ("YYYY-MM-DD") and time ("HH:mm") in timeZone to the UTC instant
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const offset = timezoneOffsetMinutes(new Date(wallClock), timeZone);
+  let result = wallClock - offset * MINUTE_MS;
+  // Re-check in case the guess landed on the other side of a DST change
+  const correctedOffset = timezoneOffsetMinutes(new Date(result), timeZone);
+  if (correctedOffset !== offset) {
+    result = wallClock - correctedOffset * MINUTE_MS;
+  }
+  return new Date(result);
+}
+
+export function eachDate(from: string, to: string): string[] {
+  const [fy, fm, fd] = from.split("-").map(Number);
+  const [ty, tm, td] = to.split("-").map(Number);
+  const dates: string[] = [];
+  for (let t = Date.UTC(fy, fm - 1, fd); t <= Date.UTC(ty, tm - 1, td); t += DAY_MS) {
+    dates.push(new Date(t).toISOString().slice(0, 10));
+  }
+  return dates;
+}
+
+function dayOfWeek(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+// Working windows for a single local date, with exceptions overriding the weekly rules
+function windowsForDate(date: string, rules: AvailabilityRule[], exceptions: AvailabilityException[]): { startTime: string; endTime: string }[] {
+  const dayExceptions = exceptions.filter(e => e.date === date);
+  if (dayExceptions.length > 0) {
+    return dayExceptions
+      .filter(e => e.startTime && e.endTime)
+      .map(e => ({ startTime: e.startTime!, endTime: e.endTime! }));
+  }
+  const weekday = dayOfWeek(date);
+  return rules.filter(r => r.dayOfWeek === weekday);
+}
+
+export function generateSlots(options: {
+  from: string;
+  to: string;
+  timeZone: string;
+  durationMinutes: number;
+  rules: AvailabilityRule[];
+  exceptions: AvailabilityException[];
+  bookings: Pick<Booking, "startsAt" | "endsAt">[];
+  now?: Date;
+}): DaySlots[] {
+  const { timeZone, durationMinutes, rules, exceptions, bookings } = options;
+  const now = options.now ?? new Date();
+  const durationMs = durationMinutes * MINUTE_MS;
+
+  return eachDate(options.from, options.to).map(date => {
+    const slots: TimeSlot[] = [];
+    for (const window of windowsForDate(date, rules, exceptions)) {
+      const windowStart = zonedTimeToUtc(date, window.startTime, timeZone).getTime();
+      const windowEnd = zonedTimeToUtc(date, window.endTime, timeZone).getTime();
+      for (let start = windowStart; start + durationMs <= windowEnd; start += SLOT_INTERVAL_MINUTES * MINUTE_MS) {
+        const end = start + durationMs;
+        if (start <= now.getTime()) continue;
+        const clashes = bookings.some(b => b.startsAt.getTime() < end && b.endsAt.getTime() > start);
+        if (!clashes) {
+          slots.push({ startsAt: new Date(start), endsAt: new Date(end) });
+        }
+      }
+    }
+    slots.sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+    return { date, slots };
+  });
+}
+
+// Local calendar date of an instant in the timezone
+export function localDate(instant: Date, timeZone: string): string {
+  return new Date(instant.getTime() + timezoneOffsetMinutes(instant, timeZone) * MINUTE_MS).toISOString().slice(0, 10);
+}
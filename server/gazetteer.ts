@@ -0,0 +1,245 @@
+import { storage } from "./storage";
+import { distanceKm } from "./geo";
+import { australianStates, australianStateCodes, formatLocality, stateTimezones, type AustralianState } from "@shared/locations";
+import type { Locality } from "@shared/schema";
+
+// The whole gazetteer is small enough to search in memory: the bundled file has about 390 suburbs, and a
+// full Australian postcode list loaded with `npm run db:load-localities` is under 20k rows. It's reloaded
+// periodically so a fresh `npm run db:load-localities` shows up without a restart.
+const CACHE_TTL_MS = 60 * 60 * 1000;
+
+// Name matches rank above fuzzy ones
+const SCORE_EXACT = 100;
+const SCORE_PREFIX = 80;
+const SCORE_WORD_PREFIX = 60;
+const SCORE_CONTAINS = 40;
+const SCORE_FUZZY = 30;
+const SCORE_POSTCODE = 90;
+const SCORE_POSTCODE_PREFIX = 70;
+
+// Typos are only forgiven once enough has been typed for a match to mean something
+const FUZZY_MIN_LENGTH = 4;
+
+interface IndexedLocality {
+  locality: Locality;
+  key: string;
+  words: string[];
+}
+
+let cache: { entries: IndexedLocality[]; loadedAt: number } | null = null;
+let loading: Promise<IndexedLocality[]> | null = null;
+
+const abbreviations: Record<string, string> = { mt: "mount", pt: "point", nth: "north", sth: "south" };
+
+// "Mt. Lawley" -> "mount lawley", "O'Connor" -> "oconnor"
+function normalize(text: string) {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/['’.]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean)
+    .map((word) => abbreviations[word] ?? word)
+    .join(" ");
+}
+
+// State codes and names as they might trail a query, longest first so "western australia" beats "australia"
+const stateAliases = australianStateCodes
+  .flatMap((code): [string, AustralianState][] => [[code.toLowerCase(), code], [normalize(australianStates[code]), code]])
+  .sort(([a], [b]) => b.length - a.length);
+
+async function getIndex(): Promise<IndexedLocality[]> {
+  if (cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) return cache.entries;
+  if (!loading) {
+    loading = storage.getLocalities()
+      .then((localities) => {
+        const entries = localities.map((locality) => {
+          const key = normalize(locality.name);
+          return { locality, key, words: key.split(" ") };
+        });
+        cache = { entries, loadedAt: Date.now() };
+        return entries;
+      })
+      .finally(() => {
+        loading = null;
+      });
+  }
+  // Serve the stale copy while a refresh is in flight
+  return cache?.entries ?? loading;
+}
+
+export interface ParsedLocationQuery {
+  text: string;
+  state?: AustralianState;
+  postcode?: string;
+}
+
+// Pulls a state and postcode off a typed query: "Richmond, VIC 3121" -> richmond / VIC / 3121.
+// A lone digit string is treated as a (partial) postcode.
+export function parseLocationQuery(query: string, state?: AustralianState): ParsedLocationQuery {
+  let text = normalize(query);
+  let postcode: string | undefined;
+
+  const postcodeMatch = text.match(/(?:^| )(\d{1,4})$/);
+  if (postcodeMatch) {
+    postcode = postcodeMatch[1];
+    text = text.slice(0, -postcodeMatch[0].length).trim();
+  }
+
+  if (!state && text) {
+    const alias = stateAliases.find(([name]) => text === name || text.endsWith(` ${name}`));
+    // A query that is only a state name, e.g. "victoria", is more likely a suburb search than a state filter
+    if (alias && text !== alias[0]) {
+      state = alias[1];
+      text = text.slice(0, -alias[0].length).trim();
+    }
+  }
+
+  return { text, state, postcode };
+}
+
+// Edit distance counting a swap of neighbouring letters ("newtwon") as one typo,
+// giving up once it's certain to exceed max
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function nameScore(entry: IndexedLocality, text: string): number {
+  if (entry.key === text) return SCORE_EXACT;
+  if (entry.key.startsWith(text)) return SCORE_PREFIX;
+  if (entry.words.some((word) => word.startsWith(text))) return SCORE_WORD_PREFIX;
+  if (entry.key.includes(text)) return SCORE_CONTAINS;
+  if (text.length < FUZZY_MIN_LENGTH) return 0;
+
+  // Compare against the same-length start of the name too, so a typo mid-way through typing still matches
+  const maxEdits = text.length >= 8 ? 2 : 1;
+  const distance = Math.min(
+    editDistance(text, entry.key, maxEdits),
+    editDistance(text, entry.key.slice(0, text.length), maxEdits)
+  );
+  return distance <= maxEdits ? SCORE_FUZZY - distance * 5 : 0;
+}
+
+function postcodeScore(locality: Locality, postcode: string): number {
+  if (locality.postcode === postcode) return SCORE_POSTCODE;
+  if (locality.postcode.startsWith(postcode)) return SCORE_POSTCODE_PREFIX;
+  return 0;
+}
+
+interface ScoredLocality {
+  locality: Locality;
+  score: number;
+}
+
+async function scoreLocalities(query: ParsedLocationQuery): Promise<ScoredLocality[]> {
+  const { text, state, postcode } = query;
+  if (!text && !postcode) return [];
+
+  const scored: ScoredLocality[] = [];
+  for (const entry of await getIndex()) {
+    if (state && entry.locality.state !== state) continue;
+    const byPostcode = postcode ? postcodeScore(entry.locality, postcode) : 0;
+    if (postcode && !byPostcode) continue;
+    const byName = text ? nameScore(entry, text) : 0;
+    if (text && !byName) continue;
+    scored.push({ locality: entry.locality, score: text ? byName : byPostcode });
+  }
+
+  // Postcode searches list postcodes in order; name searches put shorter names first
+  const byPostcode = !text;
+  return scored.sort((a, b) =>
+    b.score - a.score
+    || (byPostcode ? a.locality.postcode.localeCompare(b.locality.postcode) : 0)
+    || a.locality.name.length - b.locality.name.length
+    || a.locality.name.localeCompare(b.locality.name)
+    || australianStateCodes.indexOf(a.locality.state) - australianStateCodes.indexOf(b.locality.state)
+    || a.locality.postcode.localeCompare(b.locality.postcode)
+  );
+}
+
+// Typeahead suggestions for a suburb name or postcode, best first
+export async function searchLocalities(query: string, options: { state?: AustralianState; limit: number }): Promise<Locality[]> {
+  const scored = await scoreLocalities(parseLocationQuery(query, options.state));
+  return scored.slice(0, options.limit).map((s) => s.locality);
+}
+
+export interface LocalityLookup {
+  // Set when the query names exactly one suburb
+  match: Locality | null;
+  // The suburbs it could mean otherwise, e.g. every Richmond when no state was given
+  candidates: Locality[];
+}
+
+const LOOKUP_CANDIDATES = 10;
+
+// Resolves free text like "Richmond VIC" or "2042" to a single suburb, or to the choices when it's ambiguous.
+// Postcodes shared by several suburbs resolve to the first of them, since they're all in the same area.
+export async function lookupLocality(query: string, state?: AustralianState): Promise<LocalityLookup> {
+  const parsed = parseLocationQuery(query, state);
+  const scored = await scoreLocalities(parsed);
+  const exact = scored.filter((s) => s.score === (parsed.text ? SCORE_EXACT : SCORE_POSTCODE));
+  const states = new Set(exact.map((s) => s.locality.state));
+
+  if (exact.length > 0 && (states.size === 1 || !parsed.text)) {
+    return { match: exact[0].locality, candidates: [] };
+  }
+  const candidates = (exact.length > 0 ? exact : scored).slice(0, LOOKUP_CANDIDATES).map((s) => s.locality);
+  return { match: null, candidates };
+}
+
+// Suburb centroids are only a rough stand-in for where a point is, so anything further than this is no match
+const NEAREST_MAX_KM = 25;
+
+// The suburb whose centre is closest to a point, for reverse geocoding without an online provider
+export async function nearestLocality(lat: number, lng: number): Promise<Locality | null> {
+  let nearest: { locality: Locality; km: number } | null = null;
+  for (const { locality } of await getIndex()) {
+    const km = distanceKm(lat, lng, locality.latitude, locality.longitude);
+    if (km <= NEAREST_MAX_KM && (!nearest || km < nearest.km)) nearest = { locality, km };
+  }
+  return nearest?.locality ?? null;
+}
+
+type SavedPlace = { location?: string | null; latitude?: number | null; longitude?: number | null };
+
+// The suburb a saved place is in: the one its label names, or failing that the one nearest its coordinates
+export async function resolvePlaceLocality(place: SavedPlace): Promise<Locality | null> {
+  if (place.location) {
+    const { match } = await lookupLocality(place.location);
+    if (match) return match;
+  }
+  if (place.latitude != null && place.longitude != null) {
+    return nearestLocality(place.latitude, place.longitude);
+  }
+  return null;
+}
+
+// What's stored with a profile's location when it's saved: the suburb it's shown as when approximate, and
+// the timezone of its state that the provider's working hours are in
+export async function resolveProfilePlace(place: SavedPlace): Promise<{ locationSuburb: string | null; timezone: string | null }> {
+  const locality = await resolvePlaceLocality(place);
+  return {
+    locationSuburb: locality ? formatLocality(locality) : null,
+    timezone: locality ? stateTimezones[locality.state] : null,
+  };
+}
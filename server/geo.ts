@@ -0,0 +1,45 @@
+import { sql, type SQL, type Column } from "drizzle-orm";
+
+const EARTH_RADIUS_KM = 6371;
+// One degree of latitude is roughly 111km everywhere
+const KM_PER_DEGREE = 111.32;
+
+export interface BoundingBox {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+// Great-circle distance in km between a lat/lng column pair and a fixed point, computed in SQL
+export function distanceKmSql(latColumn: Column | SQL, lngColumn: Column | SQL, lat: number, lng: number): SQL<number> {
+  return sql<number>`${EARTH_RADIUS_KM} * 2 * asin(sqrt(
+    power(sin(radians(${latColumn} - ${lat}) / 2), 2) +
+    cos(radians(${lat})) * cos(radians(${latColumn})) * power(sin(radians(${lngColumn} - ${lng}) / 2), 2)
+  ))`.mapWith(Number);
+}
+
+// The same great-circle distance, for points already in memory
+export function distanceKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const a = Math.sin(toRadians(lat2 - lat1) / 2) ** 2
+    + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(toRadians(lng2 - lng1) / 2) ** 2;
+  return EARTH_RADIUS_KM * 2 * Math.asin(Math.sqrt(a));
+}
+
+// Box that fully contains a circle of radiusKm around the point.
+// Used as a cheap, index-friendly prefilter before the exact distance check.
+export function boundingBoxForRadius(lat: number, lng: number, radiusKm: number): BoundingBox {
+  const latDelta = radiusKm / KM_PER_DEGREE;
+  const lngDelta = radiusKm / (KM_PER_DEGREE * Math.max(Math.cos((lat * Math.PI) / 180), 0.01));
+  return {
+    north: lat + latDelta,
+    south: lat - latDelta,
+    east: lng + lngDelta,
+    west: lng - lngDelta,
+  };
+}
+
+export function withinBoundingBoxSql(latColumn: Column | SQL, lngColumn: Column | SQL, box: BoundingBox): SQL {
+  return sql`${latColumn} between ${box.south} and ${box.north} and ${lngColumn} between ${box.west} and ${box.east}`;
+}
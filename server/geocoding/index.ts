@@ -0,0 +1,102 @@
+import { storage } from "../storage";
+import type { GeocodeResult } from "@shared/locations";
+import type { GeocodeCacheEntry } from "@shared/schema";
+import type { IGeocoder } from "./provider";
+import { LocalGeocoder } from "./local";
+import { NominatimGeocoder } from "./nominatim";
+
+export type { IGeocoder } from "./provider";
+
+// Places rarely move, so answers are kept for a month
+const CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const CACHE_CLEANUP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const MAX_SEARCH_RESULTS = 5;
+// Reverse lookups are cached by point rounded to about 10m, which also keeps exact positions out of the cache
+const REVERSE_PRECISION = 4;
+
+// GEOCODER picks the provider: "nominatim" (the default) or "local", which answers from the suburb
+// gazetteer alone for tests and offline deployments.
+function createGeocoder(): IGeocoder {
+  const env = process.env;
+  const provider = env.GEOCODER || "nominatim";
+
+  switch (provider) {
+    case "local":
+      return new LocalGeocoder();
+    case "nominatim":
+      return new NominatimGeocoder({
+        baseUrl: env.NOMINATIM_URL || "https://nominatim.openstreetmap.org",
+        userAgent: env.GEOCODER_USER_AGENT || "Glamap/1.0 (https://glamap.site)",
+        email: env.GEOCODER_EMAIL || undefined,
+      });
+    default:
+      throw new Error(`Unknown GEOCODER "${provider}"; use nominatim or local`);
+  }
+}
+
+const geocoder = createGeocoder();
+// When the online provider fails or is saturated, suburb-level answers beat none at all
+const fallback = geocoder instanceof LocalGeocoder ? null : new LocalGeocoder();
+// The gazetteer is already in memory, so its answers aren't worth a database round trip
+const useCache = !(geocoder instanceof LocalGeocoder);
+
+// Identical queries that arrive while one is being looked up share its answer
+const inFlight = new Map<string, Promise<GeocodeResult[]>>();
+
+async function lookUp(kind: GeocodeCacheEntry["kind"], query: string, run: (provider: IGeocoder) => Promise<GeocodeResult[]>): Promise<GeocodeResult[]> {
+  if (useCache) {
+    const entry = await storage.getGeocodeCacheEntry(kind, query);
+    if (entry && entry.provider === geocoder.name && Date.now() - entry.createdAt.getTime() < CACHE_TTL_MS) {
+      return entry.results;
+    }
+  }
+
+  const key = `${kind}:${query}`;
+  let pending = inFlight.get(key);
+  if (!pending) {
+    pending = (async () => {
+      try {
+        const results = await run(geocoder);
+        if (useCache) await storage.saveGeocodeCacheEntry({ kind, query, provider: geocoder.name, results });
+        return results;
+      } catch (error) {
+        if (!fallback) throw error;
+        console.error(`Geocoder ${geocoder.name} failed, answering from the ${fallback.name} gazetteer:`, error);
+        // Not cached, so the next identical query tries the real provider again
+        return run(fallback);
+      }
+    })().finally(() => inFlight.delete(key));
+    inFlight.set(key, pending);
+  }
+  return pending;
+}
+
+export async function geocodeSearch(query: string): Promise<GeocodeResult[]> {
+  const normalized = query.trim().toLowerCase().replace(/\s+/g, " ");
+  return lookUp("search", normalized, (provider) => provider.search(normalized, MAX_SEARCH_RESULTS));
+}
+
+export async function reverseGeocode(lat: number, lng: number): Promise<GeocodeResult | null> {
+  const [roundedLat, roundedLng] = [lat, lng].map((n) => Number(n.toFixed(REVERSE_PRECISION)));
+  const results = await lookUp("reverse", `${roundedLat},${roundedLng}`, async (provider) => {
+    const result = await provider.reverse(roundedLat, roundedLng);
+    return result ? [result] : [];
+  });
+  return results[0] ?? null;
+}
+
+// Periodically drops cached answers past their TTL
+export function startGeocodeCacheCleanup() {
+  const cleanup = async () => {
+    try {
+      const removed = await storage.deleteGeocodeCacheEntriesBefore(new Date(Date.now() - CACHE_TTL_MS));
+      if (removed > 0) console.log(`Geocode cache cleanup removed ${removed} expired entr${removed === 1 ? "y" : "ies"}`);
+    } catch (error) {
+      console.error("Geocode cache cleanup error:", error);
+    }
+  };
+
+  const timer = setInterval(cleanup, CACHE_CLEANUP_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
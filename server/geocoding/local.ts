@@ -0,0 +1,31 @@
+import { formatLocality } from "@shared/locations";
+import type { GeocodeResult } from "@shared/locations";
+import type { Locality } from "@shared/schema";
+import { searchLocalities, nearestLocality } from "../gazetteer";
+import type { IGeocoder } from "./provider";
+
+function localityToResult(locality: Locality): GeocodeResult {
+  return {
+    label: formatLocality(locality),
+    suburb: locality.name,
+    state: locality.state,
+    postcode: locality.postcode,
+    latitude: locality.latitude,
+    longitude: locality.longitude,
+  };
+}
+
+// Offline geocoder answering from the suburb gazetteer: suburb centroids only, no street addresses
+export class LocalGeocoder implements IGeocoder {
+  readonly name = "local";
+
+  async search(query: string, limit: number): Promise<GeocodeResult[]> {
+    const localities = await searchLocalities(query, { limit });
+    return localities.map(localityToResult);
+  }
+
+  async reverse(lat: number, lng: number): Promise<GeocodeResult | null> {
+    const locality = await nearestLocality(lat, lng);
+    return locality ? localityToResult(locality) : null;
+  }
+}
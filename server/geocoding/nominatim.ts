@@ -0,0 +1,108 @@
+import { formatLocality, stateFromName, type GeocodeResult } from "@shared/locations";
+import type { IGeocoder } from "./provider";
+
+interface NominatimPlace {
+  display_name: string;
+  lat: string;
+  lon: string;
+  address?: {
+    suburb?: string;
+    city?: string;
+    town?: string;
+    village?: string;
+    hamlet?: string;
+    state?: string;
+    postcode?: string;
+    country_code?: string;
+  };
+}
+
+// Nominatim's usage policy allows one request a second from the whole application
+const MIN_REQUEST_INTERVAL_MS = 1000;
+const REQUEST_TIMEOUT_MS = 5000;
+// Beyond this many waiting requests, callers are failed straight away rather than left queueing
+const MAX_QUEUED_REQUESTS = 5;
+
+function placeToResult(place: NominatimPlace): GeocodeResult {
+  const address = place.address ?? {};
+  const suburb = address.suburb || address.town || address.village || address.city || address.hamlet || null;
+  const state = stateFromName(address.state);
+  const postcode = address.postcode ?? null;
+  return {
+    label: suburb && state && postcode ? formatLocality({ name: suburb, state, postcode }) : place.display_name,
+    suburb,
+    state,
+    postcode,
+    latitude: parseFloat(place.lat),
+    longitude: parseFloat(place.lon),
+  };
+}
+
+interface NominatimOptions {
+  baseUrl: string;
+  // The policy requires an application-specific User-Agent, and asks for a contact address for heavy use
+  userAgent: string;
+  email?: string;
+}
+
+export class NominatimGeocoder implements IGeocoder {
+  readonly name = "nominatim";
+  private queue: Promise<unknown> = Promise.resolve();
+  private queued = 0;
+  private lastRequestAt = 0;
+
+  constructor(private options: NominatimOptions) {
+    this.options.baseUrl = options.baseUrl.replace(/\/?$/, "/");
+  }
+
+  async search(query: string, limit: number): Promise<GeocodeResult[]> {
+    const places = await this.request<NominatimPlace[]>("search", { q: query, countrycodes: "au", limit: String(limit) });
+    // Several street-level matches in one suburb collapse into the same label
+    const seen = new Set<string>();
+    return places.map(placeToResult).filter((result) => {
+      if (seen.has(result.label)) return false;
+      seen.add(result.label);
+      return true;
+    });
+  }
+
+  async reverse(lat: number, lng: number): Promise<GeocodeResult | null> {
+    const place = await this.request<NominatimPlace | { error: string }>("reverse", { lat: String(lat), lon: String(lng) });
+    if ("error" in place || place.address?.country_code !== "au") return null;
+    return placeToResult(place);
+  }
+
+  // Runs requests one at a time, spaced at least MIN_REQUEST_INTERVAL_MS apart
+  private request<T>(endpoint: string, params: Record<string, string>): Promise<T> {
+    if (this.queued >= MAX_QUEUED_REQUESTS) {
+      return Promise.reject(new Error("Nominatim request queue is full"));
+    }
+    this.queued++;
+
+    const send = async (): Promise<T> => {
+      const wait = this.lastRequestAt + MIN_REQUEST_INTERVAL_MS - Date.now();
+      if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+      this.lastRequestAt = Date.now();
+
+      const url = new URL(endpoint, this.options.baseUrl);
+      url.search = new URLSearchParams({
+        format: "jsonv2",
+        addressdetails: "1",
+        ...params,
+        ...(this.options.email ? { email: this.options.email } : {}),
+      }).toString();
+      const res = await fetch(url, {
+        headers: { "User-Agent": this.options.userAgent, "Accept": "application/json", "Accept-Language": "en-AU" },
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (!res.ok) throw new Error(`Nominatim ${endpoint} failed with ${res.status}`);
+      return await res.json() as T;
+    };
+
+    const result = this.queue.then(send, send).finally(() => {
+      this.queued--;
+    });
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
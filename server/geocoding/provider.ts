@@ -0,0 +1,10 @@
+import type { GeocodeResult } from "@shared/locations";
+
+// A geocoding backend. Searches are limited to Australia and return the best match first.
+export interface IGeocoder {
+  // Recorded against cached answers, so switching provider doesn't serve the old one's results
+  readonly name: string;
+  search(query: string, limit: number): Promise<GeocodeResult[]>;
+  // Null when there's nothing recognisable at the point
+  reverse(lat: number, lng: number): Promise<GeocodeResult | null>;
+}
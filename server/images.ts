@@ -0,0 +1,98 @@
+import sharp from "sharp";
+
+export const imageContentTypes = ["image/jpeg", "image/png", "image/gif", "image/webp"] as const;
+export type ImageContentType = typeof imageContentTypes[number];
+
+// Resized WebP copies generated next to every uploaded image; "thumb" is a square crop for grids
+const imageVariants = {
+  thumb: { width: 320, height: 320, fit: "cover" },
+  medium: { width: 1024, height: 1024, fit: "inside" },
+} as const;
+export type ImageVariant = keyof typeof imageVariants;
+
+// Originals larger than this on either side are scaled down before they're stored
+const MAX_ORIGINAL_DIMENSION = 2560;
+
+// Identifies the image format from the file's leading bytes rather than trusting the client
+export function detectImageType(buffer: Buffer): ImageContentType | null {
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return "image/jpeg";
+  if (buffer.length >= 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return "image/png";
+  if (buffer.length >= 6 && /^GIF8[79]a$/.test(buffer.toString("latin1", 0, 6))) return "image/gif";
+  if (buffer.length >= 12 && buffer.toString("latin1", 0, 4) === "RIFF" && buffer.toString("latin1", 8, 12) === "WEBP") return "image/webp";
+  return null;
+}
+
+// "upload_123_abc.jpg" -> "upload_123_abc_thumb.webp"
+export function variantFilename(filename: string, variant: ImageVariant) {
+  return `${filename.replace(/\.[a-z0-9]+$/i, "")}_${variant}.webp`;
+}
+
+export function variantFilenames(filename: string) {
+  return (Object.keys(imageVariants) as ImageVariant[]).map((variant) => variantFilename(filename, variant));
+}
+
+export interface ProcessedImage {
+  contentType: ImageContentType;
+  // The original re-encoded in its own format, auto-rotated and without EXIF/GPS or other metadata
+  original: Buffer;
+  variants: { variant: ImageVariant; filename: string; buffer: Buffer }[];
+}
+
+// Checks the upload really is the image type it claims to be.
+// Returns a reason the file is rejected, or null when it's fine.
+export function validateImageSignature(buffer: Buffer, claimedContentType?: string): string | null {
+  const contentType = detectImageType(buffer);
+  if (!contentType) return "File is not a supported image";
+  const claimed = claimedContentType?.split(";")[0].trim().toLowerCase().replace("image/jpg", "image/jpeg");
+  if (claimed && claimed !== contentType) return `File content does not match its type (${claimed})`;
+  return null;
+}
+
+function loadImage(buffer: Buffer, contentType: ImageContentType) {
+  const animated = contentType === "image/gif" || contentType === "image/webp";
+  // sharp drops all metadata on output unless asked to keep it; rotate() bakes in the EXIF orientation first
+  return sharp(buffer, { animated, failOn: "error" }).rotate();
+}
+
+// The original re-encoded in its own format, scaled down to MAX_ORIGINAL_DIMENSION
+async function encodeOriginal(buffer: Buffer, contentType: ImageContentType) {
+  const resized = loadImage(buffer, contentType)
+    .resize({ width: MAX_ORIGINAL_DIMENSION, height: MAX_ORIGINAL_DIMENSION, fit: "inside", withoutEnlargement: true });
+  return await (
+    contentType === "image/jpeg" ? resized.jpeg({ quality: 85, mozjpeg: true }) :
+    contentType === "image/png" ? resized.png() :
+    contentType === "image/gif" ? resized.gif() :
+    resized.webp({ quality: 85 })
+  ).toBuffer();
+}
+
+// Strips the image's metadata without building variants, for files that are never shown resized.
+// Call validateImageSignature first; this rejects if sharp can't decode the file.
+export async function stripImageMetadata(buffer: Buffer): Promise<{ contentType: ImageContentType; buffer: Buffer }> {
+  const contentType = detectImageType(buffer);
+  if (!contentType) throw new Error("Unsupported image");
+  return { contentType, buffer: await encodeOriginal(buffer, contentType) };
+}
+
+// Strips the image's metadata and builds the resized variants. Call validateImageSignature first;
+// this rejects if sharp can't decode the file.
+export async function processImage(buffer: Buffer, filename: string): Promise<ProcessedImage> {
+  const contentType = detectImageType(buffer);
+  if (!contentType) throw new Error("Unsupported image");
+
+  const load = () => loadImage(buffer, contentType);
+  const original = await encodeOriginal(buffer, contentType);
+
+  const variants = await Promise.all(
+    (Object.keys(imageVariants) as ImageVariant[]).map(async (variant) => ({
+      variant,
+      filename: variantFilename(filename, variant),
+      buffer: await load()
+        .resize({ ...imageVariants[variant], withoutEnlargement: imageVariants[variant].fit === "inside" })
+        .webp({ quality: 80 })
+        .toBuffer(),
+    }))
+  );
+
+  return { contentType, original, variants };
+}
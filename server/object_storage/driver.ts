@@ -0,0 +1,14 @@
+// Storage keys are "<prefix>/<filename>": "profiles/…" for published images, "staging/…" for uploads
+// awaiting processing and "attachments/…" for private message attachments
+export interface IObjectStorageDriver {
+  // URL the browser PUTs the file to. baseUrl is this server's origin, for drivers that receive
+  // uploads themselves; token is the app's upload token for the same file.
+  createUploadUrl(storageKey: string, options: { contentType?: string; expiresInSeconds: number; token: string; baseUrl: string }): Promise<string>;
+  // Only meaningful for "profiles/…" keys, which are publicly readable
+  getPublicUrl(storageKey: string): string;
+  // Null when the object doesn't exist
+  get(storageKey: string): Promise<Buffer | null>;
+  put(storageKey: string, body: Buffer, contentType: string): Promise<void>;
+  // Missing objects are ignored
+  remove(storageKeys: string[]): Promise<void>;
+}
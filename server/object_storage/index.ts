@@ -0,0 +1,42 @@
+import type { IObjectStorageDriver } from "./driver";
+import { LocalStorageDriver } from "./local";
+import { S3StorageDriver } from "./s3";
+import { SupabaseStorageDriver } from "./supabase";
+
+export type { IObjectStorageDriver } from "./driver";
+
+// STORAGE_DRIVER picks the backend: "local", "s3" or "supabase". Without it, Supabase is used
+// when its credentials are set and the local disk otherwise.
+function createObjectStorage(): IObjectStorageDriver {
+  const env = process.env;
+  const driver = env.STORAGE_DRIVER || (env.SUPABASE_URL && env.SUPABASE_SERVICE_ROLE_KEY ? "supabase" : "local");
+
+  switch (driver) {
+    case "local":
+      return new LocalStorageDriver();
+    case "supabase":
+      if (!env.SUPABASE_URL || !env.SUPABASE_SERVICE_ROLE_KEY) {
+        throw new Error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set for the supabase storage driver");
+      }
+      return new SupabaseStorageDriver(
+        env.SUPABASE_URL,
+        env.SUPABASE_SERVICE_ROLE_KEY,
+        env.SUPABASE_BUCKET || "profile-images",
+        env.SUPABASE_PRIVATE_BUCKET || "private-uploads",
+      );
+    case "s3":
+      if (!env.S3_BUCKET) throw new Error("S3_BUCKET must be set for the s3 storage driver");
+      return new S3StorageDriver({
+        bucket: env.S3_BUCKET,
+        region: env.S3_REGION || "us-east-1",
+        endpoint: env.S3_ENDPOINT || undefined,
+        accessKeyId: env.S3_ACCESS_KEY_ID || undefined,
+        secretAccessKey: env.S3_SECRET_ACCESS_KEY || undefined,
+        publicUrl: env.S3_PUBLIC_URL || undefined,
+      });
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}"; use local, s3 or supabase`);
+  }
+}
+
+export const objectStorage = createObjectStorage();
@@ -0,0 +1,43 @@
+import fs from "fs";
+import path from "path";
+import type { IObjectStorageDriver } from "./driver";
+
+// Directory standing in for each key prefix. Only public/profiles is served statically.
+const localDirs: Record<string, string> = {
+  profiles: "public/profiles",
+  staging: "private/uploads",
+  attachments: "private/attachments",
+};
+
+function localPath(storageKey: string) {
+  const [prefix, filename] = storageKey.split("/");
+  if (!localDirs[prefix] || !filename || filename !== path.basename(filename)) {
+    throw new Error(`Invalid storage key: ${storageKey}`);
+  }
+  return path.join(path.resolve(localDirs[prefix]), filename);
+}
+
+// Development driver: files live on this server's disk and uploads are PUT to /api/uploads/upload
+export class LocalStorageDriver implements IObjectStorageDriver {
+  async createUploadUrl(storageKey: string, { token, baseUrl }: { token: string; baseUrl: string }): Promise<string> {
+    return `${baseUrl}/api/uploads/upload/${storageKey}?token=${encodeURIComponent(token)}`;
+  }
+
+  getPublicUrl(storageKey: string): string {
+    return `/${storageKey}`;
+  }
+
+  async get(storageKey: string): Promise<Buffer | null> {
+    return fs.promises.readFile(localPath(storageKey)).catch(() => null);
+  }
+
+  async put(storageKey: string, body: Buffer): Promise<void> {
+    const filePath = localPath(storageKey);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, body);
+  }
+
+  async remove(storageKeys: string[]): Promise<void> {
+    await Promise.all(storageKeys.map((storageKey) => fs.promises.unlink(localPath(storageKey)).catch(() => {})));
+  }
+}
@@ -0,0 +1,69 @@
+import { S3Client, GetObjectCommand, PutObjectCommand, DeleteObjectsCommand, NoSuchKey } from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import type { IObjectStorageDriver } from "./driver";
+
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  // Set for S3-compatible services such as MinIO; requests then use path-style addressing
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  // Base URL public "profiles/…" objects are read from, e.g. a CDN. Defaults to the bucket's own URL.
+  publicUrl?: string;
+}
+
+// Amazon S3 or any S3-compatible store. The bucket must allow anonymous reads of profiles/*.
+export class S3StorageDriver implements IObjectStorageDriver {
+  private client: S3Client;
+  private publicBaseUrl: string;
+
+  constructor(private config: S3StorageConfig) {
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: !!config.endpoint,
+      // Otherwise presigned PUT URLs carry a checksum of an empty body, which real uploads then fail
+      requestChecksumCalculation: "WHEN_REQUIRED",
+      responseChecksumValidation: "WHEN_REQUIRED",
+      credentials: config.accessKeyId && config.secretAccessKey
+        ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+        : undefined,
+    });
+    this.publicBaseUrl = (
+      config.publicUrl ||
+      (config.endpoint ? `${config.endpoint}/${config.bucket}` : `https://${config.bucket}.s3.${config.region}.amazonaws.com`)
+    ).replace(/\/+$/, "");
+  }
+
+  async createUploadUrl(storageKey: string, { contentType, expiresInSeconds }: { contentType?: string; expiresInSeconds: number }): Promise<string> {
+    const command = new PutObjectCommand({ Bucket: this.config.bucket, Key: storageKey, ContentType: contentType });
+    return getSignedUrl(this.client, command, { expiresIn: expiresInSeconds });
+  }
+
+  getPublicUrl(storageKey: string): string {
+    return `${this.publicBaseUrl}/${storageKey}`;
+  }
+
+  async get(storageKey: string): Promise<Buffer | null> {
+    try {
+      const result = await this.client.send(new GetObjectCommand({ Bucket: this.config.bucket, Key: storageKey }));
+      return result.Body ? Buffer.from(await result.Body.transformToByteArray()) : null;
+    } catch (error) {
+      if (error instanceof NoSuchKey) return null;
+      throw error;
+    }
+  }
+
+  async put(storageKey: string, body: Buffer, contentType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({ Bucket: this.config.bucket, Key: storageKey, Body: body, ContentType: contentType }));
+  }
+
+  async remove(storageKeys: string[]): Promise<void> {
+    if (storageKeys.length === 0) return;
+    await this.client.send(new DeleteObjectsCommand({
+      Bucket: this.config.bucket,
+      Delete: { Objects: storageKeys.map((Key) => ({ Key })), Quiet: true },
+    }));
+  }
+}
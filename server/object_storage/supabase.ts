@@ -0,0 +1,50 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import type { IObjectStorageDriver } from "./driver";
+
+// Published "profiles/…" images live in a public bucket. Staged uploads and attachments go in a separate
+// bucket that must stay private: it's only reached with the service key and signed upload URLs.
+export class SupabaseStorageDriver implements IObjectStorageDriver {
+  private client: SupabaseClient;
+
+  constructor(url: string, serviceKey: string, private publicBucket: string, private privateBucket: string) {
+    this.client = createClient(url, serviceKey);
+  }
+
+  private bucketFor(storageKey: string) {
+    return this.client.storage.from(storageKey.startsWith("profiles/") ? this.publicBucket : this.privateBucket);
+  }
+
+  // Supabase signs the URL itself and fixes its lifetime, so expiresInSeconds isn't used;
+  // the app's upload token still expires when it says
+  async createUploadUrl(storageKey: string): Promise<string> {
+    const { data, error } = await this.bucketFor(storageKey).createSignedUploadUrl(storageKey);
+    if (error || !data?.signedUrl) throw error ?? new Error("Supabase returned no upload URL");
+    return data.signedUrl;
+  }
+
+  getPublicUrl(storageKey: string): string {
+    return this.client.storage.from(this.publicBucket).getPublicUrl(storageKey).data.publicUrl;
+  }
+
+  async get(storageKey: string): Promise<Buffer | null> {
+    const { data, error } = await this.bucketFor(storageKey).download(storageKey);
+    if (error || !data) return null;
+    return Buffer.from(await data.arrayBuffer());
+  }
+
+  async put(storageKey: string, body: Buffer, contentType: string): Promise<void> {
+    const { error } = await this.bucketFor(storageKey).upload(storageKey, body, { contentType, upsert: true });
+    if (error) throw error;
+  }
+
+  // Keys can span both buckets, so they're removed bucket by bucket
+  async remove(storageKeys: string[]): Promise<void> {
+    const publicKeys = storageKeys.filter((key) => key.startsWith("profiles/"));
+    const privateKeys = storageKeys.filter((key) => !key.startsWith("profiles/"));
+    for (const [bucket, keys] of [[this.publicBucket, publicKeys], [this.privateBucket, privateKeys]] as const) {
+      if (keys.length === 0) continue;
+      const { error } = await this.client.storage.from(bucket).remove(keys);
+      if (error) throw error;
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import type { Profile, ProviderLocation, PublicProviderLocation } from "@shared/schema";
+import { APPROXIMATE_LOCATION_DECIMALS, formatLocality, isPrivateLocationType } from "@shared/locations";
+import { resolvePlaceLocality } from "./gazetteer";
+
+export interface PublicLocation {
+  location: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  // Set when the coordinates are the centre of an area rather than where the provider is
+  locationApproximate: boolean;
+}
+
+type Place = Pick<Profile, "location" | "latitude" | "longitude" | "locationType" | "locationSuburb">;
+
+// The provider's privacy setting covers every home-based place they list
+function isApproximate(place: Place, privacy: Profile["locationPrivacy"]) {
+  return isPrivateLocationType(place.locationType) && privacy === "approximate";
+}
+
+// Whether anything the provider lists, their profile's location or one of their others, is shown by area
+export function hasApproximateLocation(profile: Profile, locations: ProviderLocation[] = []) {
+  return [profile, ...locations].some((place) => isApproximate(place, profile.locationPrivacy));
+}
+
+// Snaps to the grid, rounding halves away from zero like Postgres' round() does in the directory search
+function approximateCoordinate(value: number) {
+  const factor = 10 ** APPROXIMATE_LOCATION_DECIMALS;
+  return Math.sign(value) * Math.round(Math.abs(value) * factor) / factor;
+}
+
+// The suburb an address is shown as when it's approximate: a suburb label typed or picked by the provider
+// is kept, and a street address becomes the suburb it's in. Worked out when the place is saved and stored
+// as locationSuburb, so listing providers doesn't search the gazetteer for each of them.
+export async function resolveLocationSuburb(place: { location?: string | null; latitude?: number | null; longitude?: number | null }): Promise<string | null> {
+  const locality = await resolvePlaceLocality(place);
+  return locality ? formatLocality(locality) : null;
+}
+
+function maskPlace(place: Place): PublicLocation {
+  return {
+    location: place.locationSuburb,
+    latitude: place.latitude === null ? null : approximateCoordinate(place.latitude),
+    longitude: place.longitude === null ? null : approximateCoordinate(place.longitude),
+    locationApproximate: true,
+  };
+}
+
+// Where a provider can be seen to work. Home-based providers only show their suburb and a rounded
+// position, unless reveal is set for a viewer allowed to know the address.
+export function publicLocation(profile: Profile, reveal = false): PublicLocation {
+  const { location, latitude, longitude } = profile;
+  if (reveal || !isApproximate(profile, profile.locationPrivacy)) {
+    return { location, latitude, longitude, locationApproximate: false };
+  }
+  return maskPlace(profile);
+}
+
+// The same for the provider's other locations
+export function publicProviderLocations(profile: Profile, locations: ProviderLocation[], reveal = false): PublicProviderLocation[] {
+  return locations.map((place) => {
+    if (reveal || !isApproximate(place, profile.locationPrivacy)) return { ...place, locationApproximate: false };
+    const masked = maskPlace(place);
+    // Provider locations always have coordinates, so the rounded ones are too
+    return { ...place, ...masked, location: masked.location ?? "", latitude: masked.latitude!, longitude: masked.longitude! };
+  });
+}
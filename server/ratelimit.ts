@@ -0,0 +1,38 @@
+import type { Request, Response, NextFunction } from "express";
+
+interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+  message: string;
+}
+
+// Fixed-window limiter held in memory, so limits apply per server process. Signed-in users are
+// counted by account and everyone else by IP address.
+export function rateLimit({ windowMs, max, message }: RateLimitOptions) {
+  const hits = new Map<string, { count: number; resetAt: number }>();
+
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    hits.forEach((hit, key) => {
+      if (hit.resetAt <= now) hits.delete(key);
+    });
+  }, windowMs);
+  sweep.unref();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const key = (req as any).user?.sub ?? req.ip ?? "unknown";
+    const now = Date.now();
+    let hit = hits.get(key);
+    if (!hit || hit.resetAt <= now) {
+      hit = { count: 0, resetAt: now + windowMs };
+      hits.set(key, hit);
+    }
+
+    hit.count++;
+    if (hit.count > max) {
+      res.setHeader("Retry-After", String(Math.ceil((hit.resetAt - now) / 1000)));
+      return res.status(429).json({ message });
+    }
+    next();
+  };
+}
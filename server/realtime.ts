@@ -0,0 +1,110 @@
+import type { Server, IncomingMessage } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer, WebSocket } from "ws";
+import { getUserFromToken } from "./clerk_auth";
+import { storage } from "./storage";
+import { REALTIME_PATH, clientEventSchema, type ServerEvent } from "@shared/realtime";
+
+// Dead connections are dropped if they miss a ping
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+// Open sockets per profile; a profile may have several tabs or devices connected
+const connections = new Map<number, Set<WebSocket>>();
+const alive = new WeakSet<WebSocket>();
+
+export function publish(profileId: number, event: ServerEvent) {
+  const sockets = connections.get(profileId);
+  if (!sockets) return;
+  const payload = JSON.stringify(event);
+  for (const socket of Array.from(sockets)) {
+    if (socket.readyState === WebSocket.OPEN) socket.send(payload);
+  }
+}
+
+function track(profileId: number, socket: WebSocket) {
+  let sockets = connections.get(profileId);
+  if (!sockets) {
+    sockets = new Set();
+    connections.set(profileId, sockets);
+  }
+  sockets.add(socket);
+  socket.on("close", () => {
+    sockets!.delete(socket);
+    if (sockets!.size === 0) connections.delete(profileId);
+  });
+}
+
+// Browsers cannot set headers on a WebSocket, so the Clerk token comes in the query string
+async function authenticate(req: IncomingMessage) {
+  const url = new URL(req.url || "", "http://localhost");
+  const token = url.searchParams.get("token");
+  if (!token) return null;
+  const payload = await getUserFromToken(token);
+  if (!payload?.sub) return null;
+  return (await storage.getProfileByUserId(payload.sub)) ?? null;
+}
+
+export function setupRealtime(httpServer: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  httpServer.on("upgrade", async (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    // Leave other upgrade requests (e.g. Vite HMR) to their own handlers
+    if (!req.url || new URL(req.url, "http://localhost").pathname !== REALTIME_PATH) return;
+
+    try {
+      const profile = await authenticate(req);
+      if (!profile) {
+        socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+        socket.destroy();
+        return;
+      }
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        track(profile.id, ws);
+        wss.emit("connection", ws, req, profile.id);
+      });
+    } catch (error) {
+      console.error("WebSocket upgrade error:", error);
+      socket.destroy();
+    }
+  });
+
+  wss.on("connection", (ws: WebSocket, _req: IncomingMessage, profileId: number) => {
+    alive.add(ws);
+    ws.on("pong", () => alive.add(ws));
+
+    ws.on("message", async (data) => {
+      let parsed;
+      try {
+        parsed = clientEventSchema.safeParse(JSON.parse(data.toString()));
+      } catch {
+        return;
+      }
+      if (!parsed.success) return;
+
+      const event = parsed.data;
+      if (event.type === "typing" && event.to !== profileId) {
+        try {
+          if (await storage.isBlockedBetween(profileId, event.to)) return;
+          publish(event.to, { type: "typing", from: profileId });
+        } catch (error) {
+          console.error("Typing event error:", error);
+        }
+      }
+    });
+  });
+
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (!alive.has(ws)) {
+        ws.terminate();
+        return;
+      }
+      alive.delete(ws);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  wss.on("close", () => clearInterval(heartbeat));
+
+  return wss;
+}
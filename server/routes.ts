@@ -4,12 +4,85 @@ import { storage } from "./storage";
 import { api } from "@shared/routes";
 import { z } from "zod";
 import { setupAuth, registerAuthRoutes, isAuthenticated } from "./clerk_auth";
-import { createClient } from "@supabase/supabase-js";
+import { objectStorage } from "./object_storage";
+import { generateSlots, localDate, providerTimezone, zonedTimeToUtc } from "./availability";
+import { setupRealtime, publish } from "./realtime";
+import { imageContentTypes, processImage, stripImageMetadata, validateImageSignature, variantFilenames, type ImageVariant } from "./images";
+import { quoteServiceDuration, describeServiceSelection } from "@shared/services";
+import { createUploadToken, verifyUploadToken, startUploadCleanup, UPLOAD_TOKEN_TTL_MS } from "./uploads";
+import { searchLocalities, lookupLocality, nearestLocality, resolveProfilePlace } from "./gazetteer";
+import { geocodeSearch, reverseGeocode, startGeocodeCacheCleanup } from "./geocoding";
+import { rateLimit } from "./ratelimit";
+import { hasApproximateLocation, publicLocation, publicProviderLocations, resolveLocationSuburb } from "./privacy";
+import { attachmentContentTypes, insertModerationDecisionSchema, insertServiceSchema, MAX_PORTFOLIO_IMAGES, MAX_PROVIDER_LOCATIONS, type Profile, type ProviderLocation, type Report, type Service, type InsertNotification, type Upload } from "@shared/schema";
+
+const attachmentFilenamePattern = /^attachment_\w+\.[a-z0-9]+$/i;
+
+// Raw uploads are staged until /api/uploads/complete has checked and processed them, so nothing
+// unvalidated or still carrying EXIF/GPS data is ever served
+const uploadedImagePattern = /^upload_\w+\.(?:jpe?g|png|gif|webp)$/i;
+const imageExtensionContentTypes: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+};
+
+function publicImageUrl(filename: string) {
+  return objectStorage.getPublicUrl(`profiles/${filename}`);
+}
+
+// Deletes objects by storage key; failures are logged rather than surfaced
+async function removeStoredObjects(storageKeys: string[]) {
+  await objectStorage.remove(storageKeys).catch((error) => console.error("Object storage delete error:", error));
+}
 
-const supabaseUrl = process.env.SUPABASE_URL;
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-const supabaseBucket = process.env.SUPABASE_BUCKET || "profile-images";
-const supabase = supabaseUrl && supabaseServiceKey ? createClient(supabaseUrl, supabaseServiceKey) : null;
+// Removes an uploaded profile image and its resized variants.
+// URLs that weren't produced by the upload route are left alone.
+async function deleteUploadedImage(url: string) {
+  const match = url.match(/\/profiles\/(upload_\w+\.[a-z0-9]+)$/i);
+  if (!match) return;
+  await removeStoredObjects([match[1], ...variantFilenames(match[1])].map((filename) => `profiles/${filename}`));
+}
+
+// Everything stored for an upload: the file itself, its staged copy and, for images, the variants
+async function removeUploadObjects(upload: Upload) {
+  const filename = upload.storageKey.split('/')[1];
+  await removeStoredObjects([
+    upload.storageKey,
+    `staging/${filename}`,
+    ...(upload.purpose === "image" ? variantFilenames(filename).map((variant) => `profiles/${variant}`) : []),
+  ]);
+}
+
+// A local upload PUT is allowed while its token is valid for the file and hasn't been spent
+async function isUsableUploadToken(token: unknown, storageKey: string) {
+  const uploadId = verifyUploadToken(token, storageKey);
+  const upload = uploadId !== null ? await storage.getUpload(uploadId) : undefined;
+  return !!upload && !upload.completedAt;
+}
+
+// True for image URLs the user was handed by the upload route and completed, so reviews and portfolios
+// can't embed arbitrary links or reuse someone else's upload
+async function areOwnUploadedImages(urls: string[], userId: string) {
+  const storageKeys: string[] = [];
+  for (const url of urls) {
+    const match = url.match(/\/profiles\/(upload_\w+\.(?:jpe?g|png|gif|webp))$/i);
+    if (!match || url !== publicImageUrl(match[1])) return false;
+    storageKeys.push(`profiles/${match[1]}`);
+  }
+  const uniqueKeys = Array.from(new Set(storageKeys));
+  const owned = await storage.getUploadsByStorageKeys(uniqueKeys);
+  return owned.length === uniqueKeys.length && owned.every(u => u.userId === userId && u.purpose === "image" && !!u.completedAt);
+}
+
+const moderationTargetLabels: Record<Report["targetType"], string> = {
+  message: "message",
+  profile: "profile",
+  review: "review",
+  image: "profile photo",
+};
 
 export async function registerRoutes(
   httpServer: Server,
@@ -19,6 +92,14 @@ export async function registerRoutes(
   // Auth Setup
   await setupAuth(app);
   registerAuthRoutes(app);
+
+  // Live updates for messages, typing and notifications
+  setupRealtime(httpServer);
+
+  // Deletes uploads that expired unused or that nothing references any more
+  startUploadCleanup(removeUploadObjects);
+  // Drops cached geocoder answers once they're too old to trust
+  startGeocodeCacheCleanup();
   
   // Object Storage Routes
   // registerObjectStorageRoutes(app);
@@ -28,20 +109,67 @@ export async function registerRoutes(
     return await storage.getProfileByUserId(req.user.sub);
   }
 
+  // Saves a notification and pushes it to the recipient if they are connected
+  const notify = async (notification: InsertNotification & { profileId: number }) => {
+    const created = await storage.createNotification(notification);
+    publish(created.profileId, { type: "notification", notification: created });
+    return created;
+  };
+
+  // Blocked profiles are invisible to each other, and hidden profiles are only visible to their owner and admins
+  const isHiddenFromViewer = async (req: any, profile: Profile) => {
+    const viewer = await getCurrentProfile(req);
+    if (viewer?.id === profile.id) return false;
+    if (profile.hidden) return !viewer?.isAdmin;
+    return !!viewer && await storage.isBlockedBetween(viewer.id, profile.id);
+  };
+
+  // Home-based providers' addresses are for themselves, admins, and clients whose booking or conversation they've accepted
+  const canSeeExactLocation = async (req: any, profile: Profile, locations: ProviderLocation[]) => {
+    if (!hasApproximateLocation(profile, locations)) return true;
+    const viewer = await getCurrentProfile(req);
+    if (!viewer) return false;
+    return viewer.id === profile.id || viewer.isAdmin || await storage.hasLocationAccess(viewer.id, profile.id);
+  };
+
+  // Providers and admins can hide review photos, so they also see the hidden ones
+  const canModerateReviewPhotos = async (req: any, providerId: number) => {
+    const viewer = await getCurrentProfile(req);
+    return !!viewer && (viewer.id === providerId || viewer.isAdmin);
+  };
+
   // Profiles
   app.get(api.profiles.list.path, async (req, res) => {
     const query = api.profiles.list.input.optional().parse(req.query);
-    const profiles = await storage.listProfiles(query);
-    res.json(profiles);
+    const viewer = await getCurrentProfile(req);
+    // Mobile providers are matched by the suburb the searched point is in
+    const locality = query?.lat !== undefined && query.lng !== undefined ? await nearestLocality(query.lat, query.lng) : null;
+    const profiles = await storage.listProfiles({ ...query, locality: locality ?? undefined, viewerId: viewer?.id });
+    // The directory is public, so everyone sees the approximate areas there
+    res.json(profiles.map((profile) => ({
+      ...profile,
+      ...publicLocation(profile),
+      locations: publicProviderLocations(profile, profile.locations),
+    })));
+  });
+
+  const USERNAME_SUGGESTIONS = 5;
+  app.get(api.profiles.suggestions.path, async (req, res) => {
+    const parsed = api.profiles.suggestions.input.safeParse(req.query);
+    if (!parsed.success) return res.json([]);
+    const viewer = await getCurrentProfile(req);
+    res.json(await storage.suggestUsernames(parsed.data.q, USERNAME_SUGGESTIONS, viewer?.id));
   });
 
   app.get(api.profiles.me.path, isAuthenticated, async (req, res) => {
     const profile = await getCurrentProfile(req);
     if (!profile) return res.status(404).json({ message: "Profile not found" });
     
-    // Include services for the current user's profile
+    // Include services and portfolio for the current user's profile
     const services = await storage.getServicesByProvider(profile.id);
-    res.json({ ...profile, services });
+    const portfolio = await storage.getPortfolio(profile.id);
+    const locations = await storage.getProviderLocations(profile.id);
+    res.json({ ...profile, services, portfolio, locations });
   });
 
   app.post(api.profiles.checkUsername.path, async (req, res) => {
@@ -61,7 +189,7 @@ export async function registerRoutes(
       const usernameExists = await storage.getProfileByUsername(input.username);
       if (usernameExists) return res.status(409).json({ message: "Username taken" });
 
-      const profile = await storage.createProfile({ ...input, userId });
+      const profile = await storage.createProfile({ ...input, userId, ...(await resolveProfilePlace(input)) });
       res.status(201).json(profile);
   });
 
@@ -70,7 +198,8 @@ export async function registerRoutes(
       if (!profile) return res.status(404).json({ message: "Profile not found" });
 
       const input = api.profiles.update.input.parse(req.body);
-      const updated = await storage.updateProfile(profile.id, input);
+      const place = await resolveProfilePlace({ ...profile, ...input });
+      const updated = await storage.updateProfile(profile.id, { ...input, ...place });
       res.json(updated);
   });
 
@@ -115,25 +244,47 @@ export async function registerRoutes(
   app.get(api.profiles.getByUsername.path, async (req, res) => {
     const username = String(req.params.username);
     const profile = await storage.getProfileByUsername(username);
-    if (!profile) return res.status(404).json({ message: "Profile not found" });
+    if (!profile || await isHiddenFromViewer(req, profile)) return res.status(404).json({ message: "Profile not found" });
 
     const services = await storage.getServicesByProvider(profile.id);
-    const reviews = await storage.getReviewsByProvider(profile.id);
-
-    res.json({ ...profile, services, reviews });
+    const portfolio = await storage.getPortfolio(profile.id);
+    const reviews = await storage.getReviewsByProvider(profile.id, { includeHiddenPhotos: await canModerateReviewPhotos(req, profile.id) });
+    const otherLocations = await storage.getProviderLocations(profile.id);
+    const reveal = await canSeeExactLocation(req, profile, otherLocations);
+    const location = publicLocation(profile, reveal);
+    const locations = publicProviderLocations(profile, otherLocations, reveal);
+
+    res.json({ ...profile, ...location, services, portfolio, locations, reviews });
   });
 
   app.get(api.profiles.get.path, async (req, res) => {
     const profile = await storage.getProfile(Number(req.params.id));
-    if (!profile) return res.status(404).json({ message: "Profile not found" });
+    if (!profile || await isHiddenFromViewer(req, profile)) return res.status(404).json({ message: "Profile not found" });
     
     const services = await storage.getServicesByProvider(profile.id);
-    const reviews = await storage.getReviewsByProvider(profile.id);
+    const portfolio = await storage.getPortfolio(profile.id);
+    const reviews = await storage.getReviewsByProvider(profile.id, { includeHiddenPhotos: await canModerateReviewPhotos(req, profile.id) });
+    const otherLocations = await storage.getProviderLocations(profile.id);
+    const reveal = await canSeeExactLocation(req, profile, otherLocations);
+    const location = publicLocation(profile, reveal);
+    const locations = publicProviderLocations(profile, otherLocations, reveal);
     
-    res.json({ ...profile, services, reviews });
+    res.json({ ...profile, ...location, services, portfolio, locations, reviews });
   });
 
   // Services
+  // The services a package bundles, or null when one isn't the provider's own regular service
+  const getPackageServices = async (providerId: number, serviceIds: number[], packageId?: number) => {
+    if (serviceIds.length === 0) return [];
+    const providerServices = await storage.getServicesByProvider(providerId);
+    const included = providerServices.filter(s => serviceIds.includes(s.id) && s.id !== packageId && !s.isPackage);
+    return included.length === serviceIds.length ? included : null;
+  };
+
+  // Packages without their own duration take the combined length of their services, when every one is known
+  const combinedDuration = (included: Service[]) =>
+    included.length > 0 && included.every(s => s.duration) ? included.reduce((sum, s) => sum + s.duration!, 0) : null;
+
   app.get(api.services.list.path, async (req, res) => {
       const { providerId } = api.services.list.input.parse(req.query);
       const services = await storage.getServicesByProvider(providerId);
@@ -144,24 +295,123 @@ export async function registerRoutes(
       const profile = await getCurrentProfile(req);
       if (!profile || profile.role !== 'provider') return res.status(401).json({ message: "Unauthorized" });
 
-      const input = api.services.create.input.parse(req.body);
+      const { options, includedServiceIds, ...input } = api.services.create.input.parse(req.body);
       
       // Check if service with same name already exists for this provider
       const existingService = await storage.getServiceByNameAndProvider(input.name, profile.id);
       if (existingService) {
         return res.status(409).json({ message: "A service with this name already exists" });
       }
+      const included = await getPackageServices(profile.id, includedServiceIds);
+      if (!included) {
+        return res.status(400).json({ message: "Packages can only include your other services", field: "includedServiceIds" });
+      }
       
-      const service = await storage.createService({ ...input, providerId: profile.id });
-      res.status(201).json(service);
+      const service = await storage.createService({ ...input, duration: input.duration ?? combinedDuration(included), providerId: profile.id });
+      res.status(201).json(await storage.replaceServiceOptions(service.id, options, includedServiceIds));
+  });
+
+  app.put(api.services.update.path, isAuthenticated, async (req, res) => {
+      const profile = await getCurrentProfile(req);
+      if (!profile || profile.role !== 'provider') return res.status(401).json({ message: "Unauthorized" });
+
+      const service = await storage.getService(Number(req.params.id));
+      if (!service || service.providerId !== profile.id) return res.status(404).json({ message: "Service not found" });
+
+      const { options, includedServiceIds, ...input } = api.services.update.input.parse(req.body);
+      const existingService = await storage.getServiceByNameAndProvider(input.name, profile.id);
+      if (existingService && existingService.id !== service.id) {
+        return res.status(409).json({ message: "A service with this name already exists" });
+      }
+      const included = await getPackageServices(profile.id, includedServiceIds, service.id);
+      if (!included) {
+        return res.status(400).json({ message: "Packages can only include your other services", field: "includedServiceIds" });
+      }
+      if (input.isPackage && (await storage.getServicesByProvider(profile.id)).some(s => s.includedServiceIds.includes(service.id))) {
+        return res.status(400).json({ message: "A service included in a package can't be a package itself", field: "isPackage" });
+      }
+
+      // Fields left out of the body are cleared, as the whole service is replaced
+      await storage.updateService(service.id, {
+        description: null,
+        category: null,
+        subcategory: null,
+        priceType: null,
+        priceCents: null,
+        priceMaxCents: null,
+        isPackage: false,
+        ...input,
+        duration: input.duration ?? combinedDuration(included),
+      });
+      res.json(await storage.replaceServiceOptions(service.id, options, includedServiceIds));
   });
 
   app.delete(api.services.delete.path, isAuthenticated, async (req, res) => {
       const profile = await getCurrentProfile(req);
       if (!profile) return res.status(401).json({ message: "Unauthorized" });
-      
-      // Ideally check ownership
-      await storage.deleteService(Number(req.params.id));
+
+      const service = await storage.getService(Number(req.params.id));
+      if (!service || service.providerId !== profile.id) return res.status(404).json({ message: "Service not found" });
+
+      await storage.deleteService(service.id);
+      res.status(204).send();
+  });
+
+  // Portfolio
+  app.post(api.portfolio.create.path, isAuthenticated, async (req, res) => {
+      const profile = await getCurrentProfile(req);
+      if (!profile || profile.role !== 'provider') return res.status(401).json({ message: "Unauthorized" });
+
+      const input = api.portfolio.create.input.parse(req.body);
+      if (!(await areOwnUploadedImages([input.url], profile.userId))) return res.status(400).json({ message: "Invalid image", field: "url" });
+      if (input.serviceId != null && (await storage.getService(input.serviceId))?.providerId !== profile.id) {
+        return res.status(400).json({ message: "Unknown service", field: "serviceId" });
+      }
+      if ((await storage.getPortfolio(profile.id)).length >= MAX_PORTFOLIO_IMAGES) {
+        return res.status(400).json({ message: `A portfolio can hold up to ${MAX_PORTFOLIO_IMAGES} images` });
+      }
+
+      const image = await storage.createPortfolioImage({ ...input, providerId: profile.id });
+      res.status(201).json(image);
+  });
+
+  // Registered before /:id so "order" isn't taken for an image ID
+  app.put(api.portfolio.reorder.path, isAuthenticated, async (req, res) => {
+      const profile = await getCurrentProfile(req);
+      if (!profile) return res.status(401).json({ message: "Unauthorized" });
+
+      const { ids } = api.portfolio.reorder.input.parse(req.body);
+      const current = await storage.getPortfolio(profile.id);
+      const currentIds = new Set(current.map(image => image.id));
+      if (ids.length !== current.length || new Set(ids).size !== ids.length || !ids.every(id => currentIds.has(id))) {
+        return res.status(400).json({ message: "Order must list every portfolio image once" });
+      }
+
+      res.json(await storage.reorderPortfolio(profile.id, ids));
+  });
+
+  app.put(api.portfolio.update.path, isAuthenticated, async (req, res) => {
+      const profile = await getCurrentProfile(req);
+      if (!profile) return res.status(401).json({ message: "Unauthorized" });
+
+      const input = api.portfolio.update.input.parse(req.body);
+      const image = await storage.getPortfolioImage(Number(req.params.id));
+      if (!image || image.providerId !== profile.id) return res.status(404).json({ message: "Image not found" });
+      if (input.serviceId != null && (await storage.getService(input.serviceId))?.providerId !== profile.id) {
+        return res.status(400).json({ message: "Unknown service", field: "serviceId" });
+      }
+
+      res.json(await storage.updatePortfolioImage(image.id, input));
+  });
+
+  app.delete(api.portfolio.delete.path, isAuthenticated, async (req, res) => {
+      const profile = await getCurrentProfile(req);
+      if (!profile) return res.status(401).json({ message: "Unauthorized" });
+
+      const image = await storage.getPortfolioImage(Number(req.params.id));
+      if (!image || image.providerId !== profile.id) return res.status(404).json({ message: "Image not found" });
+
+      await storage.deletePortfolioImage(image.id);
       res.status(204).send();
   });
 
@@ -183,8 +433,12 @@ export async function registerRoutes(
       const profile = await getCurrentProfile(req);
       if (!profile) return res.status(401).json({ message: "Unauthorized" });
 
-      const input = api.reviews.create.input.parse(req.body);
+      const { photos, ...input } = api.reviews.create.input.parse(req.body);
+      if (photos && !(await areOwnUploadedImages(photos, profile.userId))) return res.status(400).json({ message: "Invalid photo" });
       if (input.providerId === profile.id) return res.status(400).json({ message: "Cannot review yourself" });
+      if (await storage.isBlockedBetween(profile.id, input.providerId)) {
+        return res.status(403).json({ message: "You can't review this provider" });
+      }
 
       // Check if already reviewed
       const existingReview = await storage.getReviewByClientAndProvider(profile.id, input.providerId);
@@ -192,10 +446,57 @@ export async function registerRoutes(
         return res.status(409).json({ message: "You have already reviewed this provider" });
       }
 
-      const review = await storage.createReview({ ...input, clientId: profile.id });
+      const verifiedVia = await storage.getReviewVerification(profile.id, input.providerId);
+      const review = await storage.createReview({ ...input, clientId: profile.id, verifiedVia });
+      if (photos?.length) await storage.setReviewPhotos(review.id, photos);
       res.status(201).json(review);
   });
 
+  app.put(api.reviews.update.path, isAuthenticated, async (req, res) => {
+      const profile = await getCurrentProfile(req);
+      if (!profile) return res.status(401).json({ message: "Unauthorized" });
+
+      const { photos, ...input } = api.reviews.update.input.parse(req.body);
+      const review = await storage.getReview(Number(req.params.id));
+      if (!review) return res.status(404).json({ message: "Review not found" });
+      if (review.clientId !== profile.id) return res.status(403).json({ message: "You can only edit your own reviews" });
+      if (photos) {
+        // Photos the review already has are kept as they are; new ones must be the reviewer's own uploads
+        const currentUrls = new Set((await storage.getReviewPhotos(review.id)).map(p => p.url));
+        if (!(await areOwnUploadedImages(photos.filter(url => !currentUrls.has(url)), profile.userId))) {
+          return res.status(400).json({ message: "Invalid photo" });
+        }
+      }
+
+      // A review can become verified later, e.g. once the booking it describes is completed
+      const verifiedVia = review.verifiedVia ?? await storage.getReviewVerification(profile.id, review.providerId);
+      const updated = await storage.updateReview(review.id, { ...input, verifiedVia });
+      if (photos) await storage.setReviewPhotos(review.id, photos);
+      res.json(updated);
+  });
+
+  app.put(api.reviews.photoVisibility.path, isAuthenticated, async (req, res) => {
+      const profile = await getCurrentProfile(req);
+      if (!profile) return res.status(401).json({ message: "Unauthorized" });
+
+      const { hidden } = api.reviews.photoVisibility.input.parse(req.body);
+      const photo = await storage.getReviewPhoto(Number(req.params.id));
+      const review = photo && await storage.getReview(photo.reviewId);
+      if (!photo || !review) return res.status(404).json({ message: "Photo not found" });
+      if (review.providerId !== profile.id && !profile.isAdmin) {
+        return res.status(403).json({ message: "Only the provider or an admin can hide review photos" });
+      }
+
+      res.json(await storage.setReviewPhotoHidden(photo.id, hidden, profile.id));
+  });
+
+  app.get(api.reviews.history.path, async (req, res) => {
+      const review = await storage.getReview(Number(req.params.id));
+      if (!review || review.hidden) return res.status(404).json({ message: "Review not found" });
+
+      res.json(await storage.getReviewEdits(review.id));
+  });
+
   app.delete('/api/reviews/:id', isAuthenticated, async (req, res) => {
       const profile = await getCurrentProfile(req);
       if (!profile) return res.status(401).json({ message: "Unauthorized" });
@@ -210,31 +511,119 @@ export async function registerRoutes(
       res.status(204).send();
   });
 
+  app.put(api.reviews.reply.path, isAuthenticated, async (req, res) => {
+      const profile = await getCurrentProfile(req);
+      if (!profile) return res.status(401).json({ message: "Unauthorized" });
+
+      const { reply } = api.reviews.reply.input.parse(req.body);
+      const review = await storage.getReview(Number(req.params.id));
+      if (!review || review.hidden) return res.status(404).json({ message: "Review not found" });
+      if (review.providerId !== profile.id) return res.status(403).json({ message: "You can only reply to reviews of your own profile" });
+
+      const updated = await storage.setReviewReply(review.id, reply);
+      // Only the first reply notifies; edits would be noise
+      if (!review.reply) {
+        await notify({
+          profileId: review.clientId,
+          type: 'review',
+          title: 'New Reply',
+          content: `${profile.username} replied to your review`,
+          link: `/profile/${profile.username}`,
+        });
+      }
+      res.json(updated);
+  });
+
+  app.delete(api.reviews.deleteReply.path, isAuthenticated, async (req, res) => {
+      const profile = await getCurrentProfile(req);
+      if (!profile) return res.status(401).json({ message: "Unauthorized" });
+
+      const review = await storage.getReview(Number(req.params.id));
+      if (!review) return res.status(404).json({ message: "Review not found" });
+      if (review.providerId !== profile.id) return res.status(403).json({ message: "You can only manage replies on your own profile" });
+
+      await storage.setReviewReply(review.id, null);
+      res.status(204).send();
+  });
+
   // Messages
+  const DEFAULT_MESSAGE_PAGE_SIZE = 30;
+
+  app.get(api.messages.conversations.path, isAuthenticated, async (req, res) => {
+      const profile = await getCurrentProfile(req);
+      if (!profile) return res.status(401).json({ message: "Unauthorized" });
+
+      const conversations = await storage.getConversations(profile.id);
+      res.json(conversations);
+  });
+
+  app.get(api.messages.attachment.path, isAuthenticated, async (req, res) => {
+      const profile = await getCurrentProfile(req);
+      if (!profile) return res.status(401).json({ message: "Unauthorized" });
+
+      const attachment = await storage.getMessageAttachment(Number(req.params.id));
+      const message = attachment && await storage.getMessage(attachment.messageId);
+      if (!attachment || !message) return res.status(404).json({ message: "Attachment not found" });
+      if (message.senderId !== profile.id && message.receiverId !== profile.id) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const body = await objectStorage.get(attachment.storageKey);
+      if (!body) return res.status(404).json({ message: "Attachment not found" });
+
+      res.setHeader("Content-Type", attachment.contentType);
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Cache-Control", "private, max-age=3600");
+      res.setHeader("Content-Disposition", `inline; filename="${attachment.name.replace(/["\\\r\n]/g, "_")}"`);
+      res.send(body);
+  });
+
+  app.get(api.messages.unreadCount.path, isAuthenticated, async (req, res) => {
+      const profile = await getCurrentProfile(req);
+      if (!profile) return res.status(401).json({ message: "Unauthorized" });
+
+      const count = await storage.getUnreadMessageCount(profile.id);
+      res.json({ count });
+  });
+
   app.get(api.messages.list.path, isAuthenticated, async (req, res) => {
       const profile = await getCurrentProfile(req);
       if (!profile) return res.status(401).json({ message: "Unauthorized" });
 
-      const query = api.messages.list.input.optional().parse(req.query);
-      if (query?.otherUserId) {
-          const msgs = await storage.getMessages(profile.id, query.otherUserId);
-          res.json(msgs);
-      } else {
-          // List conversations
-          const convos = await storage.getConversations(profile.id);
-          res.json(convos);
+      const query = api.messages.list.input.parse(req.query);
+      if (await storage.isBlockedBetween(profile.id, query.otherUserId)) {
+        return res.status(403).json({ message: "You can't message this user" });
       }
+      const limit = query.limit ?? DEFAULT_MESSAGE_PAGE_SIZE;
+      // Fetch one extra to know whether there is an older page
+      const page = await storage.getMessages(profile.id, query.otherUserId, { before: query.before, limit: limit + 1 });
+      const hasMore = page.length > limit;
+      const msgs = hasMore ? page.slice(1) : page;
+      res.json({ messages: msgs, nextCursor: hasMore ? msgs[0].id : null });
   });
 
   app.post(api.messages.send.path, isAuthenticated, async (req, res) => {
       const profile = await getCurrentProfile(req);
       if (!profile) return res.status(401).json({ message: "Unauthorized" });
 
-      const input = api.messages.send.input.parse(req.body);
-      const msg = await storage.createMessage({ ...input, senderId: profile.id });
+      const { attachments, ...input } = api.messages.send.input.parse(req.body);
+      if (await storage.isBlockedBetween(profile.id, input.receiverId)) {
+        return res.status(403).json({ message: "You can't message this user" });
+      }
+      // Attachments must be the sender's own completed uploads
+      if (attachments && attachments.length > 0) {
+        const storageKeys = Array.from(new Set(attachments.map(a => a.storageKey)));
+        const owned = await storage.getUploadsByStorageKeys(storageKeys);
+        if (owned.length !== storageKeys.length || owned.some(u => u.userId !== profile.userId || u.purpose !== "attachment" || !u.completedAt)) {
+          return res.status(400).json({ message: "Invalid attachment" });
+        }
+      }
+      const msg = await storage.createMessage({ ...input, senderId: profile.id }, attachments);
+      publish(msg.receiverId, { type: "message", message: msg });
+      publish(msg.senderId, { type: "message", message: msg });
       
       // Create notification for the receiver
-      await storage.createNotification({
+      await notify({
         profileId: input.receiverId,
         type: 'message',
         title: 'New Message',
@@ -270,6 +659,485 @@ export async function registerRoutes(
       res.status(204).send();
   });
 
+  app.put(api.messages.accept.path, isAuthenticated, async (req, res) => {
+      const profile = await getCurrentProfile(req);
+      if (!profile) return res.status(401).json({ message: "Unauthorized" });
+      if (profile.role !== 'provider') return res.status(400).json({ message: "Only providers can accept conversations" });
+
+      const otherUserId = Number(req.params.otherUserId);
+      const client = await storage.getProfile(otherUserId);
+      if (!client || client.id === profile.id || await storage.isBlockedBetween(profile.id, client.id)) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      if ((await storage.getMessages(profile.id, client.id, { limit: 1 })).length === 0) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      await storage.acceptConversation(profile.id, client.id);
+      await notify({
+        profileId: client.id,
+        type: 'message',
+        title: 'Address Shared',
+        content: `${profile.username} shared their address with you`,
+        link: `/profile/${profile.username}`,
+      });
+      res.status(204).send();
+  });
+
+  app.delete(api.messages.withdrawAcceptance.path, isAuthenticated, async (req, res) => {
+      const profile = await getCurrentProfile(req);
+      if (!profile) return res.status(401).json({ message: "Unauthorized" });
+
+      await storage.withdrawConversationAcceptance(profile.id, Number(req.params.otherUserId));
+      res.status(204).send();
+  });
+
+  app.put(api.messages.markRead.path, isAuthenticated, async (req, res) => {
+      const profile = await getCurrentProfile(req);
+      if (!profile) return res.status(401).json({ message: "Unauthorized" });
+
+      const otherUserId = Number(req.params.otherUserId);
+      const { upToId } = api.messages.markRead.input.parse(req.body);
+      await storage.markMessagesRead(profile.id, otherUserId, upToId);
+
+      // The sender sees "seen", and our other tabs drop their unread badges
+      const event = { type: "read" as const, by: profile.id, upToId };
+      publish(otherUserId, event);
+      publish(profile.id, event);
+      res.status(204).send();
+  });
+
+  // Bookings
+  const DEFAULT_BOOKING_MINUTES = 60;
+  const MAX_SLOT_RANGE_DAYS = 62;
+
+  // Free slots long enough for the booking between two of the provider's local dates, or null when the
+  // provider has no working hours set
+  const getServiceSlots = async (service: Service, durationMinutes: number, from: string, to: string, timeZone: string, ignoreBookingId?: number) => {
+    const rules = await storage.getAvailabilityRules(service.providerId);
+    if (rules.length === 0) return null;
+
+    const exceptions = await storage.getAvailabilityExceptions(service.providerId, from, to);
+    const rangeStart = zonedTimeToUtc(from, "00:00", timeZone);
+    const rangeEnd = new Date(zonedTimeToUtc(to, "23:59", timeZone).getTime() + 60 * 1000);
+    const activeBookings = (await storage.getActiveBookingsForProvider(service.providerId, rangeStart, rangeEnd))
+      .filter(b => b.id !== ignoreBookingId);
+
+    return generateSlots({
+      from,
+      to,
+      timeZone,
+      durationMinutes,
+      rules,
+      exceptions,
+      bookings: activeBookings,
+    });
+  };
+
+  // Whether the provider already has another pending or accepted booking overlapping the time
+  const clashesWithBooking = async (providerId: number, startsAt: Date, endsAt: Date, ignoreBookingId?: number) => {
+    const activeBookings = await storage.getActiveBookingsForProvider(providerId, startsAt, endsAt);
+    return activeBookings.some(b => b.id !== ignoreBookingId);
+  };
+
+  // Working hours are checked on the day the time falls on where the provider is
+  const isBookableTime = async (service: Service, durationMinutes: number, startsAt: Date, ignoreBookingId?: number) => {
+    const timeZone = providerTimezone(await storage.getProfile(service.providerId));
+    const date = localDate(startsAt, timeZone);
+    const days = await getServiceSlots(service, durationMinutes, date, date, timeZone, ignoreBookingId);
+    if (!days) {
+      // Any time will do without working hours, as long as it's free
+      const endsAt = new Date(startsAt.getTime() + durationMinutes * 60 * 1000);
+      return !(await clashesWithBooking(service.providerId, startsAt, endsAt, ignoreBookingId));
+    }
+    return days[0].slots.some(slot => slot.startsAt.getTime() === startsAt.getTime());
+  };
+
+  // Looks up the variant and add-ons picked for a service and how long the appointment takes with them.
+  // A variant is only required when booking; slots can be shown before one is picked.
+  const resolveServiceSelection = async (service: Service, selection: { variantId?: number; addonIds?: number[] }, requireVariant: boolean) => {
+    const options = await storage.getServiceOptions(service.id);
+    const variants = options.filter(o => o.kind === 'variant');
+    const variant = selection.variantId === undefined ? null : variants.find(o => o.id === selection.variantId);
+    if (variant === undefined) return { error: "Unknown option for this service", field: "variantId" };
+    if (!variant && requireVariant && variants.length > 0) return { error: "Choose an option for this service", field: "variantId" };
+
+    const addonIds = new Set(selection.addonIds ?? []);
+    const addons = options.filter(o => o.kind === 'addon' && addonIds.has(o.id));
+    if (addons.length !== addonIds.size) return { error: "Unknown add-on for this service", field: "addonIds" };
+
+    const durationMinutes = quoteServiceDuration(service.duration ?? DEFAULT_BOOKING_MINUTES, variant, addons) ?? DEFAULT_BOOKING_MINUTES;
+    return { variant, addons, durationMinutes };
+  };
+
+  const notifyBooking = async (profileId: number, title: string, content: string) => {
+    await notify({
+      profileId,
+      type: 'booking',
+      title,
+      content,
+      link: '/bookings',
+    });
+  };
+
+  app.get(api.bookings.list.path, isAuthenticated, async (req, res) => {
+      const profile = await getCurrentProfile(req);
+      if (!profile) return res.status(401).json({ message: "Unauthorized" });
+
+      const query = api.bookings.list.input.optional().parse(req.query);
+      const result = await storage.getBookingsForProfile(profile.id, query?.as);
+      res.json(result);
+  });
+
+  app.post(api.bookings.create.path, isAuthenticated, async (req, res) => {
+      const profile = await getCurrentProfile(req);
+      if (!profile) return res.status(401).json({ message: "Unauthorized" });
+
+      const input = api.bookings.create.input.parse(req.body);
+      const service = await storage.getService(input.serviceId);
+      if (!service) return res.status(404).json({ message: "Service not found" });
+      if (service.providerId === profile.id) return res.status(400).json({ message: "Cannot book your own service" });
+      if (await storage.isBlockedBetween(profile.id, service.providerId)) {
+        return res.status(403).json({ message: "You can't book this provider" });
+      }
+      if (input.startsAt.getTime() <= Date.now()) {
+        return res.status(400).json({ message: "Booking time must be in the future", field: "startsAt" });
+      }
+      const selection = await resolveServiceSelection(service, input, true);
+      if ("error" in selection) return res.status(400).json({ message: selection.error, field: selection.field });
+      const { variant, addons, durationMinutes } = selection;
+      if (!(await isBookableTime(service, durationMinutes, input.startsAt))) {
+        return res.status(400).json({ message: "That time is not available", field: "startsAt" });
+      }
+
+      const booking = await storage.createBooking({
+        serviceId: service.id,
+        providerId: service.providerId,
+        clientId: profile.id,
+        startsAt: input.startsAt,
+        endsAt: new Date(input.startsAt.getTime() + durationMinutes * 60 * 1000),
+        note: input.note || null,
+        variantName: variant?.name ?? null,
+        addonNames: addons.map(a => a.name),
+        requestedById: profile.id,
+      });
+
+      const requested = describeServiceSelection(service.name, booking.variantName, booking.addonNames);
+      await notifyBooking(service.providerId, 'New Booking Request', `${profile.username} requested ${requested}`);
+      res.status(201).json(booking);
+  });
+
+  // Loads a booking the current profile takes part in, or sends the error response and returns null
+  const getParticipantBooking = async (req: any, res: any) => {
+    const profile = await getCurrentProfile(req);
+    if (!profile) {
+      res.status(401).json({ message: "Unauthorized" });
+      return null;
+    }
+    const booking = await storage.getBooking(Number(req.params.id));
+    if (!booking) {
+      res.status(404).json({ message: "Booking not found" });
+      return null;
+    }
+    if (booking.providerId !== profile.id && booking.clientId !== profile.id) {
+      res.status(403).json({ message: "You are not part of this booking" });
+      return null;
+    }
+    const otherPartyId = booking.providerId === profile.id ? booking.clientId : booking.providerId;
+    return { profile, booking, otherPartyId };
+  };
+
+  app.put(api.bookings.accept.path, isAuthenticated, async (req, res) => {
+      const ctx = await getParticipantBooking(req, res);
+      if (!ctx) return;
+      const { profile, booking, otherPartyId } = ctx;
+
+      if (booking.status !== 'pending') return res.status(400).json({ message: "Only pending bookings can be accepted" });
+      if (booking.requestedById === profile.id) return res.status(403).json({ message: "Waiting for the other party to respond" });
+      if (await storage.isBlockedBetween(profile.id, otherPartyId)) {
+        return res.status(403).json({ message: "This booking can only be cancelled" });
+      }
+      if (await clashesWithBooking(booking.providerId, booking.startsAt, booking.endsAt, booking.id)) {
+        return res.status(400).json({ message: "That time clashes with another booking" });
+      }
+
+      const updated = await storage.updateBooking(booking.id, { status: 'accepted' });
+      await notifyBooking(otherPartyId, 'Booking Confirmed', `${profile.username} accepted your booking`);
+      res.json(updated);
+  });
+
+  app.put(api.bookings.decline.path, isAuthenticated, async (req, res) => {
+      const ctx = await getParticipantBooking(req, res);
+      if (!ctx) return;
+      const { profile, booking, otherPartyId } = ctx;
+
+      if (booking.status !== 'pending') return res.status(400).json({ message: "Only pending bookings can be declined" });
+      if (booking.requestedById === profile.id) return res.status(403).json({ message: "Cancel the booking instead" });
+
+      const updated = await storage.updateBooking(booking.id, { status: 'declined' });
+      await notifyBooking(otherPartyId, 'Booking Declined', `${profile.username} declined your booking`);
+      res.json(updated);
+  });
+
+  app.put(api.bookings.reschedule.path, isAuthenticated, async (req, res) => {
+      const ctx = await getParticipantBooking(req, res);
+      if (!ctx) return;
+      const { profile, booking, otherPartyId } = ctx;
+
+      if (booking.status !== 'pending' && booking.status !== 'accepted') {
+        return res.status(400).json({ message: "This booking can no longer be rescheduled" });
+      }
+      if (await storage.isBlockedBetween(profile.id, otherPartyId)) {
+        return res.status(403).json({ message: "This booking can only be cancelled" });
+      }
+      const { startsAt } = api.bookings.reschedule.input.parse(req.body);
+      if (startsAt.getTime() <= Date.now()) {
+        return res.status(400).json({ message: "Booking time must be in the future", field: "startsAt" });
+      }
+
+      // Clients must pick a free slot; providers may offer any time outside their usual hours, as long as it's free
+      const durationMs = booking.endsAt.getTime() - booking.startsAt.getTime();
+      if (profile.id === booking.clientId) {
+        const service = await storage.getService(booking.serviceId);
+        if (service && !(await isBookableTime(service, durationMs / (60 * 1000), startsAt, booking.id))) {
+          return res.status(400).json({ message: "That time is not available", field: "startsAt" });
+        }
+      } else if (await clashesWithBooking(booking.providerId, startsAt, new Date(startsAt.getTime() + durationMs), booking.id)) {
+        return res.status(400).json({ message: "That time clashes with another booking", field: "startsAt" });
+      }
+
+      // A new time always needs the other party's confirmation
+      const updated = await storage.updateBooking(booking.id, {
+        status: 'pending',
+        startsAt,
+        endsAt: new Date(startsAt.getTime() + durationMs),
+        requestedById: profile.id,
+      });
+      await notifyBooking(otherPartyId, 'Booking Rescheduled', `${profile.username} proposed a new time for your booking`);
+      res.json(updated);
+  });
+
+  app.put(api.bookings.cancel.path, isAuthenticated, async (req, res) => {
+      const ctx = await getParticipantBooking(req, res);
+      if (!ctx) return;
+      const { profile, booking, otherPartyId } = ctx;
+
+      if (booking.status !== 'pending' && booking.status !== 'accepted') {
+        return res.status(400).json({ message: "This booking can no longer be cancelled" });
+      }
+      const { reason } = api.bookings.cancel.input.parse(req.body ?? {});
+
+      const updated = await storage.updateBooking(booking.id, { status: 'cancelled', cancellationReason: reason || null });
+      await notifyBooking(otherPartyId, 'Booking Cancelled', `${profile.username} cancelled your booking`);
+      res.json(updated);
+  });
+
+  app.put(api.bookings.complete.path, isAuthenticated, async (req, res) => {
+      const ctx = await getParticipantBooking(req, res);
+      if (!ctx) return;
+      const { profile, booking, otherPartyId } = ctx;
+
+      if (booking.providerId !== profile.id) return res.status(403).json({ message: "Only the provider can complete a booking" });
+      if (booking.status !== 'accepted') return res.status(400).json({ message: "Only accepted bookings can be completed" });
+
+      const updated = await storage.updateBooking(booking.id, { status: 'completed' });
+      await notifyBooking(otherPartyId, 'Booking Completed', `${profile.username} marked your appointment as completed`);
+      res.json(updated);
+  });
+
+  // Provider locations
+  app.post(api.providerLocations.create.path, isAuthenticated, async (req, res) => {
+      const profile = await getCurrentProfile(req);
+      if (!profile || profile.role !== 'provider') return res.status(401).json({ message: "Unauthorized" });
+
+      const parsed = api.providerLocations.create.input.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message, field: parsed.error.errors[0].path.join(".") });
+      }
+      const existing = await storage.getProviderLocations(profile.id);
+      if (existing.length >= MAX_PROVIDER_LOCATIONS) {
+        return res.status(400).json({ message: `You can add up to ${MAX_PROVIDER_LOCATIONS} other locations` });
+      }
+
+      const locationSuburb = await resolveLocationSuburb(parsed.data);
+      const location = await storage.createProviderLocation({ ...parsed.data, providerId: profile.id, locationSuburb });
+      res.status(201).json(location);
+  });
+
+  app.put(api.providerLocations.update.path, isAuthenticated, async (req, res) => {
+      const profile = await getCurrentProfile(req);
+      if (!profile) return res.status(401).json({ message: "Unauthorized" });
+
+      const location = await storage.getProviderLocation(Number(req.params.id));
+      if (!location || location.providerId !== profile.id) return res.status(404).json({ message: "Location not found" });
+
+      const parsed = api.providerLocations.update.input.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message, field: parsed.error.errors[0].path.join(".") });
+      }
+      const locationSuburb = await resolveLocationSuburb(parsed.data);
+      res.json(await storage.updateProviderLocation(location.id, { ...parsed.data, locationSuburb }));
+  });
+
+  app.delete(api.providerLocations.delete.path, isAuthenticated, async (req, res) => {
+      const profile = await getCurrentProfile(req);
+      if (!profile) return res.status(401).json({ message: "Unauthorized" });
+
+      const location = await storage.getProviderLocation(Number(req.params.id));
+      if (!location || location.providerId !== profile.id) return res.status(404).json({ message: "Location not found" });
+
+      await storage.deleteProviderLocation(location.id);
+      res.status(204).send();
+  });
+
+  // Service areas
+  app.get(api.serviceArea.get.path, async (req, res) => {
+      const provider = await storage.getProfile(Number(req.params.id));
+      if (!provider || provider.role !== 'provider' || await isHiddenFromViewer(req, provider)) {
+        return res.status(404).json({ message: "Provider not found" });
+      }
+      res.json(await storage.getServiceArea(provider.id));
+  });
+
+  app.put(api.serviceArea.update.path, isAuthenticated, async (req, res) => {
+      const profile = await getCurrentProfile(req);
+      if (!profile || profile.role !== 'provider') return res.status(401).json({ message: "Unauthorized" });
+
+      const parsed = api.serviceArea.update.input.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message, field: parsed.error.errors[0].path.join(".") });
+      }
+      res.json(await storage.replaceServiceArea(profile.id, parsed.data));
+  });
+
+  // Availability
+  app.get(api.availability.get.path, async (req, res) => {
+      const provider = await storage.getProfile(Number(req.params.id));
+      if (!provider || provider.role !== 'provider') return res.status(404).json({ message: "Provider not found" });
+
+      const rules = await storage.getAvailabilityRules(provider.id);
+      // Only upcoming exceptions matter to anyone viewing the calendar
+      const exceptions = await storage.getAvailabilityExceptions(provider.id, localDate(new Date(), providerTimezone(provider)));
+      res.json({ rules, exceptions });
+  });
+
+  app.put(api.availability.updateRules.path, isAuthenticated, async (req, res) => {
+      const profile = await getCurrentProfile(req);
+      if (!profile || profile.role !== 'provider') return res.status(401).json({ message: "Unauthorized" });
+
+      const { rules } = api.availability.updateRules.input.parse(req.body);
+      if (rules.some(r => r.startTime >= r.endTime)) {
+        return res.status(400).json({ message: "Start time must be before end time", field: "rules" });
+      }
+
+      const saved = await storage.replaceAvailabilityRules(profile.id, rules);
+      res.json(saved);
+  });
+
+  app.post(api.availability.createException.path, isAuthenticated, async (req, res) => {
+      const profile = await getCurrentProfile(req);
+      if (!profile || profile.role !== 'provider') return res.status(401).json({ message: "Unauthorized" });
+
+      const input = api.availability.createException.input.parse(req.body);
+      if (!input.startTime !== !input.endTime) {
+        return res.status(400).json({ message: "Set both start and end time, or neither to close for the day", field: "startTime" });
+      }
+      if (input.startTime && input.endTime && input.startTime >= input.endTime) {
+        return res.status(400).json({ message: "Start time must be before end time", field: "startTime" });
+      }
+
+      const exception = await storage.createAvailabilityException({ ...input, providerId: profile.id });
+      res.status(201).json(exception);
+  });
+
+  app.delete(api.availability.deleteException.path, isAuthenticated, async (req, res) => {
+      const profile = await getCurrentProfile(req);
+      if (!profile) return res.status(401).json({ message: "Unauthorized" });
+
+      const exception = await storage.getAvailabilityException(Number(req.params.id));
+      if (!exception || exception.providerId !== profile.id) return res.status(404).json({ message: "Exception not found" });
+
+      await storage.deleteAvailabilityException(exception.id);
+      res.status(204).send();
+  });
+
+  app.get(api.availability.slots.path, async (req, res) => {
+      const service = await storage.getService(Number(req.params.id));
+      if (!service) return res.status(404).json({ message: "Service not found" });
+
+      const { from, to, ...options } = api.availability.slots.input.parse(req.query);
+      const selection = await resolveServiceSelection(service, options, false);
+      if ("error" in selection) return res.status(400).json({ message: selection.error, field: selection.field });
+      const dayCount = (Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000) + 1;
+      if (!(dayCount >= 1 && dayCount <= MAX_SLOT_RANGE_DAYS)) {
+        return res.status(400).json({ message: `Choose a range of 1 to ${MAX_SLOT_RANGE_DAYS} days`, field: "to" });
+      }
+
+      const timeZone = providerTimezone(await storage.getProfile(service.providerId));
+      const days = await getServiceSlots(service, selection.durationMinutes, from, to, timeZone);
+      res.json({ hasSchedule: days !== null, days: days ?? [] });
+  });
+
+  // Blocks
+  app.get(api.blocks.list.path, isAuthenticated, async (req, res) => {
+      const profile = await getCurrentProfile(req);
+      if (!profile) return res.status(401).json({ message: "Unauthorized" });
+
+      res.json(await storage.getBlockedProfiles(profile.id));
+  });
+
+  app.post(api.blocks.create.path, isAuthenticated, async (req, res) => {
+      const profile = await getCurrentProfile(req);
+      if (!profile) return res.status(401).json({ message: "Unauthorized" });
+
+      const { profileId } = api.blocks.create.input.parse(req.body);
+      if (profileId === profile.id) return res.status(400).json({ message: "Cannot block yourself" });
+      if (!(await storage.getProfile(profileId))) return res.status(404).json({ message: "Profile not found" });
+
+      await storage.blockProfile(profile.id, profileId);
+      res.status(201).json({ profileId });
+  });
+
+  app.delete(api.blocks.delete.path, isAuthenticated, async (req, res) => {
+      const profile = await getCurrentProfile(req);
+      if (!profile) return res.status(401).json({ message: "Unauthorized" });
+
+      await storage.unblockProfile(profile.id, Number(req.params.profileId));
+      res.status(204).send();
+  });
+
+  // Reports
+  app.post(api.reports.create.path, isAuthenticated, async (req, res) => {
+      const profile = await getCurrentProfile(req);
+      if (!profile) return res.status(401).json({ message: "Unauthorized" });
+
+      const input = api.reports.create.input.parse(req.body);
+      let imageUrl: string | null = null;
+      if (input.targetType === "message") {
+        // Only the recipient or sender can see, and so report, a message
+        const message = await storage.getMessage(input.targetId);
+        if (!message || (message.senderId !== profile.id && message.receiverId !== profile.id)) {
+          return res.status(404).json({ message: "Message not found" });
+        }
+      } else if (input.targetType === "review") {
+        const review = await storage.getReview(input.targetId);
+        if (!review || review.hidden) return res.status(404).json({ message: "Review not found" });
+        if (review.clientId === profile.id) return res.status(400).json({ message: "Cannot report your own review" });
+      } else {
+        if (input.targetId === profile.id) return res.status(400).json({ message: "Cannot report yourself" });
+        const target = await storage.getProfile(input.targetId);
+        if (!target) return res.status(404).json({ message: "Profile not found" });
+        if (input.targetType === "image") {
+          if (!target.profileImageUrl) return res.status(404).json({ message: "Image not found" });
+          // Kept with the report, so a decision can't take down a picture uploaded after it
+          imageUrl = target.profileImageUrl;
+        }
+      }
+
+      const report = await storage.createReport({ ...input, reporterId: profile.id, imageUrl });
+      res.status(201).json(report);
+  });
+
   // Notifications
   app.get(api.notifications.list.path, isAuthenticated, async (req, res) => {
       const profile = await getCurrentProfile(req);
@@ -317,6 +1185,47 @@ export async function registerRoutes(
       res.status(204).send();
   });
 
+  // Locations
+  app.get(api.locations.search.path, async (req, res) => {
+      const parsed = api.locations.search.input.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message, field: parsed.error.errors[0].path.join(".") });
+      }
+
+      const { q, state, limit } = parsed.data;
+      res.json(await searchLocalities(q, { state, limit }));
+  });
+
+  app.get(api.locations.lookup.path, async (req, res) => {
+      const parsed = api.locations.lookup.input.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message, field: parsed.error.errors[0].path.join(".") });
+      }
+
+      res.json(await lookupLocality(parsed.data.q, parsed.data.state));
+  });
+
+  // Geocoding. The browser never talks to the upstream provider, which sees only this server.
+  const geocodeRateLimit = rateLimit({ windowMs: 60 * 1000, max: 30, message: "Too many location searches, please wait a moment" });
+
+  app.get(api.geocode.search.path, isAuthenticated, geocodeRateLimit, async (req, res) => {
+      const parsed = api.geocode.search.input.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message, field: parsed.error.errors[0].path.join(".") });
+      }
+
+      res.json(await geocodeSearch(parsed.data.q));
+  });
+
+  app.get(api.geocode.reverse.path, isAuthenticated, geocodeRateLimit, async (req, res) => {
+      const parsed = api.geocode.reverse.input.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0].message, field: parsed.error.errors[0].path.join(".") });
+      }
+
+      res.json(await reverseGeocode(parsed.data.lat, parsed.data.lng));
+  });
+
   // Admin middleware
   const isAdmin = async (req: any, res: any, next: any) => {
     if (!req.user) {
@@ -380,6 +1289,7 @@ export async function registerRoutes(
       locationType: locationType || null,
       latitude: latitude || null,
       longitude: longitude || null,
+      ...(await resolveProfilePlace({ location, latitude, longitude })),
       profileImageUrl: profileImageUrl || null,
     });
     
@@ -398,7 +1308,7 @@ export async function registerRoutes(
       return res.status(400).json({ message: "Cannot edit admin account" });
     }
     
-    const { username, bio, location, locationType, latitude, longitude, profileImageUrl } = req.body;
+    const { username, bio, location, locationType, latitude, longitude, profileImageUrl, hidden } = req.body;
     
     // Check if username is being changed and if it's taken
     if (username && username !== profile.username) {
@@ -408,15 +1318,25 @@ export async function registerRoutes(
       }
     }
     
+    const place = {
+      location: location !== undefined ? location : profile.location,
+      latitude: latitude !== undefined ? latitude : profile.latitude,
+      longitude: longitude !== undefined ? longitude : profile.longitude,
+    };
     const updated = await storage.updateProfile(id, {
       username: username || profile.username,
       bio: bio !== undefined ? bio : profile.bio,
-      location: location !== undefined ? location : profile.location,
+      ...place,
       locationType: locationType !== undefined ? locationType : profile.locationType,
-      latitude: latitude !== undefined ? latitude : profile.latitude,
-      longitude: longitude !== undefined ? longitude : profile.longitude,
+      ...(await resolveProfilePlace(place)),
       profileImageUrl: profileImageUrl !== undefined ? profileImageUrl : profile.profileImageUrl,
     });
+
+    // Moderation can hide a profile from the directory; admins restore it from here
+    if (typeof hidden === "boolean" && hidden !== profile.hidden) {
+      await storage.setProfileHidden(id, hidden);
+      return res.json({ ...updated, hidden });
+    }
     
     res.json(updated);
   });
@@ -442,21 +1362,15 @@ export async function registerRoutes(
       return res.status(400).json({ message: "Services can only be added to providers" });
     }
 
-    const { name, description, price, duration } = req.body;
-    if (!name) return res.status(400).json({ message: "Service name is required" });
+    const parsed = insertServiceSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ message: parsed.error.errors[0].message });
 
-    const existing = await storage.getServiceByNameAndProvider(name, profile.id);
+    const existing = await storage.getServiceByNameAndProvider(parsed.data.name, profile.id);
     if (existing) {
       return res.status(409).json({ message: "A service with this name already exists" });
     }
 
-    const service = await storage.createService({
-      providerId: profile.id,
-      name,
-      description: description || null,
-      price: price || null,
-      duration: duration !== undefined && duration !== null && duration !== "" ? Number(duration) : null,
-    });
+    const service = await storage.createService({ ...parsed.data, providerId: profile.id });
 
     res.status(201).json(service);
   });
@@ -468,20 +1382,18 @@ export async function registerRoutes(
     const service = await storage.getService(serviceId);
     if (!service) return res.status(404).json({ message: "Service not found" });
 
-    const { name, description, price, duration } = req.body;
-    if (name && name !== service.name) {
-      const existing = await storage.getServiceByNameAndProvider(name, service.providerId);
+    // Unlike a provider's PUT, fields left out of the body keep their current values
+    const parsed = insertServiceSchema.safeParse({ ...service, ...req.body });
+    if (!parsed.success) return res.status(400).json({ message: parsed.error.errors[0].message });
+
+    if (parsed.data.name !== service.name) {
+      const existing = await storage.getServiceByNameAndProvider(parsed.data.name, service.providerId);
       if (existing && existing.id !== service.id) {
         return res.status(409).json({ message: "A service with this name already exists" });
       }
     }
 
-    const updated = await storage.updateService(serviceId, {
-      name: name ?? service.name,
-      description: description !== undefined ? description : service.description,
-      price: price !== undefined ? price : service.price,
-      duration: duration !== undefined ? (duration === "" || duration === null ? null : Number(duration)) : service.duration,
-    });
+    const updated = await storage.updateService(serviceId, parsed.data);
 
     res.json(updated);
   });
@@ -500,10 +1412,18 @@ export async function registerRoutes(
   // Upload endpoint for profile images
   app.post("/api/uploads/request-url", isAuthenticated, async (req, res) => {
     try {
-      const { name, size, contentType } = req.body;
+      const { name, size, contentType, purpose } = req.body;
+      const isAttachment = purpose === "attachment";
+
+      if (isAttachment && !(attachmentContentTypes as readonly string[]).includes(contentType)) {
+        return res.status(400).json({ error: "Only images and PDFs can be attached" });
+      }
+      if (!isAttachment && contentType && !(imageContentTypes as readonly string[]).includes(contentType)) {
+        return res.status(400).json({ error: "Only JPEG, PNG, GIF and WebP images can be uploaded" });
+      }
 
       // Generate a unique filename
-      const fileId = `upload_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      const fileId = `${isAttachment ? 'attachment' : 'upload'}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
       // Determine file extension from content type or name
       let extension = 'jpg'; // default
@@ -512,52 +1432,47 @@ export async function registerRoutes(
         else if (contentType.includes('png')) extension = 'png';
         else if (contentType.includes('gif')) extension = 'gif';
         else if (contentType.includes('webp')) extension = 'webp';
+        else if (contentType.includes('pdf')) extension = 'pdf';
       } else if (name) {
         const nameExt = name.split('.').pop();
         if (nameExt) extension = nameExt;
       }
 
       const filename = `${fileId}.${extension}`;
-      const objectPath = `/profiles/${filename}`;
 
-      if (supabase) {
-        const storagePath = `profiles/${filename}`;
-        const { data, error } = await supabase.storage
-          .from(supabaseBucket)
-          .createSignedUploadUrl(storagePath);
-
-        if (error || !data?.signedUrl) {
-          console.error("Supabase upload URL error:", error);
-          return res.status(500).json({ error: "Failed to generate upload URL" });
-        }
+      // The token authorizes this one file until it expires and is spent by /api/uploads/complete
+      const upload = await storage.createUpload({
+        userId: (req as any).user.sub,
+        storageKey: isAttachment ? `attachments/${filename}` : `profiles/${filename}`,
+        purpose: isAttachment ? "attachment" : "image",
+        expiresAt: new Date(Date.now() + UPLOAD_TOKEN_TTL_MS),
+      });
+      const uploadToken = createUploadToken(upload);
 
-        const publicUrl = supabase.storage
-          .from(supabaseBucket)
-          .getPublicUrl(storagePath).data.publicUrl;
-
-        return res.json({
-          uploadURL: data.signedUrl,
-          objectPath: publicUrl,
-          metadata: {
-            name: name || `upload.${extension}`,
-            size,
-            contentType: contentType || "image/jpeg",
-          },
+      // Both go to staging, so the upload URL can't replace the file once it's been checked. objectPath is
+      // where it ends up once completed: an attachment's private key, fetched via the attachment route,
+      // or an image's public URL.
+      const proto = (req.get("x-forwarded-proto") || req.protocol).split(",")[0].trim();
+      let uploadURL: string;
+      try {
+        uploadURL = await objectStorage.createUploadUrl(`staging/${filename}`, {
+          contentType,
+          expiresInSeconds: UPLOAD_TOKEN_TTL_MS / 1000,
+          token: uploadToken,
+          baseUrl: `${proto}://${req.get('host')}`,
         });
+      } catch (error) {
+        console.error("Upload URL error:", error);
+        return res.status(500).json({ error: "Failed to generate upload URL" });
       }
 
-      // Return a local upload URL for development
-      const proto = (req.get("x-forwarded-proto") || req.protocol).split(",")[0].trim();
-      const uploadURL = `${proto}://${req.get('host')}/api/uploads/upload/${filename}`;
-
       res.json({
         uploadURL,
-        objectPath,
-        metadata: {
-          name: name || `upload.${extension}`,
-          size,
-          contentType: contentType || 'image/jpeg'
-        }
+        objectPath: isAttachment ? upload.storageKey : publicImageUrl(filename),
+        uploadToken,
+        metadata: isAttachment
+          ? { name: name || `attachment.${extension}`, size, contentType }
+          : { name: name || `upload.${extension}`, size, contentType: contentType || 'image/jpeg' },
       });
     } catch (error) {
       console.error('Upload request error:', error);
@@ -565,22 +1480,25 @@ export async function registerRoutes(
     }
   });
 
-  // Handle direct file uploads (for development)
-  // Note: In production with real presigned URLs, this wouldn't need authentication
-  app.put("/api/uploads/upload/:filename", async (req, res) => {
+  // Receives uploads for the local storage driver. There's no session on these PUTs;
+  // the upload token in the query string stands in for a presigned URL's signature.
+  app.put("/api/uploads/upload/:prefix/:filename", async (req, res) => {
     try {
-      const filename = req.params.filename;
-      const fs = await import('fs');
-      const path = await import('path');
-
-      // Ensure profiles directory exists
-      const profilesDir = path.resolve('public/profiles');
-      await fs.promises.mkdir(profilesDir, { recursive: true });
-
-      const filePath = path.join(profilesDir, filename);
+      const { prefix, filename } = req.params;
+      const storageKey =
+        prefix !== "staging" ? null :
+        uploadedImagePattern.test(filename) ? `profiles/${filename}` :
+        attachmentFilenamePattern.test(filename) ? `attachments/${filename}` :
+        null;
+      if (!storageKey) {
+        return res.status(400).json({ error: 'Invalid filename' });
+      }
+      if (!await isUsableUploadToken(req.query.token, storageKey)) {
+        return res.status(403).json({ error: 'Invalid or expired upload token' });
+      }
 
       // req.body is now raw buffer from the express.raw middleware
-      await fs.promises.writeFile(filePath, req.body);
+      await objectStorage.put(`${prefix}/${filename}`, req.body, req.get('content-type') || 'application/octet-stream');
 
       res.status(200).send();
     } catch (error) {
@@ -589,6 +1507,170 @@ export async function registerRoutes(
     }
   });
 
+  // Finishes an upload and spends its token. A staged image has its signature checked against the type
+  // it was requested as, its EXIF/GPS metadata stripped and its resized WebP variants stored alongside it
+  // before it's published. Attachments get the same checks and stripping without variants, or a PDF check,
+  // before they're copied to their private key. The staged file is removed either way.
+  app.post("/api/uploads/complete", isAuthenticated, async (req, res) => {
+    try {
+      const { objectPath, uploadToken } = req.body;
+      const filename = typeof objectPath === 'string' ? objectPath.split('/').pop() ?? '' : '';
+      const isAttachment = objectPath === `attachments/${filename}` && attachmentFilenamePattern.test(filename);
+      if (!isAttachment && (!uploadedImagePattern.test(filename) || objectPath !== publicImageUrl(filename))) {
+        return res.status(400).json({ error: 'Invalid upload' });
+      }
+
+      const storageKey = isAttachment ? objectPath : `profiles/${filename}`;
+      const uploadId = verifyUploadToken(uploadToken, storageKey);
+      const upload = uploadId !== null ? await storage.getUpload(uploadId) : undefined;
+      if (!upload || upload.userId !== (req as any).user.sub) {
+        return res.status(403).json({ error: 'Invalid or expired upload token' });
+      }
+
+      const stagedKey = `staging/${filename}`;
+      const staged = await objectStorage.get(stagedKey);
+      if (!staged) return res.status(404).json({ error: 'Upload not found' });
+
+      // Spent before processing so two racing requests can't both publish the file
+      if (!await storage.completeUpload(upload.id)) {
+        return res.status(403).json({ error: 'Invalid or expired upload token' });
+      }
+
+      const extension = filename.split('.').pop()!.toLowerCase();
+      if (isAttachment && extension === 'pdf') {
+        if (staged.toString('latin1', 0, 5) !== '%PDF-') {
+          await removeStoredObjects([stagedKey]);
+          return res.status(400).json({ error: 'File is not a PDF' });
+        }
+        await objectStorage.put(storageKey, staged, 'application/pdf');
+        await removeStoredObjects([stagedKey]);
+        return res.json({ objectPath });
+      }
+
+      const problem = validateImageSignature(staged, imageExtensionContentTypes[extension]);
+      if (problem) {
+        await removeStoredObjects([stagedKey]);
+        return res.status(400).json({ error: problem });
+      }
+
+      // Attached photos stay private and are shown full size, so they only need their metadata stripped
+      if (isAttachment) {
+        const stripped = await stripImageMetadata(staged).catch((error) => {
+          console.error('Image processing error:', error);
+          return null;
+        });
+        if (!stripped) {
+          await removeStoredObjects([stagedKey]);
+          return res.status(400).json({ error: 'Image could not be processed' });
+        }
+        await objectStorage.put(storageKey, stripped.buffer, stripped.contentType);
+        await removeStoredObjects([stagedKey]);
+        return res.json({ objectPath });
+      }
+
+      const processed = await processImage(staged, filename).catch((error) => {
+        console.error('Image processing error:', error);
+        return null;
+      });
+      if (!processed) {
+        await removeStoredObjects([stagedKey]);
+        return res.status(400).json({ error: 'Image could not be processed' });
+      }
+
+      await Promise.all([
+        objectStorage.put(`profiles/${filename}`, processed.original, processed.contentType),
+        ...processed.variants.map((variant) => objectStorage.put(`profiles/${variant.filename}`, variant.buffer, 'image/webp')),
+      ]);
+      await removeStoredObjects([stagedKey]);
+
+      const variants = {} as Record<ImageVariant, string>;
+      for (const variant of processed.variants) variants[variant.variant] = publicImageUrl(variant.filename);
+      res.json({ objectPath, variants });
+    } catch (error) {
+      console.error('Upload completion error:', error);
+      res.status(500).json({ error: 'Failed to process upload' });
+    }
+  });
+
+  // Moderation queue
+  app.get("/api/admin/reports", isAuthenticated, isAdmin, async (req, res) => {
+    const status = z.enum(["pending", "resolved", "dismissed"]).optional().parse(req.query.status);
+    res.json(await storage.getReports(status));
+  });
+
+  // Applies an approve/hide/delete decision to the reported content, closes every pending report
+  // about it and tells the owner what happened
+  app.post("/api/admin/reports/:id/decision", isAuthenticated, isAdmin, async (req, res) => {
+    const admin = await getCurrentProfile(req);
+    const { action, reason } = insertModerationDecisionSchema.parse(req.body);
+    const report = await storage.getReport(Number(req.params.id));
+    if (!report) return res.status(404).json({ message: "Report not found" });
+    if (report.status !== "pending") return res.status(409).json({ message: "This report has already been handled" });
+
+    const { targetType, targetId } = report;
+    let affectedProfileId: number | null = null;
+
+    if (targetType === "message") {
+      if (action === "hide") return res.status(400).json({ message: "Messages can only be approved or deleted" });
+      const message = await storage.getMessage(targetId);
+      if (message) {
+        affectedProfileId = message.senderId;
+        if (action === "delete") await storage.deleteMessage(message.id);
+      }
+    } else if (targetType === "review") {
+      const review = await storage.getReview(targetId);
+      if (review) {
+        affectedProfileId = review.clientId;
+        if (action === "hide") await storage.setReviewHidden(review.id, true);
+        if (action === "delete") await storage.deleteReview(review.id);
+      }
+    } else if (targetType === "image") {
+      // Only the picture that was reported: once it's been replaced there's nothing left to act on or tell anyone about
+      const target = await storage.getProfile(targetId);
+      if (target && report.imageUrl && target.profileImageUrl === report.imageUrl) {
+        affectedProfileId = target.id;
+        if (action !== "approve") {
+          await storage.updateProfile(target.id, { profileImageUrl: null });
+          if (action === "delete") await deleteUploadedImage(report.imageUrl);
+        }
+      }
+    } else {
+      const target = await storage.getProfile(targetId);
+      if (target) {
+        affectedProfileId = target.id;
+        if (target.isAdmin && action !== "approve") return res.status(400).json({ message: "Admin accounts can't be hidden or deleted here" });
+        if (action === "hide") await storage.setProfileHidden(target.id, true);
+        if (action === "delete") await storage.adminDeleteProfile(target.id);
+      }
+    }
+
+    const pending = await storage.getPendingReportsForTarget(targetType, targetId, targetType === "image" ? report.imageUrl : undefined);
+    const decision = await storage.recordModerationDecision(
+      { adminId: admin!.id, targetType, targetId, action, reason, affectedProfileId },
+      pending.map(r => r.id),
+    );
+
+    // A deleted account has nobody left to notify
+    const accountDeleted = targetType === "profile" && action === "delete";
+    if (affectedProfileId !== null && !accountDeleted) {
+      const label = moderationTargetLabels[targetType];
+      const outcome = {
+        approve: { title: "Report reviewed", content: `A moderator reviewed your ${label} and left it up.` },
+        hide: { title: "Content hidden", content: `A moderator hid your ${label}.` },
+        delete: { title: "Content removed", content: `A moderator removed your ${label}.` },
+      }[action];
+      await notify({
+        profileId: affectedProfileId,
+        type: 'system',
+        title: outcome.title,
+        content: `${outcome.content} Reason: ${reason}`,
+        link: null,
+      });
+    }
+
+    res.json(decision);
+  });
+
   app.get("/api/admin/page-visits", isAuthenticated, isAdmin, async (req, res) => {
     const count = await storage.getPageVisitCount();
     res.json({ count });
@@ -1,21 +1,137 @@
 import { db } from "./db";
 import {
-  profiles, services, reviews, messages, notifications, pageVisits,
-  type InsertProfile, type InsertService, type InsertReview, type InsertMessage, type InsertNotification,
-  type Profile, type Service, type Review, type Message, type Notification
+  profiles, services, serviceOptions, packageItems, portfolioImages, reviews, reviewEdits, reviewPhotos, messages, messageAttachments, acceptedConversations, notifications, blocks, reports, moderationDecisions, pageVisits, localities, geocodeCache, bookings, availabilityRules, availabilityExceptions, providerLocations, serviceAreaPlaces, travelFees, uploads,
+  type InsertProfile, type InsertService, type InsertReview, type InsertMessage, type InsertMessageAttachment, type InsertNotification, type InsertReport, type InsertBooking,
+  type InsertAvailabilityRule, type InsertAvailabilityException, type InsertServiceOption, type ServiceOption, type ServiceWithOptions,
+  type Profile, type Service, type PortfolioImage, type InsertPortfolioImage, type Review, type ReviewEdit, type ReviewPhoto, type ReviewWithPhotos, type Message, type Notification, type Booking, type BookingWithDetails,
+  type ConversationSummary, type MessageAttachment, type MessageWithAttachments,
+  type Report, type ReportWithDetails, type BlockedProfile, type ModerationDecision,
+  type AvailabilityRule, type AvailabilityException, type Upload, type Locality, type GeocodeCacheEntry, type ServiceArea,
+  type ProviderLocation, type InsertProviderLocation
 } from "@shared/schema";
-import { eq, and, or, ilike, desc, sql } from "drizzle-orm";
+import { eq, ne, and, or, not, ilike, desc, asc, sql, inArray, exists, notExists, isNull, isNotNull, gte, lte, lt, gt, type SQL, type Column } from "drizzle-orm";
 import { authStorage } from "./clerk_auth/storage";
+import { distanceKmSql, boundingBoxForRadius, withinBoundingBoxSql, type BoundingBox } from "./geo";
+import type { ServiceCategory } from "@shared/services";
+import { APPROXIMATE_LOCATION_DECIMALS, privateLocationTypes, travelFeeForDistance, type LocalityName } from "@shared/locations";
+
+export interface ProfileFilters {
+  // Service filters: a provider matches when a single one of their services meets all of them
+  categories?: ServiceCategory[];
+  minPriceCents?: number;
+  maxPriceCents?: number;
+  maxDuration?: number; // minutes
+  search?: string;
+  locationTypes?: string[];
+  lat?: number;
+  lng?: number;
+  radius?: number; // km, requires lat/lng
+  locality?: LocalityName; // the suburb lat/lng is in, matched against mobile providers' service areas
+  north?: number;
+  south?: number;
+  east?: number;
+  west?: number;
+  viewerId?: number; // hides profiles blocked in either direction
+  limit?: number; // the nearest this many when lat/lng is given
+}
+
+// Matches a block row between the two profiles, whichever of them created it
+function blockedBetweenSql(profileId: number | Column | SQL, otherId: number | Column | SQL): SQL {
+  return or(
+    and(eq(blocks.blockerId, profileId), eq(blocks.blockedId, otherId)),
+    and(eq(blocks.blockerId, otherId), eq(blocks.blockedId, profileId))
+  )!;
+}
+
+// Where a profile or one of its locations is shown to others: home-based coordinates rounded as in
+// server/privacy.ts, so searching by distance or map area can't be used to narrow down an address
+function publicCoordinateSql(column: Column, locationType: Column): SQL {
+  return sql`case
+    when ${approximateLocationSql(locationType)}
+      then round(${column}::numeric, ${APPROXIMATE_LOCATION_DECIMALS})::double precision
+    else ${column}
+  end`;
+}
+
+// Whether a location of this type is only shown as its approximate area
+function approximateLocationSql(locationType: Column): SQL {
+  return and(inArray(locationType, [...privateLocationTypes]), eq(profiles.locationPrivacy, "approximate"))!;
+}
+
+// Grows a box to catch the exact positions that round into it, so the index on them still prefilters
+function padForRoundingBox(box: BoundingBox): BoundingBox {
+  const pad = 0.5 / 10 ** APPROXIMATE_LOCATION_DECIMALS;
+  return { north: box.north + pad, south: box.south - pad, east: box.east + pad, west: box.west - pad };
+}
+
+// A price and length to filter on, e.g. a service's own columns
+interface PriceSql {
+  priceType: Column | SQL;
+  priceCents: Column | SQL;
+  priceMaxCents: Column | SQL;
+  duration: Column | SQL;
+}
+
+// Conditions for a price that fits the directory's price and duration filters. An hourly price counts for
+// the whole appointment, so without a known length it can't be held under a maximum and has no upper bound.
+function priceFilterSql(price: PriceSql, filters: Pick<ProfileFilters, "minPriceCents" | "maxPriceCents" | "maxDuration">): SQL[] {
+  const conditions: SQL[] = [];
+  const priceType = sql`${price.priceType}`;
+  const priceCents = sql`${price.priceCents}`;
+  const duration = sql`${price.duration}`;
+  const hourlyTotal = sql`${priceCents} * ${duration} / 60.0`;
+  if (filters.maxPriceCents !== undefined) {
+    // Can be booked at or under the limit: the lowest price of a range, the starting price, or the hourly total
+    conditions.push(isNotNull(priceCents), lte(
+      sql`case when ${priceType} = 'hourly' then ${hourlyTotal} else ${priceCents} end`,
+      filters.maxPriceCents,
+    ));
+  }
+  if (filters.minPriceCents !== undefined) {
+    // "from" prices have no upper bound; ranges reach the minimum when their top end does
+    conditions.push(isNotNull(priceCents), or(
+      eq(priceType, "from"),
+      and(eq(priceType, "hourly"), isNull(duration)),
+      gte(sql`case when ${priceType} = 'hourly' then ${hourlyTotal} else coalesce(${price.priceMaxCents}, ${priceCents}) end`, filters.minPriceCents),
+    )!);
+  }
+  if (filters.maxDuration !== undefined) {
+    conditions.push(isNotNull(duration), lte(duration, filters.maxDuration));
+  }
+  return conditions;
+}
+
+// travelsToClient marks mobile providers whose service area covers the searched point, and travelFeeCents
+// is what they charge to travel there when one of their fee tiers reaches it
+export type ProfileListing = Profile & {
+  services: Service[];
+  portfolio: PortfolioImage[];
+  locations: ProviderLocation[];
+  distance: number | null;
+  travelsToClient: boolean;
+  travelFeeCents: number | null;
+};
+
+// Directory cards only show a short strip of portfolio thumbnails
+const LISTING_PORTFOLIO_IMAGES = 4;
+
+// A conversation counts towards a verified review once it has this many messages, with both sides taking part
+const VERIFYING_CONVERSATION_MIN_MESSAGES = 6;
+const VERIFYING_CONVERSATION_MIN_PER_SIDE = 2;
+
+const LOCALITY_INSERT_BATCH_SIZE = 1000;
 
 export interface IStorage {
   // Profiles
   getProfile(id: number): Promise<Profile | undefined>;
   getProfileByUserId(userId: string): Promise<Profile | undefined>;
   getProfileByUsername(username: string): Promise<Profile | undefined>;
-  createProfile(profile: InsertProfile & { userId: string }): Promise<Profile>;
-  updateProfile(id: number, updates: Partial<InsertProfile>): Promise<Profile>;
+  createProfile(profile: InsertProfile & { userId: string; locationSuburb?: string | null; timezone?: string | null }): Promise<Profile>;
+  updateProfile(id: number, updates: Partial<InsertProfile> & { locationSuburb?: string | null; timezone?: string | null }): Promise<Profile>;
+  setProfileHidden(id: number, hidden: boolean): Promise<void>;
   deleteProfile(id: number): Promise<void>;
-  listProfiles(filters?: { services?: string[], search?: string }): Promise<(Profile & { services: Service[] })[]>;
+  listProfiles(filters?: ProfileFilters): Promise<ProfileListing[]>;
+  suggestUsernames(term: string, limit: number, viewerId?: number): Promise<string[]>;
   
   // Admin
   getAdminStats(): Promise<{
@@ -29,27 +145,101 @@ export interface IStorage {
   adminDeleteProfile(id: number): Promise<void>;
 
   // Services
-  getServicesByProvider(providerId: number): Promise<Service[]>;
+  getServicesByProvider(providerId: number): Promise<ServiceWithOptions[]>;
   getService(id: number): Promise<Service | undefined>;
+  getServiceOptions(serviceId: number): Promise<ServiceOption[]>;
+  replaceServiceOptions(serviceId: number, options: InsertServiceOption[], includedServiceIds: number[]): Promise<ServiceWithOptions>;
   getServiceByNameAndProvider(name: string, providerId: number): Promise<Service | undefined>;
   createService(service: InsertService & { providerId: number }): Promise<Service>;
   updateService(id: number, updates: Partial<InsertService>): Promise<Service>;
   deleteService(id: number): Promise<void>;
 
+  // Portfolio
+  getPortfolio(providerId: number): Promise<PortfolioImage[]>;
+  getPortfolioImage(id: number): Promise<PortfolioImage | undefined>;
+  createPortfolioImage(image: InsertPortfolioImage & { providerId: number }): Promise<PortfolioImage>;
+  updatePortfolioImage(id: number, updates: Partial<InsertPortfolioImage>): Promise<PortfolioImage>;
+  reorderPortfolio(providerId: number, ids: number[]): Promise<PortfolioImage[]>;
+  deletePortfolioImage(id: number): Promise<void>;
+
   // Reviews
-  createReview(review: InsertReview & { clientId: number }): Promise<Review>;
-  getReviewsByProvider(providerId: number): Promise<Review[]>;
+  createReview(review: InsertReview & { clientId: number; verifiedVia?: Review["verifiedVia"] }): Promise<Review>;
+  updateReview(id: number, updates: Omit<InsertReview, "providerId" | "clientId"> & { verifiedVia?: Review["verifiedVia"] }): Promise<Review>;
+  getReviewEdits(reviewId: number): Promise<ReviewEdit[]>;
+  getReviewVerification(clientId: number, providerId: number): Promise<Review["verifiedVia"]>;
+  getReviewsByProvider(providerId: number, options?: { includeHiddenPhotos?: boolean }): Promise<ReviewWithPhotos[]>;
   getReview(id: number): Promise<Review | undefined>;
   getReviewByClientAndProvider(clientId: number, providerId: number): Promise<Review | undefined>;
   deleteReview(id: number): Promise<void>;
+  setReviewHidden(id: number, hidden: boolean): Promise<void>;
+  setReviewReply(id: number, reply: string | null): Promise<Review>;
+  getReviewPhotos(reviewId: number): Promise<ReviewPhoto[]>;
+  setReviewPhotos(reviewId: number, urls: string[]): Promise<void>;
+  getReviewPhoto(id: number): Promise<ReviewPhoto | undefined>;
+  setReviewPhotoHidden(id: number, hidden: boolean, hiddenById: number): Promise<ReviewPhoto>;
 
   // Messages
-  createMessage(message: InsertMessage & { senderId: number }): Promise<Message>;
-  getMessages(userId1: number, userId2: number): Promise<Message[]>;
-  getConversations(userId: number): Promise<any[]>;
+  createMessage(message: InsertMessage & { senderId: number }, attachments?: InsertMessageAttachment[]): Promise<MessageWithAttachments>;
+  getMessages(userId1: number, userId2: number, options?: { before?: number; limit?: number }): Promise<MessageWithAttachments[]>;
+  getConversations(userId: number): Promise<ConversationSummary[]>;
   deleteMessage(id: number): Promise<void>;
   deleteConversation(userId1: number, userId2: number): Promise<void>;
   getMessage(id: number): Promise<Message | undefined>;
+  getMessageAttachment(id: number): Promise<MessageAttachment | undefined>;
+  markMessagesRead(receiverId: number, senderId: number, upToId: number): Promise<void>;
+  getUnreadMessageCount(receiverId: number): Promise<number>;
+  acceptConversation(providerId: number, clientId: number): Promise<void>;
+  withdrawConversationAcceptance(providerId: number, clientId: number): Promise<void>;
+
+  // Uploads
+  createUpload(upload: Omit<Upload, "id" | "completedAt" | "createdAt">): Promise<Upload>;
+  getUpload(id: number): Promise<Upload | undefined>;
+  getUploadsByStorageKeys(storageKeys: string[]): Promise<Upload[]>;
+  completeUpload(id: number): Promise<Upload | undefined>;
+  getOrphanedUploads(olderThan: Date, limit: number): Promise<Upload[]>;
+  deleteUpload(id: number): Promise<void>;
+
+  // Bookings
+  createBooking(booking: InsertBooking): Promise<Booking>;
+  getBooking(id: number): Promise<Booking | undefined>;
+  getBookingsForProfile(profileId: number, as?: "provider" | "client"): Promise<BookingWithDetails[]>;
+  updateBooking(id: number, updates: Partial<Booking>): Promise<Booking>;
+  getActiveBookingsForProvider(providerId: number, from: Date, to: Date): Promise<Booking[]>;
+  hasLocationAccess(clientId: number, providerId: number): Promise<boolean>;
+
+  // Provider locations
+  getProviderLocations(providerId: number): Promise<ProviderLocation[]>;
+  getProviderLocation(id: number): Promise<ProviderLocation | undefined>;
+  createProviderLocation(location: InsertProviderLocation & { providerId: number; locationSuburb: string | null }): Promise<ProviderLocation>;
+  updateProviderLocation(id: number, updates: InsertProviderLocation & { locationSuburb: string | null }): Promise<ProviderLocation>;
+  deleteProviderLocation(id: number): Promise<void>;
+
+  // Service areas
+  getServiceArea(providerId: number): Promise<ServiceArea>;
+  replaceServiceArea(providerId: number, area: ServiceArea): Promise<ServiceArea>;
+
+  // Availability
+  getAvailabilityRules(providerId: number): Promise<AvailabilityRule[]>;
+  replaceAvailabilityRules(providerId: number, rules: InsertAvailabilityRule[]): Promise<AvailabilityRule[]>;
+  getAvailabilityExceptions(providerId: number, from?: string, to?: string): Promise<AvailabilityException[]>;
+  getAvailabilityException(id: number): Promise<AvailabilityException | undefined>;
+  createAvailabilityException(exception: InsertAvailabilityException & { providerId: number }): Promise<AvailabilityException>;
+  deleteAvailabilityException(id: number): Promise<void>;
+
+  // Blocks
+  blockProfile(blockerId: number, blockedId: number): Promise<void>;
+  unblockProfile(blockerId: number, blockedId: number): Promise<void>;
+  getBlockedProfiles(blockerId: number): Promise<BlockedProfile[]>;
+  getBlockedProfileIds(profileId: number): Promise<number[]>;
+  isBlockedBetween(profileId1: number, profileId2: number): Promise<boolean>;
+
+  // Reports
+  createReport(report: InsertReport & { reporterId: number; imageUrl?: string | null }): Promise<Report>;
+  getReport(id: number): Promise<Report | undefined>;
+  getReports(status?: Report["status"]): Promise<ReportWithDetails[]>;
+  updateReport(id: number, updates: Partial<Report>): Promise<Report>;
+  getPendingReportsForTarget(targetType: Report["targetType"], targetId: number, imageUrl?: string | null): Promise<Report[]>;
+  recordModerationDecision(decision: Omit<ModerationDecision, "id" | "createdAt">, reportIds: number[]): Promise<ModerationDecision>;
 
   // Notifications
   getNotifications(profileId: number): Promise<Notification[]>;
@@ -62,6 +252,13 @@ export interface IStorage {
   // Page Visits
   recordPageVisit(): Promise<void>;
   getPageVisitCount(): Promise<number>;
+
+  // Gazetteer
+  getLocalities(): Promise<Locality[]>;
+  replaceLocalities(rows: Omit<Locality, "id">[]): Promise<number>;
+  getGeocodeCacheEntry(kind: GeocodeCacheEntry["kind"], query: string): Promise<GeocodeCacheEntry | undefined>;
+  saveGeocodeCacheEntry(entry: Omit<GeocodeCacheEntry, "id" | "createdAt">): Promise<void>;
+  deleteGeocodeCacheEntriesBefore(before: Date): Promise<number>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -80,7 +277,7 @@ export class DatabaseStorage implements IStorage {
     return profile;
   }
 
-  async createProfile(profile: InsertProfile & { userId: string }): Promise<Profile> {
+  async createProfile(profile: InsertProfile & { userId: string; locationSuburb?: string | null; timezone?: string | null }): Promise<Profile> {
     const [newProfile] = await db.insert(profiles).values(profile).returning();
     return newProfile;
   }
@@ -90,70 +287,250 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  async setProfileHidden(id: number, hidden: boolean): Promise<void> {
+    await db.update(profiles).set({ hidden }).where(eq(profiles.id, id));
+  }
+
   async deleteProfile(id: number): Promise<void> {
     // Delete related data first
+    const providerServiceIds = db.select({ id: services.id }).from(services).where(eq(services.providerId, id));
+    await db.delete(serviceOptions).where(inArray(serviceOptions.serviceId, providerServiceIds));
+    await db.delete(packageItems).where(inArray(packageItems.packageId, providerServiceIds));
     await db.delete(services).where(eq(services.providerId, id));
-    await db.delete(reviews).where(eq(reviews.providerId, id));
-    await db.delete(reviews).where(eq(reviews.clientId, id));
+    await db.delete(portfolioImages).where(eq(portfolioImages.providerId, id));
+    await this.deleteReviewsInvolving(id);
+    await db.delete(messageAttachments).where(inArray(messageAttachments.messageId,
+      db.select({ id: messages.id }).from(messages).where(or(eq(messages.senderId, id), eq(messages.receiverId, id)))));
     await db.delete(messages).where(eq(messages.senderId, id));
     await db.delete(messages).where(eq(messages.receiverId, id));
+    await db.delete(acceptedConversations).where(or(eq(acceptedConversations.providerId, id), eq(acceptedConversations.clientId, id)));
     await db.delete(notifications).where(eq(notifications.profileId, id));
+    await db.delete(bookings).where(or(eq(bookings.providerId, id), eq(bookings.clientId, id)));
+    await db.delete(availabilityRules).where(eq(availabilityRules.providerId, id));
+    await db.delete(availabilityExceptions).where(eq(availabilityExceptions.providerId, id));
+    await db.delete(providerLocations).where(eq(providerLocations.providerId, id));
+    await db.delete(serviceAreaPlaces).where(eq(serviceAreaPlaces.providerId, id));
+    await db.delete(travelFees).where(eq(travelFees.providerId, id));
+    await db.delete(blocks).where(or(eq(blocks.blockerId, id), eq(blocks.blockedId, id)));
+    await db.delete(reports).where(or(eq(reports.reporterId, id), and(inArray(reports.targetType, ["profile", "image"]), eq(reports.targetId, id))));
     await db.delete(profiles).where(eq(profiles.id, id));
   }
 
-  async listProfiles(filters?: { services?: string[], search?: string, locationTypes?: string[] }): Promise<(Profile & { services: Service[] })[]> {
-    // Fetch all profiles first, then filter in memory for more flexible search
-    // This allows us to search across services as well
-    const allProfiles = await db.select().from(profiles);
-    const result: (Profile & { services: Service[] })[] = [];
+  // Usernames of listed providers containing the term, those starting with it first
+  async suggestUsernames(term: string, limit: number, viewerId?: number): Promise<string[]> {
+    const conditions: SQL[] = [eq(profiles.role, 'provider'), eq(profiles.hidden, false), ilike(profiles.username, `%${term}%`)];
+    if (viewerId !== undefined) {
+      conditions.push(notExists(db.select({ id: blocks.id }).from(blocks).where(blockedBetweenSql(viewerId, profiles.id))));
+    }
+    const rows = await db.select({ username: profiles.username }).from(profiles).where(and(...conditions))
+      .orderBy(sql`${ilike(profiles.username, `${term}%`)} desc`, profiles.username)
+      .limit(limit);
+    return rows.map(r => r.username);
+  }
 
-    for (const p of allProfiles) {
-      // Only include providers in the directory listing
-      if (p.role !== 'provider') {
-        continue;
-      }
-      
-      const pServices = await db.select().from(services).where(eq(services.providerId, p.id));
-      
-      // Apply search filter - search in username, bio, location, service names, and service descriptions
-      if (filters?.search) {
-        const searchLower = filters.search.toLowerCase();
-        const matchesUsername = p.username?.toLowerCase().includes(searchLower);
-        const matchesBio = p.bio?.toLowerCase().includes(searchLower);
-        const matchesLocation = p.location?.toLowerCase().includes(searchLower);
-        const matchesServiceName = pServices.some(s => s.name.toLowerCase().includes(searchLower));
-        const matchesServiceDesc = pServices.some(s => s.description?.toLowerCase().includes(searchLower));
-        
-        if (!matchesUsername && !matchesBio && !matchesLocation && !matchesServiceName && !matchesServiceDesc) {
-          continue;
-        }
-      }
-      
-      // Apply service category filter - match ANY of the selected services
-      if (filters?.services && filters.services.length > 0) {
-        const matchesAnyService = filters.services.some(filterService => 
-          pServices.some(s => s.name.toLowerCase().includes(filterService.toLowerCase()))
-        );
-        if (!matchesAnyService) {
-          continue;
-        }
-      }
-      
-      // Apply location type filter - match ANY of the selected location types
-      if (filters?.locationTypes && filters.locationTypes.length > 0) {
-        if (!p.locationType || !filters.locationTypes.includes(p.locationType)) {
-          continue;
-        }
-      }
-      
-      result.push({ ...p, services: pServices });
+  async listProfiles(filters?: ProfileFilters): Promise<ProfileListing[]> {
+    // Only include providers in the directory listing
+    const conditions: SQL[] = [eq(profiles.role, 'provider'), eq(profiles.hidden, false)];
+
+    // Apply search filter - search in username, bio, location, service names, and service descriptions.
+    // Approximate locations are left out, or a search for a street address would confirm where someone lives
+    if (filters?.search) {
+      const pattern = `%${filters.search}%`;
+      conditions.push(or(
+        ilike(profiles.username, pattern),
+        ilike(profiles.bio, pattern),
+        and(ilike(profiles.location, pattern), sql`not coalesce(${approximateLocationSql(profiles.locationType)}, false)`),
+        exists(db.select({ id: services.id }).from(services).where(and(
+          eq(services.providerId, profiles.id),
+          or(ilike(services.name, pattern), ilike(services.description, pattern)),
+        ))),
+      )!);
+    }
+
+    // Apply service filters - offers a service in ANY of the selected categories that also fits the
+    // price and duration limits, e.g. "lashes under $80, under an hour", itself or as one of its variants
+    const serviceConditions: SQL[] = [];
+    if (filters?.categories && filters.categories.length > 0) {
+      serviceConditions.push(inArray(services.category, filters.categories));
+    }
+    const priceConditions = filters ? priceFilterSql(services, filters) : [];
+    if (priceConditions.length > 0) {
+      // A variant fits on its own price and length, falling back to the service's where it has none
+      const variantPrice: PriceSql = {
+        priceType: sql`case when ${serviceOptions.priceCents} is null then ${services.priceType} else 'fixed' end`,
+        priceCents: sql`coalesce(${serviceOptions.priceCents}, ${services.priceCents})`,
+        priceMaxCents: sql`case when ${serviceOptions.priceCents} is null then ${services.priceMaxCents} end`,
+        duration: sql`coalesce(${serviceOptions.duration}, ${services.duration})`,
+      };
+      serviceConditions.push(or(
+        and(...priceConditions),
+        exists(db.select({ id: serviceOptions.id }).from(serviceOptions).where(and(
+          eq(serviceOptions.serviceId, services.id),
+          eq(serviceOptions.kind, "variant"),
+          ...priceFilterSql(variantPrice, filters!),
+        ))),
+      )!);
+    }
+    if (serviceConditions.length > 0) {
+      conditions.push(exists(db.select({ id: services.id }).from(services).where(and(
+        eq(services.providerId, profiles.id),
+        ...serviceConditions,
+      ))));
+    }
+
+    // The provider's other locations count as much as the one on their profile
+    const atOtherLocation = (condition: SQL) => exists(db.select({ id: providerLocations.id }).from(providerLocations)
+      .where(and(eq(providerLocations.providerId, profiles.id), condition)));
+
+    // Apply location type filter - match ANY of the selected location types, at any of their locations
+    if (filters?.locationTypes && filters.locationTypes.length > 0) {
+      conditions.push(or(
+        inArray(profiles.locationType, filters.locationTypes as NonNullable<Profile['locationType']>[]),
+        atOtherLocation(inArray(providerLocations.locationType, filters.locationTypes as ProviderLocation['locationType'][])),
+      )!);
+    }
+
+    // Map viewport
+    const publicLatitude = publicCoordinateSql(profiles.latitude, profiles.locationType);
+    const publicLongitude = publicCoordinateSql(profiles.longitude, profiles.locationType);
+    const locationLatitude = publicCoordinateSql(providerLocations.latitude, providerLocations.locationType);
+    const locationLongitude = publicCoordinateSql(providerLocations.longitude, providerLocations.locationType);
+    const { north, south, east, west } = filters ?? {};
+    if (north !== undefined && south !== undefined && east !== undefined && west !== undefined) {
+      const box = { north, south, east, west };
+      conditions.push(or(
+        and(
+          withinBoundingBoxSql(profiles.latitude, profiles.longitude, padForRoundingBox(box)),
+          withinBoundingBoxSql(publicLatitude, publicLongitude, box),
+        ),
+        atOtherLocation(and(
+          withinBoundingBoxSql(providerLocations.latitude, providerLocations.longitude, padForRoundingBox(box)),
+          withinBoundingBoxSql(locationLatitude, locationLongitude, box),
+        )!),
+      )!);
+    }
+
+    if (filters?.viewerId !== undefined) {
+      conditions.push(notExists(db.select({ id: blocks.id }).from(blocks).where(blockedBetweenSql(filters.viewerId, profiles.id))));
+    }
+
+    const hasPoint = filters?.lat !== undefined && filters?.lng !== undefined;
+    const baseDistance = hasPoint
+      ? distanceKmSql(publicLatitude, publicLongitude, filters.lat!, filters.lng!)
+      : sql<null>`null`;
+    const locationDistance = hasPoint
+      ? distanceKmSql(locationLatitude, locationLongitude, filters.lat!, filters.lng!)
+      : sql<null>`null`;
+    // To the nearest of their locations; least() skips the nulls of providers without coordinates or other locations
+    const distance = hasPoint
+      ? sql<number | null>`least(${baseDistance}, (select min(${locationDistance}) from ${providerLocations} where ${eq(providerLocations.providerId, profiles.id)}))`.mapWith(Number)
+      : sql<null>`null`;
+
+    // Mobile providers come to the client, so it's their service area that has to reach the point: within their
+    // travel radius, or in one of their suburbs or postcodes
+    const isMobile = eq(profiles.locationType, "mobile");
+    const locality = filters?.locality;
+    const inServiceAreaPlaces = locality
+      ? exists(db.select({ id: serviceAreaPlaces.id }).from(serviceAreaPlaces).where(and(
+        eq(serviceAreaPlaces.providerId, profiles.id),
+        eq(serviceAreaPlaces.postcode, locality.postcode),
+        or(isNull(serviceAreaPlaces.name), and(eq(serviceAreaPlaces.name, locality.name), eq(serviceAreaPlaces.state, locality.state))),
+      )))
+      : sql`false`;
+    const travelsToPoint = hasPoint
+      ? and(isMobile, or(sql`${baseDistance} <= ${profiles.travelRadiusKm}`, inServiceAreaPlaces))!
+      : sql`false`;
+
+    if (hasPoint && filters?.radius !== undefined) {
+      const radiusBox = padForRoundingBox(boundingBoxForRadius(filters.lat!, filters.lng!, filters.radius));
+      const withinRadius = and(
+        isNotNull(profiles.latitude),
+        isNotNull(profiles.longitude),
+        withinBoundingBoxSql(profiles.latitude, profiles.longitude, radiusBox),
+        sql`${baseDistance} <= ${filters.radius}`,
+      )!;
+      // Mobile providers who haven't set up a service area are still found by their base
+      const hasServiceArea = or(
+        isNotNull(profiles.travelRadiusKm),
+        exists(db.select({ id: serviceAreaPlaces.id }).from(serviceAreaPlaces).where(eq(serviceAreaPlaces.providerId, profiles.id))),
+      )!;
+      conditions.push(or(
+        and(or(isNull(profiles.locationType), ne(profiles.locationType, "mobile")), withinRadius),
+        atOtherLocation(and(
+          withinBoundingBoxSql(providerLocations.latitude, providerLocations.longitude, radiusBox),
+          sql`${locationDistance} <= ${filters.radius}`,
+        )!),
+        travelsToPoint,
+        and(isMobile, not(hasServiceArea), withinRadius),
+      )!);
+    }
+
+    const query = db.select({ profile: profiles, distance, travelsToClient: sql<boolean>`coalesce(${travelsToPoint}, false)` })
+      .from(profiles).where(and(...conditions)).$dynamic();
+    // Profiles without coordinates sort after everyone else
+    const ordered = hasPoint ? query.orderBy(sql`${distance} asc nulls last`) : query;
+    const rows = filters?.limit ? await ordered.limit(filters.limit) : await ordered;
+    if (rows.length === 0) return [];
+
+    const profileServices = await db.select().from(services)
+      .where(inArray(services.providerId, rows.map(r => r.profile.id)));
+    const servicesByProvider = new Map<number, Service[]>();
+    for (const service of profileServices) {
+      const list = servicesByProvider.get(service.providerId) ?? [];
+      list.push(service);
+      servicesByProvider.set(service.providerId, list);
     }
 
-    return result;
+    const portfolios = await db.select().from(portfolioImages)
+      .where(inArray(portfolioImages.providerId, rows.map(r => r.profile.id)))
+      .orderBy(asc(portfolioImages.position), asc(portfolioImages.id));
+    const portfolioByProvider = new Map<number, PortfolioImage[]>();
+    for (const image of portfolios) {
+      const list = portfolioByProvider.get(image.providerId) ?? [];
+      if (list.length < LISTING_PORTFOLIO_IMAGES) list.push(image);
+      portfolioByProvider.set(image.providerId, list);
+    }
+
+    const otherLocations = await db.select().from(providerLocations)
+      .where(inArray(providerLocations.providerId, rows.map(r => r.profile.id)))
+      .orderBy(asc(providerLocations.id));
+
+    const travelling = rows.filter(r => r.travelsToClient).map(r => r.profile.id);
+    const fees = travelling.length > 0
+      ? await db.select().from(travelFees).where(inArray(travelFees.providerId, travelling))
+      : [];
+
+    return rows.map(({ profile, distance, travelsToClient }) => {
+      const providerFees = fees.filter(fee => fee.providerId === profile.id);
+      return {
+        ...profile,
+        services: servicesByProvider.get(profile.id) ?? [],
+        portfolio: portfolioByProvider.get(profile.id) ?? [],
+        locations: otherLocations.filter(location => location.providerId === profile.id),
+        distance: distance ?? null,
+        travelsToClient,
+        travelFeeCents: travelsToClient && distance != null ? travelFeeForDistance(providerFees, distance) : null,
+      };
+    });
   }
 
-  async getServicesByProvider(providerId: number): Promise<Service[]> {
-    return await db.select().from(services).where(eq(services.providerId, providerId));
+  async getServicesByProvider(providerId: number): Promise<ServiceWithOptions[]> {
+    const providerServices = await db.select().from(services).where(eq(services.providerId, providerId)).orderBy(asc(services.id));
+    if (providerServices.length === 0) return [];
+
+    const ids = providerServices.map(s => s.id);
+    const options = await db.select().from(serviceOptions)
+      .where(inArray(serviceOptions.serviceId, ids))
+      .orderBy(asc(serviceOptions.position), asc(serviceOptions.id));
+    const items = await db.select().from(packageItems)
+      .where(inArray(packageItems.packageId, ids))
+      .orderBy(asc(packageItems.position), asc(packageItems.id));
+
+    return providerServices.map(service => ({
+      ...service,
+      options: options.filter(o => o.serviceId === service.id),
+      includedServiceIds: items.filter(i => i.packageId === service.id).map(i => i.serviceId),
+    }));
   }
 
   async getService(id: number): Promise<Service | undefined> {
@@ -161,6 +538,28 @@ export class DatabaseStorage implements IStorage {
     return service;
   }
 
+  async getServiceOptions(serviceId: number): Promise<ServiceOption[]> {
+    return await db.select().from(serviceOptions)
+      .where(eq(serviceOptions.serviceId, serviceId))
+      .orderBy(asc(serviceOptions.position), asc(serviceOptions.id));
+  }
+
+  // Options and package contents are saved in the order given
+  async replaceServiceOptions(serviceId: number, options: InsertServiceOption[], includedServiceIds: number[]): Promise<ServiceWithOptions> {
+    return await db.transaction(async (tx) => {
+      const [service] = await tx.select().from(services).where(eq(services.id, serviceId));
+      await tx.delete(serviceOptions).where(eq(serviceOptions.serviceId, serviceId));
+      await tx.delete(packageItems).where(eq(packageItems.packageId, serviceId));
+      const savedOptions = options.length === 0 ? [] : await tx.insert(serviceOptions)
+        .values(options.map((option, position) => ({ ...option, serviceId, position })))
+        .returning();
+      if (includedServiceIds.length > 0) {
+        await tx.insert(packageItems).values(includedServiceIds.map((id, position) => ({ packageId: serviceId, serviceId: id, position })));
+      }
+      return { ...service, options: savedOptions, includedServiceIds };
+    });
+  }
+
   async getServiceByNameAndProvider(name: string, providerId: number): Promise<Service | undefined> {
     const [service] = await db.select().from(services).where(and(eq(services.name, name), eq(services.providerId, providerId)));
     return service;
@@ -177,26 +576,149 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteService(id: number): Promise<void> {
+    // Portfolio photos tagged with the service stay, just untagged
+    await db.update(portfolioImages).set({ serviceId: null }).where(eq(portfolioImages.serviceId, id));
+    // Packages that included it keep their other services
+    await db.delete(packageItems).where(or(eq(packageItems.packageId, id), eq(packageItems.serviceId, id)));
+    await db.delete(serviceOptions).where(eq(serviceOptions.serviceId, id));
     await db.delete(services).where(eq(services.id, id));
   }
 
-  async createReview(review: InsertReview & { clientId: number }): Promise<Review> {
-    const [newReview] = await db.insert(reviews).values(review).returning();
-    
-    // Update provider rating
-    const providerReviews = await this.getReviewsByProvider(review.providerId);
-    const avgRating = providerReviews.reduce((sum, r) => sum + r.rating, 0) / providerReviews.length;
-    
-    await this.updateProfile(review.providerId, {
-        rating: avgRating,
-        reviewCount: providerReviews.length
+  async getPortfolio(providerId: number): Promise<PortfolioImage[]> {
+    return await db.select().from(portfolioImages)
+      .where(eq(portfolioImages.providerId, providerId))
+      .orderBy(asc(portfolioImages.position), asc(portfolioImages.id));
+  }
+
+  async getPortfolioImage(id: number): Promise<PortfolioImage | undefined> {
+    const [image] = await db.select().from(portfolioImages).where(eq(portfolioImages.id, id));
+    return image;
+  }
+
+  // New images go to the end of the portfolio
+  async createPortfolioImage(image: InsertPortfolioImage & { providerId: number }): Promise<PortfolioImage> {
+    const [created] = await db.insert(portfolioImages).values({
+      ...image,
+      position: sql`(select coalesce(max(${portfolioImages.position}), -1) + 1 from ${portfolioImages} where ${portfolioImages.providerId} = ${image.providerId})`,
+    }).returning();
+    return created;
+  }
+
+  async updatePortfolioImage(id: number, updates: Partial<InsertPortfolioImage>): Promise<PortfolioImage> {
+    const [updated] = await db.update(portfolioImages).set(updates).where(eq(portfolioImages.id, id)).returning();
+    return updated;
+  }
+
+  // `ids` must list every image in the provider's portfolio, in the new order
+  async reorderPortfolio(providerId: number, ids: number[]): Promise<PortfolioImage[]> {
+    await db.transaction(async (tx) => {
+      for (let position = 0; position < ids.length; position++) {
+        await tx.update(portfolioImages).set({ position })
+          .where(and(eq(portfolioImages.id, ids[position]), eq(portfolioImages.providerId, providerId)));
+      }
     });
+    return this.getPortfolio(providerId);
+  }
+
+  async deletePortfolioImage(id: number): Promise<void> {
+    await db.delete(portfolioImages).where(eq(portfolioImages.id, id));
+  }
 
+  async createReview(review: InsertReview & { clientId: number; verifiedVia?: Review["verifiedVia"] }): Promise<Review> {
+    const [newReview] = await db.insert(reviews).values(review).returning();
+    await this.refreshProviderRating(review.providerId);
     return newReview;
   }
 
-  async getReviewsByProvider(providerId: number): Promise<Review[]> {
-    return await db.select().from(reviews).where(eq(reviews.providerId, providerId)).orderBy(desc(reviews.createdAt));
+  // The previous version is kept in review_edits before the review is overwritten
+  async updateReview(id: number, updates: Omit<InsertReview, "providerId" | "clientId"> & { verifiedVia?: Review["verifiedVia"] }): Promise<Review> {
+    const updated = await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(reviews).where(eq(reviews.id, id)).for("update");
+      await tx.insert(reviewEdits).values({
+        reviewId: id,
+        displayName: current.displayName,
+        rating: current.rating,
+        qualityRating: current.qualityRating,
+        punctualityRating: current.punctualityRating,
+        hygieneRating: current.hygieneRating,
+        valueRating: current.valueRating,
+        comment: current.comment,
+        editedAt: current.updatedAt ?? current.createdAt,
+      });
+      const [row] = await tx.update(reviews).set({ ...updates, updatedAt: new Date() }).where(eq(reviews.id, id)).returning();
+      return row;
+    });
+    await this.refreshProviderRating(updated.providerId);
+    return updated;
+  }
+
+  async getReviewEdits(reviewId: number): Promise<ReviewEdit[]> {
+    return await db.select().from(reviewEdits).where(eq(reviewEdits.reviewId, reviewId)).orderBy(desc(reviewEdits.id));
+  }
+
+  // A completed booking is the strongest signal; otherwise fall back to a real back-and-forth conversation
+  async getReviewVerification(clientId: number, providerId: number): Promise<Review["verifiedVia"]> {
+    const [booking] = await db.select({ id: bookings.id }).from(bookings).where(and(
+      eq(bookings.clientId, clientId),
+      eq(bookings.providerId, providerId),
+      eq(bookings.status, "completed"),
+    )).limit(1);
+    if (booking) return "booking";
+
+    const [conversation] = await db.select({
+      fromClient: sql<number>`count(*) filter (where ${messages.senderId} = ${clientId})`.mapWith(Number),
+      fromProvider: sql<number>`count(*) filter (where ${messages.senderId} = ${providerId})`.mapWith(Number),
+    }).from(messages).where(or(
+      and(eq(messages.senderId, clientId), eq(messages.receiverId, providerId)),
+      and(eq(messages.senderId, providerId), eq(messages.receiverId, clientId)),
+    ));
+    const { fromClient, fromProvider } = conversation;
+    if (fromClient + fromProvider >= VERIFYING_CONVERSATION_MIN_MESSAGES
+      && fromClient >= VERIFYING_CONVERSATION_MIN_PER_SIDE
+      && fromProvider >= VERIFYING_CONVERSATION_MIN_PER_SIDE) {
+      return "conversation";
+    }
+    return null;
+  }
+
+  // Removes reviews written by or about a profile, then fixes the ratings of the providers it had reviewed
+  private async deleteReviewsInvolving(profileId: number): Promise<void> {
+    const involving = or(eq(reviews.providerId, profileId), eq(reviews.clientId, profileId));
+    const reviewedProviders = await db.selectDistinct({ providerId: reviews.providerId }).from(reviews).where(eq(reviews.clientId, profileId));
+    await db.delete(reviewEdits).where(inArray(reviewEdits.reviewId, db.select({ id: reviews.id }).from(reviews).where(involving)));
+    await db.delete(reviewPhotos).where(inArray(reviewPhotos.reviewId, db.select({ id: reviews.id }).from(reviews).where(involving)));
+    await db.delete(reviews).where(involving);
+    for (const { providerId } of reviewedProviders) {
+      if (providerId !== profileId) await this.refreshProviderRating(providerId);
+    }
+  }
+
+  // Recomputed in one statement from the visible reviews, so concurrent writes can't leave a stale average
+  private async refreshProviderRating(providerId: number): Promise<void> {
+    const visible = and(eq(reviews.providerId, providerId), eq(reviews.hidden, false));
+    await db.update(profiles).set({
+      rating: sql`coalesce((select avg(${reviews.rating}) from ${reviews} where ${visible}), 0)`,
+      reviewCount: sql`(select count(*) from ${reviews} where ${visible})`,
+    }).where(eq(profiles.id, providerId));
+  }
+
+  async getReviewsByProvider(providerId: number, options: { includeHiddenPhotos?: boolean } = {}): Promise<ReviewWithPhotos[]> {
+    const providerReviews = await db.select().from(reviews)
+      .where(and(eq(reviews.providerId, providerId), eq(reviews.hidden, false)))
+      .orderBy(desc(reviews.createdAt));
+    if (providerReviews.length === 0) return [];
+
+    const photos = await db.select().from(reviewPhotos)
+      .where(and(
+        inArray(reviewPhotos.reviewId, providerReviews.map(r => r.id)),
+        options.includeHiddenPhotos ? undefined : eq(reviewPhotos.hidden, false),
+      ))
+      .orderBy(asc(reviewPhotos.position), asc(reviewPhotos.id));
+    const photosByReview = new Map<number, ReviewPhoto[]>();
+    for (const photo of photos) {
+      photosByReview.set(photo.reviewId, [...(photosByReview.get(photo.reviewId) ?? []), photo]);
+    }
+    return providerReviews.map(review => ({ ...review, photos: photosByReview.get(review.id) ?? [] }));
   }
 
   async getReview(id: number): Promise<Review | undefined> {
@@ -214,55 +736,162 @@ export class DatabaseStorage implements IStorage {
   async deleteReview(id: number): Promise<void> {
     const review = await this.getReview(id);
     if (review) {
+      await db.delete(reviewEdits).where(eq(reviewEdits.reviewId, id));
+      await db.delete(reviewPhotos).where(eq(reviewPhotos.reviewId, id));
       await db.delete(reviews).where(eq(reviews.id, id));
-      // Recalculate provider rating
-      const providerReviews = await this.getReviewsByProvider(review.providerId);
-      const avgRating = providerReviews.length > 0 
-        ? providerReviews.reduce((sum, r) => sum + r.rating, 0) / providerReviews.length 
-        : 0;
-      await db.update(profiles).set({ 
-        rating: avgRating, 
-        reviewCount: providerReviews.length 
-      }).where(eq(profiles.id, review.providerId));
+      await this.refreshProviderRating(review.providerId);
     }
   }
 
-  async createMessage(message: InsertMessage & { senderId: number }): Promise<Message> {
-    const [newMessage] = await db.insert(messages).values(message).returning();
-    return newMessage;
+  async setReviewHidden(id: number, hidden: boolean): Promise<void> {
+    const [review] = await db.update(reviews).set({ hidden }).where(eq(reviews.id, id)).returning();
+    if (review) await this.refreshProviderRating(review.providerId);
+  }
+
+  // Passing null removes the reply; otherwise the first reply sets repliedAt and later ones count as edits
+  async setReviewReply(id: number, reply: string | null): Promise<Review> {
+    const now = new Date();
+    const [updated] = await db.update(reviews).set(reply === null
+      ? { reply: null, repliedAt: null, replyUpdatedAt: null }
+      : { reply, repliedAt: sql`coalesce(${reviews.repliedAt}, ${now})`, replyUpdatedAt: now }
+    ).where(eq(reviews.id, id)).returning();
+    return updated;
+  }
+
+  async getReviewPhotos(reviewId: number): Promise<ReviewPhoto[]> {
+    return await db.select().from(reviewPhotos)
+      .where(eq(reviewPhotos.reviewId, reviewId))
+      .orderBy(asc(reviewPhotos.position), asc(reviewPhotos.id));
+  }
+
+  // Replaces the reviewer's photos with `urls`, in order. Photos hidden by a moderator are
+  // left as they are, so removing and re-adding one can't bring it back.
+  async setReviewPhotos(reviewId: number, urls: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      const existing = await tx.select().from(reviewPhotos).where(eq(reviewPhotos.reviewId, reviewId));
+      const hiddenUrls = new Set(existing.filter(p => p.hidden).map(p => p.url));
+      const visible = existing.filter(p => !p.hidden);
+
+      const removed = visible.filter(p => !urls.includes(p.url)).map(p => p.id);
+      if (removed.length > 0) await tx.delete(reviewPhotos).where(inArray(reviewPhotos.id, removed));
+
+      const wanted = urls.filter(url => !hiddenUrls.has(url));
+      for (let position = 0; position < wanted.length; position++) {
+        const url = wanted[position];
+        const current = visible.find(p => p.url === url);
+        if (current) {
+          await tx.update(reviewPhotos).set({ position }).where(eq(reviewPhotos.id, current.id));
+        } else {
+          await tx.insert(reviewPhotos).values({ reviewId, url, position });
+        }
+      }
+    });
+  }
+
+  async getReviewPhoto(id: number): Promise<ReviewPhoto | undefined> {
+    const [photo] = await db.select().from(reviewPhotos).where(eq(reviewPhotos.id, id));
+    return photo;
+  }
+
+  async setReviewPhotoHidden(id: number, hidden: boolean, hiddenById: number): Promise<ReviewPhoto> {
+    const [updated] = await db.update(reviewPhotos)
+      .set({ hidden, hiddenById: hidden ? hiddenById : null })
+      .where(eq(reviewPhotos.id, id))
+      .returning();
+    return updated;
+  }
+
+
+  async createMessage(message: InsertMessage & { senderId: number }, attachments: InsertMessageAttachment[] = []): Promise<MessageWithAttachments> {
+    return await db.transaction(async (tx) => {
+      const [newMessage] = await tx.insert(messages).values(message).returning();
+      const newAttachments = attachments.length > 0
+        ? await tx.insert(messageAttachments).values(attachments.map(a => ({ ...a, messageId: newMessage.id }))).returning()
+        : [];
+      return { ...newMessage, attachments: newAttachments };
+    });
   }
 
-  async getMessages(userId1: number, userId2: number): Promise<Message[]> {
-    return await db.select().from(messages).where(
+  // Messages between two profiles, oldest first. With a limit, returns the newest
+  // `limit` messages older than the `before` message id.
+  async getMessages(userId1: number, userId2: number, options: { before?: number; limit?: number } = {}): Promise<MessageWithAttachments[]> {
+    const conditions: SQL[] = [
       or(
         and(eq(messages.senderId, userId1), eq(messages.receiverId, userId2)),
         and(eq(messages.senderId, userId2), eq(messages.receiverId, userId1))
-      )
-    ).orderBy(messages.createdAt);
-  }
-
-  async getConversations(userId: number): Promise<Message[]> {
-    // Return all messages for this user (sent and received)
-    // Frontend will group them into conversations
-    const sent = await db.select().from(messages).where(eq(messages.senderId, userId));
-    const received = await db.select().from(messages).where(eq(messages.receiverId, userId));
-    
-    return [...sent, ...received].sort((a, b) => 
-      new Date(a.createdAt!).getTime() - new Date(b.createdAt!).getTime()
-    );
+      )!,
+    ];
+    if (options.before) conditions.push(lt(messages.id, options.before));
+
+    const query = db.select().from(messages).where(and(...conditions)).orderBy(desc(messages.id));
+    const rows = options.limit ? await query.limit(options.limit) : await query;
+    if (rows.length === 0) return [];
+
+    const attachments = await db.select().from(messageAttachments)
+      .where(inArray(messageAttachments.messageId, rows.map(m => m.id)))
+      .orderBy(messageAttachments.id);
+    return rows.reverse().map(m => ({ ...m, attachments: attachments.filter(a => a.messageId === m.id) }));
+  }
+
+  // One row per counterpart with the latest message and how many of theirs are unread, newest first
+  async getConversations(userId: number): Promise<ConversationSummary[]> {
+    const counterpartId = sql<number>`case when ${messages.senderId} = ${userId} then ${messages.receiverId} else ${messages.senderId} end`;
+
+    const latest = await db
+      .selectDistinctOn([counterpartId], { counterpartId, message: messages })
+      .from(messages)
+      .where(and(
+        or(eq(messages.senderId, userId), eq(messages.receiverId, userId)),
+        sql`${messages.senderId} <> ${messages.receiverId}`,
+        notExists(db.select({ id: blocks.id }).from(blocks).where(blockedBetweenSql(userId, counterpartId)))
+      ))
+      .orderBy(counterpartId, desc(messages.id));
+    if (latest.length === 0) return [];
+
+    const counterpartIds = latest.map(row => row.counterpartId);
+    const unread = await db
+      .select({ senderId: messages.senderId, count: sql<number>`count(*)`.mapWith(Number) })
+      .from(messages)
+      .where(and(eq(messages.receiverId, userId), eq(messages.read, false), inArray(messages.senderId, counterpartIds)))
+      .groupBy(messages.senderId);
+    const counterparts = await db
+      .select({ id: profiles.id, username: profiles.username, profileImageUrl: profiles.profileImageUrl })
+      .from(profiles)
+      .where(inArray(profiles.id, counterpartIds));
+
+    const accepted = await db
+      .select({ clientId: acceptedConversations.clientId })
+      .from(acceptedConversations)
+      .where(and(eq(acceptedConversations.providerId, userId), inArray(acceptedConversations.clientId, counterpartIds)));
+
+    const unreadBySender = new Map(unread.map(row => [row.senderId, row.count]));
+    const profilesById = new Map(counterparts.map(p => [p.id, p]));
+    const acceptedIds = new Set(accepted.map(row => row.clientId));
+
+    return latest
+      .map(row => ({
+        counterpartId: row.counterpartId,
+        counterpart: profilesById.get(row.counterpartId) ?? null,
+        lastMessage: row.message,
+        unreadCount: unreadBySender.get(row.counterpartId) ?? 0,
+        accepted: acceptedIds.has(row.counterpartId),
+      }))
+      .sort((a, b) => b.lastMessage.id - a.lastMessage.id);
   }
 
   async deleteMessage(id: number): Promise<void> {
+    await db.delete(messageAttachments).where(eq(messageAttachments.messageId, id));
     await db.delete(messages).where(eq(messages.id, id));
   }
 
   async deleteConversation(userId1: number, userId2: number): Promise<void> {
-    await db.delete(messages).where(
-      or(
-        and(eq(messages.senderId, userId1), eq(messages.receiverId, userId2)),
-        and(eq(messages.senderId, userId2), eq(messages.receiverId, userId1))
-      )
+    const between = or(
+      and(eq(messages.senderId, userId1), eq(messages.receiverId, userId2)),
+      and(eq(messages.senderId, userId2), eq(messages.receiverId, userId1))
     );
+    await db.delete(messageAttachments).where(inArray(messageAttachments.messageId,
+      db.select({ id: messages.id }).from(messages).where(between)));
+    await db.delete(messages).where(between);
   }
 
   async getMessage(id: number): Promise<Message | undefined> {
@@ -270,6 +899,234 @@ export class DatabaseStorage implements IStorage {
     return message;
   }
 
+  async getMessageAttachment(id: number): Promise<MessageAttachment | undefined> {
+    const [attachment] = await db.select().from(messageAttachments).where(eq(messageAttachments.id, id));
+    return attachment;
+  }
+
+  async markMessagesRead(receiverId: number, senderId: number, upToId: number): Promise<void> {
+    await db.update(messages)
+      .set({ read: true })
+      .where(and(
+        eq(messages.receiverId, receiverId),
+        eq(messages.senderId, senderId),
+        lte(messages.id, upToId),
+        eq(messages.read, false)
+      ));
+  }
+
+  async getUnreadMessageCount(receiverId: number): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)`.mapWith(Number) })
+      .from(messages)
+      .where(and(
+        eq(messages.receiverId, receiverId),
+        eq(messages.read, false),
+        sql`${messages.senderId} <> ${messages.receiverId}`,
+        notExists(db.select({ id: blocks.id }).from(blocks).where(blockedBetweenSql(receiverId, messages.senderId)))
+      ));
+    return result?.count ?? 0;
+  }
+
+  async acceptConversation(providerId: number, clientId: number): Promise<void> {
+    await db.insert(acceptedConversations).values({ providerId, clientId }).onConflictDoNothing();
+  }
+
+  async withdrawConversationAcceptance(providerId: number, clientId: number): Promise<void> {
+    await db.delete(acceptedConversations)
+      .where(and(eq(acceptedConversations.providerId, providerId), eq(acceptedConversations.clientId, clientId)));
+  }
+
+  async createUpload(upload: Omit<Upload, "id" | "completedAt" | "createdAt">): Promise<Upload> {
+    const [newUpload] = await db.insert(uploads).values(upload).returning();
+    return newUpload;
+  }
+
+  async getUpload(id: number): Promise<Upload | undefined> {
+    const [upload] = await db.select().from(uploads).where(eq(uploads.id, id));
+    return upload;
+  }
+
+  async getUploadsByStorageKeys(storageKeys: string[]): Promise<Upload[]> {
+    if (storageKeys.length === 0) return [];
+    return db.select().from(uploads).where(inArray(uploads.storageKey, storageKeys));
+  }
+
+  // Spends the upload's token. Returns undefined if it was already used or has expired,
+  // so two racing requests can't both complete the same upload.
+  async completeUpload(id: number): Promise<Upload | undefined> {
+    const [upload] = await db.update(uploads)
+      .set({ completedAt: new Date() })
+      .where(and(eq(uploads.id, id), isNull(uploads.completedAt), gt(uploads.expiresAt, new Date())))
+      .returning();
+    return upload;
+  }
+
+  // Uploads that were never completed, or whose object no profile, portfolio, review photo or
+  // message attachment points to. Images are referenced by public URL, which ends in the filename.
+  async getOrphanedUploads(olderThan: Date, limit: number): Promise<Upload[]> {
+    const filename = sql`split_part(${uploads.storageKey}, '/', 2)`;
+    const endsWithFilename = (column: Column) => sql`right(${column}, length(${filename}) + 1) = '/' || ${filename}`;
+    const referenced = or(
+      and(eq(uploads.purpose, "image"), or(
+        exists(db.select({ id: profiles.id }).from(profiles).where(endsWithFilename(profiles.profileImageUrl))),
+        exists(db.select({ id: portfolioImages.id }).from(portfolioImages).where(endsWithFilename(portfolioImages.url))),
+        exists(db.select({ id: reviewPhotos.id }).from(reviewPhotos).where(endsWithFilename(reviewPhotos.url)))
+      )),
+      and(eq(uploads.purpose, "attachment"),
+        exists(db.select({ id: messageAttachments.id }).from(messageAttachments).where(eq(messageAttachments.storageKey, uploads.storageKey))))
+    );
+
+    return db.select().from(uploads)
+      .where(or(
+        and(isNull(uploads.completedAt), lt(uploads.expiresAt, olderThan)),
+        and(isNotNull(uploads.completedAt), lt(uploads.createdAt, olderThan), sql`NOT (${referenced})`)
+      ))
+      .orderBy(asc(uploads.id))
+      .limit(limit);
+  }
+
+  async deleteUpload(id: number): Promise<void> {
+    await db.delete(uploads).where(eq(uploads.id, id));
+  }
+
+  async createBooking(booking: InsertBooking): Promise<Booking> {
+    const [newBooking] = await db.insert(bookings).values(booking).returning();
+    return newBooking;
+  }
+
+  async getBooking(id: number): Promise<Booking | undefined> {
+    const [booking] = await db.select().from(bookings).where(eq(bookings.id, id));
+    return booking;
+  }
+
+  async getBookingsForProfile(profileId: number, as?: "provider" | "client"): Promise<BookingWithDetails[]> {
+    const profileSummary = { columns: { id: true, username: true, profileImageUrl: true } } as const;
+    return await db.query.bookings.findMany({
+      where: as === "provider" ? eq(bookings.providerId, profileId)
+        : as === "client" ? eq(bookings.clientId, profileId)
+        : or(eq(bookings.providerId, profileId), eq(bookings.clientId, profileId)),
+      with: { service: true, provider: profileSummary, client: profileSummary },
+      orderBy: [desc(bookings.startsAt)],
+    });
+  }
+
+  async updateBooking(id: number, updates: Partial<Booking>): Promise<Booking> {
+    const [updated] = await db.update(bookings).set({ ...updates, updatedAt: new Date() }).where(eq(bookings.id, id)).returning();
+    return updated;
+  }
+
+  async getActiveBookingsForProvider(providerId: number, from: Date, to: Date): Promise<Booking[]> {
+    // Pending requests hold their slot too, so two clients can't request the same time
+    return await db.select().from(bookings).where(and(
+      eq(bookings.providerId, providerId),
+      inArray(bookings.status, ["pending", "accepted"]),
+      lt(bookings.startsAt, to),
+      gt(bookings.endsAt, from),
+    ));
+  }
+
+  // A confirmed booking or an accepted conversation shows the provider is happy to share their address
+  async hasLocationAccess(clientId: number, providerId: number): Promise<boolean> {
+    const [booking] = await db.select({ id: bookings.id }).from(bookings).where(and(
+      eq(bookings.clientId, clientId),
+      eq(bookings.providerId, providerId),
+      inArray(bookings.status, ["accepted", "completed"]),
+    )).limit(1);
+    if (booking) return true;
+
+    const [accepted] = await db.select({ id: acceptedConversations.id }).from(acceptedConversations)
+      .where(and(eq(acceptedConversations.providerId, providerId), eq(acceptedConversations.clientId, clientId)))
+      .limit(1);
+    return !!accepted;
+  }
+
+  async getAvailabilityRules(providerId: number): Promise<AvailabilityRule[]> {
+    return await db.select().from(availabilityRules)
+      .where(eq(availabilityRules.providerId, providerId))
+      .orderBy(asc(availabilityRules.dayOfWeek), asc(availabilityRules.startTime));
+  }
+
+  async replaceAvailabilityRules(providerId: number, rules: InsertAvailabilityRule[]): Promise<AvailabilityRule[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(availabilityRules).where(eq(availabilityRules.providerId, providerId));
+      if (rules.length === 0) return [];
+      return await tx.insert(availabilityRules).values(rules.map(r => ({ ...r, providerId }))).returning();
+    });
+  }
+
+  async getProviderLocations(providerId: number): Promise<ProviderLocation[]> {
+    return await db.select().from(providerLocations).where(eq(providerLocations.providerId, providerId)).orderBy(asc(providerLocations.id));
+  }
+
+  async getProviderLocation(id: number): Promise<ProviderLocation | undefined> {
+    const [location] = await db.select().from(providerLocations).where(eq(providerLocations.id, id));
+    return location;
+  }
+
+  async createProviderLocation(location: InsertProviderLocation & { providerId: number; locationSuburb: string | null }): Promise<ProviderLocation> {
+    const [created] = await db.insert(providerLocations).values(location).returning();
+    return created;
+  }
+
+  async updateProviderLocation(id: number, updates: InsertProviderLocation & { locationSuburb: string | null }): Promise<ProviderLocation> {
+    const [updated] = await db.update(providerLocations).set(updates).where(eq(providerLocations.id, id)).returning();
+    return updated;
+  }
+
+  async deleteProviderLocation(id: number): Promise<void> {
+    await db.delete(providerLocations).where(eq(providerLocations.id, id));
+  }
+
+  async getServiceArea(providerId: number): Promise<ServiceArea> {
+    const [profile] = await db.select({ travelRadiusKm: profiles.travelRadiusKm }).from(profiles).where(eq(profiles.id, providerId));
+    const places = await db.select().from(serviceAreaPlaces)
+      .where(eq(serviceAreaPlaces.providerId, providerId))
+      .orderBy(asc(serviceAreaPlaces.postcode), asc(serviceAreaPlaces.name));
+    const fees = await db.select().from(travelFees).where(eq(travelFees.providerId, providerId)).orderBy(asc(travelFees.upToKm));
+    return {
+      travelRadiusKm: profile?.travelRadiusKm ?? null,
+      places: places.map(({ name, state, postcode }) => ({ name, state, postcode })),
+      travelFees: fees.map(({ upToKm, feeCents }) => ({ upToKm, feeCents })),
+    };
+  }
+
+  async replaceServiceArea(providerId: number, area: ServiceArea): Promise<ServiceArea> {
+    await db.transaction(async (tx) => {
+      await tx.update(profiles).set({ travelRadiusKm: area.travelRadiusKm }).where(eq(profiles.id, providerId));
+      await tx.delete(serviceAreaPlaces).where(eq(serviceAreaPlaces.providerId, providerId));
+      await tx.delete(travelFees).where(eq(travelFees.providerId, providerId));
+      if (area.places.length > 0) {
+        await tx.insert(serviceAreaPlaces).values(area.places.map(place => ({ ...place, providerId })));
+      }
+      if (area.travelFees.length > 0) {
+        await tx.insert(travelFees).values(area.travelFees.map(fee => ({ ...fee, providerId })));
+      }
+    });
+    return this.getServiceArea(providerId);
+  }
+
+  async getAvailabilityExceptions(providerId: number, from?: string, to?: string): Promise<AvailabilityException[]> {
+    const conditions: SQL[] = [eq(availabilityExceptions.providerId, providerId)];
+    if (from) conditions.push(gte(availabilityExceptions.date, from));
+    if (to) conditions.push(lte(availabilityExceptions.date, to));
+    return await db.select().from(availabilityExceptions).where(and(...conditions)).orderBy(asc(availabilityExceptions.date));
+  }
+
+  async getAvailabilityException(id: number): Promise<AvailabilityException | undefined> {
+    const [exception] = await db.select().from(availabilityExceptions).where(eq(availabilityExceptions.id, id));
+    return exception;
+  }
+
+  async createAvailabilityException(exception: InsertAvailabilityException & { providerId: number }): Promise<AvailabilityException> {
+    const [newException] = await db.insert(availabilityExceptions).values(exception).returning();
+    return newException;
+  }
+
+  async deleteAvailabilityException(id: number): Promise<void> {
+    await db.delete(availabilityExceptions).where(eq(availabilityExceptions.id, id));
+  }
+
   async getNotifications(profileId: number): Promise<Notification[]> {
     return await db.select().from(notifications)
       .where(eq(notifications.profileId, profileId))
@@ -290,6 +1147,156 @@ export class DatabaseStorage implements IStorage {
     await db.update(notifications).set({ read: true }).where(eq(notifications.id, id));
   }
 
+  // Pending requests between them are cancelled too, since neither side can accept or reschedule them now,
+  // and an accepted conversation no longer shares an address
+  async blockProfile(blockerId: number, blockedId: number): Promise<void> {
+    await db.insert(blocks).values({ blockerId, blockedId }).onConflictDoNothing();
+    await this.withdrawConversationAcceptance(blockerId, blockedId);
+    await this.withdrawConversationAcceptance(blockedId, blockerId);
+    await db.update(bookings).set({ status: "cancelled" }).where(and(
+      eq(bookings.status, "pending"),
+      or(
+        and(eq(bookings.providerId, blockerId), eq(bookings.clientId, blockedId)),
+        and(eq(bookings.providerId, blockedId), eq(bookings.clientId, blockerId)),
+      ),
+    ));
+  }
+
+  async unblockProfile(blockerId: number, blockedId: number): Promise<void> {
+    await db.delete(blocks).where(and(eq(blocks.blockerId, blockerId), eq(blocks.blockedId, blockedId)));
+  }
+
+  async getBlockedProfiles(blockerId: number): Promise<BlockedProfile[]> {
+    const rows = await db
+      .select({
+        block: blocks,
+        blocked: { id: profiles.id, username: profiles.username, profileImageUrl: profiles.profileImageUrl },
+      })
+      .from(blocks)
+      .leftJoin(profiles, eq(profiles.id, blocks.blockedId))
+      .where(eq(blocks.blockerId, blockerId))
+      .orderBy(desc(blocks.createdAt));
+    return rows.map(row => ({ ...row.block, blocked: row.blocked }));
+  }
+
+  // Profiles this one has blocked or been blocked by
+  async getBlockedProfileIds(profileId: number): Promise<number[]> {
+    const rows = await db.select().from(blocks).where(or(eq(blocks.blockerId, profileId), eq(blocks.blockedId, profileId)));
+    return rows.map(row => (row.blockerId === profileId ? row.blockedId : row.blockerId));
+  }
+
+  async isBlockedBetween(profileId1: number, profileId2: number): Promise<boolean> {
+    const [row] = await db.select({ id: blocks.id }).from(blocks).where(blockedBetweenSql(profileId1, profileId2)).limit(1);
+    return !!row;
+  }
+
+  async createReport(report: InsertReport & { reporterId: number; imageUrl?: string | null }): Promise<Report> {
+    const [newReport] = await db.insert(reports).values(report).returning();
+    return newReport;
+  }
+
+  async getReport(id: number): Promise<Report | undefined> {
+    const [report] = await db.select().from(reports).where(eq(reports.id, id));
+    return report;
+  }
+
+  async getReports(status?: Report["status"]): Promise<ReportWithDetails[]> {
+    const rows = await db.select().from(reports)
+      .where(status ? eq(reports.status, status) : undefined)
+      .orderBy(desc(reports.createdAt));
+    if (rows.length === 0) return [];
+
+    const messageIds = rows.filter(r => r.targetType === "message").map(r => r.targetId);
+    const reportedMessages = messageIds.length > 0
+      ? await db.select({
+          id: messages.id,
+          content: messages.content,
+          senderId: messages.senderId,
+          receiverId: messages.receiverId,
+          createdAt: messages.createdAt,
+        }).from(messages).where(inArray(messages.id, messageIds))
+      : [];
+    const messagesById = new Map(reportedMessages.map(m => [m.id, m]));
+
+    const reviewIds = rows.filter(r => r.targetType === "review").map(r => r.targetId);
+    const reportedReviews = reviewIds.length > 0
+      ? await db.select({
+          id: reviews.id,
+          providerId: reviews.providerId,
+          clientId: reviews.clientId,
+          rating: reviews.rating,
+          comment: reviews.comment,
+          hidden: reviews.hidden,
+          createdAt: reviews.createdAt,
+        }).from(reviews).where(inArray(reviews.id, reviewIds))
+      : [];
+    const reviewsById = new Map(reportedReviews.map(r => [r.id, r]));
+
+    const decisionIds = rows.map(r => r.decisionId).filter((id): id is number => id !== null);
+    const decisions = decisionIds.length > 0
+      ? await db.select().from(moderationDecisions).where(inArray(moderationDecisions.id, decisionIds))
+      : [];
+    const decisionsById = new Map(decisions.map(d => [d.id, d]));
+
+    const subjectIdFor = (report: Report) => {
+      switch (report.targetType) {
+        case "message": return messagesById.get(report.targetId)?.senderId;
+        case "review": return reviewsById.get(report.targetId)?.clientId;
+        default: return report.targetId;
+      }
+    };
+    const profileIds = Array.from(new Set(rows.flatMap(r => [r.reporterId, subjectIdFor(r)]).filter((id): id is number => id !== undefined)));
+    const relatedProfiles = await db
+      .select({ id: profiles.id, username: profiles.username, profileImageUrl: profiles.profileImageUrl })
+      .from(profiles)
+      .where(inArray(profiles.id, profileIds));
+    const profilesById = new Map(relatedProfiles.map(p => [p.id, p]));
+
+    return rows.map(report => {
+      const reporter = profilesById.get(report.reporterId);
+      const subjectId = subjectIdFor(report);
+      return {
+        ...report,
+        reporter: reporter ? { id: reporter.id, username: reporter.username } : null,
+        subject: subjectId !== undefined ? profilesById.get(subjectId) ?? null : null,
+        message: report.targetType === "message" ? messagesById.get(report.targetId) ?? null : null,
+        review: report.targetType === "review" ? reviewsById.get(report.targetId) ?? null : null,
+        decision: report.decisionId !== null ? decisionsById.get(report.decisionId) ?? null : null,
+      };
+    });
+  }
+
+  async updateReport(id: number, updates: Partial<Report>): Promise<Report> {
+    const [updated] = await db.update(reports).set(updates).where(eq(reports.id, id)).returning();
+    return updated;
+  }
+
+  // For image reports, imageUrl narrows them to reports of that one picture
+  async getPendingReportsForTarget(targetType: Report["targetType"], targetId: number, imageUrl?: string | null): Promise<Report[]> {
+    return await db.select().from(reports).where(and(
+      eq(reports.targetType, targetType),
+      eq(reports.targetId, targetId),
+      eq(reports.status, "pending"),
+      imageUrl === undefined ? undefined : imageUrl === null ? isNull(reports.imageUrl) : eq(reports.imageUrl, imageUrl),
+    ));
+  }
+
+  async recordModerationDecision(decision: Omit<ModerationDecision, "id" | "createdAt">, reportIds: number[]): Promise<ModerationDecision> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(moderationDecisions).values(decision).returning();
+      if (reportIds.length > 0) {
+        await tx.update(reports).set({
+          // Approving leaves the content up, so the reports were unfounded
+          status: decision.action === "approve" ? "dismissed" : "resolved",
+          resolvedAt: new Date(),
+          resolvedById: decision.adminId,
+          decisionId: created.id,
+        }).where(inArray(reports.id, reportIds));
+      }
+      return created;
+    });
+  }
+
   async deleteNotification(id: number): Promise<void> {
     await db.delete(notifications).where(eq(notifications.id, id));
   }
@@ -341,10 +1348,24 @@ export class DatabaseStorage implements IStorage {
 
   async adminDeleteProfile(id: number): Promise<void> {
     // Delete all related data
+    const providerServiceIds = db.select({ id: services.id }).from(services).where(eq(services.providerId, id));
+    await db.delete(serviceOptions).where(inArray(serviceOptions.serviceId, providerServiceIds));
+    await db.delete(packageItems).where(inArray(packageItems.packageId, providerServiceIds));
     await db.delete(services).where(eq(services.providerId, id));
-    await db.delete(reviews).where(or(eq(reviews.providerId, id), eq(reviews.clientId, id)));
+    await db.delete(portfolioImages).where(eq(portfolioImages.providerId, id));
+    await this.deleteReviewsInvolving(id);
+    await db.delete(messageAttachments).where(inArray(messageAttachments.messageId,
+      db.select({ id: messages.id }).from(messages).where(or(eq(messages.senderId, id), eq(messages.receiverId, id)))));
     await db.delete(messages).where(or(eq(messages.senderId, id), eq(messages.receiverId, id)));
     await db.delete(notifications).where(eq(notifications.profileId, id));
+    await db.delete(bookings).where(or(eq(bookings.providerId, id), eq(bookings.clientId, id)));
+    await db.delete(availabilityRules).where(eq(availabilityRules.providerId, id));
+    await db.delete(availabilityExceptions).where(eq(availabilityExceptions.providerId, id));
+    await db.delete(providerLocations).where(eq(providerLocations.providerId, id));
+    await db.delete(serviceAreaPlaces).where(eq(serviceAreaPlaces.providerId, id));
+    await db.delete(travelFees).where(eq(travelFees.providerId, id));
+    await db.delete(blocks).where(or(eq(blocks.blockerId, id), eq(blocks.blockedId, id)));
+    await db.delete(reports).where(or(eq(reports.reporterId, id), and(inArray(reports.targetType, ["profile", "image"]), eq(reports.targetId, id))));
     await db.delete(profiles).where(eq(profiles.id, id));
   }
 
@@ -356,6 +1377,38 @@ export class DatabaseStorage implements IStorage {
     const result = await db.select({ count: sql<number>`count(*)` }).from(pageVisits);
     return result[0]?.count ?? 0;
   }
+
+  async getLocalities(): Promise<Locality[]> {
+    return await db.select().from(localities).orderBy(asc(localities.id));
+  }
+
+  async replaceLocalities(rows: Omit<Locality, "id">[]): Promise<number> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(localities);
+      // A full Australian postcode list has thousands of rows, more than one insert's worth of bind parameters
+      for (let i = 0; i < rows.length; i += LOCALITY_INSERT_BATCH_SIZE) {
+        await tx.insert(localities).values(rows.slice(i, i + LOCALITY_INSERT_BATCH_SIZE));
+      }
+      return rows.length;
+    });
+  }
+
+  async getGeocodeCacheEntry(kind: GeocodeCacheEntry["kind"], query: string): Promise<GeocodeCacheEntry | undefined> {
+    const [entry] = await db.select().from(geocodeCache).where(and(eq(geocodeCache.kind, kind), eq(geocodeCache.query, query)));
+    return entry;
+  }
+
+  async saveGeocodeCacheEntry(entry: Omit<GeocodeCacheEntry, "id" | "createdAt">): Promise<void> {
+    await db.insert(geocodeCache).values(entry).onConflictDoUpdate({
+      target: [geocodeCache.kind, geocodeCache.query],
+      set: { provider: entry.provider, results: entry.results, createdAt: new Date() },
+    });
+  }
+
+  async deleteGeocodeCacheEntriesBefore(before: Date): Promise<number> {
+    const deleted = await db.delete(geocodeCache).where(lt(geocodeCache.createdAt, before)).returning({ id: geocodeCache.id });
+    return deleted.length;
+  }
 }
 
 export const storage = new DatabaseStorage();
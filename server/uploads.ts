@@ -0,0 +1,65 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { storage } from "./storage";
+import type { Upload } from "@shared/schema";
+
+// Tokens only need to survive a single upload, so a per-process secret is fine when none is configured
+const UPLOAD_TOKEN_SECRET = process.env.UPLOAD_TOKEN_SECRET || randomBytes(32).toString("hex");
+export const UPLOAD_TOKEN_TTL_MS = 15 * 60 * 1000;
+
+// Completed uploads get this long to be attached to a profile, review or message before they're
+// treated as orphaned, e.g. a new profile photo that was never saved
+const ORPHAN_GRACE_MS = 24 * 60 * 60 * 1000;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+const CLEANUP_BATCH_SIZE = 100;
+
+function sign(payload: string) {
+  return createHmac("sha256", UPLOAD_TOKEN_SECRET).update(payload).digest("base64url");
+}
+
+// "<upload id>.<expiry ms>.<signature>", with the signature also covering the storage key
+export function createUploadToken(upload: Upload) {
+  const payload = `${upload.id}.${upload.expiresAt.getTime()}`;
+  return `${payload}.${sign(`${payload}.${upload.storageKey}`)}`;
+}
+
+// Returns the upload id when the token was issued for this storage key and hasn't expired.
+// Whether it has already been used is checked against the upload's row.
+export function verifyUploadToken(token: unknown, storageKey: string): number | null {
+  if (typeof token !== "string") return null;
+  const [id, expiresAt, signature] = token.split(".");
+  if (!id || !expiresAt || !signature) return null;
+
+  const expected = Buffer.from(sign(`${id}.${expiresAt}.${storageKey}`));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+  if (Number(expiresAt) < Date.now()) return null;
+  return Number(id);
+}
+
+// Periodically deletes stored objects that nothing references: uploads whose token expired unused,
+// and completed uploads no longer pointed to by a profile, portfolio, review or message.
+// removeObject deletes the upload's files from whichever storage backend is in use.
+export function startUploadCleanup(removeObject: (upload: Upload) => Promise<void>) {
+  let running = false;
+
+  const cleanup = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const orphans = await storage.getOrphanedUploads(new Date(Date.now() - ORPHAN_GRACE_MS), CLEANUP_BATCH_SIZE);
+      for (const upload of orphans) {
+        await removeObject(upload);
+        await storage.deleteUpload(upload.id);
+      }
+      if (orphans.length > 0) console.log(`Upload cleanup removed ${orphans.length} orphaned upload(s)`);
+    } catch (error) {
+      console.error("Upload cleanup error:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(cleanup, CLEANUP_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
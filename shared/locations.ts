@@ -0,0 +1,83 @@
+// Australian states and territories, and how suburbs from the gazetteer are written
+
+export const australianStates = {
+  NSW: "New South Wales",
+  VIC: "Victoria",
+  QLD: "Queensland",
+  WA: "Western Australia",
+  SA: "South Australia",
+  TAS: "Tasmania",
+  ACT: "Australian Capital Territory",
+  NT: "Northern Territory",
+} as const;
+
+export type AustralianState = keyof typeof australianStates;
+export const australianStateCodes = Object.keys(australianStates) as [AustralianState, ...AustralianState[]];
+
+// Each state's IANA timezone, which providers' working hours are kept in
+export const stateTimezones: Record<AustralianState, string> = {
+  NSW: "Australia/Sydney",
+  VIC: "Australia/Melbourne",
+  QLD: "Australia/Brisbane",
+  WA: "Australia/Perth",
+  SA: "Australia/Adelaide",
+  TAS: "Australia/Hobart",
+  ACT: "Australia/Sydney",
+  NT: "Australia/Darwin",
+};
+
+export interface LocalityName {
+  name: string;
+  state: AustralianState;
+  postcode: string;
+}
+
+// "Richmond, VIC 3121"
+export function formatLocality({ name, state, postcode }: LocalityName) {
+  return `${name}, ${state} ${postcode}`;
+}
+
+// A place returned by the geocoder: a street address or a suburb. Suburb, state and postcode are
+// filled in when the provider knows them.
+export interface GeocodeResult {
+  label: string;
+  suburb: string | null;
+  state: AustralianState | null;
+  postcode: string | null;
+  latitude: number;
+  longitude: number;
+}
+
+// "Victoria" -> "VIC"; null for anything that isn't an Australian state or territory
+export function stateFromName(name: string | null | undefined): AustralianState | null {
+  if (!name) return null;
+  const upper = name.trim().toUpperCase();
+  return australianStateCodes.find((code) => code === upper || australianStates[code].toUpperCase() === upper) ?? null;
+}
+
+// Providers working from where they live are shown on the map as an area rather than a pin, unless they opt out.
+// Coordinates are snapped to a grid of this many decimal places (about 1km), and the area drawn is a circle
+// wide enough to cover any point of the grid cell around it.
+export const privateLocationTypes = ["house", "apartment"] as const;
+export const APPROXIMATE_LOCATION_DECIMALS = 2;
+export const APPROXIMATE_LOCATION_RADIUS_M = 800;
+
+export function isPrivateLocationType(locationType: string | null | undefined) {
+  return (privateLocationTypes as readonly string[]).includes(locationType ?? "");
+}
+
+// A suburb or whole postcode in a mobile provider's service area: "Newtown, NSW 2042" or "NSW 2042"
+export function formatServiceAreaPlace({ name, state, postcode }: { name?: string | null; state: AustralianState; postcode: string }) {
+  return name ? formatLocality({ name, state, postcode }) : `${state} ${postcode}`;
+}
+
+export interface TravelFeeTier {
+  upToKm: number;
+  feeCents: number;
+}
+
+// The fee for travelling distanceKm: the nearest tier that reaches it, or null when none does
+export function travelFeeForDistance(fees: TravelFeeTier[], distanceKm: number): number | null {
+  const tier = [...fees].sort((a, b) => a.upToKm - b.upToKm).find((fee) => distanceKm <= fee.upToKm);
+  return tier ? tier.feeCents : null;
+}
@@ -0,0 +1,19 @@
+// Optional per-aspect scores a reviewer can give alongside the overall rating
+export const subRatingKeys = ["qualityRating", "punctualityRating", "hygieneRating", "valueRating"] as const;
+export type SubRatingKey = typeof subRatingKeys[number];
+
+export const subRatingLabels: Record<SubRatingKey, string> = {
+  qualityRating: "Quality",
+  punctualityRating: "Punctuality",
+  hygieneRating: "Hygiene",
+  valueRating: "Value",
+};
+
+// Every provider starts as if they had PRIOR_WEIGHT reviews at PRIOR_MEAN stars, so a
+// single 5-star review can't outrank a long record of 4.8s
+const PRIOR_MEAN = 3.5;
+const PRIOR_WEIGHT = 5;
+
+export function bayesianRating(rating: number, reviewCount: number): number {
+  return (PRIOR_MEAN * PRIOR_WEIGHT + rating * reviewCount) / (PRIOR_WEIGHT + reviewCount);
+}
@@ -0,0 +1,18 @@
+import { z } from "zod";
+import type { MessageWithAttachments, Notification } from "./schema";
+
+export const REALTIME_PATH = "/ws";
+
+// Events the browser may send over the socket
+export const clientEventSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("typing"), to: z.number().int() }),
+]);
+export type ClientEvent = z.infer<typeof clientEventSchema>;
+
+// Events the server pushes to connected profiles
+export type ServerEvent =
+  | { type: "message"; message: MessageWithAttachments }
+  | { type: "notification"; notification: Notification }
+  | { type: "typing"; from: number }
+  // `by` has read every message from the recipient up to upToId
+  | { type: "read"; by: number; upToId: number };
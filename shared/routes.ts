@@ -1,5 +1,7 @@
 import { z } from 'zod';
-import { insertProfileSchema, insertServiceSchema, insertReviewSchema, insertMessageSchema, profiles, services, reviews, messages, notifications } from './schema';
+import { insertProfileSchema, serviceWithOptionsSchema, insertPortfolioImageSchema, insertReviewSchema, reviewReplySchema, insertMessageSchema, insertMessageAttachmentSchema, MAX_MESSAGE_ATTACHMENTS, MAX_REVIEW_PHOTOS, insertReportSchema, insertAvailabilityRuleSchema, insertAvailabilityExceptionSchema, insertProviderLocationSchema, serviceAreaSchema, profiles, providerLocations, services, reviews, notifications, bookings, availabilityRules, availabilityExceptions, type BookingWithDetails, type ConversationSummary, type MessageWithAttachments, type BlockedProfile, type Report, type ReviewEdit, type ReviewWithPhotos, type ReviewPhoto, type PortfolioImage, type ServiceWithOptions, type Locality, type ServiceArea, type PublicProviderLocation } from './schema';
+import { serviceCategories } from './services';
+import { australianStateCodes, type GeocodeResult } from './locations';
 
 export const errorSchemas = {
   validation: z.object({
@@ -12,6 +14,9 @@ export const errorSchemas = {
   unauthorized: z.object({
     message: z.string(),
   }),
+  rateLimited: z.object({
+    message: z.string(),
+  }),
 };
 
 export const api = {
@@ -20,10 +25,14 @@ export const api = {
       method: 'GET' as const,
       path: '/api/profiles',
       input: z.object({
-        services: z.union([z.string(), z.array(z.string())]).optional().transform(val => {
+        categories: z.union([z.enum(serviceCategories), z.array(z.enum(serviceCategories))]).optional().transform(val => {
           if (!val) return undefined;
           return Array.isArray(val) ? val : [val];
         }),
+        // Prices in cents and duration in minutes; a provider needs one service meeting every service filter
+        minPriceCents: z.coerce.number().int().nonnegative().optional(),
+        maxPriceCents: z.coerce.number().int().nonnegative().optional(),
+        maxDuration: z.coerce.number().int().positive().optional(),
         locationTypes: z.union([z.string(), z.array(z.string())]).optional().transform(val => {
           if (!val) return undefined;
           return Array.isArray(val) ? val : [val];
@@ -31,17 +40,37 @@ export const api = {
         search: z.string().optional(),
         lat: z.coerce.number().optional(),
         lng: z.coerce.number().optional(),
-        radius: z.coerce.number().optional(), // km
+        radius: z.coerce.number().positive().optional(), // km
+        // Map viewport bounding box
+        north: z.coerce.number().optional(),
+        south: z.coerce.number().optional(),
+        east: z.coerce.number().optional(),
+        west: z.coerce.number().optional(),
+        limit: z.coerce.number().int().positive().max(100).optional(),
       }).optional(),
       responses: {
-        200: z.array(z.custom<typeof profiles.$inferSelect & { services: typeof services.$inferSelect[] }>()),
+        // distance is in km from lat/lng, or null when no point was given
+        // portfolio holds the first few images, for the directory card's thumbnail strip
+        // locationApproximate marks home-based providers shown by area, whose coordinates are the area's centre
+        // travelsToClient marks mobile providers whose service area covers lat/lng, with their fee for getting there
+        // locations are the provider's other places of work; distance is to the nearest of all of them
+        200: z.array(z.custom<typeof profiles.$inferSelect & { services: typeof services.$inferSelect[], portfolio: PortfolioImage[], locations: PublicProviderLocation[], distance: number | null, locationApproximate: boolean, travelsToClient: boolean, travelFeeCents: number | null }>()),
+      },
+    },
+    // Usernames for the directory search box's suggestions
+    suggestions: {
+      method: 'GET' as const,
+      path: '/api/profiles/suggestions',
+      input: z.object({ q: z.string().trim().min(1).max(50) }),
+      responses: {
+        200: z.array(z.string()),
       },
     },
     get: {
       method: 'GET' as const,
       path: '/api/profiles/:id',
       responses: {
-        200: z.custom<typeof profiles.$inferSelect & { services: typeof services.$inferSelect[], reviews: typeof reviews.$inferSelect[] }>(),
+        200: z.custom<typeof profiles.$inferSelect & { services: ServiceWithOptions[], portfolio: PortfolioImage[], locations: PublicProviderLocation[], reviews: ReviewWithPhotos[], locationApproximate: boolean }>(),
         404: errorSchemas.notFound,
       },
     },
@@ -49,7 +78,7 @@ export const api = {
       method: 'GET' as const,
       path: '/api/profiles/username/:username',
       responses: {
-        200: z.custom<typeof profiles.$inferSelect & { services: typeof services.$inferSelect[], reviews: typeof reviews.$inferSelect[] }>(),
+        200: z.custom<typeof profiles.$inferSelect & { services: ServiceWithOptions[], portfolio: PortfolioImage[], locations: PublicProviderLocation[], reviews: ReviewWithPhotos[], locationApproximate: boolean }>(),
         404: errorSchemas.notFound,
       },
     },
@@ -57,7 +86,7 @@ export const api = {
       method: 'GET' as const,
       path: '/api/profiles/me',
       responses: {
-        200: z.custom<typeof profiles.$inferSelect>(),
+        200: z.custom<typeof profiles.$inferSelect & { services: ServiceWithOptions[], portfolio: PortfolioImage[], locations: typeof providerLocations.$inferSelect[] }>(),
         404: errorSchemas.notFound,
       },
     },
@@ -113,19 +142,31 @@ export const api = {
         path: '/api/services',
         input: z.object({ providerId: z.coerce.number() }),
         responses: {
-            200: z.array(z.custom<typeof services.$inferSelect>())
+            200: z.array(z.custom<ServiceWithOptions>())
         }
     },
     create: {
       method: 'POST' as const,
       path: '/api/services',
-      input: insertServiceSchema,
+      input: serviceWithOptionsSchema,
       responses: {
-        201: z.custom<typeof services.$inferSelect>(),
+        201: z.custom<ServiceWithOptions>(),
         401: errorSchemas.unauthorized,
         409: z.object({ message: z.string() }),
       },
     },
+    // Replaces every field of one of the provider's own services, including its options
+    update: {
+      method: 'PUT' as const,
+      path: '/api/services/:id',
+      input: serviceWithOptionsSchema,
+      responses: {
+        200: z.custom<ServiceWithOptions>(),
+        401: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+        409: z.object({ message: z.string() }),
+      },
+    },
     delete: {
       method: 'DELETE' as const,
       path: '/api/services/:id',
@@ -135,21 +176,85 @@ export const api = {
       },
     },
   },
+  portfolio: {
+    create: {
+      method: 'POST' as const,
+      path: '/api/portfolio',
+      input: insertPortfolioImageSchema,
+      responses: {
+        201: z.custom<PortfolioImage>(),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+      },
+    },
+    update: {
+      method: 'PUT' as const,
+      path: '/api/portfolio/:id',
+      input: insertPortfolioImageSchema.omit({ url: true }).partial(),
+      responses: {
+        200: z.custom<PortfolioImage>(),
+        401: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    reorder: {
+      method: 'PUT' as const,
+      path: '/api/portfolio/order',
+      input: z.object({ ids: z.array(z.number().int()) }),
+      responses: {
+        200: z.array(z.custom<PortfolioImage>()),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+      },
+    },
+    delete: {
+      method: 'DELETE' as const,
+      path: '/api/portfolio/:id',
+      responses: {
+        204: z.void(),
+        401: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+  },
   messages: {
+    conversations: {
+      method: 'GET' as const,
+      path: '/api/messages/conversations',
+      responses: {
+        200: z.array(z.custom<ConversationSummary>()),
+        401: errorSchemas.unauthorized,
+      },
+    },
     list: {
       method: 'GET' as const,
       path: '/api/messages',
-      input: z.object({ otherUserId: z.coerce.number().optional() }).optional(), // If provided, gets conversation. If not, gets list of conversations.
+      // Newest page first; pass the returned nextCursor as `before` to load older messages
+      input: z.object({
+        otherUserId: z.coerce.number(),
+        before: z.coerce.number().int().positive().optional(),
+        limit: z.coerce.number().int().min(1).max(100).optional(),
+      }),
       responses: {
-        200: z.array(z.custom<typeof messages.$inferSelect>()),
+        200: z.object({
+          messages: z.array(z.custom<MessageWithAttachments>()),
+          nextCursor: z.number().nullable(),
+        }),
+        401: errorSchemas.unauthorized,
       },
     },
     send: {
       method: 'POST' as const,
       path: '/api/messages',
-      input: z.object({ receiverId: z.number(), content: z.string() }),
+      input: z.object({
+        receiverId: z.number(),
+        content: z.string(),
+        attachments: z.array(insertMessageAttachmentSchema).max(MAX_MESSAGE_ATTACHMENTS).optional(),
+      }).refine(data => data.content.trim().length > 0 || (data.attachments?.length ?? 0) > 0, {
+        message: "Message cannot be empty",
+      }),
       responses: {
-        201: z.custom<typeof messages.$inferSelect>(),
+        201: z.custom<MessageWithAttachments>(),
         401: errorSchemas.unauthorized,
       },
     },
@@ -169,12 +274,59 @@ export const api = {
         401: errorSchemas.unauthorized,
       },
     },
+    // A provider accepting the conversation shares their exact address with the client; DELETE withdraws it
+    accept: {
+      method: 'PUT' as const,
+      path: '/api/messages/conversation/:otherUserId/accept',
+      responses: {
+        204: z.void(),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    withdrawAcceptance: {
+      method: 'DELETE' as const,
+      path: '/api/messages/conversation/:otherUserId/accept',
+      responses: {
+        204: z.void(),
+        401: errorSchemas.unauthorized,
+      },
+    },
+    markRead: {
+      method: 'PUT' as const,
+      path: '/api/messages/conversation/:otherUserId/read',
+      // Marks every message from otherUserId up to and including this id as read
+      input: z.object({ upToId: z.number().int().positive() }),
+      responses: {
+        204: z.void(),
+        401: errorSchemas.unauthorized,
+      },
+    },
+    attachment: {
+      method: 'GET' as const,
+      path: '/api/messages/attachments/:id',
+      responses: {
+        401: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    unreadCount: {
+      method: 'GET' as const,
+      path: '/api/messages/unread-count',
+      responses: {
+        200: z.object({ count: z.number() }),
+        401: errorSchemas.unauthorized,
+      },
+    },
   },
   reviews: {
     create: {
       method: 'POST' as const,
       path: '/api/reviews',
-      input: insertReviewSchema.omit({ clientId: true }),
+      input: insertReviewSchema.omit({ clientId: true }).extend({
+        photos: z.array(z.string()).max(MAX_REVIEW_PHOTOS).optional(),
+      }),
       responses: {
         201: z.custom<typeof reviews.$inferSelect>(),
         401: errorSchemas.unauthorized,
@@ -191,6 +343,59 @@ export const api = {
         404: errorSchemas.notFound,
       },
     },
+    update: {
+      method: 'PUT' as const,
+      path: '/api/reviews/:id',
+      input: insertReviewSchema.omit({ providerId: true, clientId: true }).extend({
+        photos: z.array(z.string()).max(MAX_REVIEW_PHOTOS).optional(),
+      }),
+      responses: {
+        200: z.custom<typeof reviews.$inferSelect>(),
+        401: errorSchemas.unauthorized,
+        403: z.object({ message: z.string() }),
+        404: errorSchemas.notFound,
+      },
+    },
+    history: {
+      method: 'GET' as const,
+      path: '/api/reviews/:id/history',
+      responses: {
+        200: z.array(z.custom<ReviewEdit>()),
+        404: errorSchemas.notFound,
+      },
+    },
+    reply: {
+      method: 'PUT' as const,
+      path: '/api/reviews/:id/reply',
+      input: reviewReplySchema,
+      responses: {
+        200: z.custom<typeof reviews.$inferSelect>(),
+        401: errorSchemas.unauthorized,
+        403: z.object({ message: z.string() }),
+        404: errorSchemas.notFound,
+      },
+    },
+    deleteReply: {
+      method: 'DELETE' as const,
+      path: '/api/reviews/:id/reply',
+      responses: {
+        204: z.void(),
+        401: errorSchemas.unauthorized,
+        403: z.object({ message: z.string() }),
+        404: errorSchemas.notFound,
+      },
+    },
+    photoVisibility: {
+      method: 'PUT' as const,
+      path: '/api/reviews/photos/:id/visibility',
+      input: z.object({ hidden: z.boolean() }),
+      responses: {
+        200: z.custom<ReviewPhoto>(),
+        401: errorSchemas.unauthorized,
+        403: z.object({ message: z.string() }),
+        404: errorSchemas.notFound,
+      },
+    },
     checkExisting: {
       method: 'GET' as const,
       path: '/api/reviews/check/:providerId',
@@ -200,6 +405,251 @@ export const api = {
       },
     },
   },
+  bookings: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/bookings',
+      input: z.object({
+        as: z.enum(['provider', 'client']).optional(), // Omit to get both sides
+      }).optional(),
+      responses: {
+        200: z.array(z.custom<BookingWithDetails>()),
+        401: errorSchemas.unauthorized,
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/bookings',
+      input: z.object({
+        serviceId: z.number(),
+        // Required when the service has variants; add-ons are optional
+        variantId: z.number().optional(),
+        addonIds: z.array(z.number()).max(20).optional(),
+        startsAt: z.coerce.date(),
+        note: z.string().max(1000).optional(),
+      }),
+      responses: {
+        201: z.custom<typeof bookings.$inferSelect>(),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    accept: {
+      method: 'PUT' as const,
+      path: '/api/bookings/:id/accept',
+      responses: {
+        200: z.custom<typeof bookings.$inferSelect>(),
+        400: errorSchemas.validation,
+        403: z.object({ message: z.string() }),
+        404: errorSchemas.notFound,
+      },
+    },
+    decline: {
+      method: 'PUT' as const,
+      path: '/api/bookings/:id/decline',
+      responses: {
+        200: z.custom<typeof bookings.$inferSelect>(),
+        400: errorSchemas.validation,
+        403: z.object({ message: z.string() }),
+        404: errorSchemas.notFound,
+      },
+    },
+    reschedule: {
+      method: 'PUT' as const,
+      path: '/api/bookings/:id/reschedule',
+      input: z.object({ startsAt: z.coerce.date() }),
+      responses: {
+        200: z.custom<typeof bookings.$inferSelect>(),
+        400: errorSchemas.validation,
+        403: z.object({ message: z.string() }),
+        404: errorSchemas.notFound,
+      },
+    },
+    cancel: {
+      method: 'PUT' as const,
+      path: '/api/bookings/:id/cancel',
+      input: z.object({ reason: z.string().max(500).optional() }),
+      responses: {
+        200: z.custom<typeof bookings.$inferSelect>(),
+        400: errorSchemas.validation,
+        403: z.object({ message: z.string() }),
+        404: errorSchemas.notFound,
+      },
+    },
+    complete: {
+      method: 'PUT' as const,
+      path: '/api/bookings/:id/complete',
+      responses: {
+        200: z.custom<typeof bookings.$inferSelect>(),
+        400: errorSchemas.validation,
+        403: z.object({ message: z.string() }),
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  providerLocations: {
+    create: {
+      method: 'POST' as const,
+      path: '/api/provider-locations',
+      input: insertProviderLocationSchema,
+      responses: {
+        201: z.custom<typeof providerLocations.$inferSelect>(),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+      },
+    },
+    update: {
+      method: 'PUT' as const,
+      path: '/api/provider-locations/:id',
+      input: insertProviderLocationSchema,
+      responses: {
+        200: z.custom<typeof providerLocations.$inferSelect>(),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    delete: {
+      method: 'DELETE' as const,
+      path: '/api/provider-locations/:id',
+      responses: {
+        204: z.void(),
+        401: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  serviceArea: {
+    get: {
+      method: 'GET' as const,
+      path: '/api/providers/:id/service-area',
+      responses: {
+        200: z.custom<ServiceArea>(),
+        404: errorSchemas.notFound,
+      },
+    },
+    update: {
+      method: 'PUT' as const,
+      path: '/api/service-area',
+      input: serviceAreaSchema,
+      responses: {
+        200: z.custom<ServiceArea>(),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+      },
+    },
+  },
+  availability: {
+    get: {
+      method: 'GET' as const,
+      path: '/api/providers/:id/availability',
+      responses: {
+        200: z.object({
+          rules: z.array(z.custom<typeof availabilityRules.$inferSelect>()),
+          exceptions: z.array(z.custom<typeof availabilityExceptions.$inferSelect>()),
+        }),
+        404: errorSchemas.notFound,
+      },
+    },
+    updateRules: {
+      method: 'PUT' as const,
+      path: '/api/availability/rules',
+      input: z.object({ rules: z.array(insertAvailabilityRuleSchema).max(50) }),
+      responses: {
+        200: z.array(z.custom<typeof availabilityRules.$inferSelect>()),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+      },
+    },
+    createException: {
+      method: 'POST' as const,
+      path: '/api/availability/exceptions',
+      input: insertAvailabilityExceptionSchema,
+      responses: {
+        201: z.custom<typeof availabilityExceptions.$inferSelect>(),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+      },
+    },
+    deleteException: {
+      method: 'DELETE' as const,
+      path: '/api/availability/exceptions/:id',
+      responses: {
+        204: z.void(),
+        401: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    slots: {
+      method: 'GET' as const,
+      path: '/api/services/:id/slots',
+      input: z.object({
+        from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+        to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+        // The options being booked, which change how long a slot needs to be
+        variantId: z.coerce.number().optional(),
+        addonIds: z.union([z.coerce.number(), z.array(z.coerce.number())]).optional().transform(val => {
+          if (val === undefined) return undefined;
+          return Array.isArray(val) ? val : [val];
+        }),
+      }),
+      responses: {
+        // hasSchedule is false when the provider hasn't set working hours, so any time can be requested
+        200: z.object({
+          hasSchedule: z.boolean(),
+          days: z.array(z.object({
+            date: z.string(),
+            slots: z.array(z.object({ startsAt: z.coerce.date(), endsAt: z.coerce.date() })),
+          })),
+        }),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  blocks: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/blocks',
+      responses: {
+        200: z.array(z.custom<BlockedProfile>()),
+        401: errorSchemas.unauthorized,
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/blocks',
+      input: z.object({ profileId: z.number().int() }),
+      responses: {
+        201: z.object({ profileId: z.number() }),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+    delete: {
+      method: 'DELETE' as const,
+      path: '/api/blocks/:profileId',
+      responses: {
+        204: z.void(),
+        401: errorSchemas.unauthorized,
+      },
+    },
+  },
+  reports: {
+    create: {
+      method: 'POST' as const,
+      path: '/api/reports',
+      input: insertReportSchema,
+      responses: {
+        201: z.custom<Report>(),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
+  },
   notifications: {
     list: {
       method: 'GET' as const,
@@ -234,6 +684,67 @@ export const api = {
       },
     },
   },
+  // Suburb and postcode gazetteer. q may carry a trailing state and postcode, e.g. "Richmond VIC" or "Richmond 3121"
+  locations: {
+    search: {
+      method: 'GET' as const,
+      path: '/api/locations/search',
+      input: z.object({
+        q: z.string().trim().min(1).max(100),
+        state: z.enum(australianStateCodes).optional(),
+        limit: z.coerce.number().int().min(1).max(20).default(8),
+      }),
+      responses: {
+        200: z.array(z.custom<Locality>()),
+        400: errorSchemas.validation,
+      },
+    },
+    lookup: {
+      method: 'GET' as const,
+      path: '/api/locations/lookup',
+      input: z.object({
+        q: z.string().trim().min(1).max(100),
+        state: z.enum(australianStateCodes).optional(),
+      }),
+      responses: {
+        200: z.object({
+          match: z.custom<Locality>().nullable(),
+          candidates: z.array(z.custom<Locality>()),
+        }),
+        400: errorSchemas.validation,
+      },
+    },
+  },
+  // Street addresses and places, looked up through the server's geocoding provider and cached
+  geocode: {
+    search: {
+      method: 'GET' as const,
+      path: '/api/geocode/search',
+      input: z.object({
+        q: z.string().trim().min(3).max(200),
+      }),
+      responses: {
+        200: z.array(z.custom<GeocodeResult>()),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        429: errorSchemas.rateLimited,
+      },
+    },
+    reverse: {
+      method: 'GET' as const,
+      path: '/api/geocode/reverse',
+      input: z.object({
+        lat: z.coerce.number().min(-90).max(90),
+        lng: z.coerce.number().min(-180).max(180),
+      }),
+      responses: {
+        200: z.custom<GeocodeResult>().nullable(),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        429: errorSchemas.rateLimited,
+      },
+    },
+  },
 };
 
 export function buildUrl(path: string, params?: Record<string, string | number>): string {
@@ -1,7 +1,9 @@
-import { pgTable, text, serial, integer, boolean, timestamp, real, json } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, real, json, index, uniqueIndex, date } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
+import { serviceCategories, priceTypes, isSubcategoryOf } from "./services";
+import { australianStateCodes, type GeocodeResult } from "./locations";
 
 export * from "./models/auth";
 
@@ -13,6 +15,7 @@ export const profiles = pgTable("profiles", {
   usernameChangedAt: timestamp("username_changed_at"), // Track when username was last changed
   role: text("role", { enum: ["client", "provider"] }).notNull().default("client"),
   isAdmin: boolean("is_admin").notNull().default(false), // Admin access
+  hidden: boolean("hidden").notNull().default(false), // Hidden from the directory by a moderator
   bio: text("bio"),
   instagram: text("instagram"),
   profileImageUrl: text("profile_image_url"), // Profile picture URL from object storage
@@ -20,18 +23,61 @@ export const profiles = pgTable("profiles", {
   locationType: text("location_type", { enum: ["house", "apartment", "studio", "rented_space", "mobile"] }),
   latitude: real("latitude"),
   longitude: real("longitude"),
+  // Home-based providers are shown as an approximate area until they confirm a booking or accept a conversation; "exact" opts out
+  locationPrivacy: text("location_privacy", { enum: ["approximate", "exact"] }).notNull().default("approximate"),
+  locationSuburb: text("location_suburb"), // The suburb shown in place of a home-based address, resolved when it's saved
+  timezone: text("timezone"), // IANA timezone of the state the provider is in, for their working hours; resolved with locationSuburb
+  // Mobile providers: how far from their base they'll travel. Set with the rest of the service area.
+  travelRadiusKm: integer("travel_radius_km"),
   rating: real("rating").notNull().default(0),
   reviewCount: integer("review_count").notNull().default(0),
-});
+}, (table) => [index("IDX_profiles_lat_lng").on(table.latitude, table.longitude)]);
 
 export const services = pgTable("services", {
   id: serial("id").primaryKey(),
   providerId: integer("provider_id").notNull(),
   name: text("name").notNull(),
   description: text("description"),
-  price: text("price"), // E.g. "50" or "50-100" - now optional
+  category: text("category", { enum: serviceCategories }), // See shared/services.ts for the taxonomy
+  subcategory: text("subcategory"),
+  // Optional structured price in cents; priceMaxCents is only set for ranges
+  priceType: text("price_type", { enum: priceTypes }),
+  priceCents: integer("price_cents"),
+  priceMaxCents: integer("price_max_cents"),
   duration: integer("duration"), // Minutes - now optional
-});
+  isPackage: boolean("is_package").notNull().default(false), // A bundle of the provider's other services, listed in packageItems
+}, (table) => [index("IDX_services_provider_category").on(table.providerId, table.category)]);
+
+// Choices offered on a service. A variant replaces the service's price and duration (e.g. short or long hair);
+// add-ons are optional extras charged and timed on top of it (e.g. removal +$15).
+export const serviceOptions = pgTable("service_options", {
+  id: serial("id").primaryKey(),
+  serviceId: integer("service_id").notNull(),
+  kind: text("kind", { enum: ["variant", "addon"] }).notNull(),
+  name: text("name").notNull(),
+  priceCents: integer("price_cents"), // Variant: its own price; add-on: the extra charge
+  duration: integer("duration"), // Minutes. Variant: its own length; add-on: the extra time
+  position: integer("position").notNull().default(0),
+}, (table) => [index("IDX_service_options_service").on(table.serviceId)]);
+
+// The services a package bundles; the package keeps its own price and combined duration
+export const packageItems = pgTable("package_items", {
+  id: serial("id").primaryKey(),
+  packageId: integer("package_id").notNull(),
+  serviceId: integer("service_id").notNull(),
+  position: integer("position").notNull().default(0),
+}, (table) => [index("IDX_package_items_package").on(table.packageId)]);
+
+// A provider's showcase of past work, shown in the order they arrange it
+export const portfolioImages = pgTable("portfolio_images", {
+  id: serial("id").primaryKey(),
+  providerId: integer("provider_id").notNull(),
+  url: text("url").notNull(),
+  caption: text("caption"),
+  serviceId: integer("service_id"), // Optional tag linking the photo to one of the provider's services
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_portfolio_images_provider").on(table.providerId, table.position)]);
 
 export const reviews = pgTable("reviews", {
   id: serial("id").primaryKey(),
@@ -39,10 +85,48 @@ export const reviews = pgTable("reviews", {
   clientId: integer("client_id").notNull(),
   displayName: text("display_name").default("Anonymous"),
   rating: integer("rating").notNull(),
+  // Optional 1-5 scores for individual aspects of the visit
+  qualityRating: integer("quality_rating"),
+  punctualityRating: integer("punctuality_rating"),
+  hygieneRating: integer("hygiene_rating"),
+  valueRating: integer("value_rating"),
   comment: text("comment"),
+  hidden: boolean("hidden").notNull().default(false), // Hidden by a moderator; excluded from listings and ratings
+  // Set when the reviewer had a completed booking or a real conversation with the provider; null means unverified
+  verifiedVia: text("verified_via", { enum: ["booking", "conversation"] }),
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at"),
+  // The provider's public response, at most one per review
+  reply: text("reply"),
+  repliedAt: timestamp("replied_at"),
+  replyUpdatedAt: timestamp("reply_updated_at"),
 });
 
+// Photos of the finished result attached to a review. Hidden photos are only shown to the provider and admins.
+export const reviewPhotos = pgTable("review_photos", {
+  id: serial("id").primaryKey(),
+  reviewId: integer("review_id").notNull(),
+  url: text("url").notNull(),
+  position: integer("position").notNull().default(0),
+  hidden: boolean("hidden").notNull().default(false),
+  hiddenById: integer("hidden_by_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_review_photos_review").on(table.reviewId)]);
+
+// Previous versions of a review, written each time the reviewer edits it
+export const reviewEdits = pgTable("review_edits", {
+  id: serial("id").primaryKey(),
+  reviewId: integer("review_id").notNull(),
+  displayName: text("display_name"),
+  rating: integer("rating").notNull(),
+  qualityRating: integer("quality_rating"),
+  punctualityRating: integer("punctuality_rating"),
+  hygieneRating: integer("hygiene_rating"),
+  valueRating: integer("value_rating"),
+  comment: text("comment"),
+  editedAt: timestamp("edited_at").defaultNow(),
+}, (table) => [index("IDX_review_edits_review").on(table.reviewId)]);
+
 export const messages = pgTable("messages", {
   id: serial("id").primaryKey(),
   senderId: integer("sender_id").notNull(),
@@ -50,6 +134,41 @@ export const messages = pgTable("messages", {
   content: text("content").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   read: boolean("read").default(false),
+}, (table) => [
+  index("IDX_messages_sender_receiver").on(table.senderId, table.receiverId),
+  index("IDX_messages_receiver_read").on(table.receiverId, table.read),
+]);
+
+// A provider accepting a client's conversation, which shares their exact address with that client
+export const acceptedConversations = pgTable("accepted_conversations", {
+  id: serial("id").primaryKey(),
+  providerId: integer("provider_id").notNull(),
+  clientId: integer("client_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("UQ_accepted_conversations_provider_client").on(table.providerId, table.clientId)]);
+
+// Files sent with a message. The storage key is private; files are only served to the two participants.
+export const messageAttachments = pgTable("message_attachments", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id").notNull(),
+  storageKey: text("storage_key").notNull(),
+  name: text("name").notNull(),
+  contentType: text("content_type").notNull(),
+  size: integer("size"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_message_attachments_message").on(table.messageId)]);
+
+// One row per upload handed out by /api/uploads/request-url. The upload token is only accepted until
+// expiresAt and is spent once completedAt is set; the orphan cleanup walks these rows to find stored
+// objects that nothing points to any more.
+export const uploads = pgTable("uploads", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(), // Auth user who requested the upload
+  storageKey: text("storage_key").notNull().unique(), // "profiles/upload_….jpg" or "attachments/attachment_….pdf"
+  purpose: text("purpose", { enum: ["image", "attachment"] }).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const notifications = pgTable("notifications", {
@@ -63,11 +182,152 @@ export const notifications = pgTable("notifications", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const bookings = pgTable("bookings", {
+  id: serial("id").primaryKey(),
+  serviceId: integer("service_id").notNull(),
+  providerId: integer("provider_id").notNull(),
+  clientId: integer("client_id").notNull(),
+  status: text("status", { enum: ["pending", "accepted", "declined", "cancelled", "completed"] }).notNull().default("pending"),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  note: text("note"),
+  // The options picked when booking, copied by name so later changes to the service don't alter the booking
+  variantName: text("variant_name"),
+  addonNames: text("addon_names").array().notNull().default([]),
+  requestedById: integer("requested_by_id").notNull(), // Whoever proposed the current time; the other party accepts or declines
+  cancellationReason: text("cancellation_reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Weekly recurring working hours. Times are "HH:mm" wall-clock in the provider's timezone.
+export const availabilityRules = pgTable("availability_rules", {
+  id: serial("id").primaryKey(),
+  providerId: integer("provider_id").notNull(),
+  dayOfWeek: integer("day_of_week").notNull(), // 0 = Sunday
+  startTime: text("start_time").notNull(),
+  endTime: text("end_time").notNull(),
+});
+
+// One-off changes to the weekly hours. No times means closed for the whole day.
+export const availabilityExceptions = pgTable("availability_exceptions", {
+  id: serial("id").primaryKey(),
+  providerId: integer("provider_id").notNull(),
+  date: date("date", { mode: "string" }).notNull(),
+  startTime: text("start_time"),
+  endTime: text("end_time"),
+  reason: text("reason"),
+});
+
+// Places a provider also works from besides the location on their profile, e.g. a chair rented on weekends
+export const providerLocations = pgTable("provider_locations", {
+  id: serial("id").primaryKey(),
+  providerId: integer("provider_id").notNull(),
+  label: text("label"), // e.g. "Weekend chair"
+  locationType: text("location_type", { enum: ["house", "apartment", "studio", "rented_space"] }).notNull(),
+  location: text("location").notNull(), // Human readable address
+  latitude: real("latitude").notNull(),
+  longitude: real("longitude").notNull(),
+  hours: text("hours"), // When they're there, as the provider writes it, e.g. "Sat–Sun 10am–4pm"
+  locationSuburb: text("location_suburb"), // As on profiles
+}, (table) => [
+  index("IDX_provider_locations_provider").on(table.providerId),
+  index("IDX_provider_locations_lat_lng").on(table.latitude, table.longitude),
+]);
+
+// Suburbs and postcodes a mobile provider travels to, on top of (or instead of) their travel radius
+export const serviceAreaPlaces = pgTable("service_area_places", {
+  id: serial("id").primaryKey(),
+  providerId: integer("provider_id").notNull(),
+  name: text("name"), // A suburb; null covers every suburb with the postcode
+  state: text("state", { enum: australianStateCodes }).notNull(),
+  postcode: text("postcode").notNull(),
+}, (table) => [
+  index("IDX_service_area_places_provider").on(table.providerId),
+  index("IDX_service_area_places_postcode").on(table.postcode),
+]);
+
+// A mobile provider's travel fee tiers: feeCents applies to clients up to upToKm from their base
+export const travelFees = pgTable("travel_fees", {
+  id: serial("id").primaryKey(),
+  providerId: integer("provider_id").notNull(),
+  upToKm: integer("up_to_km").notNull(),
+  feeCents: integer("fee_cents").notNull(),
+});
+
+// A block hides the two profiles from each other and stops messages, reviews and bookings between them
+export const blocks = pgTable("blocks", {
+  id: serial("id").primaryKey(),
+  blockerId: integer("blocker_id").notNull(),
+  blockedId: integer("blocked_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("UQ_blocks_blocker_blocked").on(table.blockerId, table.blockedId),
+  index("IDX_blocks_blocked").on(table.blockedId),
+]);
+
+// User reports waiting for an admin in the moderation queue.
+// An "image" report targets the profile whose photo was flagged.
+export const reports = pgTable("reports", {
+  id: serial("id").primaryKey(),
+  reporterId: integer("reporter_id").notNull(),
+  targetType: text("target_type", { enum: ["message", "profile", "review", "image"] }).notNull(),
+  targetId: integer("target_id").notNull(),
+  imageUrl: text("image_url"), // Image reports: the profile picture shown when it was reported
+  reason: text("reason", { enum: ["spam", "harassment", "inappropriate", "fake", "other"] }).notNull(),
+  details: text("details"),
+  status: text("status", { enum: ["pending", "resolved", "dismissed"] }).notNull().default("pending"),
+  createdAt: timestamp("created_at").defaultNow(),
+  resolvedAt: timestamp("resolved_at"),
+  resolvedById: integer("resolved_by_id"),
+  decisionId: integer("decision_id"),
+}, (table) => [
+  index("IDX_reports_status").on(table.status),
+  index("IDX_reports_target").on(table.targetType, table.targetId),
+]);
+
+// An admin's ruling on reported content. One decision closes every pending report for the same target.
+export const moderationDecisions = pgTable("moderation_decisions", {
+  id: serial("id").primaryKey(),
+  adminId: integer("admin_id").notNull(),
+  targetType: text("target_type", { enum: ["message", "profile", "review", "image"] }).notNull(),
+  targetId: integer("target_id").notNull(),
+  action: text("action", { enum: ["approve", "hide", "delete"] }).notNull(),
+  reason: text("reason").notNull(),
+  affectedProfileId: integer("affected_profile_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const pageVisits = pgTable("page_visits", {
   id: serial("id").primaryKey(),
   visitedAt: timestamp("visited_at").defaultNow(),
 });
 
+// Gazetteer of Australian suburbs and postcodes, replaced wholesale by `npm run db:load-localities`.
+// A suburb name can appear under several postcodes and states, e.g. Richmond NSW 2753 and Richmond VIC 3121.
+export const localities = pgTable("localities", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  state: text("state", { enum: australianStateCodes }).notNull(),
+  postcode: text("postcode").notNull(),
+  latitude: real("latitude").notNull(),
+  longitude: real("longitude").notNull(),
+}, (table) => [
+  uniqueIndex("UQ_localities_name_state_postcode").on(table.name, table.state, table.postcode),
+  index("IDX_localities_postcode").on(table.postcode),
+]);
+
+// Geocoder answers keyed by normalised query ("search") or rounded coordinates ("reverse"),
+// so repeated lookups don't go back to the upstream provider
+export const geocodeCache = pgTable("geocode_cache", {
+  id: serial("id").primaryKey(),
+  kind: text("kind", { enum: ["search", "reverse"] }).notNull(),
+  query: text("query").notNull(),
+  provider: text("provider").notNull(),
+  results: json("results").$type<GeocodeResult[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [uniqueIndex("UQ_geocode_cache_kind_query").on(table.kind, table.query)]);
+
 // Relations
 export const profilesRelations = relations(profiles, ({ many }) => ({
   services: many(services),
@@ -75,13 +335,23 @@ export const profilesRelations = relations(profiles, ({ many }) => ({
   reviewsWritten: many(reviews, { relationName: "reviewsWritten" }),
   sentMessages: many(messages, { relationName: "sentMessages" }),
   receivedMessages: many(messages, { relationName: "receivedMessages" }),
+  providerBookings: many(bookings, { relationName: "providerBookings" }),
+  clientBookings: many(bookings, { relationName: "clientBookings" }),
 }));
 
-export const servicesRelations = relations(services, ({ one }) => ({
+export const servicesRelations = relations(services, ({ one, many }) => ({
   provider: one(profiles, {
     fields: [services.providerId],
     references: [profiles.id],
   }),
+  options: many(serviceOptions),
+}));
+
+export const serviceOptionsRelations = relations(serviceOptions, ({ one }) => ({
+  service: one(services, {
+    fields: [serviceOptions.serviceId],
+    references: [services.id],
+  }),
 }));
 
 export const reviewsRelations = relations(reviews, ({ one }) => ({
@@ -97,7 +367,7 @@ export const reviewsRelations = relations(reviews, ({ one }) => ({
   }),
 }));
 
-export const messagesRelations = relations(messages, ({ one }) => ({
+export const messagesRelations = relations(messages, ({ one, many }) => ({
   sender: one(profiles, {
     fields: [messages.senderId],
     references: [profiles.id],
@@ -108,22 +378,218 @@ export const messagesRelations = relations(messages, ({ one }) => ({
     references: [profiles.id],
     relationName: "receivedMessages",
   }),
+  attachments: many(messageAttachments),
+}));
+
+export const messageAttachmentsRelations = relations(messageAttachments, ({ one }) => ({
+  message: one(messages, {
+    fields: [messageAttachments.messageId],
+    references: [messages.id],
+  }),
+}));
+
+export const bookingsRelations = relations(bookings, ({ one }) => ({
+  service: one(services, {
+    fields: [bookings.serviceId],
+    references: [services.id],
+  }),
+  provider: one(profiles, {
+    fields: [bookings.providerId],
+    references: [profiles.id],
+    relationName: "providerBookings",
+  }),
+  client: one(profiles, {
+    fields: [bookings.clientId],
+    references: [profiles.id],
+    relationName: "clientBookings",
+  }),
 }));
 
 // Zod Schemas
-export const insertProfileSchema = createInsertSchema(profiles).omit({ id: true, rating: true, reviewCount: true, isAdmin: true });
-export const insertServiceSchema = createInsertSchema(services).omit({ id: true, providerId: true });
-export const insertReviewSchema = createInsertSchema(reviews).omit({ id: true, createdAt: true });
+export const insertProfileSchema = createInsertSchema(profiles).omit({ id: true, rating: true, reviewCount: true, isAdmin: true, hidden: true, travelRadiusKm: true, locationSuburb: true, timezone: true });
+const priceCents = z.number().int().min(0).max(10_000_000);
+const serviceFieldsSchema = createInsertSchema(services, {
+  name: z.string().trim().min(1, "Service name is required").max(100),
+  category: z.enum(serviceCategories).nullish(),
+  priceType: z.enum(priceTypes).nullish(),
+  priceCents: priceCents.nullish(),
+  priceMaxCents: priceCents.nullish(),
+  duration: z.number().int().positive().max(24 * 60).nullish(),
+}).omit({ id: true, providerId: true });
+const refineService = (service: z.infer<typeof serviceFieldsSchema>, ctx: z.RefinementCtx) => {
+  if (service.subcategory && (!service.category || !isSubcategoryOf(service.category, service.subcategory))) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["subcategory"], message: "Subcategory doesn't belong to the category" });
+  }
+  if (!!service.priceType !== (service.priceCents != null)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["priceCents"], message: "A price needs both a type and an amount" });
+  }
+  if (service.priceType === "range"
+    ? service.priceMaxCents == null || service.priceCents == null || service.priceMaxCents <= service.priceCents
+    : service.priceMaxCents != null) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["priceMaxCents"], message: "Only a price range has a maximum, and it must be above the minimum" });
+  }
+};
+export const insertServiceSchema = serviceFieldsSchema.superRefine(refineService);
+export const MAX_SERVICE_OPTIONS = 20;
+export const MAX_PACKAGE_ITEMS = 10;
+export const insertServiceOptionSchema = createInsertSchema(serviceOptions, {
+  name: z.string().trim().min(1, "Option name is required").max(100),
+  priceCents: priceCents.nullish(),
+  duration: z.number().int().min(0).max(24 * 60).nullish(),
+}).omit({ id: true, serviceId: true, position: true });
+// A service together with its variants and add-ons and, for packages, the services it bundles, in display order
+export const serviceWithOptionsSchema = serviceFieldsSchema.extend({
+  options: z.array(insertServiceOptionSchema).max(MAX_SERVICE_OPTIONS).default([]),
+  includedServiceIds: z.array(z.number().int()).max(MAX_PACKAGE_ITEMS).default([]),
+}).superRefine((service, ctx) => {
+  refineService(service, ctx);
+  if (service.isPackage ? service.includedServiceIds.length < 2 : service.includedServiceIds.length > 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["includedServiceIds"], message: "A package needs at least two services, and only packages can include them" });
+  }
+  if (new Set(service.includedServiceIds).size !== service.includedServiceIds.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["includedServiceIds"], message: "A service can only be included once" });
+  }
+  if (service.options.some((option) => option.kind === "variant") && service.options.filter((option) => option.kind === "variant").length < 2) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["options"], message: "Offer at least two variants, or none" });
+  }
+});
+export const MAX_PORTFOLIO_IMAGES = 24;
+export const insertPortfolioImageSchema = createInsertSchema(portfolioImages, {
+  caption: z.string().trim().max(300).nullish(),
+}).omit({ id: true, providerId: true, position: true, createdAt: true });
+const starRating = z.number().int().min(1).max(5);
+export const insertReviewSchema = createInsertSchema(reviews, {
+  rating: starRating,
+  qualityRating: starRating.nullish(),
+  punctualityRating: starRating.nullish(),
+  hygieneRating: starRating.nullish(),
+  valueRating: starRating.nullish(),
+  comment: z.string().max(2000).nullish(),
+}).omit({ id: true, hidden: true, verifiedVia: true, createdAt: true, updatedAt: true, reply: true, repliedAt: true, replyUpdatedAt: true });
+export const MAX_REVIEW_PHOTOS = 4;
+export const reviewReplySchema = z.object({ reply: z.string().trim().min(1, "Reply can't be empty").max(1000) });
+export const insertReportSchema = createInsertSchema(reports, {
+  details: z.string().max(1000).nullish(),
+}).omit({ id: true, reporterId: true, imageUrl: true, status: true, createdAt: true, resolvedAt: true, resolvedById: true, decisionId: true });
+export const insertModerationDecisionSchema = createInsertSchema(moderationDecisions, {
+  reason: z.string().trim().min(1, "A reason is required").max(1000),
+}).pick({ action: true, reason: true });
 export const insertMessageSchema = createInsertSchema(messages).omit({ id: true, createdAt: true, read: true });
+export const MAX_MESSAGE_ATTACHMENTS = 5;
+export const attachmentContentTypes = ["image/jpeg", "image/png", "image/gif", "image/webp", "application/pdf"] as const;
+export const insertMessageAttachmentSchema = createInsertSchema(messageAttachments, {
+  contentType: z.enum(attachmentContentTypes),
+  storageKey: z.string().regex(/^attachments\/attachment_\w+\.[a-z0-9]+$/i, "Invalid attachment"),
+  size: z.number().int().nonnegative().nullish(),
+}).omit({ id: true, messageId: true, createdAt: true });
 export const insertNotificationSchema = createInsertSchema(notifications).omit({ id: true, createdAt: true, read: true });
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:mm");
+export const insertAvailabilityRuleSchema = createInsertSchema(availabilityRules, {
+  dayOfWeek: z.number().int().min(0).max(6),
+  startTime: timeOfDay,
+  endTime: timeOfDay,
+}).omit({ id: true, providerId: true });
+export const insertAvailabilityExceptionSchema = createInsertSchema(availabilityExceptions, {
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD"),
+  startTime: timeOfDay.nullish(),
+  endTime: timeOfDay.nullish(),
+}).omit({ id: true, providerId: true });
+export const MAX_PROVIDER_LOCATIONS = 5;
+export const insertProviderLocationSchema = createInsertSchema(providerLocations, {
+  label: z.string().trim().max(60).nullish(),
+  location: z.string().trim().min(1, "Choose an address").max(300),
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  hours: z.string().trim().max(100).nullish(),
+}).omit({ id: true, providerId: true, locationSuburb: true });
+export const MAX_TRAVEL_RADIUS_KM = 200;
+export const MAX_SERVICE_AREA_PLACES = 100;
+export const MAX_TRAVEL_FEE_TIERS = 10;
+export const insertServiceAreaPlaceSchema = createInsertSchema(serviceAreaPlaces, {
+  name: z.string().trim().min(1).max(100).nullish(),
+  postcode: z.string().regex(/^\d{4}$/, "Use a 4-digit postcode"),
+}).omit({ id: true, providerId: true });
+export const insertTravelFeeSchema = createInsertSchema(travelFees, {
+  upToKm: z.number().int().min(1).max(MAX_TRAVEL_RADIUS_KM),
+  feeCents: priceCents,
+}).omit({ id: true, providerId: true });
+export const serviceAreaSchema = z.object({
+  travelRadiusKm: z.number().int().min(1).max(MAX_TRAVEL_RADIUS_KM).nullable(),
+  places: z.array(insertServiceAreaPlaceSchema).max(MAX_SERVICE_AREA_PLACES),
+  travelFees: z.array(insertTravelFeeSchema).max(MAX_TRAVEL_FEE_TIERS),
+}).superRefine((area, ctx) => {
+  if (new Set(area.travelFees.map((fee) => fee.upToKm)).size !== area.travelFees.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["travelFees"], message: "Each travel fee needs a different distance" });
+  }
+  const places = area.places.map((place) => `${place.name ?? ""}|${place.state}|${place.postcode}`);
+  if (new Set(places).size !== places.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["places"], message: "A suburb or postcode can only be added once" });
+  }
+});
+export const insertBookingSchema = createInsertSchema(bookings, {
+  addonNames: z.array(z.string()).optional(),
+}).omit({ id: true, createdAt: true, updatedAt: true, status: true, cancellationReason: true });
 
 export type Profile = typeof profiles.$inferSelect;
 export type InsertProfile = z.infer<typeof insertProfileSchema>;
 export type Service = typeof services.$inferSelect;
 export type InsertService = z.infer<typeof insertServiceSchema>;
+export type ServiceOption = typeof serviceOptions.$inferSelect;
+export type InsertServiceOption = z.infer<typeof insertServiceOptionSchema>;
+export type InsertServiceWithOptions = z.input<typeof serviceWithOptionsSchema>;
+export type ServiceWithOptions = Service & { options: ServiceOption[]; includedServiceIds: number[] };
+export type PortfolioImage = typeof portfolioImages.$inferSelect;
+export type InsertPortfolioImage = z.infer<typeof insertPortfolioImageSchema>;
 export type Review = typeof reviews.$inferSelect;
 export type InsertReview = z.infer<typeof insertReviewSchema>;
+export type ReviewEdit = typeof reviewEdits.$inferSelect;
+export type ReviewPhoto = typeof reviewPhotos.$inferSelect;
+export type ReviewWithPhotos = Review & { photos: ReviewPhoto[] };
 export type Message = typeof messages.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
+export type MessageAttachment = typeof messageAttachments.$inferSelect;
+export type Upload = typeof uploads.$inferSelect;
+export type InsertMessageAttachment = z.infer<typeof insertMessageAttachmentSchema>;
+export type MessageWithAttachments = Message & { attachments: MessageAttachment[] };
 export type Notification = typeof notifications.$inferSelect;
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type AvailabilityRule = typeof availabilityRules.$inferSelect;
+export type InsertAvailabilityRule = z.infer<typeof insertAvailabilityRuleSchema>;
+export type AvailabilityException = typeof availabilityExceptions.$inferSelect;
+export type InsertAvailabilityException = z.infer<typeof insertAvailabilityExceptionSchema>;
+export type Booking = typeof bookings.$inferSelect;
+export type InsertBooking = z.infer<typeof insertBookingSchema>;
+export type Block = typeof blocks.$inferSelect;
+export type Report = typeof reports.$inferSelect;
+export type InsertReport = z.infer<typeof insertReportSchema>;
+export type ModerationDecision = typeof moderationDecisions.$inferSelect;
+export type InsertModerationDecision = z.infer<typeof insertModerationDecisionSchema>;
+export type Locality = typeof localities.$inferSelect;
+export type ProviderLocation = typeof providerLocations.$inferSelect;
+export type InsertProviderLocation = z.infer<typeof insertProviderLocationSchema>;
+// As others see it: home-based locations can be shown by area, like the profile's own location
+export type PublicProviderLocation = ProviderLocation & { locationApproximate: boolean };
+export type ServiceAreaPlace = typeof serviceAreaPlaces.$inferSelect;
+export type InsertServiceAreaPlace = z.infer<typeof insertServiceAreaPlaceSchema>;
+export type TravelFee = typeof travelFees.$inferSelect;
+export type InsertTravelFee = z.infer<typeof insertTravelFeeSchema>;
+// Everything a mobile provider sets about where they travel
+export type ServiceArea = z.infer<typeof serviceAreaSchema>;
+export type GeocodeCacheEntry = typeof geocodeCache.$inferSelect;
+export type BlockedProfile = Block & { blocked: Pick<Profile, "id" | "username" | "profileImageUrl"> | null };
+export type ReportWithDetails = Report & {
+  reporter: Pick<Profile, "id" | "username"> | null;
+  // The reported profile, the sender of the reported message or the author of the reported review
+  subject: Pick<Profile, "id" | "username" | "profileImageUrl"> | null;
+  message: Pick<Message, "id" | "content" | "senderId" | "receiverId" | "createdAt"> | null;
+  review: Pick<Review, "id" | "providerId" | "clientId" | "rating" | "comment" | "hidden" | "createdAt"> | null;
+  decision: ModerationDecision | null;
+};
+export type BookingWithDetails = Booking & { service: Service | null; provider: Pick<Profile, "id" | "username" | "profileImageUrl"> | null; client: Pick<Profile, "id" | "username" | "profileImageUrl"> | null };
+export type ConversationSummary = {
+  counterpartId: number;
+  counterpart: Pick<Profile, "id" | "username" | "profileImageUrl"> | null;
+  lastMessage: Message;
+  unreadCount: number;
+  accepted: boolean; // The current profile, as a provider, has accepted the conversation and shared their address
+};
@@ -0,0 +1,139 @@
+// Service catalogue: the category → subcategory taxonomy every service is filed under, and how prices are modelled
+
+export const serviceTaxonomy = {
+  makeup: {
+    label: "Makeup",
+    subcategories: { bridal: "Bridal", event: "Special event", editorial: "Editorial & photoshoot", lesson: "Makeup lesson" },
+  },
+  nails: {
+    label: "Nails",
+    subcategories: { manicure: "Manicure", pedicure: "Pedicure", gel: "Gel & shellac", acrylic: "Acrylics & extensions", nail_art: "Nail art" },
+  },
+  hair: {
+    label: "Hair",
+    subcategories: { cut: "Cut", colour: "Colour", styling: "Styling & blow-dry", braids: "Braids", extensions: "Extensions" },
+  },
+  lashes: {
+    label: "Lashes",
+    subcategories: { classic: "Classic extensions", volume: "Volume extensions", lift: "Lash lift", tint: "Lash tint" },
+  },
+  brows: {
+    label: "Brows",
+    subcategories: { shaping: "Shaping & waxing", lamination: "Lamination", tint: "Brow tint", cosmetic_tattoo: "Cosmetic tattoo" },
+  },
+  skincare: {
+    label: "Skincare",
+    subcategories: { facial: "Facial", peel: "Peel", waxing: "Body waxing", spray_tan: "Spray tan" },
+  },
+} as const;
+
+export type ServiceCategory = keyof typeof serviceTaxonomy;
+export const serviceCategories = Object.keys(serviceTaxonomy) as [ServiceCategory, ...ServiceCategory[]];
+
+export function subcategoriesOf(category: ServiceCategory): { value: string; label: string }[] {
+  return Object.entries(serviceTaxonomy[category].subcategories).map(([value, label]) => ({ value, label }));
+}
+
+export function isSubcategoryOf(category: ServiceCategory, subcategory: string) {
+  return Object.prototype.hasOwnProperty.call(serviceTaxonomy[category].subcategories, subcategory);
+}
+
+// "Makeup › Bridal", or just the category when there's no subcategory
+export function serviceCategoryLabel(category: ServiceCategory | null, subcategory?: string | null): string | null {
+  if (!category) return null;
+  const { label, subcategories } = serviceTaxonomy[category];
+  const subLabel = subcategory && isSubcategoryOf(category, subcategory)
+    ? subcategories[subcategory as keyof typeof subcategories]
+    : null;
+  return subLabel ? `${label} › ${subLabel}` : label;
+}
+
+// fixed: exactly priceCents; from: priceCents or more; range: priceCents to priceMaxCents; hourly: priceCents per hour
+export const priceTypes = ["fixed", "from", "range", "hourly"] as const;
+export type PriceType = typeof priceTypes[number];
+
+export const priceTypeLabels: Record<PriceType, string> = {
+  fixed: "Fixed price",
+  from: "Starting from",
+  range: "Price range",
+  hourly: "Per hour",
+};
+
+// Prices are whole cents; dollars are only shown with cents when there are some
+export function formatCents(cents: number) {
+  const dollars = cents / 100;
+  return `$${Number.isInteger(dollars) ? dollars : dollars.toFixed(2)}`;
+}
+
+export interface ServicePrice {
+  priceType: PriceType | null;
+  priceCents: number | null;
+  priceMaxCents: number | null;
+  // Flat add-on charges on top of an hourly rate, which can't be folded into the rate itself
+  extrasCents?: number;
+}
+
+export function formatServicePrice({ priceType, priceCents, priceMaxCents, extrasCents }: ServicePrice): string | null {
+  if (!priceType || priceCents === null) return null;
+  switch (priceType) {
+    case "fixed":
+      return formatCents(priceCents);
+    case "from":
+      return `From ${formatCents(priceCents)}`;
+    case "range":
+      return priceMaxCents !== null ? `${formatCents(priceCents)}–${formatCents(priceMaxCents)}` : `From ${formatCents(priceCents)}`;
+    case "hourly":
+      return extrasCents ? `${formatCents(priceCents)}/hr + ${formatCents(extrasCents)}` : `${formatCents(priceCents)}/hr`;
+  }
+}
+
+// "49.5" -> 4950. Null for blanks and anything that isn't a non-negative amount.
+export function dollarsToCents(value: string): number | null {
+  const trimmed = value.trim().replace(/^\$/, "").replace(/,/g, "");
+  if (!/^\d+(\.\d{1,2})?$/.test(trimmed)) return null;
+  return Math.round(parseFloat(trimmed) * 100);
+}
+
+export function centsToDollars(cents: number | null) {
+  return cents === null ? "" : String(cents / 100);
+}
+
+// The price and length of a variant or add-on; either may be left unset
+export interface OptionQuote {
+  priceCents: number | null;
+  duration: number | null;
+}
+
+// "+$15" for an add-on, "$120" for a variant
+export function formatOptionPrice(kind: "variant" | "addon", priceCents: number | null): string | null {
+  if (priceCents === null) return null;
+  return kind === "addon" ? `+${formatCents(priceCents)}` : formatCents(priceCents);
+}
+
+// The price of a service with the chosen options: a priced variant sets a fixed price, and add-ons are added
+// to both ends of the price, or kept apart as flat extras on an hourly rate. Unpriced services stay unpriced.
+export function quoteServicePrice(service: ServicePrice, variant: OptionQuote | null, addons: OptionQuote[]): ServicePrice {
+  const base: ServicePrice = variant?.priceCents != null
+    ? { priceType: "fixed", priceCents: variant.priceCents, priceMaxCents: null }
+    : { priceType: service.priceType, priceCents: service.priceCents, priceMaxCents: service.priceMaxCents };
+  if (!base.priceType || base.priceCents === null) return base;
+  const extra = addons.reduce((sum, addon) => sum + (addon.priceCents ?? 0), 0);
+  if (base.priceType === "hourly") return extra > 0 ? { ...base, extrasCents: extra } : base;
+  return {
+    priceType: base.priceType,
+    priceCents: base.priceCents + extra,
+    priceMaxCents: base.priceMaxCents === null ? null : base.priceMaxCents + extra,
+  };
+}
+
+// Minutes for a service with the chosen options, or null when the service's own length isn't known
+export function quoteServiceDuration(duration: number | null, variant: OptionQuote | null, addons: OptionQuote[]): number | null {
+  const base = variant?.duration ?? duration;
+  if (base === null) return null;
+  return addons.reduce((sum, addon) => sum + (addon.duration ?? 0), base);
+}
+
+// "Full glam (Long hair) + Lash removal"
+export function describeServiceSelection(serviceName: string, variantName: string | null, addonNames: string[]) {
+  return [variantName ? `${serviceName} (${variantName})` : serviceName, ...addonNames].join(" + ");
+}